@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN "resumeCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "executions_status_heartbeatAt_idx" ON "executions"("status", "heartbeatAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "waitUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "executions_status_waitUntil_idx" ON "executions"("status", "waitUntil");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "actions" ADD COLUMN     "errorActionId" INTEGER,
+ADD COLUMN     "onError" TEXT NOT NULL DEFAULT 'fail';
+
+-- CreateIndex
+CREATE INDEX "actions_errorActionId_idx" ON "actions"("errorActionId");
+
+-- AddForeignKey
+ALTER TABLE "actions" ADD CONSTRAINT "actions_errorActionId_fkey" FOREIGN KEY ("errorActionId") REFERENCES "actions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "errorWorkflowId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "workflows_errorWorkflowId_idx" ON "workflows"("errorWorkflowId");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_errorWorkflowId_fkey" FOREIGN KEY ("errorWorkflowId") REFERENCES "workflows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
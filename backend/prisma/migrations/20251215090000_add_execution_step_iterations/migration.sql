@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "execution_steps" ADD COLUMN     "iteration" INTEGER,
+ADD COLUMN     "iterationPath" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "execution_steps_executionId_actionId_iterationPath_idx" ON "execution_steps"("executionId", "actionId", "iterationPath");
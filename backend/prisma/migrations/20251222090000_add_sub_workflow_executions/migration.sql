@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "parentExecutionId" INTEGER,
+ADD COLUMN     "parentStepId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "executions_parentExecutionId_idx" ON "executions"("parentExecutionId");
+
+-- CreateIndex
+CREATE INDEX "executions_parentStepId_idx" ON "executions"("parentStepId");
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_parentExecutionId_fkey" FOREIGN KEY ("parentExecutionId") REFERENCES "executions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_parentStepId_fkey" FOREIGN KEY ("parentStepId") REFERENCES "execution_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
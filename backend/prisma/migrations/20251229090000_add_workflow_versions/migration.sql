@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "hasUnpublishedChanges" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "publishedVersionId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "actions" ADD COLUMN     "workflowVersionId" INTEGER,
+ALTER COLUMN "workflowId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "workflowVersionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "workflow_versions" (
+    "id" SERIAL NOT NULL,
+    "workflowId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "trigger" JSONB,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_versions_workflowId_version_key" ON "workflow_versions"("workflowId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflows_publishedVersionId_key" ON "workflows"("publishedVersionId");
+
+-- CreateIndex
+CREATE INDEX "actions_workflowVersionId_idx" ON "actions"("workflowVersionId");
+
+-- CreateIndex
+CREATE INDEX "executions_workflowVersionId_idx" ON "executions"("workflowVersionId");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_publishedVersionId_fkey" FOREIGN KEY ("publishedVersionId") REFERENCES "workflow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "actions" ADD CONSTRAINT "actions_workflowVersionId_fkey" FOREIGN KEY ("workflowVersionId") REFERENCES "workflow_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_workflowVersionId_fkey" FOREIGN KEY ("workflowVersionId") REFERENCES "workflow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "workflow_templates" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT,
+    "userId" INTEGER,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT,
+    "definition" JSONB NOT NULL,
+    "parameters" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_templates_key_key" ON "workflow_templates"("key");
+
+-- CreateIndex
+CREATE INDEX "workflow_templates_userId_idx" ON "workflow_templates"("userId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_templates" ADD CONSTRAINT "workflow_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mockOutputs" JSONB;
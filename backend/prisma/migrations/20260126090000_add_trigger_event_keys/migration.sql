@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "duplicatesSuppressed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastDuplicateAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "trigger_event_keys" (
+    "id" SERIAL NOT NULL,
+    "workflowId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "executionId" INTEGER,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "lastDuplicateAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trigger_event_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trigger_event_keys_workflowId_key_key" ON "trigger_event_keys"("workflowId", "key");
+
+-- CreateIndex
+CREATE INDEX "trigger_event_keys_workflowId_expiresAt_idx" ON "trigger_event_keys"("workflowId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "trigger_event_keys_executionId_idx" ON "trigger_event_keys"("executionId");
+
+-- AddForeignKey
+ALTER TABLE "trigger_event_keys" ADD CONSTRAINT "trigger_event_keys_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trigger_event_keys" ADD CONSTRAINT "trigger_event_keys_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -168,6 +168,19 @@ const swaggerOptions: swaggerJsdoc.Options = {
             retryConfig: {
               $ref: '#/components/schemas/RetryConfig',
             },
+            onError: {
+              type: 'string',
+              enum: ['fail', 'continue', 'branch'],
+              default: 'fail',
+              description:
+                'What to do when the action fails: fail the execution, continue with the next action, or branch to the error handler',
+            },
+            errorActionOrder: {
+              type: 'integer',
+              example: 3,
+              description:
+                'Order index of the error-handler action (required when onError is "branch")',
+            },
           },
         },
         CreateTrigger: {
@@ -203,6 +216,13 @@ const swaggerOptions: swaggerJsdoc.Options = {
               example: true,
               default: true,
             },
+            errorWorkflowId: {
+              type: 'integer',
+              nullable: true,
+              example: 7,
+              description:
+                'Workflow triggered with the failure details whenever an execution of this workflow fails',
+            },
             trigger: {
               $ref: '#/components/schemas/CreateTrigger',
             },
@@ -266,6 +286,16 @@ const swaggerOptions: swaggerJsdoc.Options = {
               type: 'object',
               additionalProperties: true,
             },
+            onError: {
+              type: 'string',
+              enum: ['fail', 'continue', 'branch'],
+              example: 'fail',
+            },
+            errorActionId: {
+              type: 'integer',
+              nullable: true,
+              example: null,
+            },
           },
         },
         WorkflowResponse: {
@@ -291,6 +321,40 @@ const swaggerOptions: swaggerJsdoc.Options = {
               type: 'boolean',
               example: true,
             },
+            errorWorkflowId: {
+              type: 'integer',
+              nullable: true,
+              example: null,
+            },
+            publishedVersionId: {
+              type: 'integer',
+              nullable: true,
+              example: 3,
+              description:
+                'Version that executions run; null until the workflow is first published',
+            },
+            publishedVersion: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'integer', example: 3 },
+                version: { type: 'integer', example: 2 },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            hasUnpublishedChanges: {
+              type: 'boolean',
+              example: false,
+              description:
+                'Whether the draft differs from the published version',
+            },
+            pinnedTriggerData: {
+              type: 'object',
+              nullable: true,
+              example: { orderId: 42 },
+              description:
+                'Sample trigger payload used as the default test input (unless the test uses the last execution)',
+            },
             trigger: {
               $ref: '#/components/schemas/TriggerResponse',
             },
@@ -310,6 +374,195 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
           },
         },
+        WorkflowVersionResponse: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              example: 3,
+            },
+            workflowId: {
+              type: 'integer',
+              example: 1,
+            },
+            version: {
+              type: 'integer',
+              example: 2,
+            },
+            name: {
+              type: 'string',
+              example: 'My Workflow',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            trigger: {
+              type: 'object',
+              nullable: true,
+              description:
+                'Trigger type and config when the version was published',
+              properties: {
+                type: { type: 'string', example: 'webhook' },
+                config: { type: 'object', additionalProperties: true },
+              },
+            },
+            note: {
+              type: 'string',
+              nullable: true,
+              example: 'Retry the HTTP call on 5xx',
+            },
+            published: {
+              type: 'boolean',
+              description: 'Whether executions currently run this version',
+            },
+            actions: {
+              type: 'array',
+              description: 'Only on the single version endpoint',
+              items: {
+                $ref: '#/components/schemas/ActionResponse',
+              },
+            },
+            actionCount: {
+              type: 'integer',
+              example: 4,
+            },
+            executionCount: {
+              type: 'integer',
+              example: 12,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        WorkflowTemplateResponse: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'integer',
+              example: 1,
+            },
+            key: {
+              type: 'string',
+              nullable: true,
+              example: 'daily-health-check',
+              description: 'Identifier of a built-in template',
+            },
+            builtIn: {
+              type: 'boolean',
+              example: true,
+            },
+            name: {
+              type: 'string',
+              example: 'Daily health check with email alert',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            category: {
+              type: 'string',
+              nullable: true,
+              example: 'Monitoring',
+            },
+            parameters: {
+              type: 'array',
+              description:
+                'Values asked for on instantiation; [[key]] placeholders in the definition are replaced with them',
+              items: {
+                type: 'object',
+                properties: {
+                  key: { type: 'string', example: 'url' },
+                  label: { type: 'string', example: 'URL to check' },
+                  description: { type: 'string' },
+                  type: {
+                    type: 'string',
+                    enum: ['string', 'number', 'email', 'url'],
+                  },
+                  default: {},
+                  required: { type: 'boolean', default: true },
+                },
+              },
+            },
+            definition: {
+              type: 'object',
+              description:
+                'Workflow definition, in the format of GET /workflows/{id}/export',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        VersionActionRef: {
+          type: 'object',
+          properties: {
+            order: { type: 'integer', example: 2 },
+            name: { type: 'string', example: 'Archive' },
+          },
+        },
+        WorkflowVersionDiff: {
+          type: 'object',
+          properties: {
+            from: { type: 'integer', example: 1 },
+            to: { type: 'integer', example: 2 },
+            changes: {
+              type: 'array',
+              description: 'Changed name, description or trigger',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string', example: 'trigger' },
+                  from: {},
+                  to: {},
+                },
+              },
+            },
+            actions: {
+              type: 'object',
+              description:
+                'Actions matched by order; references to other actions are shown by order',
+              properties: {
+                added: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/VersionActionRef' },
+                },
+                removed: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/VersionActionRef' },
+                },
+                changed: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      order: { type: 'integer', example: 1 },
+                      name: { type: 'string', example: 'Send email' },
+                      changes: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            field: { type: 'string', example: 'config' },
+                            from: {},
+                            to: {},
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         ExecutionStepResponse: {
           type: 'object',
           properties: {
@@ -327,7 +580,14 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['pending', 'running', 'completed', 'failed', 'skipped'],
+              enum: [
+                'pending',
+                'running',
+                'waiting',
+                'completed',
+                'failed',
+                'skipped',
+              ],
               example: 'completed',
             },
             order: {
@@ -352,6 +612,12 @@ const swaggerOptions: swaggerJsdoc.Options = {
               type: 'integer',
               example: 0,
             },
+            attempts: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/StepAttempt',
+              },
+            },
             startedAt: {
               type: 'string',
               format: 'date-time',
@@ -364,6 +630,136 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
           },
         },
+        StepAttempt: {
+          type: 'object',
+          properties: {
+            attempt: {
+              type: 'integer',
+              example: 1,
+            },
+            status: {
+              type: 'string',
+              enum: ['completed', 'failed'],
+              example: 'failed',
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            durationMs: {
+              type: 'integer',
+              example: 1250,
+            },
+            error: {
+              type: 'string',
+              example: 'HTTP Request failed: 503 - Service Unavailable',
+            },
+          },
+        },
+        ExecutionTimelineEntry: {
+          type: 'object',
+          properties: {
+            stepId: {
+              type: 'integer',
+              example: 1,
+            },
+            actionId: {
+              type: 'integer',
+              example: 1,
+            },
+            actionName: {
+              type: 'string',
+              example: 'Fetch user',
+            },
+            actionType: {
+              type: 'string',
+              example: 'http_request',
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'pending',
+                'running',
+                'waiting',
+                'completed',
+                'failed',
+                'skipped',
+              ],
+              example: 'completed',
+            },
+            order: {
+              type: 'integer',
+              example: 0,
+            },
+            iteration: {
+              type: 'integer',
+              description:
+                'Index of the innermost loop iteration, for steps inside loops',
+              example: 2,
+            },
+            iterationPath: {
+              type: 'string',
+              description:
+                'Loop iteration indices from the outermost loop, for steps inside loops',
+              example: '2.0',
+            },
+            childExecutions: {
+              type: 'array',
+              description:
+                'Sub-workflow executions started by this step (execute_workflow action)',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer', example: 43 },
+                  workflowId: { type: 'integer', example: 2 },
+                  status: { type: 'string', example: 'completed' },
+                },
+              },
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            durationMs: {
+              type: 'integer',
+              nullable: true,
+              description: 'Null while the step has not finished',
+              example: 1250,
+            },
+            offsetMs: {
+              type: 'integer',
+              nullable: true,
+              description: 'Start of the step relative to the execution start',
+              example: 0,
+            },
+            input: {
+              type: 'object',
+              additionalProperties: true,
+              nullable: true,
+              description: 'Action config with templates resolved',
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+            },
+            attempts: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/StepAttempt',
+              },
+            },
+          },
+        },
         ExecutionResponse: {
           type: 'object',
           properties: {
@@ -381,7 +777,14 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+              enum: [
+                'pending',
+                'running',
+                'waiting',
+                'completed',
+                'failed',
+                'cancelled',
+              ],
               example: 'completed',
             },
             triggerData: {
@@ -408,12 +811,68 @@ const swaggerOptions: swaggerJsdoc.Options = {
               format: 'date-time',
               nullable: true,
             },
+            resumeCount: {
+              type: 'integer',
+              description:
+                'Number of times the execution was resumed after a failure or worker loss',
+              example: 0,
+            },
+            waitUntil: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description:
+                'When a waiting execution resumes (set while status is waiting)',
+            },
+            parentExecutionId: {
+              type: 'integer',
+              nullable: true,
+              description:
+                'Execution that started this one as a sub-workflow (execute_workflow action)',
+            },
+            workflowVersionId: {
+              type: 'integer',
+              nullable: true,
+              description:
+                'Published version the execution ran; null for draft runs',
+            },
+            dryRun: {
+              type: 'boolean',
+              description:
+                'Test run: emails, HTTP requests and other side effects were previewed, not performed',
+            },
+            mockOutputs: {
+              type: 'object',
+              additionalProperties: true,
+              nullable: true,
+              description: 'Mock outputs used in a dry run, by action name',
+            },
+            duplicatesSuppressed: {
+              type: 'integer',
+              description:
+                'Later trigger events with the same dedupe key (Gmail message, webhook Idempotency-Key) that were ignored',
+              example: 0,
+            },
+            lastDuplicateAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the last suppressed duplicate arrived',
+            },
             executionSteps: {
               type: 'array',
               items: {
                 $ref: '#/components/schemas/ExecutionStepResponse',
               },
             },
+            timeline: {
+              type: 'array',
+              description:
+                'Steps in the order they started (only on the execution details endpoint)',
+              items: {
+                $ref: '#/components/schemas/ExecutionTimelineEntry',
+              },
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -433,6 +892,195 @@ const swaggerOptions: swaggerJsdoc.Options = {
               nullable: true,
               example: { event: 'user_signup', userId: 123 },
             },
+            draft: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Run the current draft instead of the published version',
+            },
+            dryRun: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Test run: actions with side effects (email, HTTP requests) return a preview of what they would have sent instead of acting. Conditions, loops and parallel branches run for real. Disabled workflows can be dry run.',
+            },
+            mockOutputs: {
+              type: 'object',
+              additionalProperties: true,
+              description:
+                'Dry runs only: outputs to use instead of running the named actions',
+              example: { 'Fetch order': { status: 200, data: { total: 42 } } },
+            },
+          },
+        },
+        TestStep: {
+          type: 'object',
+          required: ['type', 'config'],
+          properties: {
+            type: {
+              type: 'string',
+              example: 'http_request',
+            },
+            config: {
+              type: 'object',
+              additionalProperties: true,
+              example: {
+                method: 'GET',
+                url: 'https://api.example.com/orders/{{trigger.orderId}}',
+              },
+            },
+            triggerData: {
+              type: 'object',
+              additionalProperties: true,
+              description:
+                "Sample trigger data; replaces the last execution's trigger data",
+              example: { orderId: 42 },
+            },
+            stepOutputs: {
+              type: 'object',
+              additionalProperties: true,
+              description:
+                'Outputs of upstream actions by action name, for {{steps.<name>.output}}',
+            },
+            useLastExecution: {
+              type: 'boolean',
+              default: false,
+              description:
+                "Use the trigger data and step outputs of the workflow's last execution (dry runs excluded). Its trigger data replaces the workflow's pinned trigger data.",
+            },
+            dryRun: {
+              type: 'boolean',
+              default: false,
+              description:
+                'Preview actions with side effects (email, HTTP requests) instead of running them',
+            },
+          },
+        },
+        StepTestResult: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'string',
+              enum: ['completed', 'failed'],
+            },
+            input: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Action config with templates resolved',
+            },
+            output: {
+              description: 'Handler output (when completed)',
+            },
+            error: {
+              type: 'string',
+              description: 'Handler error (when failed)',
+            },
+            durationMs: {
+              type: 'integer',
+              example: 182,
+            },
+            sourceExecutionId: {
+              type: 'integer',
+              nullable: true,
+              description:
+                'Execution whose trigger data and step outputs were used',
+            },
+          },
+        },
+        WorkflowValidationIssue: {
+          type: 'object',
+          properties: {
+            severity: {
+              type: 'string',
+              enum: ['error', 'warning'],
+            },
+            code: {
+              type: 'string',
+              enum: [
+                'unknown_action_type',
+                'invalid_config',
+                'dangling_reference',
+                'missing_error_handler',
+                'cycle',
+                'no_entry_action',
+                'unreachable_action',
+                'unknown_step_reference',
+              ],
+            },
+            message: {
+              type: 'string',
+              example:
+                'Action "Notify": true branch points to action 7, which does not exist',
+            },
+            actionOrder: {
+              type: 'integer',
+              description:
+                'Order index of the offending action; absent for workflow-level issues',
+              example: 2,
+            },
+            field: {
+              type: 'string',
+              example: 'config.trueActionId',
+            },
+          },
+        },
+        WorkflowValidationResult: {
+          type: 'object',
+          properties: {
+            valid: {
+              type: 'boolean',
+              description: 'No errors (warnings do not block saving)',
+            },
+            errors: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WorkflowValidationIssue' },
+            },
+            warnings: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WorkflowValidationIssue' },
+            },
+          },
+        },
+        ActionTypeDescriptor: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', example: 'http_request' },
+            name: { type: 'string', example: 'HTTP Request' },
+            description: {
+              type: 'string',
+              example: 'Make an HTTP call to an external API',
+            },
+            sideEffects: {
+              type: 'boolean',
+              description: 'Previewed instead of run in dry runs',
+            },
+            configSchema: {
+              type: 'object',
+              description: 'JSON Schema of the action config',
+            },
+            outputSchema: {
+              type: 'object',
+              description: 'JSON Schema of the action output',
+            },
+          },
+        },
+        TriggerTypeDescriptor: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['google-mail', 'webhook', 'manual', 'schedule'],
+            },
+            name: { type: 'string', example: 'Webhook Trigger' },
+            description: { type: 'string' },
+            configSchema: {
+              type: 'object',
+              description: 'JSON Schema of the trigger config',
+            },
+            outputSchema: {
+              type: 'object',
+              description: 'JSON Schema of the trigger data',
+            },
           },
         },
         UpdateWorkflow: {
@@ -450,6 +1098,12 @@ const swaggerOptions: swaggerJsdoc.Options = {
               type: 'boolean',
               example: true,
             },
+            errorWorkflowId: {
+              type: 'integer',
+              nullable: true,
+              example: 7,
+              description: 'Workflow to trigger on failure; null removes it',
+            },
           },
         },
         Error: {
@@ -488,6 +1142,10 @@ const swaggerOptions: swaggerJsdoc.Options = {
         name: 'Workflows',
         description: 'Workflow management and execution endpoints',
       },
+      {
+        name: 'Templates',
+        description: 'Workflow template catalogue',
+      },
       {
         name: 'Triggers',
         description:
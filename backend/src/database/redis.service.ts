@@ -5,6 +5,8 @@ import { createClient, RedisClientType } from 'redis';
 @Injectable()
 export class RedisService implements OnModuleInit, OnModuleDestroy {
   private client: RedisClientType;
+  private subscriber?: RedisClientType;
+  private subscriberReady?: Promise<void>;
   private readonly logger = new Logger(RedisService.name);
 
   constructor(private configService: ConfigService) {
@@ -88,6 +90,9 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy() {
+    if (this.subscriber?.isOpen) {
+      await this.subscriber.disconnect();
+    }
     await this.client.disconnect();
   }
 
@@ -115,4 +120,28 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     const result = await this.client.exists(key);
     return result === 1;
   }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  /**
+   * Subscribe to a pub/sub channel.
+   * Uses a dedicated connection, since a subscribed client cannot run other commands.
+   */
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<void> {
+    if (!this.subscriber) {
+      const subscriber = this.client.duplicate();
+      subscriber.on('error', (error) =>
+        this.logger.warn(`Redis subscriber error: ${error.message}`),
+      );
+      this.subscriber = subscriber;
+      this.subscriberReady = subscriber.connect().then(() => undefined);
+    }
+    await this.subscriberReady;
+    await this.subscriber.subscribe(channel, listener);
+  }
 }
@@ -59,8 +59,9 @@ async function bootstrap() {
   // Create app with HTTPS options if certs are available
   // Enable console logger to output all logs to terminal
   const logger = new Logger('Bootstrap');
-  const loggerOptions = {
+  const appOptions = {
     logger: ['log', 'error', 'warn', 'debug', 'verbose'] as LogLevel[], // Enable all log levels
+    rawBody: true, // Webhook signatures are computed over the raw request body
   };
   
   logger.log('Starting NestJS application bootstrap...');
@@ -74,15 +75,15 @@ async function bootstrap() {
       };
       app = await NestFactory.create(AppModule, {
         httpsOptions,
-        ...loggerOptions,
+        ...appOptions,
       });
       logger.log('🔒 HTTPS enabled with local certificates');
     } catch (error) {
       logger.warn('⚠️  Failed to load HTTPS certs, starting HTTP server');
-      app = await NestFactory.create(AppModule, loggerOptions);
+      app = await NestFactory.create(AppModule, appOptions);
     }
   } else {
-    app = await NestFactory.create(AppModule, loggerOptions);
+    app = await NestFactory.create(AppModule, appOptions);
   }
 
   // Use the default logger to ensure all logs go to console
@@ -1,5 +1,6 @@
 import { Queue } from 'bullmq';
 import { getRedisConnectionObject } from './queue.config';
+import { GmailTriggerEvent } from '../workflows/interfaces/workflow.interface';
 
 /**
  * Gmail Event Queue
@@ -36,4 +37,6 @@ export interface GmailEventJobData {
   historyId: string;
   receivedAt: string;
   channelId?: string;
+  event?: GmailTriggerEvent; // Defaults to messageAdded
+  changedLabelIds?: string[];
 }
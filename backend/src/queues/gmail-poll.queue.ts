@@ -0,0 +1,33 @@
+import { Queue } from 'bullmq';
+import { getRedisConnectionObject } from './queue.config';
+
+/**
+ * Gmail Poll Queue
+ * Repeatable jobs that check Gmail for new messages of triggers in poll mode
+ */
+export const gmailPollQueue = new Queue('gmail-poll', {
+  connection: getRedisConnectionObject(),
+  defaultJobOptions: {
+    attempts: 1, // The next poll picks up where this one failed
+    removeOnComplete: {
+      age: 3600, // Keep completed jobs for 1 hour
+      count: 100,
+    },
+    removeOnFail: {
+      age: 24 * 3600, // Keep failed jobs for 24 hours
+    },
+  },
+});
+
+/**
+ * Gmail Poll Job Data
+ */
+export interface GmailPollJobData {
+  workflowId: number;
+}
+
+/**
+ * Job scheduler ID of a workflow's poll job
+ */
+export const gmailPollSchedulerId = (workflowId: number) =>
+  `gmail-poll-${workflowId}`;
@@ -0,0 +1,142 @@
+import { GmailEventWorker } from './gmail-event.worker';
+import { GmailFilterService } from '../workflows/services/gmail-filter.service';
+import {
+  GmailTriggerEvent,
+  TriggerType,
+} from '../workflows/interfaces/workflow.interface';
+
+jest.mock('bullmq', () => ({
+  Worker: jest.fn().mockImplementation(() => ({
+    on: jest.fn(),
+    close: jest.fn(),
+  })),
+}));
+
+jest.mock('../app.module', () => ({ AppModule: class {} }));
+
+describe('GmailEventWorker', () => {
+  let worker: any;
+  let prisma: any;
+  let gmailService: { getMessage: jest.Mock };
+  let workflowEventService: { emitWorkflowTrigger: jest.Mock };
+
+  const message = (filename?: string) => ({
+    id: 'msg-1',
+    threadId: 'thread-1',
+    payload: {
+      headers: [
+        { name: 'From', value: 'billing@acme.com' },
+        { name: 'Subject', value: 'Invoice #42' },
+      ],
+      parts: filename
+        ? [{ filename, mimeType: 'application/pdf', body: { size: 10 } }]
+        : [],
+    },
+  });
+
+  const job = {
+    data: {
+      workflowId: 1,
+      userId: 1,
+      messageId: 'msg-1',
+      threadId: 'thread-1',
+      historyId: '100',
+      event: GmailTriggerEvent.MESSAGE_ADDED,
+    },
+  };
+
+  const withConfig = (config: Record<string, any>) =>
+    prisma.workflow.findUnique.mockResolvedValue({
+      id: 1,
+      enabled: true,
+      trigger: { type: TriggerType.GOOGLE_MAIL, config },
+    });
+
+  beforeEach(() => {
+    prisma = {
+      workflow: { findUnique: jest.fn() },
+      trigger: { update: jest.fn() },
+    };
+    gmailService = { getMessage: jest.fn() };
+    workflowEventService = { emitWorkflowTrigger: jest.fn() };
+
+    worker = new GmailEventWorker();
+    Object.assign(worker, {
+      appContext: {},
+      prisma,
+      gmailService,
+      workflowEventService,
+      gmailFilterService: new GmailFilterService(gmailService as any),
+      oauthService: {
+        findByUserIdAndProvider: jest
+          .fn()
+          .mockResolvedValue({ accessToken: 'token' }),
+      },
+      googleOAuthService: {},
+    });
+  });
+
+  it('should filter with the published trigger, not a draft edit', async () => {
+    prisma.workflow.findUnique.mockResolvedValue({
+      id: 1,
+      enabled: true,
+      trigger: {
+        type: TriggerType.GOOGLE_MAIL,
+        config: { subjectContains: 'receipt', historyId: '90' },
+      },
+      publishedVersion: {
+        trigger: {
+          type: TriggerType.GOOGLE_MAIL,
+          config: { subjectContains: 'invoice' },
+        },
+      },
+    });
+    gmailService.getMessage.mockResolvedValue(message());
+
+    await worker.processJob(job);
+
+    expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalled();
+    // Watch state stays on the draft trigger, without the published settings
+    expect(prisma.trigger.update).toHaveBeenCalledWith({
+      where: { workflowId: 1 },
+      data: {
+        config: expect.objectContaining({
+          subjectContains: 'receipt',
+          historyId: '100',
+        }),
+      },
+    });
+  });
+
+  describe('hasAttachment: false', () => {
+    it('should skip messages with attachments', async () => {
+      withConfig({ hasAttachment: false });
+      gmailService.getMessage.mockResolvedValue(message('invoice.pdf'));
+
+      await worker.processJob(job);
+
+      expect(workflowEventService.emitWorkflowTrigger).not.toHaveBeenCalled();
+    });
+
+    it('should trigger on messages without attachments', async () => {
+      withConfig({ hasAttachment: false });
+      gmailService.getMessage.mockResolvedValue(message());
+
+      await worker.processJob(job);
+
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ messageId: 'msg-1', attachments: [] }),
+        { key: 'gmail:msg-1' },
+      );
+    });
+
+    it('should retry when the message cannot be fetched', async () => {
+      withConfig({ hasAttachment: false });
+      gmailService.getMessage.mockRejectedValue(new Error('rate limited'));
+
+      await expect(worker.processJob(job)).rejects.toThrow('rate limited');
+      expect(workflowEventService.emitWorkflowTrigger).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,10 +5,18 @@ import { AppModule } from '../app.module';
 import { PrismaService } from '../database/prisma.service';
 import { WorkflowEventService } from '../workflows/services/workflow-event.service';
 import { GmailService } from '../workflows/services/gmail.service';
+import {
+  GmailFilterService,
+  GmailTriggerFilters,
+} from '../workflows/services/gmail-filter.service';
 import { OAuthService } from '../oauth/oauth.service';
 import { GoogleOAuthService } from '../auth/services/google-oauth.service';
 import { GmailEventJobData } from '../queues/gmail-event.queue';
-import { TriggerType } from '../workflows/interfaces/workflow.interface';
+import {
+  GmailTriggerEvent,
+  TriggerType,
+} from '../workflows/interfaces/workflow.interface';
+import { resolveLiveTrigger } from '../workflows/repositories/workflow-version.repository';
 
 /**
  * Gmail event worker
@@ -19,6 +27,7 @@ export class GmailEventWorker {
   private prisma: PrismaService | null = null;
   private workflowEventService: WorkflowEventService | null = null;
   private gmailService: GmailService | null = null;
+  private gmailFilterService: GmailFilterService | null = null;
   private oauthService: OAuthService | null = null;
   private googleOAuthService: GoogleOAuthService | null = null;
   private appContext: any;
@@ -110,6 +119,10 @@ export class GmailEventWorker {
       this.gmailService = this.appContext.get(GmailService);
     }
 
+    if (!this.gmailFilterService) {
+      this.gmailFilterService = this.appContext.get(GmailFilterService);
+    }
+
     if (!this.oauthService) {
       this.oauthService = this.appContext.get(OAuthService);
     }
@@ -131,6 +144,8 @@ export class GmailEventWorker {
       labelIds,
       snippet,
       historyId,
+      event = GmailTriggerEvent.MESSAGE_ADDED,
+      changedLabelIds,
     } = job.data;
 
     await this.initializeServices();
@@ -139,6 +154,7 @@ export class GmailEventWorker {
       !this.prisma ||
       !this.workflowEventService ||
       !this.gmailService ||
+      !this.gmailFilterService ||
       !this.oauthService ||
       !this.googleOAuthService
     ) {
@@ -153,7 +169,10 @@ export class GmailEventWorker {
       // Verify workflow exists and is enabled
       const workflow = await this.prisma.workflow.findUnique({
         where: { id: workflowId },
-        include: { trigger: true },
+        include: {
+          trigger: true,
+          publishedVersion: { select: { trigger: true } },
+        },
       });
 
       if (!workflow) {
@@ -168,10 +187,14 @@ export class GmailEventWorker {
         return;
       }
 
-      if (
-        !workflow.trigger ||
-        workflow.trigger.type !== TriggerType.GOOGLE_MAIL
-      ) {
+      // Filters take effect on publish, like the rest of the workflow
+      const trigger = workflow.trigger
+        ? resolveLiveTrigger(
+            workflow.trigger,
+            workflow.publishedVersion?.trigger,
+          )
+        : null;
+      if (!trigger || trigger.type !== TriggerType.GOOGLE_MAIL) {
         console.error(
           `[GmailEventWorker] Workflow ${workflowId} does not have Gmail trigger`,
         );
@@ -210,6 +233,17 @@ export class GmailEventWorker {
         );
       }
 
+      const config = workflow.trigger!.config as any;
+      const filters: GmailTriggerFilters = trigger.config;
+      const hasFilters = Boolean(
+        filters.from ||
+          filters.to ||
+          filters.subjectContains ||
+          filters.subjectRegex ||
+          filters.query ||
+          filters.hasAttachment !== undefined,
+      );
+
       // Fetch full message content if needed
       let messageContent: any = null;
       try {
@@ -218,6 +252,10 @@ export class GmailEventWorker {
           messageId,
         );
       } catch (error: any) {
+        // Filters can't be checked without the message: retry the job
+        if (hasFilters) {
+          throw error;
+        }
         console.warn(
           `[GmailEventWorker] Failed to fetch full message content: ${error.message}`,
         );
@@ -225,31 +263,43 @@ export class GmailEventWorker {
       }
 
       // Extract message metadata
-      const headers = messageContent?.payload?.headers || [];
-      const getHeader = (name: string) => {
-        const header = headers.find(
-          (h: any) => h.name?.toLowerCase() === name.toLowerCase(),
-        );
-        return header?.value || '';
-      };
+      const email = this.gmailFilterService.parseMessage(messageContent);
 
-      const sender = getHeader('From');
-      const subject = getHeader('Subject');
-      const date = getHeader('Date');
-      const to = getHeader('To');
+      const filterResult = await this.gmailFilterService.matches(
+        oauthAccount.accessToken!,
+        filters,
+        messageId,
+        email,
+        event,
+        changedLabelIds,
+      );
+      if (!filterResult.matched) {
+        console.log(
+          `[GmailEventWorker] Message ${messageId} skipped for workflow ${workflowId}: ${filterResult.reason}`,
+        );
+        await this.updateHistoryId(workflowId, config, historyId);
+        return;
+      }
 
       // Build trigger payload with full message data
       const triggerPayload = {
         triggerType: TriggerType.GOOGLE_MAIL,
+        event,
+        changedLabelIds,
         messageId,
         threadId,
         labelIds,
         snippet: snippet || messageContent?.snippet || '',
         historyId,
-        sender,
-        subject,
-        date,
-        to,
+        sender: email.from,
+        from: email.from,
+        subject: email.subject,
+        date: email.date,
+        to: email.to,
+        cc: email.cc,
+        headers: email.headers,
+        body: email.body,
+        attachments: email.attachments,
         messageContent: messageContent
           ? {
               id: messageContent.id,
@@ -262,22 +312,19 @@ export class GmailEventWorker {
           : null,
       };
 
-      // Emit workflow trigger event
-      this.workflowEventService.emitWorkflowTrigger(workflowId, triggerPayload);
-
-      // Update history ID in trigger config
-      const config = workflow.trigger.config as any;
-      await this.prisma.trigger.update({
-        where: { workflowId },
-        data: {
-          config: {
-            ...config,
-            watchHistoryId: historyId,
-            historyId,
-            lastProcessedAt: new Date().toISOString(),
-          },
+      // Emit workflow trigger event, once per message (label events once per change)
+      this.workflowEventService.emitWorkflowTrigger(
+        workflowId,
+        triggerPayload,
+        {
+          key:
+            event === GmailTriggerEvent.MESSAGE_ADDED
+              ? `gmail:${messageId}`
+              : `gmail:${messageId}:${event}:${historyId}`,
         },
-      });
+      );
+
+      await this.updateHistoryId(workflowId, config, historyId);
 
       console.log(
         `[GmailEventWorker] Successfully triggered workflow ${workflowId} for message ${messageId}`,
@@ -288,6 +335,27 @@ export class GmailEventWorker {
     }
   }
 
+  /**
+   * Update history ID in trigger config
+   */
+  private async updateHistoryId(
+    workflowId: number,
+    config: any,
+    historyId: string,
+  ): Promise<void> {
+    await this.prisma!.trigger.update({
+      where: { workflowId },
+      data: {
+        config: {
+          ...config,
+          watchHistoryId: historyId,
+          historyId,
+          lastProcessedAt: new Date().toISOString(),
+        },
+      },
+    });
+  }
+
   /**
    * Get worker name
    */
@@ -0,0 +1,119 @@
+import { Worker, Job } from 'bullmq';
+import { defaultWorkerOptions } from '../queues/queue.config';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { GoogleMailTriggerHandler } from '../workflows/triggers/google-mail.trigger';
+import { GmailPollJobData } from '../queues/gmail-poll.queue';
+
+/**
+ * Gmail poll worker
+ * Checks Gmail for new messages of triggers in poll mode; new messages are queued
+ * as Gmail events, like push notifications
+ */
+export class GmailPollWorker {
+  private worker: Worker;
+  private googleMailTriggerHandler: GoogleMailTriggerHandler | null = null;
+  private appContext: any;
+
+  constructor() {
+    try {
+      console.log('[GmailPollWorker] Initializing Gmail poll worker...');
+
+      this.worker = new Worker(
+        'gmail-poll',
+        async (job: Job<GmailPollJobData>) => {
+          return this.processJob(job);
+        },
+        {
+          ...defaultWorkerOptions,
+          concurrency: 5,
+        },
+      );
+
+      this.worker.on('failed', (job: Job | undefined, error: Error) => {
+        console.error(
+          `[GmailPollWorker] ❌ Poll failed${job ? ` for workflow ${job.data.workflowId}` : ''}:`,
+          error.message,
+        );
+      });
+
+      this.worker.on('error', (error: Error) => {
+        console.error('[GmailPollWorker] ⚠️ Worker error:', error);
+      });
+
+      console.log(
+        '[GmailPollWorker] ✅ Gmail poll worker initialized successfully',
+      );
+    } catch (error: any) {
+      console.error(
+        '[GmailPollWorker] ❌ Failed to initialize Gmail poll worker:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Initialize services from NestJS context
+   */
+  private async initializeServices(): Promise<void> {
+    if (!this.appContext) {
+      this.appContext = await NestFactory.createApplicationContext(AppModule);
+    }
+
+    if (!this.googleMailTriggerHandler) {
+      this.googleMailTriggerHandler = this.appContext.get(
+        GoogleMailTriggerHandler,
+      );
+    }
+  }
+
+  /**
+   * Process a Gmail poll job
+   */
+  private async processJob(job: Job<GmailPollJobData>): Promise<void> {
+    await this.initializeServices();
+
+    if (!this.googleMailTriggerHandler) {
+      throw new Error('Failed to initialize services');
+    }
+
+    await this.googleMailTriggerHandler.poll(job.data.workflowId);
+  }
+
+  /**
+   * Get worker name
+   */
+  get name(): string {
+    return 'gmail-poll-worker';
+  }
+
+  /**
+   * Close the worker
+   */
+  async close(): Promise<void> {
+    await this.worker.close();
+    if (this.appContext) {
+      await this.appContext.close();
+    }
+  }
+}
+
+// Export singleton instance
+let gmailPollWorkerInstance: GmailPollWorker | null = null;
+
+try {
+  gmailPollWorkerInstance = new GmailPollWorker();
+} catch (error: any) {
+  console.error(
+    '[GmailPollWorker] ❌ Failed to create Gmail poll worker singleton:',
+    error,
+  );
+  // Create a dummy worker to prevent import errors
+  gmailPollWorkerInstance = {
+    name: 'gmail-poll-worker',
+    close: async () => {},
+  } as any;
+}
+
+export const gmailPollWorker = gmailPollWorkerInstance;
@@ -36,6 +36,7 @@ try {
 import { exampleWorker } from './example.worker';
 import { workflowWorker } from './workflow.worker';
 import { gmailEventWorker } from './gmail-event.worker';
+import { gmailPollWorker } from './gmail-poll.worker';
 
 /**
  * Log prefix for worker messages
@@ -45,7 +46,12 @@ const LOG_PREFIX = '[Worker]';
 /**
  * Array to store all active workers for graceful shutdown
  */
-const workers = [exampleWorker, workflowWorker, gmailEventWorker];
+const workers = [
+  exampleWorker,
+  workflowWorker,
+  gmailEventWorker,
+  gmailPollWorker,
+];
 
 /**
  * Graceful shutdown handler
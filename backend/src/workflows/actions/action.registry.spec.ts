@@ -0,0 +1,68 @@
+import { ActionRegistry } from './action.registry';
+import { BaseActionHandler } from './base.action';
+import { ParallelActionHandler } from './parallel.action';
+import { JsonSchema } from '../interfaces/workflow.interface';
+
+class NoteActionHandler extends BaseActionHandler {
+  readonly type = 'note';
+  readonly name = 'Note';
+
+  async execute(): Promise<any> {
+    return {};
+  }
+}
+
+describe('ActionRegistry', () => {
+  let registry: ActionRegistry;
+
+  beforeEach(() => {
+    registry = new ActionRegistry();
+  });
+
+  it('should describe registered handlers with their schemas', () => {
+    registry.registerHandler(new ParallelActionHandler());
+
+    const [parallel] = registry.describe();
+
+    expect(parallel).toMatchObject({
+      type: 'parallel',
+      name: 'Parallel',
+      description: 'Execute multiple actions simultaneously',
+      sideEffects: false,
+      configSchema: { type: 'object', required: ['actionIds'] },
+      outputSchema: { type: 'object' },
+    });
+    expect(
+      (parallel.configSchema.properties as Record<string, JsonSchema>)
+        .failurePolicy.enum,
+    ).toEqual(['fail', 'continue']);
+  });
+
+  it('should default the schemas of handlers that declare none', () => {
+    registry.registerHandler(new NoteActionHandler());
+    registry.registerHandler({
+      type: 'legacy',
+      name: 'Legacy',
+      execute: jest.fn(),
+    });
+
+    expect(registry.describe()).toEqual([
+      {
+        type: 'note',
+        name: 'Note',
+        description: '',
+        sideEffects: false,
+        configSchema: { type: 'object', properties: {} },
+        outputSchema: { type: 'object' },
+      },
+      {
+        type: 'legacy',
+        name: 'Legacy',
+        description: '',
+        sideEffects: false,
+        configSchema: { type: 'object', properties: {} },
+        outputSchema: { type: 'object' },
+      },
+    ]);
+  });
+});
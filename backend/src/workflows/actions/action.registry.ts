@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
-import { IActionHandler } from '../interfaces/workflow.interface';
+import {
+  ActionTypeDescriptor,
+  IActionHandler,
+} from '../interfaces/workflow.interface';
 
 /**
  * Registry for action handlers
@@ -29,4 +32,18 @@ export class ActionRegistry {
   getRegisteredTypes(): string[] {
     return Array.from(this.handlers.keys());
   }
+
+  /**
+   * Describe every registered action type, with its config and output schemas
+   */
+  describe(): ActionTypeDescriptor[] {
+    return Array.from(this.handlers.values()).map((handler) => ({
+      type: handler.type,
+      name: handler.name,
+      description: handler.description ?? '',
+      sideEffects: handler.sideEffects ?? false,
+      configSchema: handler.configSchema ?? { type: 'object', properties: {} },
+      outputSchema: handler.outputSchema ?? { type: 'object' },
+    }));
+  }
 }
@@ -1,6 +1,8 @@
 import {
   IActionHandler,
   ExecutionContext,
+  ActionPreview,
+  JsonSchema,
 } from '../interfaces/workflow.interface';
 
 /**
@@ -11,6 +13,19 @@ export abstract class BaseActionHandler implements IActionHandler {
   abstract readonly type: string;
   abstract readonly name: string;
 
+  readonly description: string = '';
+
+  /**
+   * Config and output schemas for the builder; override to describe the fields
+   */
+  readonly configSchema: JsonSchema = { type: 'object', properties: {} };
+  readonly outputSchema: JsonSchema = { type: 'object' };
+
+  /**
+   * Handlers that act on the outside world (or wait) set this and override preview()
+   */
+  readonly sideEffects: boolean = false;
+
   /**
    * Execute the action
    */
@@ -27,6 +42,20 @@ export abstract class BaseActionHandler implements IActionHandler {
     return true;
   }
 
+  /**
+   * Describe what the action would do, for dry runs
+   */
+  async preview(
+    _context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<ActionPreview> {
+    return {
+      dryRun: true,
+      summary: `Would run ${this.name}`,
+      config,
+    };
+  }
+
   /**
    * Get value from previous step result
    */
@@ -1,7 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import {
+  ActionPreview,
+  ExecutionContext,
+  JsonSchema,
+} from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
 import { PrismaService } from '../../database/prisma.service';
 import { GoogleOAuthService } from '../../auth/services/google-oauth.service';
 import * as nodemailer from 'nodemailer';
@@ -14,6 +19,40 @@ import * as nodemailer from 'nodemailer';
 export class EmailActionHandler extends BaseActionHandler {
   readonly type = 'email';
   readonly name = 'Send Google Email';
+  readonly sideEffects = true;
+  readonly description =
+    'Send an email via Google (requires OAuth2 authentication)';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    required: ['to', 'subject'],
+    properties: {
+      to: {
+        type: 'string',
+        title: 'To',
+        format: 'email',
+        examples: ['recipient@example.com'],
+      },
+      subject: { type: 'string', title: 'Subject' },
+      body: {
+        type: 'string',
+        title: 'Body',
+        description: 'Plain text body; body or HTML body is required',
+        'x-widget': 'textarea',
+      },
+      htmlBody: { type: 'string', title: 'HTML body', 'x-widget': 'textarea' },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      messageId: { type: 'string' },
+      accepted: { type: 'array', items: { type: 'string' } },
+      rejected: { type: 'array', items: { type: 'string' } },
+      response: { type: 'string' },
+    },
+  };
 
   private readonly logger = new Logger(EmailActionHandler.name);
 
@@ -21,6 +60,7 @@ export class EmailActionHandler extends BaseActionHandler {
     private readonly prismaService: PrismaService,
     private readonly googleOAuthService: GoogleOAuthService,
     private readonly configService: ConfigService,
+    private readonly expressionService: ExpressionService,
   ) {
     super();
   }
@@ -150,12 +190,14 @@ export class EmailActionHandler extends BaseActionHandler {
     this.logger.log('Proceeding to send email with current OAuth credentials');
 
     // Resolve template variables
-    const resolvedTo = this.resolveTemplate(to, context);
+    const resolvedTo = this.expressionService.resolve(to, context);
     const resolvedFrom = userEmail;
-    const resolvedSubject = this.resolveTemplate(subject, context);
-    const resolvedBody = body ? this.resolveTemplate(body, context) : undefined;
+    const resolvedSubject = this.expressionService.resolve(subject, context);
+    const resolvedBody = body
+      ? this.expressionService.resolve(body, context)
+      : undefined;
     const resolvedHtmlBody = htmlBody
-      ? this.resolveTemplate(htmlBody, context)
+      ? this.expressionService.resolve(htmlBody, context)
       : undefined;
 
     console.log(
@@ -308,6 +350,31 @@ export class EmailActionHandler extends BaseActionHandler {
     );
   }
 
+  /**
+   * The email that would be sent; the sender is the user's connected Google account
+   */
+  async preview(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<ActionPreview> {
+    this.validateConfig(config);
+    const to = this.expressionService.resolve(config.to, context);
+    return {
+      dryRun: true,
+      summary: `Would send an email to ${to}`,
+      email: {
+        to,
+        subject: this.expressionService.resolve(config.subject, context),
+        text: config.body
+          ? this.expressionService.resolve(config.body, context)
+          : undefined,
+        html: config.htmlBody
+          ? this.expressionService.resolve(config.htmlBody, context)
+          : undefined,
+      },
+    };
+  }
+
   validateConfig(config: Record<string, any>): boolean {
     if (!config.to || !config.subject || (!config.body && !config.htmlBody)) {
       throw new Error(
@@ -316,27 +383,4 @@ export class EmailActionHandler extends BaseActionHandler {
     }
     return true;
   }
-
-  /**
-   * Resolve template variables like {{step.1.output.data}} or {{trigger.email}}
-   */
-  private resolveTemplate(template: string, context: ExecutionContext): any {
-    if (typeof template !== 'string') {
-      return template;
-    }
-
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const parts = path.trim().split('.');
-      let value: any = context;
-
-      for (const part of parts) {
-        if (value === null || value === undefined) {
-          return match;
-        }
-        value = value[part];
-      }
-
-      return value !== undefined && value !== null ? String(value) : match;
-    });
-  }
 }
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import { ExecutionContext, JsonSchema } from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
 
 /**
  * Example action handler
@@ -10,6 +11,31 @@ import { ExecutionContext } from '../interfaces/workflow.interface';
 export class ExampleActionHandler extends BaseActionHandler {
   readonly type = 'example_action';
   readonly name = 'Example Action';
+  readonly description = 'Log a message and return it with the trigger data';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      message: {
+        type: 'string',
+        title: 'Message',
+        default: 'Hello from example action',
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      triggerData: { type: 'object' },
+      timestamp: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  constructor(private readonly expressionService: ExpressionService) {
+    super();
+  }
 
   async execute(
     context: ExecutionContext,
@@ -19,7 +45,9 @@ export class ExampleActionHandler extends BaseActionHandler {
     console.log(`Executing ${this.name} for workflow ${context.workflowId}`);
 
     // Example: use configuration
-    const message = config.message || 'Hello from example action';
+    const message =
+      this.expressionService.resolve(config.message, context) ||
+      'Hello from example action';
 
     // Example: access trigger data
     const triggerData = this.getTriggerData(context);
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecuteWorkflowActionHandler } from './execute-workflow.action';
+import { ExpressionService } from '../services/expression.service';
+import { ExecutionCancellationService } from '../services/execution-cancellation.service';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionService } from '../execution.service';
+import { ExecutionContext } from '../interfaces/workflow.interface';
+
+describe('ExecuteWorkflowActionHandler', () => {
+  let handler: ExecuteWorkflowActionHandler;
+  let workflowRepository: { findById: jest.Mock };
+  let executionRepository: { findById: jest.Mock; findCallChain: jest.Mock };
+  let workflowService: { trigger: jest.Mock };
+  let executionService: { execute: jest.Mock };
+
+  const context: ExecutionContext = {
+    executionId: 10,
+    workflowId: 1,
+    userId: 7,
+    triggerData: { customer: { email: 'ann@example.com' } },
+    stepResults: {},
+    currentStepOrder: 2,
+    currentStepId: 55,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExecuteWorkflowActionHandler,
+        ExpressionService,
+        {
+          provide: ExecutionCancellationService,
+          useValue: new ExecutionCancellationService({} as any),
+        },
+        {
+          provide: WorkflowRepository,
+          useValue: {
+            findById: jest
+              .fn()
+              .mockResolvedValue({
+                id: 2,
+                userId: 7,
+                name: 'Look up customer',
+              }),
+          },
+        },
+        {
+          provide: ExecutionRepository,
+          useValue: {
+            findById: jest.fn(),
+            findCallChain: jest
+              .fn()
+              .mockResolvedValue([{ id: 10, workflowId: 1 }]),
+          },
+        },
+        {
+          provide: WorkflowService,
+          useValue: { trigger: jest.fn().mockResolvedValue({ id: 11 }) },
+        },
+        {
+          provide: ExecutionService,
+          useValue: { execute: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    handler = module.get(ExecuteWorkflowActionHandler);
+    workflowRepository = module.get(WorkflowRepository);
+    executionRepository = module.get(ExecutionRepository);
+    workflowService = module.get(WorkflowService);
+    executionService = module.get(ExecutionService);
+  });
+
+  it('should run the sub-workflow with the mapped inputs and return its result', async () => {
+    executionRepository.findById.mockResolvedValue({
+      id: 11,
+      status: 'completed',
+      result: { 3: { customerId: 'c_1' } },
+      executionSteps: [
+        {
+          status: 'completed',
+          output: { customerId: 'c_1' },
+          completedAt: new Date('2024-01-01T00:00:02Z'),
+        },
+      ],
+    });
+
+    const output = await handler.execute(context, {
+      workflowId: 2,
+      inputs: { email: '{{trigger.customer.email}}' },
+    });
+
+    expect(workflowService.trigger).toHaveBeenCalledWith(
+      2,
+      7,
+      { email: 'ann@example.com' },
+      { parentExecutionId: 10, parentStepId: 55, enqueue: false },
+    );
+    expect(executionService.execute).toHaveBeenCalledWith(11);
+    expect(output).toEqual({
+      executionId: 11,
+      workflowId: 2,
+      status: 'completed',
+      output: { customerId: 'c_1' },
+      steps: { 3: { customerId: 'c_1' } },
+    });
+  });
+
+  it('should queue the sub-workflow and continue when not waiting', async () => {
+    const output = await handler.execute(context, {
+      workflowId: 2,
+      waitForCompletion: false,
+    });
+
+    expect(workflowService.trigger).toHaveBeenCalledWith(
+      2,
+      7,
+      {},
+      expect.objectContaining({ enqueue: true }),
+    );
+    expect(executionService.execute).not.toHaveBeenCalled();
+    expect(output).toEqual({
+      executionId: 11,
+      workflowId: 2,
+      status: 'pending',
+    });
+  });
+
+  it('should fail when the sub-workflow fails', async () => {
+    executionService.execute.mockRejectedValue(new Error('Timeout'));
+    executionRepository.findById.mockResolvedValue({
+      id: 11,
+      status: 'failed',
+      error: 'Timeout',
+      executionSteps: [],
+    });
+
+    await expect(handler.execute(context, { workflowId: 2 })).rejects.toThrow(
+      'Sub-workflow "Look up customer" (execution 11) failed: Timeout',
+    );
+  });
+
+  it('should reject a workflow that is already in the call chain', async () => {
+    executionRepository.findCallChain.mockResolvedValue([
+      { id: 10, workflowId: 1 },
+      { id: 9, workflowId: 2 },
+    ]);
+
+    await expect(handler.execute(context, { workflowId: 2 })).rejects.toThrow(
+      'Sub-workflow recursion: workflow 2 is already running in this call chain (2 -> 1 -> 2)',
+    );
+    expect(workflowService.trigger).not.toHaveBeenCalled();
+  });
+
+  it("should not run another user's workflow", async () => {
+    workflowRepository.findById.mockResolvedValue({ id: 2, userId: 8 });
+
+    await expect(handler.execute(context, { workflowId: 2 })).rejects.toThrow(
+      'Workflow 2 not found',
+    );
+    expect(workflowService.trigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { Injectable } from '@nestjs/common';
+import { BaseActionHandler } from './base.action';
+import {
+  ExecutionContext,
+  ExecutionStepStatus,
+  WorkflowStatus,
+  JsonSchema,
+} from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
+import { ExecutionCancellationService } from '../services/execution-cancellation.service';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionService } from '../execution.service';
+
+/**
+ * Maximum depth of nested sub-workflow calls
+ */
+export const MAX_SUB_WORKFLOW_DEPTH = 10;
+
+/**
+ * Execute Workflow Action Handler
+ * Starts another workflow of the same user as a sub-workflow, with the mapped
+ * inputs as its trigger data. The child execution is linked to this step.
+ *
+ * Config:
+ * - workflowId: workflow to run
+ * - inputs: trigger data for the sub-workflow (templates are resolved)
+ * - waitForCompletion (default true): run the sub-workflow and return its result,
+ *   or queue it and continue right away
+ */
+@Injectable()
+export class ExecuteWorkflowActionHandler extends BaseActionHandler {
+  readonly type = 'execute_workflow';
+  readonly name = 'Execute Workflow';
+  readonly description = 'Run another workflow and use its result';
+
+  // Each attempt starts a new sub-workflow execution, running its side effects
+  // again: retry only when the step's retries are configured
+  readonly defaultAttempts = 1;
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    required: ['workflowId'],
+    properties: {
+      workflowId: {
+        type: 'integer',
+        title: 'Workflow',
+        'x-widget': 'workflow',
+      },
+      inputs: {
+        type: 'object',
+        title: 'Inputs',
+        description:
+          'Trigger data of the sub-workflow, e.g. { "email": "{{trigger.email}}" }',
+        default: {},
+      },
+      waitForCompletion: {
+        type: 'boolean',
+        title: 'Wait for the result',
+        description:
+          'Run the sub-workflow and return its result, or start it and continue right away',
+        default: true,
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      executionId: { type: 'integer' },
+      workflowId: { type: 'integer' },
+      status: { type: 'string' },
+      output: { description: "Output of the sub-workflow's last step" },
+      steps: { type: 'object' },
+    },
+  };
+
+  constructor(
+    private readonly expressionService: ExpressionService,
+    private readonly workflowRepository: WorkflowRepository,
+    private readonly executionRepository: ExecutionRepository,
+    private readonly workflowService: WorkflowService,
+    private readonly executionService: ExecutionService,
+    private readonly cancellationService: ExecutionCancellationService,
+  ) {
+    super();
+  }
+
+  async execute(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<any> {
+    this.validateConfig(config);
+
+    const workflowId = Number(
+      this.expressionService.resolve(config.workflowId, context),
+    );
+    const { waitForCompletion = true } = config;
+    const inputs = this.expressionService.resolve(config.inputs ?? {}, context);
+
+    const workflow = await this.workflowRepository.findById(workflowId);
+    if (!workflow || workflow.userId !== context.userId) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+    await this.assertNoCycle(workflowId, context);
+
+    const child = await this.workflowService.trigger(
+      workflowId,
+      context.userId,
+      inputs,
+      {
+        parentExecutionId: context.executionId,
+        parentStepId: context.currentStepId,
+        enqueue: !waitForCompletion,
+        dryRun: context.dryRun, // A test run tests its sub-workflows too
+      },
+    );
+
+    if (!waitForCompletion) {
+      return {
+        executionId: child.id,
+        workflowId,
+        status: WorkflowStatus.PENDING,
+      };
+    }
+
+    // Run the sub-workflow inline; cancelling this execution cancels it too
+    const cancelChild = () => this.cancellationService.abort(child.id);
+    context.signal?.addEventListener('abort', cancelChild);
+    try {
+      await this.executionService.execute(child.id);
+    } catch {
+      // The child execution records its own failure; reported below
+    } finally {
+      context.signal?.removeEventListener('abort', cancelChild);
+    }
+
+    const finished = await this.executionRepository.findById(child.id);
+    if (!finished || finished.status !== WorkflowStatus.COMPLETED) {
+      const reason =
+        finished?.status === WorkflowStatus.WAITING
+          ? `is waiting until ${finished.waitUntil?.toISOString()}; use waitForCompletion: false for workflows with long waits`
+          : `${finished?.status ?? 'failed'}: ${finished?.error ?? 'unknown error'}`;
+      throw new Error(
+        `Sub-workflow "${workflow.name}" (execution ${child.id}) ${reason}`,
+      );
+    }
+
+    // The most recently completed step's output is the sub-workflow's output
+    const lastStep = finished.executionSteps
+      .filter((step) => step.status === ExecutionStepStatus.COMPLETED)
+      .sort(
+        (a, b) =>
+          (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0),
+      )[0];
+
+    return {
+      executionId: child.id,
+      workflowId,
+      status: finished.status,
+      output: lastStep?.output ?? null,
+      steps: finished.result ?? {},
+    };
+  }
+
+  validateConfig(config: Record<string, any>): boolean {
+    if (config.workflowId === undefined || config.workflowId === '') {
+      throw new Error('Execute Workflow action requires a workflowId');
+    }
+    if (
+      config.inputs !== undefined &&
+      (typeof config.inputs !== 'object' ||
+        config.inputs === null ||
+        Array.isArray(config.inputs))
+    ) {
+      throw new Error('Execute Workflow inputs must be an object');
+    }
+    return true;
+  }
+
+  /**
+   * Reject calls to a workflow that is already running further up the call chain
+   */
+  private async assertNoCycle(
+    workflowId: number,
+    context: ExecutionContext,
+  ): Promise<void> {
+    const chain = await this.executionRepository.findCallChain(
+      context.executionId,
+    );
+    const workflowIds = chain.map((entry) => entry.workflowId).reverse();
+    if (!workflowIds.includes(context.workflowId)) {
+      workflowIds.push(context.workflowId);
+    }
+
+    if (workflowIds.includes(workflowId)) {
+      throw new Error(
+        `Sub-workflow recursion: workflow ${workflowId} is already running in this call chain (${[...workflowIds, workflowId].join(' -> ')})`,
+      );
+    }
+    if (workflowIds.length >= MAX_SUB_WORKFLOW_DEPTH) {
+      throw new Error(
+        `Sub-workflows are nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`,
+      );
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { GmailOAuth2ActionHandler } from './gmail-oauth2.action';
 import { PrismaService } from '../../database/prisma.service';
 import { GoogleOAuthService } from '../../auth/services/google-oauth.service';
+import { ExpressionService } from '../services/expression.service';
 import { ExecutionContext } from '../interfaces/workflow.interface';
 import * as nodemailer from 'nodemailer';
 
@@ -39,6 +40,7 @@ describe('GmailOAuth2ActionHandler', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         GmailOAuth2ActionHandler,
+        ExpressionService,
         {
           provide: ConfigService,
           useValue: {
@@ -1,6 +1,11 @@
 import { Injectable } from '@nestjs/common';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import {
+  ActionPreview,
+  ExecutionContext,
+  JsonSchema,
+} from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 
 /**
@@ -11,11 +16,139 @@ import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 export class HttpActionHandler extends BaseActionHandler {
   readonly type = 'http_request';
   readonly name = 'HTTP Request';
+  readonly sideEffects = true;
+  readonly description = 'Make an HTTP call to an external API';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    required: ['url'],
+    properties: {
+      method: {
+        type: 'string',
+        title: 'Method',
+        enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+        default: 'GET',
+      },
+      url: {
+        type: 'string',
+        title: 'URL',
+        format: 'uri',
+        examples: ['https://api.example.com/endpoint'],
+      },
+      headers: {
+        type: 'object',
+        title: 'Headers',
+        additionalProperties: { type: 'string' },
+        default: {},
+      },
+      queryParams: {
+        type: 'object',
+        title: 'Query parameters',
+        additionalProperties: { type: 'string' },
+      },
+      body: {
+        type: 'object',
+        title: 'Body',
+        description: 'Sent with POST, PUT and PATCH requests',
+        default: {},
+      },
+      auth: {
+        type: 'object',
+        title: 'Authentication',
+        description:
+          '{ "type": "bearer", "token" } | { "type": "basic", "username", "password" } | { "type": "apiKey", "key", "value" }',
+        properties: {
+          type: { type: 'string', enum: ['bearer', 'basic', 'apiKey'] },
+        },
+      },
+      timeout: {
+        type: 'integer',
+        title: 'Timeout (ms)',
+        minimum: 1,
+        default: 30000,
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      status: { type: 'integer' },
+      statusText: { type: 'string' },
+      headers: { type: 'object' },
+      data: { description: 'Response body' },
+    },
+  };
+
+  constructor(private readonly expressionService: ExpressionService) {
+    super();
+  }
 
   async execute(
     context: ExecutionContext,
     config: Record<string, any>,
   ): Promise<any> {
+    const axiosConfig: AxiosRequestConfig = {
+      ...this.buildRequest(context, config),
+      signal: context.signal, // Abort the request if the execution is cancelled
+    };
+
+    try {
+      const response: AxiosResponse = await axios(axiosConfig);
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data: response.data,
+      };
+    } catch (error: any) {
+      if (axios.isCancel(error) || context.signal?.aborted) {
+        throw new Error('HTTP Request aborted: execution cancelled');
+      }
+      if (error.response) {
+        // The request was made and the server responded with a status code
+        // that falls out of the range of 2xx
+        throw new Error(
+          `HTTP Request failed: ${error.response.status} ${error.response.statusText} - ${JSON.stringify(error.response.data)}`,
+        );
+      } else if (error.request) {
+        // The request was made but no response was received
+        throw new Error(
+          `HTTP Request failed: No response received - ${error.message}`,
+        );
+      } else {
+        // Something happened in setting up the request
+        throw new Error(`HTTP Request failed: ${error.message}`);
+      }
+    }
+  }
+
+  async preview(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<ActionPreview> {
+    const request = this.buildRequest(context, config);
+    return {
+      dryRun: true,
+      summary: `Would send ${request.method} ${request.url}`,
+      request: {
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        params: request.params,
+        data: request.data,
+        ...(request.auth && { auth: { username: request.auth.username } }),
+      },
+    };
+  }
+
+  /**
+   * Build the request with template variables resolved
+   */
+  private buildRequest(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): AxiosRequestConfig {
     const {
       method = 'GET',
       url,
@@ -31,10 +164,12 @@ export class HttpActionHandler extends BaseActionHandler {
     }
 
     // Resolve template variables in URL, headers, and body
-    const resolvedUrl = this.resolveTemplate(url, context);
-    const resolvedHeaders = this.resolveTemplateObject(headers, context);
-    const resolvedBody = body ? this.resolveTemplate(body, context) : undefined;
-    const resolvedQueryParams = this.resolveTemplateObject(
+    const resolvedUrl = this.expressionService.resolve(url, context);
+    const resolvedHeaders = this.expressionService.resolve(headers, context);
+    const resolvedBody = body
+      ? this.expressionService.resolve(body, context)
+      : undefined;
+    const resolvedQueryParams = this.expressionService.resolve(
       queryParams,
       context,
     );
@@ -51,18 +186,18 @@ export class HttpActionHandler extends BaseActionHandler {
     // Add authentication if provided
     if (auth) {
       if (auth.type === 'bearer') {
-        const token = this.resolveTemplate(auth.token, context);
+        const token = this.expressionService.resolve(auth.token, context);
         axiosConfig.headers = {
           ...axiosConfig.headers,
           Authorization: `Bearer ${token}`,
         };
       } else if (auth.type === 'basic') {
-        const username = this.resolveTemplate(auth.username, context);
-        const password = this.resolveTemplate(auth.password, context);
+        const username = this.expressionService.resolve(auth.username, context);
+        const password = this.expressionService.resolve(auth.password, context);
         axiosConfig.auth = { username, password };
       } else if (auth.type === 'apiKey') {
-        const key = this.resolveTemplate(auth.key, context);
-        const value = this.resolveTemplate(auth.value, context);
+        const key = this.expressionService.resolve(auth.key, context);
+        const value = this.expressionService.resolve(auth.value, context);
         axiosConfig.headers = {
           ...axiosConfig.headers,
           [key]: value,
@@ -78,31 +213,7 @@ export class HttpActionHandler extends BaseActionHandler {
       axiosConfig.data = resolvedBody;
     }
 
-    try {
-      const response: AxiosResponse = await axios(axiosConfig);
-      return {
-        status: response.status,
-        statusText: response.statusText,
-        headers: response.headers,
-        data: response.data,
-      };
-    } catch (error: any) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        throw new Error(
-          `HTTP Request failed: ${error.response.status} ${error.response.statusText} - ${JSON.stringify(error.response.data)}`,
-        );
-      } else if (error.request) {
-        // The request was made but no response was received
-        throw new Error(
-          `HTTP Request failed: No response received - ${error.message}`,
-        );
-      } else {
-        // Something happened in setting up the request
-        throw new Error(`HTTP Request failed: ${error.message}`);
-      }
-    }
+    return axiosConfig;
   }
 
   validateConfig(config: Record<string, any>): boolean {
@@ -111,44 +222,4 @@ export class HttpActionHandler extends BaseActionHandler {
     }
     return true;
   }
-
-  /**
-   * Resolve template variables like {{step.1.output.data}} or {{trigger.email}}
-   */
-  private resolveTemplate(template: string, context: ExecutionContext): any {
-    if (typeof template !== 'string') {
-      return template;
-    }
-
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const parts = path.trim().split('.');
-      let value: any = context;
-
-      for (const part of parts) {
-        if (value === null || value === undefined) {
-          return match; // Return original if path not found
-        }
-        value = value[part];
-      }
-
-      return value !== undefined && value !== null ? String(value) : match;
-    });
-  }
-
-  /**
-   * Resolve template variables in an object
-   */
-  private resolveTemplateObject(
-    obj: Record<string, any>,
-    context: ExecutionContext,
-  ): Record<string, any> {
-    const resolved: Record<string, any> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      resolved[key] =
-        typeof value === 'string'
-          ? this.resolveTemplate(value, context)
-          : value;
-    }
-    return resolved;
-  }
 }
@@ -1,43 +1,107 @@
 import { Injectable } from '@nestjs/common';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import { ExecutionContext, JsonSchema } from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
 
 /**
  * Loop Action Handler
  * Iterates over a list and executes sub-actions for each item
  * Note: This action returns metadata about the loop items,
  * the execution service will handle iterating and executing sub-actions
+ *
+ * Config:
+ * - loopActionId: first action of the loop body; the body continues via nextActionId
+ * - concurrency (default 1): how many iterations run at once
  */
 @Injectable()
 export class LoopActionHandler extends BaseActionHandler {
   readonly type = 'loop';
   readonly name = 'Loop';
+  readonly description = 'Run actions for each item of a list';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      itemsPath: {
+        type: 'string',
+        title: 'Items',
+        description: 'Path of the list to iterate, e.g. trigger.items',
+        examples: ['{{steps.Fetch orders.output.data}}'],
+      },
+      items: {
+        type: 'array',
+        title: 'Items (fixed list)',
+        description: 'Alternatively, the list itself',
+      },
+      itemVariable: {
+        type: 'string',
+        title: 'Item variable',
+        default: 'item',
+      },
+      loopActionId: {
+        type: 'integer',
+        title: 'For each item, run',
+        description: 'First action of the loop body',
+        'x-widget': 'action',
+      },
+      concurrency: {
+        type: 'integer',
+        title: 'Concurrency',
+        description: 'How many iterations run at once',
+        minimum: 1,
+        default: 1,
+      },
+      maxIterations: {
+        type: 'integer',
+        title: 'Max iterations',
+        minimum: 1,
+        default: 1000,
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      items: { type: 'array' },
+      itemVariable: { type: 'string' },
+      loopActionId: { type: 'integer' },
+      concurrency: { type: 'integer' },
+      itemCount: { type: 'integer' },
+    },
+  };
+
+  constructor(private readonly expressionService: ExpressionService) {
+    super();
+  }
 
   async execute(
     context: ExecutionContext,
     config: Record<string, any>,
   ): Promise<any> {
+    this.validateConfig(config);
+
     const {
       items,
       itemVariable = 'item',
       loopActionId,
       maxIterations = 1000,
+      concurrency = 1,
     } = config;
 
-    if (!items && !config.itemsPath) {
-      throw new Error('Loop action requires items or itemsPath');
-    }
-
     // Get items either directly or from a path in context
     let loopItems: any[] = [];
     if (items) {
-      loopItems = Array.isArray(items) ? items : [items];
+      const resolvedItems = this.expressionService.resolve(items, context);
+      loopItems = Array.isArray(resolvedItems)
+        ? resolvedItems
+        : [resolvedItems];
     } else if (config.itemsPath) {
-      const resolvedPath = this.resolveTemplate(
-        String(config.itemsPath),
-        context,
-      );
-      const itemsValue = this.getNestedValue(context, resolvedPath);
+      // itemsPath may be a bare path ("trigger.items") or a template ("{{trigger.items}}")
+      const itemsPath = String(config.itemsPath);
+      const itemsValue = this.expressionService.hasTemplate(itemsPath)
+        ? this.expressionService.resolve(itemsPath, context)
+        : this.expressionService.evaluate(itemsPath, context);
       loopItems = Array.isArray(itemsValue) ? itemsValue : [itemsValue];
     }
 
@@ -53,6 +117,7 @@ export class LoopActionHandler extends BaseActionHandler {
       items: loopItems,
       itemVariable,
       loopActionId,
+      concurrency,
       itemCount: loopItems.length,
     };
   }
@@ -61,46 +126,13 @@ export class LoopActionHandler extends BaseActionHandler {
     if (!config.items && !config.itemsPath) {
       throw new Error('Loop action requires items or itemsPath');
     }
-    return true;
-  }
-
-  /**
-   * Get nested value from context using dot notation path
-   */
-  private getNestedValue(obj: any, path: string): any {
-    const parts = path.split('.');
-    let value: any = obj;
-
-    for (const part of parts) {
-      if (value === null || value === undefined) {
-        return undefined;
-      }
-      value = value[part];
-    }
-
-    return value;
-  }
 
-  /**
-   * Resolve template variables
-   */
-  private resolveTemplate(template: string, context: ExecutionContext): any {
-    if (typeof template !== 'string') {
-      return template;
+    if (
+      config.concurrency !== undefined &&
+      (!Number.isInteger(config.concurrency) || config.concurrency < 1)
+    ) {
+      throw new Error('concurrency must be a whole number of at least 1');
     }
-
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const parts = path.trim().split('.');
-      let value: any = context;
-
-      for (const part of parts) {
-        if (value === null || value === undefined) {
-          return match;
-        }
-        value = value[part];
-      }
-
-      return value !== undefined && value !== null ? String(value) : match;
-    });
+    return true;
   }
 }
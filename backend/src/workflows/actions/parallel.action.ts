@@ -1,35 +1,102 @@
 import { Injectable } from '@nestjs/common';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import {
+  ExecutionContext,
+  ParallelFailurePolicy,
+  JsonSchema,
+} from '../interfaces/workflow.interface';
 
 /**
  * Parallel Action Handler
  * Executes multiple sub-actions in parallel
  * Note: This action returns metadata about which actions to run in parallel,
- * the execution service will handle the parallel execution
+ * the execution service will handle the parallel execution and the join
+ *
+ * Join config:
+ * - waitForAll (default true): join once every branch has finished
+ * - waitFor (default 1): with waitForAll false, join once this many branches succeeded
+ * - failurePolicy (default 'continue'): 'fail' fails the action on the first failed branch,
+ *   'continue' records the branch error and joins the others (stopOnFirstFailure is an alias for 'fail')
  */
 @Injectable()
 export class ParallelActionHandler extends BaseActionHandler {
   readonly type = 'parallel';
   readonly name = 'Parallel';
+  readonly description = 'Execute multiple actions simultaneously';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    required: ['actionIds'],
+    properties: {
+      actionIds: {
+        type: 'array',
+        title: 'Branches',
+        items: { type: 'integer' },
+        description: 'Set from the edges leaving the action',
+        readOnly: true,
+        default: [],
+      },
+      waitForAll: {
+        type: 'boolean',
+        title: 'Wait for all actions to complete',
+        default: true,
+      },
+      waitFor: {
+        type: 'integer',
+        title: 'Continue after',
+        description:
+          'Without waiting for all: number of branches that must succeed before continuing',
+        minimum: 1,
+      },
+      failurePolicy: {
+        type: 'string',
+        title: 'When a branch fails',
+        description:
+          "'continue' records the branch error and joins the others, 'fail' fails the action",
+        enum: Object.values(ParallelFailurePolicy),
+        default: ParallelFailurePolicy.CONTINUE,
+      },
+      stopOnFirstFailure: {
+        type: 'boolean',
+        description: "Alias for failurePolicy 'fail'",
+        deprecated: true,
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      actionIds: { type: 'array', items: { type: 'integer' } },
+      waitForAll: { type: 'boolean' },
+      waitFor: { type: 'integer' },
+      failurePolicy: { type: 'string' },
+      actionCount: { type: 'integer' },
+      branches: {
+        type: 'array',
+        description: "Each branch's output, in the order of actionIds",
+      },
+    },
+  };
 
   async execute(
     context: ExecutionContext,
     config: Record<string, any>,
   ): Promise<any> {
-    const { actionIds, waitForAll = true, stopOnFirstFailure = false } = config;
+    this.validateConfig(config);
 
-    if (!actionIds || !Array.isArray(actionIds) || actionIds.length === 0) {
-      throw new Error(
-        'Parallel action requires a non-empty array of actionIds',
-      );
-    }
+    const { actionIds, waitForAll = true, stopOnFirstFailure = false } = config;
+    const failurePolicy: ParallelFailurePolicy = stopOnFirstFailure
+      ? ParallelFailurePolicy.FAIL
+      : config.failurePolicy || ParallelFailurePolicy.CONTINUE;
 
     // Return metadata for the execution service to handle parallel execution
     return {
       actionIds,
       waitForAll,
-      stopOnFirstFailure,
+      waitFor: waitForAll ? actionIds.length : (config.waitFor ?? 1),
+      failurePolicy,
+      stopOnFirstFailure: failurePolicy === ParallelFailurePolicy.FAIL,
       actionCount: actionIds.length,
     };
   }
@@ -44,6 +111,26 @@ export class ParallelActionHandler extends BaseActionHandler {
         'Parallel action requires a non-empty array of actionIds',
       );
     }
+
+    if (
+      config.waitFor !== undefined &&
+      (!Number.isInteger(config.waitFor) ||
+        config.waitFor < 1 ||
+        config.waitFor > config.actionIds.length)
+    ) {
+      throw new Error(
+        `waitFor must be a whole number between 1 and ${config.actionIds.length}`,
+      );
+    }
+
+    if (
+      config.failurePolicy !== undefined &&
+      !Object.values(ParallelFailurePolicy).includes(config.failurePolicy)
+    ) {
+      throw new Error(
+        `Unknown failurePolicy "${config.failurePolicy}". Use one of: ${Object.values(ParallelFailurePolicy).join(', ')}`,
+      );
+    }
     return true;
   }
 }
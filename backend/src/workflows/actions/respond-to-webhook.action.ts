@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { BaseActionHandler } from './base.action';
+import {
+  ExecutionContext,
+  JsonSchema,
+  WebhookResponse,
+} from '../interfaces/workflow.interface';
+import { ExpressionService } from '../services/expression.service';
+
+/**
+ * Respond to Webhook Action Handler
+ * Sets the response of the webhook request that started the execution, for
+ * webhook triggers in "respondNode" mode. The execution continues afterwards.
+ */
+@Injectable()
+export class RespondToWebhookActionHandler extends BaseActionHandler {
+  readonly type = 'respond_to_webhook';
+  readonly name = 'Respond to Webhook';
+  readonly description = 'Answer the webhook request that started the workflow';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      statusCode: {
+        type: 'integer',
+        title: 'Status code',
+        minimum: 100,
+        maximum: 599,
+        default: 200,
+      },
+      headers: {
+        type: 'object',
+        title: 'Headers',
+        additionalProperties: { type: 'string' },
+        default: {},
+      },
+      body: {
+        title: 'Body',
+        description:
+          'Objects are sent as JSON, text as is. Supports expressions, e.g. {{steps.Lookup.output.data}}',
+        default: {},
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      statusCode: { type: 'integer' },
+      headers: { type: 'object' },
+      body: { description: 'Response body' },
+    },
+  };
+
+  constructor(private readonly expressionService: ExpressionService) {
+    super();
+  }
+
+  async execute(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<WebhookResponse> {
+    this.validateConfig(config);
+
+    const statusCode = Number(
+      this.expressionService.resolve(config.statusCode ?? 200, context),
+    );
+    if (!Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599) {
+      throw new Error(`Invalid response status code: ${config.statusCode}`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(
+      this.expressionService.resolve(config.headers || {}, context),
+    )) {
+      headers[name] = String(value);
+    }
+
+    return {
+      statusCode,
+      headers,
+      body: this.expressionService.resolve(config.body ?? null, context),
+    };
+  }
+
+  validateConfig(config: Record<string, any>): boolean {
+    if (
+      config.headers !== undefined &&
+      (typeof config.headers !== 'object' ||
+        config.headers === null ||
+        Array.isArray(config.headers))
+    ) {
+      throw new Error('Respond to Webhook headers must be an object');
+    }
+    return true;
+  }
+}
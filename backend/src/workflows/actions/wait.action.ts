@@ -1,36 +1,123 @@
 import { Injectable } from '@nestjs/common';
 import { BaseActionHandler } from './base.action';
-import { ExecutionContext } from '../interfaces/workflow.interface';
+import {
+  ActionPreview,
+  ExecutionContext,
+  JsonSchema,
+} from '../interfaces/workflow.interface';
+import { ConditionService } from '../services/condition.service';
+import { ExpressionService } from '../services/expression.service';
+
+/**
+ * Waits up to this long are slept inline; longer waits park the execution
+ * and a delayed queue job resumes it, so no worker slot is held
+ */
+export const MAX_INLINE_WAIT_MS = 60 * 1000;
+
+/**
+ * Upper bound for a single wait
+ */
+export const MAX_WAIT_MS = 365 * 24 * 60 * 60 * 1000;
 
 /**
  * Wait/Delay Action Handler
- * Waits for a specific duration or until a condition is met
+ * Waits for a specific duration, until a date, or until a condition is met.
+ *
+ * Long waits return a `resumeAt` timestamp instead of sleeping; the execution
+ * service parks the execution and continues with the next action at that time.
+ * Dry runs don't wait at all.
  */
 @Injectable()
 export class WaitActionHandler extends BaseActionHandler {
   readonly type = 'wait';
   readonly name = 'Wait/Delay';
+  readonly description = 'Wait for a duration or until a condition is met';
+  readonly sideEffects = true;
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      duration: {
+        type: 'string',
+        title: 'Duration',
+        description:
+          'Format: 5s, 10m, 2h, 3d, 1w, milliseconds, or "until 2025-12-01T09:00:00Z". Waits over a minute pause the execution and resume it later.',
+        examples: ['5s', '10m', '2h', '3d', '1w'],
+        default: '5s',
+      },
+      until: {
+        type: 'string',
+        title: 'Until',
+        description: 'Wait until this date instead (ISO 8601)',
+        format: 'date-time',
+      },
+      condition: {
+        type: 'string',
+        title: 'Condition',
+        description: 'Instead of a duration: wait until this condition is true',
+      },
+      maxWaitTime: {
+        type: 'string',
+        title: 'Max wait time',
+        description: 'How long to wait for the condition',
+        default: '60s',
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      waited: { type: 'integer', description: 'Milliseconds waited' },
+      type: { type: 'string', enum: ['duration', 'until', 'condition'] },
+      until: { type: 'string', format: 'date-time' },
+      resumeAt: { type: 'string', format: 'date-time' },
+      conditionMet: { type: 'boolean' },
+    },
+  };
+
+  constructor(
+    private readonly conditionService: ConditionService,
+    private readonly expressionService: ExpressionService,
+  ) {
+    super();
+  }
 
   async execute(
     context: ExecutionContext,
     config: Record<string, any>,
   ): Promise<any> {
-    const { duration, condition, maxWaitTime = 60000 } = config;
+    const { condition, maxWaitTime = 60000 } = config;
+    const duration = this.expressionService.resolve(config.duration, context);
+    const until = this.expressionService.resolve(config.until, context);
 
-    if (duration) {
-      // Wait for a fixed duration
-      const milliseconds = this.parseDuration(duration);
-      if (milliseconds <= 0) {
-        throw new Error('Wait duration must be positive');
+    if (duration || until) {
+      // Wait for a fixed duration or until a point in time
+      const target = this.getWaitTarget(duration, until);
+      const milliseconds = Math.max(0, target.waitUntil.getTime() - Date.now());
+      const result: Record<string, any> = {
+        waited: milliseconds,
+        type: target.type,
+      };
+      if (target.type === 'until') {
+        result.until = target.waitUntil.toISOString();
       }
-      if (milliseconds > 3600000) {
-        throw new Error('Wait duration cannot exceed 1 hour');
+
+      if (milliseconds <= MAX_INLINE_WAIT_MS) {
+        await this.sleep(milliseconds, context.signal);
+        return result;
+      }
+
+      if (context.loopContext) {
+        // A parked execution resumes at the next action, which cannot be done mid-iteration
+        throw new Error(
+          `Waits longer than ${MAX_INLINE_WAIT_MS / 1000}s are not supported inside a loop`,
+        );
       }
 
-      await this.sleep(milliseconds);
       return {
-        waited: milliseconds,
-        type: 'duration',
+        ...result,
+        resumeAt: target.waitUntil.toISOString(),
       };
     } else if (condition) {
       // Wait until condition is met
@@ -38,7 +125,7 @@ export class WaitActionHandler extends BaseActionHandler {
       const maxWait = this.parseDuration(maxWaitTime) || 60000;
 
       while (Date.now() - startTime < maxWait) {
-        if (this.evaluateCondition(condition, context)) {
+        if (this.conditionService.evaluate(condition, context)) {
           const waited = Date.now() - startTime;
           return {
             waited,
@@ -46,7 +133,7 @@ export class WaitActionHandler extends BaseActionHandler {
             conditionMet: true,
           };
         }
-        await this.sleep(1000); // Check every second
+        await this.sleep(1000, context.signal); // Check every second
       }
 
       throw new Error(`Wait condition not met within ${maxWait}ms`);
@@ -55,25 +142,110 @@ export class WaitActionHandler extends BaseActionHandler {
     }
   }
 
+  async preview(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<ActionPreview> {
+    const duration = this.expressionService.resolve(config.duration, context);
+    const until = this.expressionService.resolve(config.until, context);
+    if (!duration && !until) {
+      return {
+        dryRun: true,
+        summary: `Would wait until ${config.condition}`,
+        waited: 0,
+        type: 'condition',
+      };
+    }
+
+    const target = this.getWaitTarget(duration, until);
+    return {
+      dryRun: true,
+      summary: `Would wait until ${target.waitUntil.toISOString()}`,
+      waited: 0,
+      type: target.type,
+      ...(target.type === 'until' && {
+        until: target.waitUntil.toISOString(),
+      }),
+    };
+  }
+
   validateConfig(config: Record<string, any>): boolean {
-    if (!config.duration && !config.condition) {
-      throw new Error('Wait action requires either duration or condition');
+    const { duration, until, condition } = config;
+    if (!duration && !until && !condition) {
+      throw new Error(
+        'Wait action requires either duration, until or condition',
+      );
+    }
+    if (duration || until) {
+      // Templated values can only be checked once they are resolved at runtime
+      if (
+        !this.expressionService.hasTemplate(duration) &&
+        !this.expressionService.hasTemplate(until)
+      ) {
+        this.getWaitTarget(duration, until);
+      }
+    } else {
+      this.conditionService.validate(condition);
     }
     return true;
   }
 
   /**
-   * Parse duration string (e.g., "5s", "10m", "2h") or number (milliseconds)
+   * Work out when a duration/until wait ends.
+   * `duration` also accepts "until <ISO date>" as a shorthand for `until`.
+   */
+  private getWaitTarget(
+    duration: string | number | undefined,
+    until: string | undefined,
+  ): { type: 'duration' | 'until'; waitUntil: Date } {
+    const untilMatch =
+      typeof duration === 'string' ? duration.match(/^until\s+(.+)$/i) : null;
+
+    if (until || untilMatch) {
+      const waitUntil = this.parseDate(until || untilMatch![1]);
+      if (waitUntil.getTime() - Date.now() > MAX_WAIT_MS) {
+        throw new Error('Wait target cannot be more than 365 days away');
+      }
+      return { type: 'until', waitUntil };
+    }
+
+    const milliseconds = this.parseDuration(duration!);
+    if (milliseconds <= 0) {
+      throw new Error('Wait duration must be positive');
+    }
+    if (milliseconds > MAX_WAIT_MS) {
+      throw new Error('Wait duration cannot exceed 365 days');
+    }
+    return {
+      type: 'duration',
+      waitUntil: new Date(Date.now() + milliseconds),
+    };
+  }
+
+  private parseDate(value: string): Date {
+    const date = new Date(String(value).trim());
+    if (isNaN(date.getTime())) {
+      throw new Error(
+        `Invalid wait date: ${value}. Use an ISO date like "2025-12-01T09:00:00Z"`,
+      );
+    }
+    return date;
+  }
+
+  /**
+   * Parse duration string (e.g., "5s", "10m", "2h", "3d", "1w") or number (milliseconds)
    */
   private parseDuration(duration: string | number): number {
     if (typeof duration === 'number') {
       return duration;
     }
 
-    const match = duration.match(/^(\d+)(s|m|h|ms)$/);
+    const match = String(duration)
+      .trim()
+      .match(/^(\d+)(s|m|h|d|w|ms)$/);
     if (!match) {
       throw new Error(
-        `Invalid duration format: ${duration}. Use format like "5s", "10m", "2h", or milliseconds`,
+        `Invalid duration format: ${duration}. Use format like "5s", "10m", "2h", "3d", "1w", "until <ISO date>", or milliseconds`,
       );
     }
 
@@ -89,112 +261,34 @@ export class WaitActionHandler extends BaseActionHandler {
         return value * 60 * 1000;
       case 'h':
         return value * 60 * 60 * 1000;
+      case 'd':
+        return value * 24 * 60 * 60 * 1000;
+      case 'w':
+        return value * 7 * 24 * 60 * 60 * 1000;
       default:
         throw new Error(`Unknown duration unit: ${unit}`);
     }
   }
 
   /**
-   * Evaluate a condition expression
-   * Supports: field == value, field != value, field > value, etc.
-   */
-  private evaluateCondition(
-    condition: string,
-    context: ExecutionContext,
-  ): boolean {
-    // Simple condition evaluation
-    // Format: "{{step.1.output.status}} == 'success'"
-    const resolvedCondition = this.resolveTemplate(condition, context);
-
-    // Basic comparison operators
-    if (resolvedCondition.includes('==')) {
-      const [left, right] = resolvedCondition.split('==').map((s) => s.trim());
-      return this.compareValues(left, right, '==');
-    } else if (resolvedCondition.includes('!=')) {
-      const [left, right] = resolvedCondition.split('!=').map((s) => s.trim());
-      return this.compareValues(left, right, '!=');
-    } else if (resolvedCondition.includes('>')) {
-      const [left, right] = resolvedCondition.split('>').map((s) => s.trim());
-      return this.compareValues(left, right, '>');
-    } else if (resolvedCondition.includes('<')) {
-      const [left, right] = resolvedCondition.split('<').map((s) => s.trim());
-      return this.compareValues(left, right, '<');
-    }
-
-    // If no operator, evaluate as boolean
-    return Boolean(resolvedCondition);
-  }
-
-  /**
-   * Compare two values
-   */
-  private compareValues(
-    left: string,
-    right: string,
-    operator: string,
-  ): boolean {
-    // Remove quotes
-    const leftVal = this.parseValue(left);
-    const rightVal = this.parseValue(right);
-
-    switch (operator) {
-      case '==':
-        return leftVal === rightVal;
-      case '!=':
-        return leftVal !== rightVal;
-      case '>':
-        return Number(leftVal) > Number(rightVal);
-      case '<':
-        return Number(leftVal) < Number(rightVal);
-      default:
-        return false;
-    }
-  }
-
-  /**
-   * Parse a value (remove quotes, convert to appropriate type)
-   */
-  private parseValue(value: string): any {
-    value = value.trim();
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      return value.slice(1, -1);
-    }
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    if (!isNaN(Number(value))) return Number(value);
-    return value;
-  }
-
-  /**
-   * Resolve template variables
+   * Sleep for specified milliseconds, waking up early (with an error) if the execution is cancelled
    */
-  private resolveTemplate(template: string, context: ExecutionContext): any {
-    if (typeof template !== 'string') {
-      return template;
-    }
-
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-      const parts = path.trim().split('.');
-      let value: any = context;
-
-      for (const part of parts) {
-        if (value === null || value === undefined) {
-          return match;
-        }
-        value = value[part];
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Wait aborted: execution cancelled'));
+        return;
       }
 
-      return value !== undefined && value !== null ? String(value) : match;
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Wait aborted: execution cancelled'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
-
-  /**
-   * Sleep for specified milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
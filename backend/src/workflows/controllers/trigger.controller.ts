@@ -10,6 +10,7 @@ import {
   HttpStatus,
   Logger,
   Headers,
+  RawBodyRequest,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
 import { WebhookTriggerHandler } from '../triggers/webhook.trigger';
@@ -35,7 +36,7 @@ export class TriggerController {
    * /api/triggers/webhook/{id}:
    *   post:
    *     summary: Handle webhook trigger
-   *     description: Receives webhook requests for a specific webhook ID and triggers associated workflows
+   *     description: Receives webhook requests for a specific webhook ID and triggers associated workflows. Depending on the trigger's verification, requests carry a shared secret (X-Webhook-Secret) or an HMAC-SHA256 signature of the raw body (a configurable header, X-Hub-Signature-256, Stripe-Signature or X-Slack-Signature). By default the request is acknowledged right away; triggers with responseMode lastNode or respondNode hold it until the workflow produces the response (a step's output, or the status, headers and body of a Respond to Webhook step).
    *     tags:
    *       - Triggers
    *     parameters:
@@ -58,7 +59,7 @@ export class TriggerController {
    *             data: {}
    *     responses:
    *       200:
-   *         description: Webhook processed successfully
+   *         description: Webhook processed successfully (the workflow's response in the lastNode and respondNode modes, whose status code may differ)
    *         content:
    *           application/json:
    *             schema:
@@ -70,19 +71,30 @@ export class TriggerController {
    *                 message:
    *                   type: string
    *                   example: "Webhook processed successfully"
+   *       202:
+   *         description: The workflow is paused by a long wait and will finish later
    *       400:
    *         description: Invalid request
+   *       401:
+   *         description: Invalid secret or signature, or a signature timestamp outside the tolerance
    *       404:
    *         description: Webhook not found
+   *       500:
+   *         description: The execution failed before responding
+   *       503:
+   *         description: The workflow did not start (e.g. it is disabled)
+   *       504:
+   *         description: The workflow did not respond within the trigger's response timeout
    */
   @Post('webhook/:id')
   @HttpCode(HttpStatus.OK)
   async handleWebhook(
     @Param('id') webhookId: string,
     @Body() body: any,
-    @Req() req: Request,
+    @Req() req: RawBodyRequest<Request>,
+    @Res({ passthrough: true }) res: Response,
     @Headers() headers: Record<string, string>,
-  ): Promise<{ success: boolean; message: string }> {
+  ): Promise<any> {
     this.logger.log(`Received webhook request for webhookId: ${webhookId}`);
 
     try {
@@ -92,16 +104,16 @@ export class TriggerController {
         normalizedHeaders[key.toLowerCase()] = headers[key];
       });
 
-      await this.webhookTriggerHandler.handleWebhookRequest(
+      const response = await this.webhookTriggerHandler.handleWebhookRequest(
         webhookId,
         body,
         normalizedHeaders,
+        req.rawBody,
       );
 
-      return {
-        success: true,
-        message: 'Webhook processed successfully',
-      };
+      res.status(response.statusCode);
+      res.set(response.headers || {});
+      return response.body;
     } catch (error: any) {
       this.logger.error(
         `Error processing webhook ${webhookId}:`,
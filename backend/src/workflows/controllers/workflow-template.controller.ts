@@ -0,0 +1,297 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { WorkflowTemplateService } from '../services/workflow-template.service';
+import {
+  CreateTemplateDto,
+  InstantiateTemplateDto,
+  WorkflowTemplateResponseDto,
+} from '../dto/workflow-template.dto';
+import { WorkflowResponseDto } from '../dto/workflow-response.dto';
+
+/**
+ * @openapi
+ * tags:
+ *   - name: Templates
+ *     description: Workflow template catalogue
+ */
+@Controller('templates')
+@UseGuards(JwtAuthGuard)
+export class WorkflowTemplateController {
+  constructor(private readonly templateService: WorkflowTemplateService) {}
+
+  /**
+   * @openapi
+   * /templates:
+   *   get:
+   *     summary: List workflow templates
+   *     description: Returns the built-in templates and the templates saved by the authenticated user
+   *     tags:
+   *       - Templates
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: category
+   *         schema:
+   *           type: string
+   *         description: Only templates of this category
+   *     responses:
+   *       200:
+   *         description: List of templates
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WorkflowTemplateResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   */
+  @Get()
+  async findAll(
+    @CurrentUser('id') userId: number,
+    @Query('category') category?: string,
+  ): Promise<WorkflowTemplateResponseDto[]> {
+    const templates = await this.templateService.findAll(userId, category);
+    return templates.map((template) =>
+      plainToInstance(WorkflowTemplateResponseDto, template, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  /**
+   * @openapi
+   * /templates/{id}:
+   *   get:
+   *     summary: Get a workflow template
+   *     tags:
+   *       - Templates
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Template ID
+   *     responses:
+   *       200:
+   *         description: Template details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowTemplateResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Template not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id')
+  async findOne(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WorkflowTemplateResponseDto> {
+    const template = await this.templateService.findById(id, userId);
+    return plainToInstance(WorkflowTemplateResponseDto, template, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /templates:
+   *   post:
+   *     summary: Save a workflow as a template
+   *     description: Saves one of the user's workflows as a template. Secrets are removed, as in a workflow export.
+   *     tags:
+   *       - Templates
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - workflowId
+   *             properties:
+   *               workflowId:
+   *                 type: integer
+   *                 example: 1
+   *               name:
+   *                 type: string
+   *                 description: Defaults to the workflow's name
+   *               description:
+   *                 type: string
+   *               category:
+   *                 type: string
+   *                 example: Monitoring
+   *     responses:
+   *       201:
+   *         description: Template created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowTemplateResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post()
+  async create(
+    @CurrentUser('id') userId: number,
+    @Body() createDto: CreateTemplateDto,
+  ): Promise<WorkflowTemplateResponseDto> {
+    const template = await this.templateService.createFromWorkflow(
+      userId,
+      createDto.workflowId,
+      createDto,
+    );
+    return plainToInstance(WorkflowTemplateResponseDto, template, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /templates/{id}/instantiate:
+   *   post:
+   *     summary: Create a workflow from a template
+   *     description: Fills in the template's parameters and creates a disabled workflow from it
+   *     tags:
+   *       - Templates
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Template ID
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 description: Name of the new workflow
+   *               parameters:
+   *                 type: object
+   *                 additionalProperties: true
+   *                 example: { url: 'https://example.com/health', alertEmail: 'ops@example.com' }
+   *     responses:
+   *       201:
+   *         description: Workflow created from the template
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 workflow:
+   *                   $ref: '#/components/schemas/WorkflowResponse'
+   *                 warnings:
+   *                   type: array
+   *                   items:
+   *                     type: string
+   *       400:
+   *         description: Missing or invalid parameters
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Template not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post(':id/instantiate')
+  async instantiate(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() instantiateDto: InstantiateTemplateDto,
+  ): Promise<{ workflow: WorkflowResponseDto; warnings: string[] }> {
+    const { workflow, warnings } = await this.templateService.instantiate(
+      id,
+      userId,
+      instantiateDto,
+    );
+    return {
+      workflow: plainToInstance(WorkflowResponseDto, workflow, {
+        excludeExtraneousValues: true,
+      }),
+      warnings,
+    };
+  }
+
+  /**
+   * @openapi
+   * /templates/{id}:
+   *   delete:
+   *     summary: Delete a saved template
+   *     description: Deletes a template saved by the user; built-in templates cannot be deleted
+   *     tags:
+   *       - Templates
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Template ID
+   *     responses:
+   *       200:
+   *         description: Template deleted
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       403:
+   *         description: Built-in template
+   *       404:
+   *         description: Template not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Delete(':id')
+  async remove(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ message: string }> {
+    await this.templateService.delete(id, userId);
+    return { message: 'Template deleted successfully' };
+  }
+}
@@ -9,7 +9,10 @@ import {
   IsNumber,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { TriggerType } from '../interfaces/workflow.interface';
+import {
+  ActionErrorPolicy,
+  TriggerType,
+} from '../interfaces/workflow.interface';
 
 export class RetryConfigDto {
   @IsEnum(['fixed', 'exponential'])
@@ -52,6 +55,14 @@ export class CreateActionDto {
   @ValidateNested()
   @Type(() => RetryConfigDto)
   retryConfig?: RetryConfigDto;
+
+  @IsOptional()
+  @IsEnum(ActionErrorPolicy)
+  onError?: ActionErrorPolicy; // Defaults to 'fail'
+
+  @IsOptional()
+  @IsNumber()
+  errorActionOrder?: number; // Order index of the error-handler action (for onError 'branch')
 }
 
 export class CreateTriggerDto {
@@ -82,6 +93,10 @@ export class CreateWorkflowDto {
   @IsBoolean()
   enabled?: boolean;
 
+  @IsOptional()
+  @IsNumber()
+  errorWorkflowId?: number; // Workflow triggered when an execution fails
+
   @ValidateNested()
   @Type(() => CreateTriggerDto)
   trigger: CreateTriggerDto;
@@ -91,3 +106,10 @@ export class CreateWorkflowDto {
   @Type(() => CreateActionDto)
   actions: CreateActionDto[];
 }
+
+export class ValidateWorkflowDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateActionDto)
+  actions: CreateActionDto[];
+}
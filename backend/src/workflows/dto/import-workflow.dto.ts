@@ -0,0 +1,7 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class ImportWorkflowDto {
+  @IsString()
+  @IsNotEmpty()
+  content: string; // JSON or YAML workflow definition file
+}
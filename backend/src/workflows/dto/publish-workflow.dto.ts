@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class PublishWorkflowDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
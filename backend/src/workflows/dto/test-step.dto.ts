@@ -0,0 +1,32 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsBoolean,
+} from 'class-validator';
+
+export class TestStepDto {
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsObject()
+  config: Record<string, any>;
+
+  @IsOptional()
+  @IsObject()
+  triggerData?: Record<string, any>;
+
+  @IsOptional()
+  @IsObject()
+  stepOutputs?: Record<string, any>; // Action name -> output
+
+  @IsOptional()
+  @IsBoolean()
+  useLastExecution?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
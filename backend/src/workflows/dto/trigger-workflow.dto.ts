@@ -1,7 +1,37 @@
-import { IsOptional, IsObject } from 'class-validator';
+import {
+  IsOptional,
+  IsObject,
+  IsBoolean,
+  IsInt,
+  IsDefined,
+} from 'class-validator';
 
 export class TriggerWorkflowDto {
   @IsOptional()
   @IsObject()
   triggerData?: Record<string, any>;
+
+  @IsOptional()
+  @IsBoolean()
+  draft?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  mockOutputs?: Record<string, any>; // Dry runs: action name -> output to use
+}
+
+export class PinTriggerDataDto {
+  @IsDefined()
+  @IsObject()
+  triggerData: Record<string, any>;
+}
+
+export class RerunExecutionDto {
+  @IsOptional()
+  @IsInt()
+  fromStepId?: number; // Failed step to re-run from; omit to start from the beginning
 }
@@ -2,6 +2,7 @@ import {
   IsString,
   IsOptional,
   IsBoolean,
+  IsNumber,
   IsArray,
   ValidateNested,
 } from 'class-validator';
@@ -22,6 +23,10 @@ export class UpdateWorkflowDto {
   @IsBoolean()
   enabled?: boolean;
 
+  @IsOptional()
+  @IsNumber()
+  errorWorkflowId?: number | null; // null removes the error workflow
+
   @IsOptional()
   @ValidateNested()
   @Type(() => CreateTriggerDto)
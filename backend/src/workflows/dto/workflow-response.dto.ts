@@ -1,7 +1,9 @@
-import { Expose, Type } from 'class-transformer';
+import { Expose, Transform, Type } from 'class-transformer';
 import {
   WorkflowStatus,
   ExecutionStepStatus,
+  StepAttempt,
+  SubWorkflowRun,
 } from '../interfaces/workflow.interface';
 
 export class TriggerResponseDto {
@@ -57,6 +59,64 @@ export class ActionResponseDto {
 
   @Expose()
   retryConfig?: Record<string, any>;
+
+  @Expose()
+  onError: string;
+
+  @Expose()
+  errorActionId?: number;
+}
+
+export class WorkflowVersionSummaryDto {
+  @Expose()
+  id: number;
+
+  @Expose()
+  version: number;
+
+  @Expose()
+  createdAt: Date;
+}
+
+export class WorkflowVersionResponseDto {
+  @Expose()
+  id: number;
+
+  @Expose()
+  workflowId: number;
+
+  @Expose()
+  version: number;
+
+  @Expose()
+  name: string;
+
+  @Expose()
+  description?: string;
+
+  @Expose()
+  trigger?: { type: string; config: Record<string, any> };
+
+  @Expose()
+  note?: string;
+
+  @Expose()
+  published: boolean;
+
+  @Expose()
+  @Type(() => ActionResponseDto)
+  actions?: ActionResponseDto[];
+
+  @Expose()
+  @Transform(({ obj }) => obj._count?.actions)
+  actionCount?: number;
+
+  @Expose()
+  @Transform(({ obj }) => obj._count?.executions)
+  executionCount?: number;
+
+  @Expose()
+  createdAt: Date;
 }
 
 export class WorkflowResponseDto {
@@ -75,6 +135,22 @@ export class WorkflowResponseDto {
   @Expose()
   enabled: boolean;
 
+  @Expose()
+  errorWorkflowId?: number;
+
+  @Expose()
+  publishedVersionId?: number;
+
+  @Expose()
+  @Type(() => WorkflowVersionSummaryDto)
+  publishedVersion?: WorkflowVersionSummaryDto;
+
+  @Expose()
+  hasUnpublishedChanges: boolean;
+
+  @Expose()
+  pinnedTriggerData?: Record<string, any>;
+
   @Expose()
   @Type(() => TriggerResponseDto)
   trigger?: TriggerResponseDto;
@@ -118,6 +194,9 @@ export class ExecutionStepResponseDto {
   @Expose()
   retryCount: number;
 
+  @Expose()
+  attempts?: StepAttempt[];
+
   @Expose()
   startedAt?: Date;
 
@@ -125,6 +204,56 @@ export class ExecutionStepResponseDto {
   completedAt?: Date;
 }
 
+export class ExecutionTimelineEntryDto {
+  @Expose()
+  stepId: number;
+
+  @Expose()
+  actionId: number;
+
+  @Expose()
+  actionName?: string;
+
+  @Expose()
+  actionType?: string;
+
+  @Expose()
+  status: ExecutionStepStatus;
+
+  @Expose()
+  order: number;
+
+  @Expose()
+  iteration?: number;
+
+  @Expose()
+  iterationPath?: string;
+
+  @Expose()
+  childExecutions?: SubWorkflowRun[];
+
+  @Expose()
+  startedAt?: Date;
+
+  @Expose()
+  completedAt?: Date;
+
+  @Expose()
+  durationMs: number | null;
+
+  @Expose()
+  offsetMs: number | null;
+
+  @Expose()
+  input?: Record<string, any>;
+
+  @Expose()
+  error?: string;
+
+  @Expose()
+  attempts: StepAttempt[];
+}
+
 export class WorkflowInfoDto {
   @Expose()
   id: number;
@@ -161,10 +290,36 @@ export class ExecutionResponseDto {
   @Expose()
   completedAt?: Date;
 
+  @Expose()
+  resumeCount?: number;
+
+  @Expose()
+  waitUntil?: Date;
+
+  @Expose()
+  parentExecutionId?: number;
+
+  @Expose()
+  workflowVersionId?: number;
+
+  @Expose()
+  @Type(() => WorkflowVersionSummaryDto)
+  workflowVersion?: WorkflowVersionSummaryDto;
+
+  @Expose()
+  dryRun?: boolean;
+
+  @Expose()
+  mockOutputs?: Record<string, any>;
+
   @Expose()
   @Type(() => ExecutionStepResponseDto)
   executionSteps: ExecutionStepResponseDto[];
 
+  @Expose()
+  @Type(() => ExecutionTimelineEntryDto)
+  timeline?: ExecutionTimelineEntryDto[];
+
   @Expose()
   createdAt: Date;
 
@@ -0,0 +1,72 @@
+import {
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Expose, Transform } from 'class-transformer';
+import { TemplateParameter } from '../interfaces/workflow.interface';
+
+export class CreateTemplateDto {
+  @IsInt()
+  workflowId: number; // Workflow to save as a template
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string; // Defaults to the workflow's name
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+}
+
+export class InstantiateTemplateDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string; // Defaults to the name in the template
+
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, string | number>; // Values for the template's parameters, by key
+}
+
+export class WorkflowTemplateResponseDto {
+  @Expose()
+  id: number;
+
+  @Expose()
+  key?: string;
+
+  @Expose()
+  @Transform(({ obj }) => obj.userId === null)
+  builtIn: boolean;
+
+  @Expose()
+  name: string;
+
+  @Expose()
+  description?: string;
+
+  @Expose()
+  category?: string;
+
+  @Expose()
+  parameters: TemplateParameter[];
+
+  @Expose()
+  definition: Record<string, any>;
+
+  @Expose()
+  createdAt: Date;
+
+  @Expose()
+  updatedAt: Date;
+}
@@ -3,11 +3,24 @@ import { ExecutionService } from './execution.service';
 import { ExecutionRepository } from './repositories/execution.repository';
 import { ActionRegistry } from './actions/action.registry';
 import { ActionFactory } from './actions/action.factory';
+import { ExecutionCancellationService } from './services/execution-cancellation.service';
+import { ExpressionService } from './services/expression.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowEventService } from './services/workflow-event.service';
+import { ParallelActionHandler } from './actions/parallel.action';
+import { LoopActionHandler } from './actions/loop.action';
+import { WaitActionHandler } from './actions/wait.action';
+import { ConditionService } from './services/condition.service';
 
 describe('ExecutionService', () => {
   let service: ExecutionService;
   let executionRepository: jest.Mocked<ExecutionRepository>;
   let actionRegistry: jest.Mocked<ActionRegistry>;
+  let actionFactory: jest.Mocked<ActionFactory>;
+  let cancellationService: ExecutionCancellationService;
+  let workflowQueue: { add: jest.Mock; getJob: jest.Mock };
+  let executionEvents: { publish: jest.Mock };
+  let workflowEvents: { emitExecutionFailed: jest.Mock };
 
   beforeEach(async () => {
     const mockExecutionRepository = {
@@ -21,8 +34,13 @@ describe('ExecutionService', () => {
       findByWorkflowId: jest.fn(),
       findByUserId: jest.fn(),
       update: jest.fn(),
+      findExecutionStep: jest.fn().mockResolvedValue(null),
       createExecutionStep: jest.fn(),
       updateExecutionStep: jest.fn(),
+      touchHeartbeat: jest.fn().mockResolvedValue({ id: 1, status: 'running' }),
+      markRunning: jest.fn().mockResolvedValue(true),
+      markWaiting: jest.fn().mockResolvedValue(true),
+      skipRemainingSteps: jest.fn(),
     };
 
     const mockActionRegistry = {
@@ -31,6 +49,7 @@ describe('ExecutionService', () => {
 
     const mockActionFactory = {
       createAction: jest.fn(),
+      getHandler: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -48,12 +67,34 @@ describe('ExecutionService', () => {
           provide: ActionFactory,
           useValue: mockActionFactory,
         },
+        {
+          provide: ExecutionCancellationService,
+          useValue: new ExecutionCancellationService({} as any),
+        },
+        {
+          provide: 'WORKFLOW_QUEUE',
+          useValue: { add: jest.fn(), getJob: jest.fn() },
+        },
+        ExpressionService,
+        {
+          provide: ExecutionEventsService,
+          useValue: { publish: jest.fn() },
+        },
+        {
+          provide: WorkflowEventService,
+          useValue: { emitExecutionFailed: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<ExecutionService>(ExecutionService);
     executionRepository = module.get(ExecutionRepository);
     actionRegistry = module.get(ActionRegistry);
+    actionFactory = module.get(ActionFactory);
+    cancellationService = module.get(ExecutionCancellationService);
+    workflowQueue = module.get('WORKFLOW_QUEUE');
+    executionEvents = module.get(ExecutionEventsService);
+    workflowEvents = module.get(WorkflowEventService);
   });
 
   afterEach(() => {
@@ -208,6 +249,1353 @@ describe('ExecutionService', () => {
       // Should retry on first failure
       expect(mockHandler.execute).toHaveBeenCalledTimes(2);
     });
+
+    it('should run a sub-workflow once unless its retries are configured', async () => {
+      const executionId = 1;
+      const mockExecution = {
+        id: executionId,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: {},
+        workflow: {
+          id: 1,
+          actions: [
+            {
+              id: 1,
+              type: 'execute_workflow',
+              name: 'Charge customer',
+              config: { workflowId: 2 },
+              order: 0,
+            },
+          ],
+        },
+      };
+
+      const mockHandler = {
+        type: 'execute_workflow',
+        name: 'Execute Workflow',
+        defaultAttempts: 1,
+        execute: jest
+          .fn()
+          .mockRejectedValue(new Error('Sub-workflow execution 7 failed')),
+      };
+
+      executionRepository.findById.mockResolvedValue(mockExecution as any);
+      executionRepository.update.mockResolvedValue(mockExecution as any);
+      executionRepository.createExecutionStep.mockResolvedValue({
+        id: 1,
+        executionId,
+        actionId: 1,
+        order: 0,
+        status: 'pending' as any,
+        retryCount: 0,
+      } as any);
+      actionFactory.getHandler.mockReturnValue(mockHandler);
+
+      await service.execute(executionId).catch(() => undefined);
+
+      expect(mockHandler.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume from completed steps without re-running them', async () => {
+      const executionId = 1;
+      const mockExecution = {
+        id: executionId,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        triggerData: {},
+        workflow: {
+          id: 1,
+          actions: [
+            {
+              id: 1,
+              type: 'parallel',
+              name: 'Fan out',
+              config: { actionIds: [2] },
+              order: 0,
+            },
+            {
+              id: 2,
+              type: 'example_action',
+              name: 'Second',
+              config: {},
+              order: 1,
+            },
+          ],
+        },
+        executionSteps: [
+          {
+            id: 10,
+            actionId: 1,
+            order: 0,
+            status: 'completed',
+            output: { actionIds: [2], value: 'from previous run' },
+          },
+        ],
+      };
+
+      const mockHandler = {
+        type: 'example_action',
+        name: 'Test Action',
+        execute: jest.fn().mockResolvedValue({ value: 'fresh' }),
+      };
+
+      executionRepository.findById.mockResolvedValue(mockExecution as any);
+      executionRepository.findExecutionStep.mockImplementation(
+        async (_executionId, actionId) =>
+          (mockExecution.executionSteps.find(
+            (step) => step.actionId === actionId,
+          ) ?? null) as any,
+      );
+      executionRepository.update.mockResolvedValue(mockExecution as any);
+      executionRepository.createExecutionStep.mockResolvedValue({
+        id: 11,
+        executionId,
+        actionId: 2,
+        order: 1,
+        status: 'pending' as any,
+        retryCount: 0,
+      } as any);
+      actionFactory.getHandler.mockReturnValue(mockHandler);
+
+      await service.execute(executionId);
+
+      expect(mockHandler.execute).toHaveBeenCalledTimes(1);
+      expect(mockHandler.execute.mock.calls[0][0].stepResults[1]).toEqual({
+        actionIds: [2],
+        value: 'from previous run',
+      });
+      expect(executionRepository.markRunning).toHaveBeenCalledWith(
+        executionId,
+        mockExecution.startedAt,
+      );
+      expect(executionRepository.update).toHaveBeenCalledWith(executionId, {
+        status: 'completed' as any,
+        result: {
+          1: {
+            actionIds: [2],
+            value: 'from previous run',
+            branches: [{ value: 'fresh' }],
+          },
+          2: { value: 'fresh' },
+        },
+        completedAt: expect.any(Date),
+      });
+      expect(executionRepository.touchHeartbeat).toHaveBeenCalledWith(
+        executionId,
+      );
+    });
+
+    it('should stop and skip remaining steps when cancelled mid-run', async () => {
+      const executionId = 1;
+      const actions = [
+        {
+          id: 1,
+          type: 'parallel',
+          name: 'Fan out',
+          config: { actionIds: [2] },
+          order: 0,
+        },
+        {
+          id: 2,
+          type: 'example_action',
+          name: 'Long step',
+          config: {},
+          order: 1,
+          nextActionId: 3,
+        },
+        {
+          id: 3,
+          type: 'example_action',
+          name: 'Never runs',
+          config: {},
+          order: 2,
+        },
+      ];
+      const mockExecution = {
+        id: executionId,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: {},
+        workflow: { id: 1, actions },
+        executionSteps: [],
+      };
+
+      const mockHandler = {
+        type: 'example_action',
+        name: 'Test Action',
+        execute: jest.fn().mockImplementation(async (context) => {
+          if (context.stepResults[1] && !context.stepResults[2]) {
+            // Cancel while the second step is in flight
+            cancellationService.abort(executionId);
+            throw new Error('aborted');
+          }
+          return { actionIds: [2] };
+        }),
+      };
+
+      executionRepository.findById.mockResolvedValue(mockExecution as any);
+      executionRepository.update.mockResolvedValue(mockExecution as any);
+      executionRepository.createExecutionStep.mockImplementation(
+        async (data) => ({ id: data.actionId, retryCount: 0, ...data }) as any,
+      );
+      actionFactory.getHandler.mockReturnValue(mockHandler);
+
+      await service.execute(executionId);
+
+      expect(mockHandler.execute).toHaveBeenCalledTimes(2);
+      expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(2, {
+        status: 'skipped',
+        error: 'Execution cancelled',
+        completedAt: expect.any(Date),
+        attempts: [
+          expect.objectContaining({
+            attempt: 1,
+            status: 'failed',
+            error: 'aborted',
+          }),
+        ],
+      });
+      expect(executionRepository.skipRemainingSteps).toHaveBeenCalledWith(
+        executionId,
+        actions,
+      );
+      expect(executionRepository.update).toHaveBeenCalledWith(executionId, {
+        status: 'cancelled',
+        completedAt: expect.any(Date),
+      });
+      expect(executionRepository.update).not.toHaveBeenCalledWith(
+        executionId,
+        expect.objectContaining({ status: 'failed' }),
+      );
+    });
+
+    it('should finalize an execution cancelled while its job was being picked up', async () => {
+      const executionId = 1;
+      const actions = [
+        { id: 1, type: 'example_action', name: 'Step', config: {}, order: 0 },
+      ];
+      const pending = {
+        id: executionId,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        completedAt: null,
+        triggerData: {},
+        workflow: { id: 1, actions },
+        executionSteps: [],
+      };
+
+      // The API cancels between this worker reading the execution and claiming it
+      executionRepository.findById
+        .mockResolvedValueOnce(pending as any)
+        .mockResolvedValueOnce({ ...pending, status: 'cancelled' } as any);
+      executionRepository.markRunning.mockResolvedValueOnce(false);
+
+      await service.execute(executionId);
+
+      expect(actionFactory.getHandler).not.toHaveBeenCalled();
+      expect(executionRepository.skipRemainingSteps).toHaveBeenCalledWith(
+        executionId,
+        actions,
+      );
+      expect(executionRepository.update).toHaveBeenCalledWith(executionId, {
+        status: 'cancelled',
+        completedAt: expect.any(Date),
+      });
+      expect(executionEvents.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ executionId, status: 'cancelled' }),
+      );
+
+      // A job for an execution cancelled before the worker read it is finalized too
+      jest.clearAllMocks();
+      executionRepository.findById.mockResolvedValueOnce({
+        ...pending,
+        status: 'cancelled',
+      } as any);
+
+      await service.execute(executionId);
+
+      expect(executionRepository.markRunning).not.toHaveBeenCalled();
+      expect(executionRepository.update).toHaveBeenCalledWith(executionId, {
+        status: 'cancelled',
+        completedAt: expect.any(Date),
+      });
+    });
+
+    it('should record every attempt and the resolved input of a step', async () => {
+      const executionId = 1;
+      const mockExecution = {
+        id: executionId,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: { name: 'Ada' },
+        workflow: {
+          id: 1,
+          actions: [
+            {
+              id: 1,
+              type: 'example_action',
+              name: 'Greet',
+              config: { message: 'Hello {{trigger.name}}' },
+              order: 0,
+              retryConfig: {
+                attempts: 3,
+                backoff: { type: 'fixed', delay: 1 },
+              },
+            },
+          ],
+        },
+        executionSteps: [],
+      };
+
+      const mockHandler = {
+        type: 'example_action',
+        name: 'Test Action',
+        execute: jest
+          .fn()
+          .mockRejectedValueOnce(new Error('First failure'))
+          .mockRejectedValueOnce(new Error('Second failure'))
+          .mockResolvedValue({ ok: true }),
+      };
+
+      executionRepository.findById.mockResolvedValue(mockExecution as any);
+      executionRepository.createExecutionStep.mockResolvedValue({
+        id: 5,
+        executionId,
+        actionId: 1,
+        order: 0,
+        status: 'pending' as any,
+        retryCount: 0,
+      } as any);
+      actionFactory.getHandler.mockReturnValue(mockHandler);
+
+      await service.execute(executionId);
+
+      expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(5, {
+        status: 'running',
+        input: { message: 'Hello Ada' },
+        startedAt: expect.any(Date),
+      });
+      expect(executionRepository.updateExecutionStep).toHaveBeenLastCalledWith(
+        5,
+        expect.objectContaining({
+          status: 'completed',
+          retryCount: 2,
+          attempts: [
+            expect.objectContaining({
+              attempt: 1,
+              status: 'failed',
+              error: 'First failure',
+            }),
+            expect.objectContaining({
+              attempt: 2,
+              status: 'failed',
+              error: 'Second failure',
+            }),
+            expect.objectContaining({ attempt: 3, status: 'completed' }),
+          ],
+        }),
+      );
+      expect(
+        executionEvents.publish.mock.calls.map(([event]) => [
+          event.type,
+          event.status,
+        ]),
+      ).toEqual([
+        ['execution.status', 'running'],
+        ['step.started', 'running'],
+        ['step.completed', 'completed'],
+        ['execution.status', 'completed'],
+      ]);
+    });
+
+    describe('error handling', () => {
+      const buildExecution = (flaky: Record<string, any>) => ({
+        id: 1,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: { url: 'https://example.com' },
+        workflow: {
+          id: 1,
+          actions: [
+            {
+              id: 1,
+              type: 'parallel',
+              name: 'Start',
+              config: { actionIds: [2] },
+              order: 0,
+            },
+            {
+              id: 2,
+              type: 'flaky_action',
+              name: 'Fetch',
+              config: { url: '{{trigger.url}}' },
+              order: 1,
+              nextActionId: 3,
+              retryConfig: {
+                attempts: 1,
+                backoff: { type: 'fixed', delay: 1 },
+              },
+              ...flaky,
+            },
+            {
+              id: 3,
+              type: 'example_action',
+              name: 'Next',
+              config: {},
+              order: 2,
+            },
+            {
+              id: 4,
+              type: 'notify_action',
+              name: 'Report',
+              config: { text: '{{error.actionName}}: {{error.message}}' },
+              order: 3,
+            },
+          ],
+        },
+        executionSteps: [],
+      });
+
+      const handlers = {
+        parallel: {
+          type: 'parallel',
+          name: 'Parallel',
+          // Let branch failures reach the execution
+          execute: jest
+            .fn()
+            .mockResolvedValue({ actionIds: [2], stopOnFirstFailure: true }),
+        },
+        flaky_action: {
+          type: 'flaky_action',
+          name: 'Flaky',
+          execute: jest.fn().mockRejectedValue(new Error('Boom')),
+        },
+        example_action: {
+          type: 'example_action',
+          name: 'Example',
+          execute: jest.fn().mockResolvedValue({ ok: true }),
+        },
+        notify_action: {
+          type: 'notify_action',
+          name: 'Notify',
+          execute: jest.fn(),
+        },
+      };
+
+      beforeEach(() => {
+        executionRepository.createExecutionStep.mockImplementation(
+          async (data: any) =>
+            ({ id: data.actionId * 10, retryCount: 0, ...data }) as any,
+        );
+        actionFactory.getHandler.mockImplementation(
+          (type: string) => handlers[type as keyof typeof handlers],
+        );
+      });
+
+      it('should record the error and follow the next action on "continue"', async () => {
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({ onError: 'continue' }) as any,
+        );
+
+        await service.execute(1);
+
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          20,
+          expect.objectContaining({ status: 'failed', error: 'Boom' }),
+        );
+        expect(handlers.example_action.execute).toHaveBeenCalledTimes(1);
+        expect(handlers.notify_action.execute).not.toHaveBeenCalled();
+        expect(executionRepository.update).toHaveBeenCalledTimes(1);
+        expect(executionRepository.update).toHaveBeenCalledWith(1, {
+          status: 'completed',
+          result: {
+            1: {
+              actionIds: [2],
+              stopOnFirstFailure: true,
+              branches: [{ ok: true }],
+            },
+            2: { error: { message: 'Boom' } },
+            3: { ok: true },
+          },
+          completedAt: expect.any(Date),
+        });
+      });
+
+      it('should route to the error handler with the error and failed input on "branch"', async () => {
+        let handlerError: any;
+        handlers.notify_action.execute.mockImplementation(async (context) => {
+          handlerError = context.error;
+          return { notified: true };
+        });
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({ onError: 'branch', errorActionId: 4 }) as any,
+        );
+
+        await service.execute(1);
+
+        expect(handlers.example_action.execute).not.toHaveBeenCalled();
+        expect(handlers.notify_action.execute).toHaveBeenCalledTimes(1);
+        expect(handlerError).toEqual({
+          message: 'Boom',
+          actionId: 2,
+          actionName: 'Fetch',
+          input: { url: 'https://example.com' },
+        });
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          40,
+          expect.objectContaining({
+            status: 'running',
+            input: { text: 'Fetch: Boom' },
+          }),
+        );
+        expect(executionRepository.update).toHaveBeenCalledWith(
+          1,
+          expect.objectContaining({ status: 'completed' }),
+        );
+      });
+
+      it('should fail the execution when the policy is "fail"', async () => {
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({ onError: 'fail', errorActionId: 4 }) as any,
+        );
+
+        await expect(service.execute(1)).rejects.toThrow('Boom');
+
+        expect(handlers.notify_action.execute).not.toHaveBeenCalled();
+        expect(executionRepository.update).toHaveBeenCalledWith(
+          1,
+          expect.objectContaining({
+            status: 'failed',
+            error: 'Action "Fetch" failed: Boom',
+          }),
+        );
+        expect(workflowEvents.emitExecutionFailed).toHaveBeenCalledWith(1);
+      });
+    });
+
+    describe('parallel join', () => {
+      const buildExecution = (parallelConfig: Record<string, any>) => ({
+        id: 1,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: {},
+        workflow: {
+          id: 1,
+          actions: [
+            {
+              id: 1,
+              type: 'parallel',
+              name: 'Fan out',
+              config: { actionIds: [2, 3], ...parallelConfig },
+              order: 0,
+              nextActionId: 4,
+            },
+            {
+              id: 2,
+              type: 'branch_a',
+              name: 'A',
+              config: {},
+              order: 1,
+              retryConfig: {
+                attempts: 1,
+                backoff: { type: 'fixed', delay: 1 },
+              },
+            },
+            {
+              id: 3,
+              type: 'branch_b',
+              name: 'B',
+              config: {},
+              order: 2,
+              retryConfig: {
+                attempts: 1,
+                backoff: { type: 'fixed', delay: 1 },
+              },
+            },
+            {
+              id: 4,
+              type: 'join_action',
+              name: 'Merge',
+              config: { first: '{{steps.1.branches[0].value}}' },
+              order: 3,
+            },
+          ],
+        },
+        executionSteps: [],
+      });
+
+      let handlers: Record<string, any>;
+
+      beforeEach(() => {
+        handlers = {
+          parallel: new ParallelActionHandler(),
+          branch_a: {
+            type: 'branch_a',
+            name: 'A',
+            execute: jest.fn().mockResolvedValue({ value: 'a' }),
+          },
+          branch_b: {
+            type: 'branch_b',
+            name: 'B',
+            execute: jest.fn().mockRejectedValue(new Error('B broke')),
+          },
+          join_action: {
+            type: 'join_action',
+            name: 'Join',
+            execute: jest.fn().mockResolvedValue({ joined: true }),
+          },
+        };
+        executionRepository.createExecutionStep.mockImplementation(
+          async (data: any) =>
+            ({ id: data.actionId * 10, retryCount: 0, ...data }) as any,
+        );
+        actionFactory.getHandler.mockImplementation(
+          (type: string) => handlers[type],
+        );
+      });
+
+      it('should join all branches, record failures and continue with nextActionId', async () => {
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({}) as any,
+        );
+
+        await service.execute(1);
+
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          10,
+          {
+            output: expect.objectContaining({
+              branches: [{ value: 'a' }, { error: { message: 'B broke' } }],
+            }),
+          },
+        );
+        expect(handlers.join_action.execute).toHaveBeenCalledTimes(1);
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          40,
+          expect.objectContaining({
+            status: 'running',
+            input: { first: 'a' },
+          }),
+        );
+        expect(executionRepository.update).toHaveBeenLastCalledWith(
+          1,
+          expect.objectContaining({ status: 'completed' }),
+        );
+      });
+
+      it('should join as soon as waitFor branches succeeded', async () => {
+        let finishB: (value: any) => void = () => undefined;
+        handlers.branch_b.execute.mockReturnValue(
+          new Promise((resolve) => (finishB = resolve)),
+        );
+        handlers.join_action.execute.mockImplementation(async () => {
+          // B is still running when the join continues
+          finishB({ value: 'b' });
+          return { joined: true };
+        });
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({ waitForAll: false, waitFor: 1 }) as any,
+        );
+
+        await service.execute(1);
+
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          10,
+          {
+            output: expect.objectContaining({
+              branches: [{ value: 'a' }, null],
+            }),
+          },
+        );
+        expect(handlers.join_action.execute).toHaveBeenCalledTimes(1);
+        expect(executionRepository.update).toHaveBeenLastCalledWith(
+          1,
+          expect.objectContaining({
+            status: 'completed',
+            result: expect.objectContaining({ 3: { value: 'b' } }),
+          }),
+        );
+      });
+
+      it('should fail without joining when the failure policy is "fail"', async () => {
+        executionRepository.findById.mockResolvedValue(
+          buildExecution({ failurePolicy: 'fail' }) as any,
+        );
+
+        await expect(service.execute(1)).rejects.toThrow(
+          'Branch 3 of parallel action "Fan out" failed: B broke',
+        );
+
+        expect(handlers.branch_a.execute).toHaveBeenCalledTimes(1);
+        expect(handlers.join_action.execute).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('loops', () => {
+      const buildExecution = (actions: any[]) => ({
+        id: 1,
+        workflowId: 1,
+        userId: 1,
+        status: 'pending' as any,
+        triggerData: {},
+        workflow: { id: 1, actions },
+        executionSteps: [],
+      });
+
+      let handlers: Record<string, any>;
+      let createdSteps: any[];
+
+      beforeEach(() => {
+        handlers = {
+          loop: new LoopActionHandler(new ExpressionService()),
+          double: {
+            execute: jest.fn(async (context: any) => ({
+              value: context.loopContext.item * 2,
+            })),
+          },
+          label: {
+            execute: jest.fn(async (context: any) => ({
+              value: `#${context.stepResults[2].value}`,
+            })),
+          },
+          summary: {
+            execute: jest.fn().mockResolvedValue({ done: true }),
+          },
+        };
+        createdSteps = [];
+        executionRepository.createExecutionStep.mockImplementation(
+          async (data: any) => {
+            const step = {
+              id: createdSteps.length + 1,
+              retryCount: 0,
+              ...data,
+            };
+            createdSteps.push(step);
+            return step as any;
+          },
+        );
+        actionFactory.getHandler.mockImplementation(
+          (type: string) => handlers[type],
+        );
+      });
+
+      it('should run the whole body once per item with its own steps and collect the outputs', async () => {
+        executionRepository.findById.mockResolvedValue(
+          buildExecution([
+            {
+              id: 1,
+              type: 'loop',
+              name: 'Each number',
+              config: { items: [1, 2, 3], loopActionId: 2 },
+              order: 0,
+              nextActionId: 4,
+            },
+            {
+              id: 2,
+              type: 'double',
+              name: 'Double',
+              config: {},
+              order: 1,
+              nextActionId: 3,
+            },
+            { id: 3, type: 'label', name: 'Label', config: {}, order: 2 },
+            { id: 4, type: 'summary', name: 'Summary', config: {}, order: 3 },
+          ]) as any,
+        );
+
+        await service.execute(1);
+
+        expect(handlers.double.execute).toHaveBeenCalledTimes(3);
+        expect(handlers.label.execute).toHaveBeenCalledTimes(3);
+        expect(handlers.summary.execute).toHaveBeenCalledTimes(1);
+        expect(
+          createdSteps
+            .filter((step) => step.actionId === 3)
+            .map((step) => [step.iteration, step.iterationPath]),
+        ).toEqual([
+          [0, '0'],
+          [1, '1'],
+          [2, '2'],
+        ]);
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          1,
+          {
+            output: expect.objectContaining({
+              iterations: [{ value: '#2' }, { value: '#4' }, { value: '#6' }],
+            }),
+          },
+        );
+        expect(executionRepository.update).toHaveBeenLastCalledWith(
+          1,
+          expect.objectContaining({ status: 'completed' }),
+        );
+      });
+
+      it('should resume a loop with the outputs of each completed iteration', async () => {
+        const executionSteps = [
+          { id: 20, actionId: 2, iterationPath: '0', output: { value: 20 } },
+          { id: 21, actionId: 2, iterationPath: '1', output: { value: 40 } },
+        ].map((step) => ({ ...step, order: 1, status: 'completed' }));
+        executionRepository.findById.mockResolvedValue({
+          ...buildExecution([
+            {
+              id: 1,
+              type: 'loop',
+              name: 'Each number',
+              config: { items: [1, 2, 3], loopActionId: 2 },
+              order: 0,
+            },
+            {
+              id: 2,
+              type: 'double',
+              name: 'Double',
+              config: {},
+              order: 1,
+              nextActionId: 3,
+            },
+            { id: 3, type: 'label', name: 'Label', config: {}, order: 2 },
+          ]),
+          executionSteps,
+        } as any);
+        executionRepository.findExecutionStep.mockImplementation(
+          async (_executionId, actionId, iterationPath) =>
+            (executionSteps.find(
+              (step) =>
+                step.actionId === actionId &&
+                step.iterationPath === iterationPath,
+            ) ?? null) as any,
+        );
+
+        await service.execute(1);
+
+        expect(handlers.double.execute).toHaveBeenCalledTimes(1);
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          1,
+          {
+            output: expect.objectContaining({
+              iterations: [{ value: '#20' }, { value: '#40' }, { value: '#6' }],
+            }),
+          },
+        );
+      });
+
+      it('should expose the outer item to nested loops', async () => {
+        handlers.pair = { execute: jest.fn().mockResolvedValue({}) };
+        executionRepository.findById.mockResolvedValue(
+          buildExecution([
+            {
+              id: 1,
+              type: 'loop',
+              name: 'Each user',
+              config: { items: ['ann', 'bob'], loopActionId: 2 },
+              order: 0,
+            },
+            {
+              id: 2,
+              type: 'loop',
+              name: 'Each role',
+              config: { items: ['admin', 'viewer'], loopActionId: 3 },
+              order: 1,
+            },
+            {
+              id: 3,
+              type: 'pair',
+              name: 'Pair',
+              config: { label: '{{loop.parent.item}}:{{loop.item}}' },
+              order: 2,
+            },
+          ]) as any,
+        );
+
+        await service.execute(1);
+
+        const pairSteps = createdSteps.filter((step) => step.actionId === 3);
+        expect(pairSteps.map((step) => step.iterationPath)).toEqual([
+          '0.0',
+          '0.1',
+          '1.0',
+          '1.1',
+        ]);
+        const labels = pairSteps.map(
+          (step) =>
+            executionRepository.updateExecutionStep.mock.calls.find(
+              ([id, data]) => id === step.id && data.input,
+            )?.[1].input as any,
+        );
+        expect(labels.map((input) => input.label)).toEqual([
+          'ann:admin',
+          'ann:viewer',
+          'bob:admin',
+          'bob:viewer',
+        ]);
+      });
+
+      it('should run up to concurrency iterations at once', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        handlers.double.execute.mockImplementation(async (context: any) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return { value: context.loopContext.item * 2 };
+        });
+        executionRepository.findById.mockResolvedValue(
+          buildExecution([
+            {
+              id: 1,
+              type: 'loop',
+              name: 'Each number',
+              config: {
+                items: [1, 2, 3, 4, 5],
+                loopActionId: 2,
+                concurrency: 2,
+              },
+              order: 0,
+            },
+            { id: 2, type: 'double', name: 'Double', config: {}, order: 1 },
+          ]) as any,
+        );
+
+        await service.execute(1);
+
+        expect(maxRunning).toBe(2);
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          1,
+          {
+            output: expect.objectContaining({
+              iterations: [2, 4, 6, 8, 10].map((value) => ({ value })),
+            }),
+          },
+        );
+      });
+    });
+
+    describe('long waits', () => {
+      const executionId = 1;
+      const actions = [
+        {
+          id: 1,
+          type: 'parallel',
+          name: 'Fan out',
+          config: { actionIds: [2] },
+          order: 0,
+        },
+        {
+          id: 2,
+          type: 'wait',
+          name: 'Wait 3 days',
+          config: { duration: '3d' },
+          order: 1,
+          nextActionId: 3,
+        },
+        {
+          id: 3,
+          type: 'example_action',
+          name: 'Follow up',
+          config: {},
+          order: 2,
+        },
+      ];
+      const handlers = {
+        parallel: { execute: jest.fn() },
+        wait: { execute: jest.fn() },
+        example_action: { execute: jest.fn() },
+      };
+
+      beforeEach(() => {
+        handlers.parallel.execute.mockResolvedValue({ actionIds: [2] });
+        handlers.example_action.execute.mockResolvedValue({ sent: true });
+        actionFactory.getHandler.mockImplementation(
+          (type: string) => handlers[type as keyof typeof handlers] as any,
+        );
+        executionRepository.createExecutionStep.mockImplementation(
+          async (data) =>
+            ({ id: data.actionId, retryCount: 0, ...data }) as any,
+        );
+      });
+
+      it('should park the execution and schedule a delayed resume', async () => {
+        const resumeAt = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+        handlers.wait.execute.mockResolvedValue({
+          waited: 3 * 24 * 60 * 60 * 1000,
+          type: 'duration',
+          resumeAt: resumeAt.toISOString(),
+        });
+        executionRepository.findById.mockResolvedValue({
+          id: executionId,
+          workflowId: 1,
+          userId: 1,
+          status: 'pending',
+          triggerData: {},
+          workflow: { id: 1, actions },
+          executionSteps: [],
+        } as any);
+
+        await service.execute(executionId);
+
+        expect(handlers.example_action.execute).not.toHaveBeenCalled();
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          2,
+          expect.objectContaining({
+            status: 'waiting',
+            completedAt: undefined,
+          }),
+        );
+        expect(executionRepository.markWaiting).toHaveBeenCalledWith(
+          executionId,
+          resumeAt,
+        );
+        expect(workflowQueue.add).toHaveBeenCalledWith(
+          'execute-workflow',
+          expect.objectContaining({ executionId }),
+          expect.objectContaining({
+            jobId: `execution-${executionId}-wait-${resumeAt.getTime()}`,
+            delay: expect.any(Number),
+          }),
+        );
+        expect(workflowQueue.add.mock.calls[0][2].delay).toBeGreaterThan(0);
+        expect(executionRepository.update).not.toHaveBeenCalledWith(
+          executionId,
+          expect.objectContaining({ status: 'completed' }),
+        );
+      });
+
+      it('should replace a finished resume job with the same ID', async () => {
+        const waitUntil = new Date(Date.now() + 60 * 60 * 1000);
+        const finishedJob = {
+          getState: jest.fn().mockResolvedValue('completed'),
+          remove: jest.fn(),
+        };
+        workflowQueue.getJob.mockResolvedValue(finishedJob);
+
+        await service.scheduleResume({
+          id: executionId,
+          workflowId: 1,
+          userId: 1,
+          waitUntil,
+        });
+
+        expect(workflowQueue.getJob).toHaveBeenCalledWith(
+          `execution-${executionId}-wait-${waitUntil.getTime()}`,
+        );
+        expect(finishedJob.remove).toHaveBeenCalled();
+        expect(workflowQueue.add).toHaveBeenCalledTimes(1);
+
+        // A pending resume job is left alone (adding it again is a no-op)
+        finishedJob.getState.mockResolvedValue('delayed');
+        finishedJob.remove.mockClear();
+        await service.scheduleResume({
+          id: executionId,
+          workflowId: 1,
+          userId: 1,
+          waitUntil,
+        });
+        expect(finishedJob.remove).not.toHaveBeenCalled();
+      });
+
+      it('should continue after the wait once resumed', async () => {
+        const waitOutput = {
+          waited: 3 * 24 * 60 * 60 * 1000,
+          type: 'duration',
+          resumeAt: new Date(Date.now() - 1000).toISOString(),
+        };
+        const executionSteps = [
+          {
+            id: 1,
+            actionId: 1,
+            order: 0,
+            status: 'completed',
+            output: { actionIds: [2] },
+          },
+          {
+            id: 2,
+            actionId: 2,
+            order: 1,
+            status: 'waiting',
+            output: waitOutput,
+          },
+        ];
+        executionRepository.findById.mockResolvedValue({
+          id: executionId,
+          workflowId: 1,
+          userId: 1,
+          status: 'waiting',
+          triggerData: {},
+          workflow: { id: 1, actions },
+          executionSteps,
+        } as any);
+        executionRepository.findExecutionStep.mockImplementation(
+          async (_executionId, actionId) =>
+            (executionSteps.find((step) => step.actionId === actionId) ??
+              null) as any,
+        );
+
+        await service.execute(executionId);
+
+        expect(handlers.wait.execute).not.toHaveBeenCalled();
+        expect(handlers.example_action.execute).toHaveBeenCalledTimes(1);
+        expect(executionRepository.updateExecutionStep).toHaveBeenCalledWith(
+          2,
+          {
+            status: 'completed',
+            completedAt: expect.any(Date),
+          },
+        );
+        expect(executionRepository.update).toHaveBeenCalledWith(executionId, {
+          status: 'completed',
+          result: {
+            1: { actionIds: [2], branches: [{ sent: true }] },
+            2: waitOutput,
+            3: { sent: true },
+          },
+          completedAt: expect.any(Date),
+        });
+        expect(workflowQueue.add).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('dry runs', () => {
+      const handlers = {
+        conditional: {
+          execute: jest
+            .fn()
+            .mockResolvedValue({ result: true, nextActionId: 2 }),
+        },
+        http_request: {
+          sideEffects: true,
+          execute: jest.fn(),
+          preview: jest.fn().mockResolvedValue({
+            dryRun: true,
+            summary: 'Would send POST https://example.com/orders',
+          }),
+        },
+        email: {
+          sideEffects: true,
+          execute: jest.fn(),
+          preview: jest.fn(),
+        },
+        example_action: { execute: jest.fn().mockResolvedValue({ ok: true }) },
+      };
+
+      beforeEach(() => {
+        actionFactory.getHandler.mockImplementation(
+          (type: string) => handlers[type as keyof typeof handlers] as any,
+        );
+        executionRepository.createExecutionStep.mockImplementation(
+          async (data) =>
+            ({ id: data.actionId, retryCount: 0, ...data }) as any,
+        );
+        executionRepository.findById.mockResolvedValue({
+          id: 1,
+          workflowId: 1,
+          userId: 1,
+          status: 'pending',
+          dryRun: true,
+          mockOutputs: { 'Email team': { messageId: 'mock-1' } },
+          triggerData: {},
+          workflow: {
+            id: 1,
+            actions: [
+              {
+                id: 1,
+                type: 'conditional',
+                name: 'Is big order',
+                config: {},
+                order: 0,
+              },
+              {
+                id: 2,
+                type: 'http_request',
+                name: 'Post order',
+                config: { method: 'POST', url: 'https://example.com/orders' },
+                order: 1,
+                nextActionId: 3,
+              },
+              {
+                id: 3,
+                type: 'email',
+                name: 'Email team',
+                config: {},
+                order: 2,
+                nextActionId: 4,
+              },
+              {
+                id: 4,
+                type: 'example_action',
+                name: 'Log',
+                config: {},
+                order: 3,
+              },
+            ],
+          },
+          executionSteps: [],
+        } as any);
+      });
+
+      it('should preview side effects, use mock outputs and route for real', async () => {
+        await service.execute(1);
+
+        expect(handlers.conditional.execute).toHaveBeenCalledTimes(1);
+        expect(handlers.http_request.execute).not.toHaveBeenCalled();
+        expect(handlers.http_request.preview).toHaveBeenCalledWith(
+          expect.objectContaining({ dryRun: true }),
+          { method: 'POST', url: 'https://example.com/orders' },
+        );
+        expect(handlers.email.execute).not.toHaveBeenCalled();
+        expect(handlers.email.preview).not.toHaveBeenCalled();
+        // Actions without side effects still run
+        expect(handlers.example_action.execute).toHaveBeenCalledTimes(1);
+        expect(executionRepository.update).toHaveBeenCalledWith(1, {
+          status: 'completed',
+          result: {
+            1: { result: true, nextActionId: 2 },
+            2: {
+              dryRun: true,
+              summary: 'Would send POST https://example.com/orders',
+            },
+            3: { messageId: 'mock-1' },
+            4: { ok: true },
+          },
+          completedAt: expect.any(Date),
+        });
+      });
+
+      it('should not wait or park the execution', async () => {
+        const expressionService = new ExpressionService();
+        const wait = new WaitActionHandler(
+          new ConditionService(expressionService),
+          expressionService,
+        );
+        actionFactory.getHandler.mockImplementation((type: string) =>
+          type === 'wait'
+            ? wait
+            : (handlers[type as keyof typeof handlers] as any),
+        );
+        executionRepository.findById.mockResolvedValue({
+          id: 1,
+          workflowId: 1,
+          userId: 1,
+          status: 'pending',
+          dryRun: true,
+          triggerData: {},
+          workflow: {
+            id: 1,
+            actions: [
+              {
+                id: 1,
+                type: 'wait',
+                name: 'Wait 3 days',
+                config: { duration: '3d' },
+                order: 0,
+                nextActionId: 2,
+              },
+              {
+                id: 2,
+                type: 'example_action',
+                name: 'Log',
+                config: {},
+                order: 1,
+              },
+            ],
+          },
+          executionSteps: [],
+        } as any);
+
+        await service.execute(1);
+
+        expect(executionRepository.markWaiting).not.toHaveBeenCalled();
+        expect(workflowQueue.add).not.toHaveBeenCalled();
+        expect(handlers.example_action.execute).toHaveBeenCalled();
+        expect(executionRepository.update).toHaveBeenCalledWith(1, {
+          status: 'completed',
+          result: {
+            1: expect.objectContaining({ dryRun: true, waited: 0 }),
+            2: { ok: true },
+          },
+          completedAt: expect.any(Date),
+        });
+      });
+    });
   });
-});
 
+  describe('buildTimeline', () => {
+    it('should order steps by start time with durations and offsets', () => {
+      const at = (seconds: number) =>
+        new Date(Date.UTC(2024, 0, 1, 0, 0, seconds));
+
+      const timeline = service.buildTimeline({
+        startedAt: at(0),
+        executionSteps: [
+          {
+            id: 1,
+            actionId: 1,
+            status: 'completed',
+            order: 0,
+            startedAt: at(0),
+            completedAt: at(1),
+            action: { name: 'Fan out', type: 'parallel' },
+          },
+          {
+            id: 3,
+            actionId: 3,
+            status: 'pending',
+            order: 2,
+            action: { name: 'Not started', type: 'example_action' },
+          },
+          {
+            id: 4,
+            actionId: 4,
+            status: 'completed',
+            order: 1,
+            startedAt: at(2),
+            completedAt: at(4),
+            action: { name: 'Branch B', type: 'http_request' },
+          },
+          {
+            id: 2,
+            actionId: 2,
+            status: 'running',
+            order: 1,
+            startedAt: at(1),
+            attempts: [
+              {
+                attempt: 1,
+                status: 'failed',
+                startedAt: at(1).toISOString(),
+                completedAt: at(2).toISOString(),
+                durationMs: 1000,
+                error: 'timeout',
+              },
+            ],
+            action: { name: 'Branch A', type: 'http_request' },
+          },
+        ],
+      });
+
+      expect(timeline.map((entry) => entry.stepId)).toEqual([1, 2, 4, 3]);
+      expect(timeline[0]).toMatchObject({
+        actionName: 'Fan out',
+        durationMs: 1000,
+        offsetMs: 0,
+        attempts: [],
+      });
+      expect(timeline[1]).toMatchObject({
+        durationMs: null,
+        offsetMs: 1000,
+        attempts: [expect.objectContaining({ error: 'timeout' })],
+      });
+      expect(timeline[2]).toMatchObject({ durationMs: 2000, offsetMs: 2000 });
+      expect(timeline[3]).toMatchObject({ durationMs: null, offsetMs: null });
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { Action } from '@prisma/client';
 import {
   NotFoundException,
   ExecutionException,
@@ -6,12 +8,50 @@ import {
 import { ExecutionRepository } from './repositories/execution.repository';
 import { ActionRegistry } from './actions/action.registry';
 import { ActionFactory } from './actions/action.factory';
+import { ExecutionCancellationService } from './services/execution-cancellation.service';
+import { ExpressionService } from './services/expression.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowEventService } from './services/workflow-event.service';
 import {
+  ActionErrorPolicy,
   ExecutionContext,
+  ParallelBranchResult,
+  ParallelFailurePolicy,
+  ExecutionEventType,
   ExecutionStepStatus,
+  ExecutionTimelineEntry,
+  IActionHandler,
+  StepAttempt,
   WorkflowStatus,
 } from './interfaces/workflow.interface';
 
+/**
+ * How often a running execution refreshes its heartbeat.
+ * The stale-execution reaper treats executions without a recent heartbeat as orphaned.
+ */
+export const EXECUTION_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * A running execution without a heartbeat for this long is considered orphaned
+ */
+export const STALE_EXECUTION_TIMEOUT_MS = 4 * EXECUTION_HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Actions that decide which actions run next; never mocked in dry runs
+ */
+const ROUTING_ACTION_TYPES = ['conditional', 'loop', 'parallel'];
+
+/**
+ * Job ID of the delayed job that resumes a waiting execution.
+ * Distinct from the regular execution job IDs and unique per wait.
+ */
+export function getWaitResumeJobId(
+  executionId: number,
+  waitUntil: Date,
+): string {
+  return `execution-${executionId}-wait-${waitUntil.getTime()}`;
+}
+
 /**
  * Enhanced Execution Service with DAG traversal, parallel execution, conditionals, and loops
  */
@@ -23,6 +63,11 @@ export class ExecutionService {
     private readonly executionRepository: ExecutionRepository,
     private readonly actionRegistry: ActionRegistry,
     private readonly actionFactory: ActionFactory,
+    private readonly cancellationService: ExecutionCancellationService,
+    @Inject('WORKFLOW_QUEUE') private readonly workflowQueue: Queue,
+    private readonly expressionService: ExpressionService,
+    private readonly executionEvents: ExecutionEventsService,
+    private readonly workflowEvents: WorkflowEventService,
   ) {
     // ActionFactory depends on ActionRegistry, which is already injected
   }
@@ -61,6 +106,69 @@ export class ExecutionService {
     return this.executionRepository.findByUserId(userId, options);
   }
 
+  /**
+   * Build the step timeline of an execution: steps in the order they started,
+   * with durations, their offset from the execution start, and every attempt
+   */
+  buildTimeline(execution: {
+    startedAt?: Date | null;
+    executionSteps?: {
+      id: number;
+      actionId: number;
+      status: string;
+      order: number;
+      iteration?: number | null;
+      iterationPath?: string;
+      childExecutions?: { id: number; workflowId: number; status: string }[];
+      input?: any;
+      error?: string | null;
+      attempts?: any;
+      startedAt?: Date | null;
+      completedAt?: Date | null;
+      action?: { name: string; type: string } | null;
+    }[];
+  }): ExecutionTimelineEntry[] {
+    const steps = [...(execution.executionSteps || [])].sort((a, b) => {
+      // Steps that never started go last, in workflow order
+      const aStart = a.startedAt?.getTime() ?? Infinity;
+      const bStart = b.startedAt?.getTime() ?? Infinity;
+      return aStart - bStart || a.order - b.order;
+    });
+
+    const origin =
+      execution.startedAt?.getTime() ?? steps[0]?.startedAt?.getTime();
+
+    return steps.map((step) => ({
+      stepId: step.id,
+      actionId: step.actionId,
+      actionName: step.action?.name,
+      actionType: step.action?.type,
+      status: step.status as ExecutionStepStatus,
+      order: step.order,
+      iteration: step.iteration ?? undefined,
+      iterationPath: step.iterationPath || undefined,
+      childExecutions: step.childExecutions?.length
+        ? step.childExecutions.map((child) => ({
+            ...child,
+            status: child.status as WorkflowStatus,
+          }))
+        : undefined,
+      startedAt: step.startedAt ?? undefined,
+      completedAt: step.completedAt ?? undefined,
+      durationMs:
+        step.startedAt && step.completedAt
+          ? step.completedAt.getTime() - step.startedAt.getTime()
+          : null,
+      offsetMs:
+        step.startedAt && origin !== undefined
+          ? Math.max(0, step.startedAt.getTime() - origin)
+          : null,
+      input: step.input ?? undefined,
+      error: step.error ?? undefined,
+      attempts: Array.isArray(step.attempts) ? step.attempts : [],
+    }));
+  }
+
   /**
    * Execute a workflow with DAG traversal, parallel execution, conditionals, and loops
    */
@@ -71,43 +179,98 @@ export class ExecutionService {
       throw new NotFoundException('Execution', executionId);
     }
 
-    if (execution.status !== WorkflowStatus.PENDING) {
+    if (this.isUnfinishedCancel(execution)) {
+      await this.finishCancelled(execution);
+      return;
+    }
+
+    if (
+      execution.status !== WorkflowStatus.PENDING &&
+      execution.status !== WorkflowStatus.WAITING
+    ) {
       this.logger.warn(
         `Execution ${executionId} is already ${execution.status}, skipping`,
       );
       return;
     }
 
-    // Update execution status to running
-    await this.executionRepository.update(executionId, {
-      status: WorkflowStatus.RUNNING,
-      startedAt: new Date(),
-    });
+    // Listen for cancellation before claiming, so a cancel sent right after the claim is not missed
+    const signal = this.cancellationService.register(executionId);
+
+    // Update execution status to running (unless it was claimed or cancelled in the meantime)
+    const claimed = await this.executionRepository.markRunning(
+      executionId,
+      execution.startedAt ?? new Date(),
+    );
+    if (!claimed) {
+      this.cancellationService.unregister(executionId);
+      const current = await this.executionRepository.findById(executionId);
+      if (current && this.isUnfinishedCancel(current)) {
+        await this.finishCancelled(current);
+        return;
+      }
+      this.logger.warn(
+        `Execution ${executionId} is no longer ${execution.status}, skipping`,
+      );
+      return;
+    }
+
+    const heartbeat = this.startHeartbeat(executionId);
+    this.publishStatus(executionId, WorkflowStatus.RUNNING);
 
     try {
       // Build action map for quick lookup
       const actionMap = new Map<number, any>();
+      const stepNames: Record<string, number> = {};
       for (const action of execution.workflow.actions) {
         actionMap.set(action.id, action);
+        stepNames[action.name] = action.id;
       }
 
-      // Find root actions (actions with no previous action or order 0)
+      // Find root actions (order 0 and no previous action)
+      const nextActionIds = new Set(
+        execution.workflow.actions.map((action) => action.nextActionId),
+      );
       const rootActions = execution.workflow.actions.filter(
-        (action) => !action.nextActionId && action.order === 0,
+        (action) => action.order === 0 && !nextActionIds.has(action.id),
       );
 
       if (rootActions.length === 0) {
         throw new ExecutionException('No root actions found in workflow');
       }
 
+      // Rehydrate outputs of steps completed by a previous run (resumed execution).
+      // Loop body steps are restored per iteration when their iteration runs again.
+      const stepResults: Record<number, any> = {};
+      let completedSteps = 0;
+      for (const step of execution.executionSteps || []) {
+        if (step.status !== ExecutionStepStatus.COMPLETED) {
+          continue;
+        }
+        completedSteps++;
+        if (!step.iterationPath) {
+          stepResults[step.actionId] = step.output;
+        }
+      }
+      if (completedSteps > 0) {
+        this.logger.log(
+          `Resuming execution ${executionId} with ${completedSteps} completed steps`,
+        );
+      }
+
       // Build execution context
       const context: ExecutionContext = {
         executionId,
         workflowId: execution.workflowId,
         userId: execution.userId,
         triggerData: (execution.triggerData as Record<string, any>) || {},
-        stepResults: {},
+        stepResults,
+        stepNames,
         currentStepOrder: 0,
+        signal,
+        dryRun: execution.dryRun,
+        mockOutputs:
+          (execution.mockOutputs as Record<string, any>) ?? undefined,
       };
 
       // Execute workflow starting from root actions
@@ -129,15 +292,31 @@ export class ExecutionService {
         );
       }
 
+      if (signal.aborted) {
+        await this.finishCancelled(execution);
+        return;
+      }
+
+      if (context.resumeAt) {
+        await this.park(execution, context.resumeAt);
+        return;
+      }
+
       // Mark execution as completed
       await this.executionRepository.update(executionId, {
         status: WorkflowStatus.COMPLETED,
         result: context.stepResults,
         completedAt: new Date(),
       });
+      this.publishStatus(executionId, WorkflowStatus.COMPLETED);
 
       this.logger.log(`Execution ${executionId} completed successfully`);
     } catch (error: any) {
+      if (signal.aborted) {
+        await this.finishCancelled(execution);
+        return;
+      }
+
       this.logger.error(
         `Execution ${executionId} failed: ${error.message}`,
         error.stack,
@@ -147,8 +326,177 @@ export class ExecutionService {
         error: error instanceof Error ? error.message : String(error),
         completedAt: new Date(),
       });
+      this.publishStatus(
+        executionId,
+        WorkflowStatus.FAILED,
+        error instanceof Error ? error.message : String(error),
+      );
+      this.workflowEvents.emitExecutionFailed(executionId);
       throw error;
+    } finally {
+      clearInterval(heartbeat);
+      this.cancellationService.unregister(executionId);
+    }
+  }
+
+  /**
+   * Cancelled while queued, after its job was handed to a worker: the API could not
+   * remove the job, so the worker that got it finalizes the cancellation
+   */
+  private isUnfinishedCancel(execution: {
+    status: string;
+    completedAt?: Date | null;
+  }): boolean {
+    return (
+      execution.status === WorkflowStatus.CANCELLED && !execution.completedAt
+    );
+  }
+
+  /**
+   * Finalize a cancelled execution: every step that did not run is marked skipped
+   */
+  private async finishCancelled(execution: {
+    id: number;
+    workflow: { actions: { id: number; order: number }[] };
+  }): Promise<void> {
+    await this.executionRepository.skipRemainingSteps(
+      execution.id,
+      execution.workflow.actions,
+    );
+    await this.executionRepository.update(execution.id, {
+      status: WorkflowStatus.CANCELLED,
+      completedAt: new Date(),
+    });
+    this.publishStatus(execution.id, WorkflowStatus.CANCELLED);
+    this.logger.log(`Execution ${execution.id} cancelled`);
+  }
+
+  private publishStatus(
+    executionId: number,
+    status: WorkflowStatus,
+    error?: string,
+  ): void {
+    this.executionEvents.publish({
+      type: ExecutionEventType.EXECUTION_STATUS,
+      executionId,
+      status,
+      ...(error && { error }),
+    });
+  }
+
+  private publishStep(
+    type: ExecutionEventType,
+    step: { id: number; executionId: number; actionId: number },
+    status: ExecutionStepStatus,
+    error?: string,
+  ): void {
+    this.executionEvents.publish({
+      type,
+      executionId: step.executionId,
+      actionId: step.actionId,
+      stepId: step.id,
+      status,
+      ...(error && { error }),
+    });
+  }
+
+  /**
+   * Put an execution to sleep until `resumeAt` and schedule the job that wakes it up.
+   * The worker is released; the resumed run skips completed steps and continues after the wait.
+   */
+  private async park(
+    execution: {
+      id: number;
+      workflowId: number;
+      userId: number;
+      triggerData: any;
+      workflow: { actions: { id: number; order: number }[] };
+    },
+    resumeAt: Date,
+  ): Promise<void> {
+    const parked = await this.executionRepository.markWaiting(
+      execution.id,
+      resumeAt,
+    );
+    if (!parked) {
+      // Cancelled while finishing the last steps
+      await this.finishCancelled(execution);
+      return;
     }
+
+    await this.scheduleResume({ ...execution, waitUntil: resumeAt });
+    this.publishStatus(execution.id, WorkflowStatus.WAITING);
+    this.logger.log(
+      `Execution ${execution.id} waiting until ${resumeAt.toISOString()}`,
+    );
+  }
+
+  /**
+   * Enqueue the delayed job that resumes a waiting execution.
+   * Adding it again for the same wait is a no-op while the job is pending; a finished
+   * job with the same ID (kept for a while by removeOnComplete/removeOnFail) is removed
+   * first, or the add would be ignored and the execution would never resume.
+   */
+  async scheduleResume(execution: {
+    id: number;
+    workflowId: number;
+    userId: number;
+    triggerData?: any;
+    waitUntil: Date;
+  }): Promise<void> {
+    const jobId = getWaitResumeJobId(execution.id, execution.waitUntil);
+    const previous = await this.workflowQueue.getJob(jobId);
+    if (
+      previous &&
+      ['completed', 'failed'].includes(await previous.getState())
+    ) {
+      await previous.remove();
+    }
+
+    await this.workflowQueue.add(
+      'execute-workflow',
+      {
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        userId: execution.userId,
+        triggerData: execution.triggerData || {},
+      },
+      {
+        jobId,
+        delay: Math.max(0, execution.waitUntil.getTime() - Date.now()),
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    );
+  }
+
+  /**
+   * Periodically refresh the execution heartbeat while it runs
+   * (and notice cancellations recorded in the database)
+   */
+  private startHeartbeat(executionId: number): NodeJS.Timeout {
+    const beat = () =>
+      this.executionRepository
+        .touchHeartbeat(executionId)
+        .then(({ status }) => {
+          // Fallback for cancellations whose broadcast did not reach this process
+          if (status === WorkflowStatus.CANCELLED) {
+            this.cancellationService.abort(executionId);
+          }
+        })
+        .catch((error) => {
+          this.logger.warn(
+            `Failed to update heartbeat for execution ${executionId}: ${error.message}`,
+          );
+        });
+
+    void beat();
+    const timer = setInterval(beat, EXECUTION_HEARTBEAT_INTERVAL_MS);
+    timer.unref();
+    return timer;
   }
 
   /**
@@ -165,6 +513,11 @@ export class ExecutionService {
       throw new ExecutionException(`Action ${actionId} not found`, executionId);
     }
 
+    // Stop before the next step once the execution is cancelled
+    if (context.signal?.aborted) {
+      throw new ExecutionException('Execution was cancelled', executionId);
+    }
+
     // Check if step already exists, if not create it
     const step = await this.findOrCreateExecutionStep(
       executionId,
@@ -173,24 +526,156 @@ export class ExecutionService {
       context,
     );
 
-    // Skip if already completed
+    let output: any;
     if (step.status === ExecutionStepStatus.COMPLETED) {
+      // Completed by a previous run: reuse the persisted output and continue downstream
       this.logger.debug(
-        `Step ${step.id} (Action ${actionId}) already completed, skipping`,
+        `Step ${step.id} (Action ${actionId}) already completed, reusing its output`,
       );
-      return;
+      output = step.output;
+      context.stepResults[actionId] = output;
+      context.lastActionId = actionId;
+    } else if (step.status === ExecutionStepStatus.WAITING) {
+      // Parked wait: continue downstream once its time has come
+      output = step.output;
+      if (this.suspendBranch(action, output, context)) {
+        return;
+      }
+      await this.executionRepository.updateExecutionStep(step.id, {
+        status: ExecutionStepStatus.COMPLETED,
+        completedAt: new Date(),
+      });
+      this.publishStep(
+        ExecutionEventType.STEP_COMPLETED,
+        step,
+        ExecutionStepStatus.COMPLETED,
+      );
+      context.stepResults[actionId] = output;
+      context.lastActionId = actionId;
+    } else {
+      try {
+        output = await this.runStep(action, step, context, executionId);
+      } catch (error: any) {
+        if (
+          context.signal?.aborted ||
+          this.getErrorPolicy(action) === ActionErrorPolicy.FAIL
+        ) {
+          throw error;
+        }
+        await this.handleActionError(
+          action,
+          error,
+          actionMap,
+          context,
+          executionId,
+        );
+        return;
+      }
+      if (this.suspendBranch(action, output, context)) {
+        return;
+      }
+      context.lastActionId = actionId;
+    }
+
+    // Handle action-specific logic
+    if (action.type === 'conditional') {
+      // Conditional action - branch based on result
+      await this.handleConditionalAction(
+        action,
+        output,
+        actionMap,
+        context,
+        executionId,
+      );
+    } else if (action.type === 'parallel') {
+      // Parallel action - execute sub-actions in parallel, join and continue
+      await this.handleParallelAction(
+        action,
+        step,
+        output,
+        actionMap,
+        context,
+        executionId,
+      );
+    } else if (action.type === 'loop') {
+      // Loop action - run the body per item, then continue
+      await this.handleLoopAction(
+        action,
+        step,
+        output,
+        actionMap,
+        context,
+        executionId,
+      );
+    } else {
+      // Sequential action - execute next action if exists
+      if (action.nextActionId) {
+        await this.executeActionNode(
+          action.nextActionId,
+          actionMap,
+          context,
+          executionId,
+        );
+      }
+    }
+  }
+
+  /**
+   * Stop this branch if the action is a wait that has not elapsed yet.
+   * The execution is parked after the other branches settle and resumes at the earliest wait.
+   */
+  private suspendBranch(
+    action: any,
+    output: any,
+    context: ExecutionContext,
+  ): boolean {
+    if (action.type !== 'wait' || !output?.resumeAt) {
+      return false;
+    }
+
+    const resumeAt = new Date(output.resumeAt);
+    if (resumeAt.getTime() <= Date.now()) {
+      return false;
     }
 
+    if (!context.resumeAt || resumeAt < context.resumeAt) {
+      context.resumeAt = resumeAt;
+    }
+    return true;
+  }
+
+  /**
+   * Run a single step's handler with retries and persist its result
+   */
+  private async runStep(
+    action: any,
+    step: any,
+    context: ExecutionContext,
+    executionId: number,
+  ): Promise<any> {
+    const actionId = action.id;
+    // Keep the history of earlier runs (e.g. before a resume)
+    const attempts: StepAttempt[] = Array.isArray(step.attempts)
+      ? [...step.attempts]
+      : [];
+
     // Update step status to running
     await this.executionRepository.updateExecutionStep(step.id, {
       status: ExecutionStepStatus.RUNNING,
+      input: this.resolveInput(action, context),
       startedAt: new Date(),
     });
+    this.publishStep(
+      ExecutionEventType.STEP_STARTED,
+      step,
+      ExecutionStepStatus.RUNNING,
+    );
 
     try {
       // Get action handler
       const handler = this.actionFactory.getHandler(action.type);
       context.currentStepOrder = action.order;
+      context.currentStepId = step.id;
 
       // Execute action with retry logic
       let output: any;
@@ -199,19 +684,19 @@ export class ExecutionService {
         attempts: number;
         backoff: { type: string; delay: number };
       } | null;
-      const maxAttempts = retryConfig?.attempts || 3;
+      const maxAttempts = retryConfig?.attempts || handler.defaultAttempts || 3;
 
       while (retryCount < maxAttempts) {
+        const attemptStartedAt = new Date();
         try {
-          output = await handler.execute(
-            context,
-            action.config as Record<string, any>,
-          );
+          output = await this.runHandler(handler, action, context);
+          attempts.push(this.recordAttempt(attempts, attemptStartedAt));
           break; // Success, exit retry loop
         } catch (error: any) {
+          attempts.push(this.recordAttempt(attempts, attemptStartedAt, error));
           retryCount++;
-          if (retryCount >= maxAttempts) {
-            throw error; // Max retries reached, throw error
+          if (retryCount >= maxAttempts || context.signal?.aborted) {
+            throw error; // Max retries reached (or cancelled), throw error
           }
 
           // Wait before retry (exponential backoff)
@@ -228,6 +713,7 @@ export class ExecutionService {
             status: ExecutionStepStatus.PENDING,
             retryCount,
             error: error instanceof Error ? error.message : String(error),
+            attempts: attempts as any,
           });
 
           await new Promise((resolve) => setTimeout(resolve, backoffDelay));
@@ -237,72 +723,194 @@ export class ExecutionService {
       // Store step result
       context.stepResults[actionId] = output;
 
-      // Update step status to completed
+      // Update step status to completed (or waiting, for a wait that parks the execution)
+      const waiting = action.type === 'wait' && !!output?.resumeAt;
       await this.executionRepository.updateExecutionStep(step.id, {
-        status: ExecutionStepStatus.COMPLETED,
+        status: waiting
+          ? ExecutionStepStatus.WAITING
+          : ExecutionStepStatus.COMPLETED,
         output,
-        completedAt: new Date(),
+        completedAt: waiting ? undefined : new Date(),
         retryCount,
+        attempts: attempts as any,
       });
+      this.publishStep(
+        waiting
+          ? ExecutionEventType.STEP_WAITING
+          : ExecutionEventType.STEP_COMPLETED,
+        step,
+        waiting ? ExecutionStepStatus.WAITING : ExecutionStepStatus.COMPLETED,
+      );
 
-      // Handle action-specific logic
-      if (action.type === 'conditional') {
-        // Conditional action - branch based on result
-        await this.handleConditionalAction(
-          action,
-          output,
-          actionMap,
-          context,
-          executionId,
-        );
-      } else if (action.type === 'parallel') {
-        // Parallel action - execute sub-actions in parallel
-        await this.handleParallelAction(
-          action,
-          output,
-          actionMap,
-          context,
-          executionId,
-        );
-      } else if (action.type === 'loop') {
-        // Loop action - iterate over items
-        await this.handleLoopAction(
-          action,
-          output,
-          actionMap,
-          context,
-          executionId,
+      return output;
+    } catch (error: any) {
+      if (context.signal?.aborted) {
+        // Interrupted by cancellation rather than a real failure
+        await this.executionRepository.updateExecutionStep(step.id, {
+          status: ExecutionStepStatus.SKIPPED,
+          error: 'Execution cancelled',
+          completedAt: new Date(),
+          attempts: attempts as any,
+        });
+        this.publishStep(
+          ExecutionEventType.STEP_SKIPPED,
+          step,
+          ExecutionStepStatus.SKIPPED,
+          'Execution cancelled',
         );
-      } else {
-        // Sequential action - execute next action if exists
-        if (action.nextActionId) {
-          await this.executeActionNode(
-            action.nextActionId,
-            actionMap,
-            context,
-            executionId,
-          );
-        }
+        throw error;
       }
-    } catch (error: any) {
+
       // Mark step as failed
       await this.executionRepository.updateExecutionStep(step.id, {
         status: ExecutionStepStatus.FAILED,
         error: error instanceof Error ? error.message : String(error),
         completedAt: new Date(),
+        attempts: attempts as any,
       });
+      this.publishStep(
+        ExecutionEventType.STEP_FAILED,
+        step,
+        ExecutionStepStatus.FAILED,
+        error instanceof Error ? error.message : String(error),
+      );
 
-      // Mark execution as failed
-      await this.executionRepository.update(executionId, {
-        status: WorkflowStatus.FAILED,
-        error: `Action "${action.name}" failed: ${error instanceof Error ? error.message : String(error)}`,
-        completedAt: new Date(),
-      });
+      // Mark execution as failed, unless the action recovers from errors
+      if (this.getErrorPolicy(action) === ActionErrorPolicy.FAIL) {
+        await this.executionRepository.update(executionId, {
+          status: WorkflowStatus.FAILED,
+          error: `Action "${action.name}" failed: ${error instanceof Error ? error.message : String(error)}`,
+          completedAt: new Date(),
+        });
+      }
 
       throw error;
     }
   }
 
+  /**
+   * Run the action's handler. In dry runs, actions with a mock output return it
+   * and handlers with side effects return a preview instead of acting; routing
+   * actions (conditional, loop, parallel) always run for real.
+   */
+  private async runHandler(
+    handler: IActionHandler,
+    action: Action,
+    context: ExecutionContext,
+  ): Promise<any> {
+    const config = action.config as Record<string, any>;
+    if (!context.dryRun || ROUTING_ACTION_TYPES.includes(action.type)) {
+      return handler.execute(context, config);
+    }
+
+    if (context.mockOutputs && action.name in context.mockOutputs) {
+      this.logger.debug(`Dry run: using the mock output of "${action.name}"`);
+      return context.mockOutputs[action.name];
+    }
+    if (handler.sideEffects && handler.preview) {
+      this.logger.debug(`Dry run: previewing "${action.name}"`);
+      return handler.preview(context, config);
+    }
+    return handler.execute(context, config);
+  }
+
+  /**
+   * The action's onError policy; 'branch' without an error handler behaves like 'fail'
+   */
+  private getErrorPolicy(action: any): ActionErrorPolicy {
+    if (action.onError === ActionErrorPolicy.CONTINUE) {
+      return ActionErrorPolicy.CONTINUE;
+    }
+    if (action.onError === ActionErrorPolicy.BRANCH && action.errorActionId) {
+      return ActionErrorPolicy.BRANCH;
+    }
+    return ActionErrorPolicy.FAIL;
+  }
+
+  /**
+   * Recover from a failed action: follow nextActionId ('continue') or run the error handler ('branch')
+   */
+  private async handleActionError(
+    action: any,
+    error: any,
+    actionMap: Map<number, any>,
+    context: ExecutionContext,
+    executionId: number,
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    // Downstream actions can check {{steps.<id>.output.error.message}}
+    context.stepResults[action.id] = { error: { message } };
+    context.lastActionId = action.id;
+
+    if (this.getErrorPolicy(action) === ActionErrorPolicy.CONTINUE) {
+      this.logger.warn(
+        `Action ${action.id} failed, continuing with the next action: ${message}`,
+      );
+      if (action.nextActionId) {
+        await this.executeActionNode(
+          action.nextActionId,
+          actionMap,
+          context,
+          executionId,
+        );
+      }
+      return;
+    }
+
+    this.logger.warn(
+      `Action ${action.id} failed, routing to error handler ${action.errorActionId}: ${message}`,
+    );
+    const previousError = context.error;
+    context.error = {
+      message,
+      actionId: action.id,
+      actionName: action.name,
+      input: this.resolveInput(action, context),
+    };
+    try {
+      await this.executeActionNode(
+        action.errorActionId,
+        actionMap,
+        context,
+        executionId,
+      );
+    } finally {
+      context.error = previousError;
+    }
+  }
+
+  private recordAttempt(
+    previous: StepAttempt[],
+    startedAt: Date,
+    error?: any,
+  ): StepAttempt {
+    const completedAt = new Date();
+    return {
+      attempt: previous.length + 1,
+      status: error
+        ? ExecutionStepStatus.FAILED
+        : ExecutionStepStatus.COMPLETED,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      ...(error && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    };
+  }
+
+  /**
+   * The action config as the handler sees it, with templates resolved (for the timeline)
+   */
+  private resolveInput(action: any, context: ExecutionContext): any {
+    try {
+      return this.expressionService.resolve(action.config ?? {}, context);
+    } catch {
+      // Leave the error to the handler; record the raw config
+      return action.config ?? {};
+    }
+  }
+
   /**
    * Handle conditional action execution
    */
@@ -328,33 +936,184 @@ export class ExecutionService {
   }
 
   /**
-   * Handle parallel action execution
+   * Handle parallel action execution: run the branches, join them and continue with
+   * the parallel action's nextActionId.
+   * Each branch runs on its own copy of the context (so branches don't see each other's
+   * results); a branch's results are merged back into the shared context when it settles.
+   * The branch outputs are stored on the parallel step as `branches`.
    */
   private async handleParallelAction(
     action: any,
+    step: any,
     output: any,
     actionMap: Map<number, any>,
     context: ExecutionContext,
     executionId: number,
   ): Promise<void> {
-    const parallelActionIds =
+    const branchIds: number[] =
       output.actionIds || output.parallelActionIds || [];
-    if (parallelActionIds.length > 0) {
-      await this.executeActionsParallel(
-        parallelActionIds,
+    if (branchIds.length === 0) {
+      return;
+    }
+
+    const failFast =
+      output.failurePolicy === ParallelFailurePolicy.FAIL ||
+      !!output.stopOnFirstFailure;
+    const required =
+      output.waitForAll === false
+        ? Math.min(Math.max(output.waitFor ?? 1, 1), branchIds.length)
+        : branchIds.length;
+
+    const branches: ParallelBranchResult[] = branchIds.map((actionId) => ({
+      actionId,
+      status: 'running',
+    }));
+    const runs = branchIds.map((branchId, index) =>
+      this.runBranch(branchId, actionMap, context, executionId).then(
+        (result) => {
+          branches[index] = result;
+          return result;
+        },
+      ),
+    );
+
+    // Join: resolves once enough branches succeeded or every branch settled
+    let succeeded = 0;
+    let settled = 0;
+    let failedBranch: ParallelBranchResult | undefined;
+    await new Promise<void>((resolve) => {
+      for (const run of runs) {
+        run.then((result) => {
+          settled++;
+          if (result.status === 'completed') {
+            succeeded++;
+          } else if (result.status === 'failed' && failFast) {
+            failedBranch = failedBranch ?? result;
+          }
+          if (
+            failedBranch ||
+            succeeded >= required ||
+            settled === branchIds.length
+          ) {
+            resolve();
+          }
+        });
+      }
+    });
+
+    if (context.signal?.aborted) {
+      await Promise.all(runs);
+      throw new ExecutionException('Execution was cancelled', executionId);
+    }
+
+    if (failedBranch) {
+      // Let the other branches finish writing their steps before failing
+      await Promise.all(runs);
+      throw new ExecutionException(
+        `Branch ${failedBranch.actionId} of parallel action "${action.name}" failed: ${failedBranch.error}`,
+        executionId,
+      );
+    }
+
+    if (succeeded < required) {
+      if (branches.some((branch) => branch.status === 'waiting')) {
+        // A branch parked on a long wait; the join happens when the execution resumes
+        return;
+      }
+      this.logger.warn(
+        `Parallel action ${action.id}: only ${succeeded} of ${required} required branches succeeded, continuing`,
+      );
+    }
+
+    // Merge: expose each branch's output as {{steps.<parallel>.branches[i]}}
+    const joinedOutput = {
+      ...output,
+      branches: branches.map((branch) =>
+        branch.status === 'failed'
+          ? { error: { message: branch.error } }
+          : (branch.output ?? null),
+      ),
+    };
+    context.stepResults[action.id] = joinedOutput;
+    await this.executionRepository.updateExecutionStep(step.id, {
+      output: joinedOutput,
+    });
+
+    // Branches still running after an early join finish alongside the downstream actions
+    await Promise.all([
+      action.nextActionId
+        ? this.executeActionNode(
+            action.nextActionId,
+            actionMap,
+            context,
+            executionId,
+          )
+        : Promise.resolve(),
+      Promise.all(runs),
+    ]);
+  }
+
+  /**
+   * Run one parallel branch on its own copy of the context; never rejects
+   */
+  private async runBranch(
+    branchId: number,
+    actionMap: Map<number, any>,
+    context: ExecutionContext,
+    executionId: number,
+  ): Promise<ParallelBranchResult> {
+    const branchContext: ExecutionContext = {
+      ...context,
+      stepResults: { ...context.stepResults },
+      resumeAt: undefined,
+      lastActionId: undefined,
+    };
+
+    try {
+      await this.executeActionNode(
+        branchId,
         actionMap,
-        context,
+        branchContext,
         executionId,
-        output.stopOnFirstFailure,
       );
+      if (branchContext.resumeAt) {
+        return { actionId: branchId, status: 'waiting' };
+      }
+      return {
+        actionId: branchId,
+        status: 'completed',
+        output:
+          branchContext.lastActionId !== undefined
+            ? branchContext.stepResults[branchContext.lastActionId]
+            : undefined,
+      };
+    } catch (error: any) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Parallel branch ${branchId} failed: ${message}`);
+      return { actionId: branchId, status: 'failed', error: message };
+    } finally {
+      Object.assign(context.stepResults, branchContext.stepResults);
+      if (
+        branchContext.resumeAt &&
+        (!context.resumeAt || branchContext.resumeAt < context.resumeAt)
+      ) {
+        context.resumeAt = branchContext.resumeAt;
+      }
     }
   }
 
   /**
-   * Handle loop action execution
+   * Handle loop action execution: run the loop body once per item, then continue with
+   * the loop action's nextActionId.
+   * The body is the loopActionId action and everything after it via nextActionId. Each
+   * iteration runs on its own copy of the context with its own execution steps (keyed by
+   * iteration path), so iterations and nested loops don't share steps or results.
+   * Up to `concurrency` iterations run at once; the output of each iteration's last step
+   * is stored on the loop step as `iterations`.
    */
   private async handleLoopAction(
     action: any,
+    step: any,
     output: any,
     actionMap: Map<number, any>,
     context: ExecutionContext,
@@ -364,44 +1123,117 @@ export class ExecutionService {
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       this.logger.warn(`Loop action ${action.id} has no items to iterate`);
-      return;
-    }
-
-    if (!loopActionId) {
+    } else if (!loopActionId) {
       this.logger.warn(`Loop action ${action.id} has no loopActionId`);
-      return;
+    } else {
+      if (!actionMap.get(loopActionId)) {
+        throw new ExecutionException(
+          `Loop action ${action.id} references non-existent action ${loopActionId}`,
+          executionId,
+        );
+      }
+
+      const iterations: any[] = new Array(items.length).fill(null);
+      const concurrency = Math.min(
+        Math.max(output.concurrency ?? 1, 1),
+        items.length,
+      );
+      let nextIndex = 0;
+      let failure: any;
+
+      // Each worker picks up the next iteration until items run out or one fails
+      const worker = async () => {
+        while (
+          nextIndex < items.length &&
+          !failure &&
+          !context.signal?.aborted
+        ) {
+          const index = nextIndex++;
+          try {
+            iterations[index] = await this.runIteration(
+              action,
+              loopActionId,
+              items[index],
+              index,
+              itemVariable || 'item',
+              actionMap,
+              context,
+              executionId,
+            );
+          } catch (error) {
+            failure = failure ?? error;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: concurrency }, worker));
+
+      if (failure) {
+        throw failure;
+      }
+      if (context.signal?.aborted) {
+        throw new ExecutionException('Execution was cancelled', executionId);
+      }
+
+      const loopOutput = { ...output, iterations };
+      context.stepResults[action.id] = loopOutput;
+      context.lastActionId = action.id;
+      await this.executionRepository.updateExecutionStep(step.id, {
+        output: loopOutput,
+      });
     }
 
-    const loopAction = actionMap.get(loopActionId);
-    if (!loopAction) {
-      throw new ExecutionException(
-        `Loop action ${action.id} references non-existent action ${loopActionId}`,
+    if (action.nextActionId && action.nextActionId !== loopActionId) {
+      await this.executeActionNode(
+        action.nextActionId,
+        actionMap,
+        context,
         executionId,
       );
     }
+  }
 
-    // Execute loop body for each item
-    for (let index = 0; index < items.length; index++) {
-      const item = items[index];
-
-      // Update loop context
-      context.loopContext = {
+  /**
+   * Run one loop iteration on its own copy of the context and return the output of
+   * its last step. The iteration's loop context is chained to the enclosing loop's,
+   * so nested bodies can read {{loop.parent.item}}.
+   */
+  private async runIteration(
+    action: any,
+    loopActionId: number,
+    item: any,
+    index: number,
+    itemVariable: string,
+    actionMap: Map<number, any>,
+    context: ExecutionContext,
+    executionId: number,
+  ): Promise<any> {
+    const parent = context.loopContext;
+    const iterationContext: ExecutionContext = {
+      ...context,
+      stepResults: { ...context.stepResults },
+      lastActionId: undefined,
+      loopContext: {
         item,
         index,
-        itemVariable: itemVariable || 'item',
+        itemVariable,
         parentActionId: action.id,
-      };
+        path: parent ? `${parent.path}.${index}` : String(index),
+        parent,
+      },
+    };
 
-      // Execute loop body action
+    try {
       await this.executeActionNode(
         loopActionId,
         actionMap,
-        context,
+        iterationContext,
         executionId,
       );
-
-      // Clear loop context after iteration
-      delete context.loopContext;
+      return iterationContext.lastActionId !== undefined
+        ? (iterationContext.stepResults[iterationContext.lastActionId] ?? null)
+        : null;
+    } finally {
+      Object.assign(context.stepResults, iterationContext.stepResults);
     }
   }
 
@@ -435,6 +1267,7 @@ export class ExecutionService {
 
   /**
    * Find or create execution step
+   * Inside loops every iteration has its own step, keyed by the iteration path
    */
   private async findOrCreateExecutionStep(
     executionId: number,
@@ -442,10 +1275,13 @@ export class ExecutionService {
     order: number,
     context: ExecutionContext,
   ): Promise<any> {
+    const iterationPath = context.loopContext?.path ?? '';
+
     // Try to find existing step
-    const execution = await this.executionRepository.findById(executionId);
-    const existingStep = execution.executionSteps.find(
-      (step) => step.actionId === actionId,
+    const existingStep = await this.executionRepository.findExecutionStep(
+      executionId,
+      actionId,
+      iterationPath,
     );
 
     if (existingStep) {
@@ -457,6 +1293,8 @@ export class ExecutionService {
       executionId,
       actionId,
       order,
+      iteration: context.loopContext?.index,
+      iterationPath,
       status: ExecutionStepStatus.PENDING,
       input: context.triggerData,
     });
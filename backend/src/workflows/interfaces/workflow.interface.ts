@@ -5,6 +5,7 @@
 export enum WorkflowStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
@@ -13,11 +14,21 @@ export enum WorkflowStatus {
 export enum ExecutionStepStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
   COMPLETED = 'completed',
   FAILED = 'failed',
   SKIPPED = 'skipped',
 }
 
+/**
+ * What happens when an action fails after its retries are exhausted
+ */
+export enum ActionErrorPolicy {
+  FAIL = 'fail', // Fail the execution
+  CONTINUE = 'continue', // Record the error and follow nextActionId
+  BRANCH = 'branch', // Route to the error-handler action (errorActionId)
+}
+
 export enum TriggerType {
   GOOGLE_MAIL = 'google-mail',
   WEBHOOK = 'webhook',
@@ -25,6 +36,61 @@ export enum TriggerType {
   SCHEDULE = 'schedule',
 }
 
+/**
+ * Identifies a trigger event so redeliveries of it start one execution only
+ */
+export interface TriggerDedupe {
+  key: string; // e.g. "gmail:<messageId>" or "webhook:<Idempotency-Key>"
+  ttlSeconds?: number; // How long repeats are suppressed (default 24 hours)
+}
+
+/**
+ * How a webhook trigger verifies that a request comes from its sender
+ */
+export enum WebhookVerification {
+  NONE = 'none',
+  SECRET = 'secret', // Shared secret in the X-Webhook-Secret header
+  HMAC = 'hmac', // HMAC-SHA256 of the raw body in a configurable header
+  GITHUB = 'github', // X-Hub-Signature-256
+  STRIPE = 'stripe', // Stripe-Signature, with timestamp
+  SLACK = 'slack', // X-Slack-Signature and X-Slack-Request-Timestamp
+}
+
+/**
+ * When a webhook trigger answers the request
+ */
+export enum WebhookResponseMode {
+  ON_RECEIVED = 'onReceived', // Acknowledge right away; the workflow runs afterwards
+  LAST_NODE = 'lastNode', // Wait for the execution and return a step's output
+  RESPOND_NODE = 'respondNode', // Wait for a respond_to_webhook step
+}
+
+/**
+ * The HTTP response a webhook request gets from its workflow
+ */
+export interface WebhookResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+/**
+ * How a Google Mail trigger learns about new mail
+ */
+export enum GmailTriggerMode {
+  PUSH = 'push', // Gmail watch notifications through Pub/Sub
+  POLL = 'poll', // Gmail history fetched on an interval
+}
+
+/**
+ * Gmail history changes a Google Mail trigger can fire on
+ */
+export enum GmailTriggerEvent {
+  MESSAGE_ADDED = 'messageAdded', // A message arrived in a watched label
+  LABEL_ADDED = 'labelAdded', // A watched label was added to a message
+  LABEL_REMOVED = 'labelRemoved', // A watched label was removed from a message
+}
+
 export interface IWorkflow {
   id: number;
   userId: number;
@@ -52,6 +118,8 @@ export interface IAction {
   config: Record<string, any>;
   order: number;
   retryConfig?: RetryConfig;
+  onError: ActionErrorPolicy;
+  errorActionId?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -74,6 +142,7 @@ export interface IExecution {
   error?: string;
   startedAt?: Date;
   completedAt?: Date;
+  waitUntil?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -88,12 +157,82 @@ export interface IExecutionStep {
   output?: Record<string, any>;
   error?: string;
   retryCount: number;
+  attempts?: StepAttempt[];
   startedAt?: Date;
   completedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * One run of a step's handler; a step is attempted again on retry or after a resume
+ */
+export interface StepAttempt {
+  attempt: number;
+  status: ExecutionStepStatus.COMPLETED | ExecutionStepStatus.FAILED;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Sub-workflow execution started by an execute_workflow step
+ */
+export interface SubWorkflowRun {
+  id: number;
+  workflowId: number;
+  status: WorkflowStatus;
+}
+
+/**
+ * A step in the execution timeline, in the order the steps started
+ */
+export interface ExecutionTimelineEntry {
+  stepId: number;
+  actionId: number;
+  actionName?: string;
+  actionType?: string;
+  status: ExecutionStepStatus;
+  order: number;
+  iteration?: number; // Innermost loop iteration, for steps inside loops
+  iterationPath?: string;
+  childExecutions?: SubWorkflowRun[]; // Sub-workflow executions started by the step
+  startedAt?: Date;
+  completedAt?: Date;
+  durationMs: number | null; // null while the step has not finished
+  offsetMs: number | null; // Start relative to the execution start
+  input?: Record<string, any>; // Action config with templates resolved
+  error?: string;
+  attempts: StepAttempt[];
+}
+
+/**
+ * Live execution event types, published while an execution runs
+ */
+export enum ExecutionEventType {
+  EXECUTION_STATUS = 'execution.status',
+  STEP_STARTED = 'step.started',
+  STEP_COMPLETED = 'step.completed',
+  STEP_FAILED = 'step.failed',
+  STEP_WAITING = 'step.waiting',
+  STEP_SKIPPED = 'step.skipped',
+}
+
+/**
+ * A live execution event. Step events carry the action and step IDs;
+ * execution status events only the new execution status.
+ */
+export interface ExecutionEvent {
+  type: ExecutionEventType;
+  executionId: number;
+  status: WorkflowStatus | ExecutionStepStatus;
+  actionId?: number;
+  stepId?: number;
+  error?: string;
+  timestamp: string;
+}
+
 /**
  * Workflow execution context passed between steps
  */
@@ -103,8 +242,44 @@ export interface ExecutionContext {
   userId: number;
   triggerData: Record<string, any>;
   stepResults: Record<number, any>; // actionId -> result
+  stepNames?: Record<string, number>; // action name -> actionId (for {{steps.<name>.output}})
   currentStepOrder: number;
+  currentStepId?: number; // Execution step of the action currently running
   loopContext?: LoopContext; // Context for loop iterations
+  signal?: AbortSignal; // Aborted when the execution is cancelled; long-running handlers should honour it
+  resumeAt?: Date; // Set when a branch parked on a long wait; the execution resumes at the earliest one
+  error?: StepErrorContext; // Set while an error-handler branch runs, available as {{error.message}}
+  lastActionId?: number; // Last action that finished in this branch; its output is the branch's output
+  dryRun?: boolean; // Test run: handlers with side effects return a preview instead of acting
+  mockOutputs?: Record<string, any>; // Dry runs: action name -> output used instead of running it
+}
+
+/**
+ * What a parallel action does when one of its branches fails
+ */
+export enum ParallelFailurePolicy {
+  FAIL = 'fail', // Fail the parallel action (and skip the join)
+  CONTINUE = 'continue', // Record the branch error and join the other branches
+}
+
+/**
+ * Outcome of one branch of a parallel action ('running' until it settles)
+ */
+export interface ParallelBranchResult {
+  actionId: number;
+  status: 'running' | 'completed' | 'waiting' | 'failed';
+  output?: any; // Output of the last action that finished in the branch
+  error?: string;
+}
+
+/**
+ * The failure an error-handler action was routed to
+ */
+export interface StepErrorContext {
+  message: string;
+  actionId: number;
+  actionName: string;
+  input: any; // The failed step's resolved input
 }
 
 /**
@@ -115,6 +290,48 @@ export interface LoopContext {
   index: number;
   itemVariable: string;
   parentActionId: number;
+  path?: string; // Iteration indices from the outermost loop, e.g. "2.0"
+  parent?: LoopContext; // Enclosing loop's context in nested loops
+}
+
+/**
+ * Result of running a single action on its own (builder "Test this step")
+ */
+export interface StepTestResult {
+  status: ExecutionStepStatus.COMPLETED | ExecutionStepStatus.FAILED;
+  input: Record<string, any>; // Action config with templates resolved
+  output?: any;
+  error?: string;
+  durationMs: number;
+  sourceExecutionId?: number; // Execution whose step outputs and trigger data were used
+}
+
+/**
+ * A problem found by the static workflow graph validator
+ */
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  code:
+    | 'unknown_action_type'
+    | 'invalid_config'
+    | 'dangling_reference'
+    | 'missing_error_handler'
+    | 'cycle'
+    | 'no_entry_action'
+    | 'unreachable_action'
+    | 'unknown_step_reference';
+  message: string;
+  actionOrder?: number; // Order index of the offending action; absent for workflow-level issues
+  field?: string; // Relation or config key at fault, e.g. 'nextActionOrder' or 'config.trueActionId'
+}
+
+/**
+ * Result of validating a workflow's actions before they are saved
+ */
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings don't block saving)
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
 }
 
 /**
@@ -129,6 +346,55 @@ export interface ActionResult {
   shouldContinue: boolean;
 }
 
+/**
+ * The subset of JSON Schema used to describe action / trigger configs and outputs.
+ * `x-widget` asks the builder for a specific input: a multi-line text, a workflow
+ * picker, or a picker for another action of the workflow. `readOnly` properties are
+ * set by the builder itself (e.g. from the edges on the canvas).
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  default?: any;
+  examples?: any[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  oneOf?: JsonSchema[];
+  readOnly?: boolean;
+  deprecated?: boolean;
+  'x-widget'?: 'textarea' | 'workflow' | 'action';
+}
+
+/**
+ * An action type as exposed to the builder (GET /workflows/action-types)
+ */
+export interface ActionTypeDescriptor {
+  type: string;
+  name: string;
+  description: string;
+  sideEffects: boolean;
+  configSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
+
+/**
+ * A trigger type as exposed to the builder; its output is the trigger data
+ */
+export interface TriggerTypeDescriptor {
+  type: TriggerType;
+  name: string;
+  description: string;
+  configSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
+
 /**
  * Action handler interface - all action handlers must implement this
  */
@@ -143,10 +409,58 @@ export interface IActionHandler {
    */
   readonly name: string;
 
+  /**
+   * What the action does, shown in the builder's palette
+   */
+  readonly description?: string;
+
+  /**
+   * JSON Schema of the action's config (the builder generates its form from it)
+   */
+  readonly configSchema?: JsonSchema;
+
+  /**
+   * JSON Schema of the action's output ({{steps.<name>.output}})
+   */
+  readonly outputSchema?: JsonSchema;
+
   /**
    * Execute the action
    */
   execute(context: ExecutionContext, config: Record<string, any>): Promise<any>;
+
+  /**
+   * Validate action configuration (throws on invalid config)
+   */
+  validateConfig?(config: Record<string, any>): boolean;
+
+  /**
+   * Whether the action acts on the outside world (sends email, calls a URL, ...) or
+   * holds up the execution (waits). In dry runs such actions are previewed instead.
+   */
+  readonly sideEffects?: boolean;
+
+  /**
+   * How often a failing step runs when its retries aren't configured (default 3)
+   */
+  readonly defaultAttempts?: number;
+
+  /**
+   * Describe what execute() would do, without doing it (dry runs)
+   */
+  preview?(
+    context: ExecutionContext,
+    config: Record<string, any>,
+  ): Promise<ActionPreview>;
+}
+
+/**
+ * Output of an action with side effects in a dry run: what it would have done
+ */
+export interface ActionPreview {
+  dryRun: true;
+  summary: string; // e.g. "Would send POST https://example.com/hook"
+  [key: string]: any; // The request / message that would have been sent
 }
 
 /**
@@ -163,6 +477,21 @@ export interface ITriggerHandler {
    */
   readonly name: string;
 
+  /**
+   * What starts the workflow, shown in the builder
+   */
+  readonly description?: string;
+
+  /**
+   * JSON Schema of the trigger's config
+   */
+  readonly configSchema?: JsonSchema;
+
+  /**
+   * JSON Schema of the trigger data ({{trigger}})
+   */
+  readonly outputSchema?: JsonSchema;
+
   /**
    * Validate trigger configuration
    */
@@ -178,3 +507,68 @@ export interface ITriggerHandler {
    */
   unregister(workflowId: number): Promise<void>;
 }
+
+/**
+ * A field that differs between two workflow versions
+ */
+export interface VersionFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface VersionActionRef {
+  order: number;
+  name: string;
+}
+
+/**
+ * Differences between two workflow versions; actions are matched by order, since
+ * names need not be unique and every version has its own action IDs
+ */
+export interface WorkflowVersionDiff {
+  from: number; // Version numbers
+  to: number;
+  changes: VersionFieldChange[]; // name, description, trigger
+  actions: {
+    added: VersionActionRef[];
+    removed: VersionActionRef[];
+    changed: (VersionActionRef & { changes: VersionFieldChange[] })[];
+  };
+}
+
+export type WorkflowDefinitionFormat = 'json' | 'yaml';
+
+/**
+ * Portable workflow file for export / import. The workflow has the shape of
+ * CreateWorkflowDto: actions refer to each other by order index, never by ID.
+ */
+export interface WorkflowDefinition {
+  formatVersion: number;
+  exportedAt?: string;
+  workflow: {
+    name: string;
+    description?: string;
+    trigger: {
+      type: TriggerType;
+      config: Record<string, any>;
+      positionX?: number;
+      positionY?: number;
+    };
+    actions: Record<string, any>[];
+  };
+  strippedFields?: string[]; // Secrets and workflow references removed on export, e.g. "actions[2].config.auth.token"
+}
+
+/**
+ * Value asked for when a template is instantiated; "[[key]]" placeholders in the
+ * template's definition are replaced with it
+ */
+export interface TemplateParameter {
+  key: string;
+  label: string;
+  description?: string;
+  type?: 'string' | 'number' | 'email' | 'url';
+  default?: string | number;
+  required?: boolean; // Defaults to true
+}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ErrorWorkflowListener,
+  FAILED_EXECUTION_TRIGGER_KEY,
+} from './error-workflow.listener';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionRepository } from '../repositories/execution.repository';
+
+describe('ErrorWorkflowListener', () => {
+  let listener: ErrorWorkflowListener;
+  let workflowService: { trigger: jest.Mock };
+  let executionRepository: { findById: jest.Mock };
+
+  const buildExecution = (overrides: Record<string, any> = {}) => ({
+    id: 42,
+    workflowId: 1,
+    userId: 7,
+    status: 'failed',
+    error: 'Request failed with status 500',
+    triggerData: {},
+    startedAt: new Date('2024-01-01T00:00:00Z'),
+    completedAt: new Date('2024-01-01T00:00:05Z'),
+    workflow: {
+      id: 1,
+      name: 'Sync contacts',
+      errorWorkflowId: 9,
+      actions: [
+        { id: 1, name: 'Fetch', type: 'http_request' },
+        { id: 2, name: 'Notify', type: 'email' },
+      ],
+    },
+    executionSteps: [
+      {
+        actionId: 1,
+        status: 'failed',
+        error: 'Timeout',
+        input: { url: 'https://example.com' },
+        completedAt: new Date('2024-01-01T00:00:01Z'),
+      },
+      {
+        actionId: 2,
+        status: 'failed',
+        error: 'Request failed with status 500',
+        input: { to: 'ops@example.com' },
+        completedAt: new Date('2024-01-01T00:00:04Z'),
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ErrorWorkflowListener,
+        {
+          provide: WorkflowService,
+          useValue: { trigger: jest.fn() },
+        },
+        {
+          provide: ExecutionRepository,
+          useValue: { findById: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    listener = module.get(ErrorWorkflowListener);
+    workflowService = module.get(WorkflowService);
+    executionRepository = module.get(ExecutionRepository);
+  });
+
+  it('should trigger the error workflow with the failure details', async () => {
+    executionRepository.findById.mockResolvedValue(buildExecution());
+
+    await listener.handleExecutionFailed({ executionId: 42 });
+
+    expect(workflowService.trigger).toHaveBeenCalledWith(9, 7, {
+      failedExecution: {
+        id: 42,
+        workflowId: 1,
+        workflowName: 'Sync contacts',
+        error: 'Request failed with status 500',
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        failedAt: new Date('2024-01-01T00:00:05Z'),
+      },
+      failedStep: {
+        actionId: 2,
+        name: 'Notify',
+        type: 'email',
+        error: 'Request failed with status 500',
+        input: { to: 'ops@example.com' },
+      },
+    });
+  });
+
+  it('should do nothing when the workflow has no error workflow', async () => {
+    const execution = buildExecution();
+    execution.workflow.errorWorkflowId = null as any;
+    executionRepository.findById.mockResolvedValue(execution);
+
+    await listener.handleExecutionFailed({ executionId: 42 });
+
+    expect(workflowService.trigger).not.toHaveBeenCalled();
+  });
+
+  it('should not trigger an error workflow for a failed error workflow run', async () => {
+    executionRepository.findById.mockResolvedValue(
+      buildExecution({
+        triggerData: { [FAILED_EXECUTION_TRIGGER_KEY]: { id: 41 } },
+      }),
+    );
+
+    await listener.handleExecutionFailed({ executionId: 42 });
+
+    expect(workflowService.trigger).not.toHaveBeenCalled();
+  });
+
+  it('should swallow errors from triggering the error workflow', async () => {
+    executionRepository.findById.mockResolvedValue(buildExecution());
+    workflowService.trigger.mockRejectedValue(new Error('Workflow disabled'));
+
+    await expect(
+      listener.handleExecutionFailed({ executionId: 42 }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { ExecutionStepStatus } from '../interfaces/workflow.interface';
+
+/**
+ * Trigger data key holding the failure an error workflow was triggered for.
+ * Executions carrying it never trigger another error workflow, so a failing
+ * error handler cannot trigger itself (or a chain of handlers) in a loop.
+ */
+export const FAILED_EXECUTION_TRIGGER_KEY = 'failedExecution';
+
+interface ExecutionFailedEvent {
+  executionId: number;
+}
+
+/**
+ * Listener for execution failures
+ * Triggers the failed workflow's error workflow with the failed execution's id,
+ * workflow name, failing step and error as trigger data
+ */
+@Injectable()
+export class ErrorWorkflowListener {
+  private readonly logger = new Logger(ErrorWorkflowListener.name);
+
+  constructor(
+    private readonly workflowService: WorkflowService,
+    private readonly executionRepository: ExecutionRepository,
+  ) {}
+
+  @OnEvent('execution.failed')
+  async handleExecutionFailed(event: ExecutionFailedEvent) {
+    const { executionId } = event;
+
+    try {
+      const execution = await this.executionRepository.findById(executionId);
+      const errorWorkflowId = execution?.workflow?.errorWorkflowId;
+      if (!execution || !errorWorkflowId) {
+        return;
+      }
+
+      if (execution.dryRun) {
+        this.logger.debug(
+          `Execution ${executionId} is a dry run, not triggering error workflow ${errorWorkflowId}`,
+        );
+        return;
+      }
+
+      const triggerData = (execution.triggerData as Record<string, any>) || {};
+      if (triggerData[FAILED_EXECUTION_TRIGGER_KEY]) {
+        this.logger.warn(
+          `Execution ${executionId} is itself an error workflow run, not triggering error workflow ${errorWorkflowId}`,
+        );
+        return;
+      }
+
+      // The most recent failed step is the one that failed the execution
+      const failedStep = execution.executionSteps
+        .filter((step) => step.status === ExecutionStepStatus.FAILED)
+        .sort(
+          (a, b) =>
+            (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0),
+        )[0];
+      const failedAction = failedStep
+        ? execution.workflow.actions.find(
+            (action) => action.id === failedStep.actionId,
+          )
+        : undefined;
+
+      this.logger.log(
+        `Execution ${executionId} of workflow ${execution.workflowId} failed, triggering error workflow ${errorWorkflowId}`,
+      );
+      await this.workflowService.trigger(errorWorkflowId, execution.userId, {
+        [FAILED_EXECUTION_TRIGGER_KEY]: {
+          id: execution.id,
+          workflowId: execution.workflowId,
+          workflowName: execution.workflow.name,
+          error: execution.error,
+          startedAt: execution.startedAt,
+          failedAt: execution.completedAt,
+        },
+        failedStep: failedStep
+          ? {
+              actionId: failedStep.actionId,
+              name: failedAction?.name,
+              type: failedAction?.type,
+              error: failedStep.error,
+              input: failedStep.input,
+            }
+          : null,
+      });
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to trigger error workflow for execution ${executionId}: ${error.message}`,
+      );
+      // Don't throw - we don't want to break the event emitter
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { WorkflowService } from '../workflow.service';
+import { WorkflowEventService } from '../services/workflow-event.service';
+import {
+  ExecutionService,
+  STALE_EXECUTION_TIMEOUT_MS,
+} from '../execution.service';
+
+/**
+ * Maximum number of times an orphaned execution is requeued before it is failed
+ */
+export const MAX_EXECUTION_RESUMES = 3;
+
+/**
+ * Stale execution reaper
+ * Finds running executions whose worker stopped sending heartbeats (crash, restart, OOM)
+ * and requeues them so they resume from the last completed step, or fails them once
+ * they have been resumed too many times. Also reschedules waiting executions that are
+ * overdue, e.g. because their delayed job was lost.
+ */
+@Injectable()
+export class StaleExecutionListener {
+  private readonly logger = new Logger(StaleExecutionListener.name);
+
+  constructor(
+    private readonly executionRepository: ExecutionRepository,
+    private readonly workflowService: WorkflowService,
+    private readonly executionService: ExecutionService,
+    private readonly workflowEvents: WorkflowEventService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reapStaleExecutions(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_EXECUTION_TIMEOUT_MS);
+
+    let staleExecutions: Awaited<
+      ReturnType<ExecutionRepository['findStaleRunning']>
+    >;
+    try {
+      staleExecutions =
+        await this.executionRepository.findStaleRunning(staleBefore);
+    } catch (error: any) {
+      this.logger.error(`Failed to look up stale executions: ${error.message}`);
+      return;
+    }
+
+    for (const execution of staleExecutions) {
+      try {
+        if (execution.resumeCount >= MAX_EXECUTION_RESUMES) {
+          const failed = await this.executionRepository.failStale(
+            execution.id,
+            staleBefore,
+            `Execution worker stopped responding (resumed ${execution.resumeCount} times)`,
+          );
+          if (failed) {
+            this.logger.warn(
+              `Execution ${execution.id} failed: worker stopped responding after ${execution.resumeCount} resumes`,
+            );
+            this.workflowEvents.emitExecutionFailed(execution.id);
+          }
+          continue;
+        }
+
+        const requeued = await this.workflowService.requeueStaleExecution(
+          execution,
+          staleBefore,
+        );
+        if (requeued) {
+          this.logger.warn(
+            `Execution ${execution.id} had no heartbeat since ${staleBefore.toISOString()}, requeued for resume`,
+          );
+        }
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to recover stale execution ${execution.id}: ${error.message}`,
+        );
+      }
+    }
+
+    await this.rescheduleOverdueWaits(staleBefore);
+  }
+
+  private async rescheduleOverdueWaits(overdueBefore: Date): Promise<void> {
+    let overdueExecutions: Awaited<
+      ReturnType<ExecutionRepository['findOverdueWaiting']>
+    >;
+    try {
+      overdueExecutions =
+        await this.executionRepository.findOverdueWaiting(overdueBefore);
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to look up overdue waiting executions: ${error.message}`,
+      );
+      return;
+    }
+
+    for (const execution of overdueExecutions) {
+      try {
+        // Same job ID as the original resume job, so this is a no-op if that job is still pending
+        await this.executionService.scheduleResume({
+          ...execution,
+          waitUntil: execution.waitUntil!,
+        });
+        this.logger.warn(
+          `Execution ${execution.id} was due at ${execution.waitUntil!.toISOString()}, rescheduled resume`,
+        );
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to reschedule waiting execution ${execution.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -7,7 +7,10 @@ import {
 import { OnEvent } from '@nestjs/event-emitter';
 import { PrismaService } from '../../database/prisma.service';
 import { TriggerRegistry } from '../triggers/trigger.registry';
-import { TriggerType } from '../interfaces/workflow.interface';
+import {
+  GmailTriggerMode,
+  TriggerType,
+} from '../interfaces/workflow.interface';
 import { GoogleMailTriggerHandler } from '../triggers/google-mail.trigger';
 import { ScheduleTriggerHandler } from '../triggers/schedule.trigger';
 import { WebhookTriggerHandler } from '../triggers/webhook.trigger';
@@ -227,8 +230,11 @@ export class TriggerAutoStartListener implements OnModuleInit, OnModuleDestroy {
         return;
       }
 
-      // Ensure Pub/Sub topic and subscription exist
-      if (this.pubSubService.isAvailable()) {
+      // Ensure Pub/Sub topic and subscription exist (poll mode doesn't use them)
+      if (
+        config.mode !== GmailTriggerMode.POLL &&
+        this.pubSubService.isAvailable()
+      ) {
         try {
           await this.pubSubService.createTopic(userId);
           const topicPath = this.pubSubService.getTopicPath(userId);
@@ -2,10 +2,12 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { WorkflowService } from '../workflow.service';
 import { WorkflowRepository } from '../repositories/workflow.repository';
+import { TriggerDedupe } from '../interfaces/workflow.interface';
 
 interface WorkflowTriggerEvent {
   workflowId: number;
   payload: Record<string, any>;
+  dedupe?: TriggerDedupe;
 }
 
 /**
@@ -30,11 +32,14 @@ export class WorkflowTriggerListener implements OnModuleInit {
 
   /**
    * Handle workflow trigger events
-   * This method is called whenever a trigger emits a 'workflow.trigger' event
+   * This method is called whenever a trigger emits a 'workflow.trigger' event.
+   * Returns the started (or, for a duplicate, the original) execution's ID.
    */
   @OnEvent('workflow.trigger')
-  async handleWorkflowTrigger(event: WorkflowTriggerEvent) {
-    const { workflowId, payload } = event;
+  async handleWorkflowTrigger(
+    event: WorkflowTriggerEvent,
+  ): Promise<number | null> {
+    const { workflowId, payload, dedupe } = event;
 
     this.logger.log(
       `Received workflow trigger event for workflow ${workflowId}`,
@@ -47,28 +52,49 @@ export class WorkflowTriggerListener implements OnModuleInit {
 
       if (!workflow) {
         this.logger.error(`Workflow ${workflowId} not found`);
-        return;
+        return null;
       }
 
       if (!workflow.enabled) {
         this.logger.warn(
           `Workflow ${workflowId} is disabled, skipping execution`,
         );
-        return;
+        return null;
       }
 
       // Trigger workflow execution
-      await this.workflowService.trigger(workflowId, workflow.userId, payload);
+      let executionId: number;
+      if (dedupe) {
+        const result = await this.workflowService.triggerOnce(
+          workflowId,
+          workflow.userId,
+          payload,
+          dedupe,
+        );
+        if (result.duplicate) {
+          return result.executionId;
+        }
+        executionId = result.executionId;
+      } else {
+        const execution = await this.workflowService.trigger(
+          workflowId,
+          workflow.userId,
+          payload,
+        );
+        executionId = execution.id;
+      }
 
       this.logger.log(
         `Workflow ${workflowId} execution triggered successfully`,
       );
+      return executionId;
     } catch (error: any) {
       this.logger.error(
         `Error triggering workflow ${workflowId}:`,
         error.message,
       );
       // Don't throw - we don't want to break the event emitter
+      return null;
     }
   }
 }
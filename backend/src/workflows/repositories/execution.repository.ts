@@ -15,13 +15,23 @@ export class ExecutionRepository {
     userId: number;
     status?: WorkflowStatus;
     triggerData?: Prisma.InputJsonValue;
+    parentExecutionId?: number;
+    parentStepId?: number;
+    workflowVersionId?: number;
+    dryRun?: boolean;
+    mockOutputs?: Prisma.InputJsonValue;
   }) {
     return this.prisma.execution.create({
       data: {
         workflowId: data.workflowId,
+        workflowVersionId: data.workflowVersionId,
         userId: data.userId,
         status: (data.status || WorkflowStatus.PENDING) as any,
         triggerData: data.triggerData,
+        parentExecutionId: data.parentExecutionId,
+        parentStepId: data.parentStepId,
+        dryRun: data.dryRun,
+        mockOutputs: data.mockOutputs,
       },
       include: {
         workflow: {
@@ -45,31 +55,43 @@ export class ExecutionRepository {
     });
   }
 
+  /**
+   * Find an execution with the actions it runs: those of its pinned workflow
+   * version, or the workflow's draft actions for draft runs
+   */
   async findById(id: number) {
-    return this.prisma.execution.findUnique({
+    const actionsInclude = {
+      orderBy: {
+        order: 'asc' as const,
+      },
+      include: {
+        nextAction: true,
+        parentAction: true,
+        childActions: true,
+      },
+    };
+    const execution = await this.prisma.execution.findUnique({
       where: { id },
       include: {
         workflow: {
           include: {
             trigger: true,
-            actions: {
-              orderBy: {
-                order: 'asc',
-              },
-              include: {
-                nextAction: true,
-                parentAction: true,
-                childActions: true,
-              },
-            },
+            actions: actionsInclude,
           },
         },
+        workflowVersion: {
+          select: { id: true, version: true, actions: actionsInclude },
+        },
         executionSteps: {
           orderBy: {
             order: 'asc',
           },
           include: {
             action: true,
+            childExecutions: {
+              select: { id: true, workflowId: true, status: true },
+              orderBy: { id: 'asc' },
+            },
           },
         },
         user: {
@@ -81,6 +103,38 @@ export class ExecutionRepository {
         },
       },
     });
+
+    if (!execution?.workflowVersion) {
+      return execution;
+    }
+    const { actions, ...workflowVersion } = execution.workflowVersion;
+    return {
+      ...execution,
+      workflow: { ...execution.workflow, actions },
+      workflowVersion,
+    };
+  }
+
+  /**
+   * The execution and its sub-workflow ancestors, from the execution up to the root
+   */
+  async findCallChain(
+    executionId: number,
+  ): Promise<{ id: number; workflowId: number }[]> {
+    const chain: { id: number; workflowId: number }[] = [];
+    let nextId: number | null = executionId;
+    while (nextId !== null && !chain.some((entry) => entry.id === nextId)) {
+      const execution = await this.prisma.execution.findUnique({
+        where: { id: nextId },
+        select: { id: true, workflowId: true, parentExecutionId: true },
+      });
+      if (!execution) {
+        break;
+      }
+      chain.push({ id: execution.id, workflowId: execution.workflowId });
+      nextId = execution.parentExecutionId;
+    }
+    return chain;
   }
 
   async findByWorkflowId(
@@ -110,6 +164,32 @@ export class ExecutionRepository {
     });
   }
 
+  /**
+   * The workflow's most recent execution (dry runs excluded) with completed steps,
+   * the steps in the order they completed
+   */
+  async findLatestWithCompletedSteps(workflowId: number) {
+    return this.prisma.execution.findFirst({
+      where: {
+        workflowId,
+        dryRun: false,
+        executionSteps: { some: { status: ExecutionStepStatus.COMPLETED } },
+      },
+      include: {
+        executionSteps: {
+          where: { status: ExecutionStepStatus.COMPLETED },
+          orderBy: { completedAt: 'asc' },
+          include: {
+            action: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
   async findByUserId(
     userId: number,
     options?: {
@@ -151,6 +231,7 @@ export class ExecutionRepository {
       error?: string;
       startedAt?: Date;
       completedAt?: Date;
+      heartbeatAt?: Date;
     },
   ) {
     return this.prisma.execution.update({
@@ -169,10 +250,249 @@ export class ExecutionRepository {
     });
   }
 
+  /**
+   * Move a pending (or waiting) execution to running; returns false if it was claimed or cancelled meanwhile
+   */
+  async markRunning(id: number, startedAt: Date) {
+    const result = await this.prisma.execution.updateMany({
+      where: {
+        id,
+        status: { in: [WorkflowStatus.PENDING, WorkflowStatus.WAITING] },
+      },
+      data: {
+        status: WorkflowStatus.RUNNING,
+        startedAt,
+        heartbeatAt: new Date(),
+        waitUntil: null,
+      },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Park an execution until `waitUntil`; returns false if it was cancelled meanwhile
+   */
+  async markWaiting(id: number, waitUntil: Date) {
+    const result = await this.prisma.execution.updateMany({
+      where: { id, status: { not: WorkflowStatus.CANCELLED } },
+      data: {
+        status: WorkflowStatus.WAITING,
+        waitUntil,
+        heartbeatAt: null,
+      },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Find waiting executions that should have resumed before `overdueBefore`
+   * (e.g. their delayed job was lost)
+   */
+  async findOverdueWaiting(overdueBefore: Date, limit = 50) {
+    return this.prisma.execution.findMany({
+      where: {
+        status: WorkflowStatus.WAITING,
+        waitUntil: { lt: overdueBefore },
+      },
+      select: {
+        id: true,
+        workflowId: true,
+        userId: true,
+        triggerData: true,
+        waitUntil: true,
+      },
+      orderBy: { waitUntil: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Record that the worker running this execution is still alive
+   */
+  async touchHeartbeat(id: number) {
+    return this.prisma.execution.update({
+      where: { id },
+      data: { heartbeatAt: new Date() },
+      select: { id: true, status: true },
+    });
+  }
+
+  /**
+   * Find running executions whose worker has not sent a heartbeat since `staleBefore`
+   */
+  async findStaleRunning(staleBefore: Date, limit = 50) {
+    return this.prisma.execution.findMany({
+      where: this.staleRunningWhere(staleBefore),
+      select: {
+        id: true,
+        workflowId: true,
+        userId: true,
+        triggerData: true,
+        resumeCount: true,
+      },
+      orderBy: { startedAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Put an execution back to pending so it can be picked up again.
+   * Failed and interrupted steps are reset; completed steps keep their output.
+   * When `staleBefore` is given, only a still-stale running execution is claimed,
+   * so concurrent reapers cannot requeue the same execution twice.
+   * Returns the new resume count, or null if the execution was not in a resumable state.
+   */
+  async markForResume(
+    id: number,
+    options: { fromStatuses: WorkflowStatus[]; staleBefore?: Date },
+  ): Promise<number | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const where: Prisma.ExecutionWhereInput = options.staleBefore
+        ? { id, ...this.staleRunningWhere(options.staleBefore) }
+        : { id, status: { in: options.fromStatuses } };
+
+      const claimed = await tx.execution.updateMany({
+        where,
+        data: {
+          status: WorkflowStatus.PENDING,
+          error: null,
+          completedAt: null,
+          heartbeatAt: new Date(),
+          resumeCount: { increment: 1 },
+        },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.executionStep.updateMany({
+        where: {
+          executionId: id,
+          status: {
+            in: [ExecutionStepStatus.RUNNING, ExecutionStepStatus.FAILED],
+          },
+        },
+        data: {
+          status: ExecutionStepStatus.PENDING,
+          error: null,
+          retryCount: 0,
+          completedAt: null,
+        },
+      });
+
+      const { resumeCount } = await tx.execution.findUniqueOrThrow({
+        where: { id },
+        select: { resumeCount: true },
+      });
+      return resumeCount;
+    });
+  }
+
+  /**
+   * Fail a running execution whose worker is gone, unless it recovered meanwhile
+   */
+  async failStale(id: number, staleBefore: Date, error: string) {
+    const result = await this.prisma.execution.updateMany({
+      where: { id, ...this.staleRunningWhere(staleBefore) },
+      data: {
+        status: WorkflowStatus.FAILED,
+        error,
+        completedAt: new Date(),
+      },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Mark an execution as cancelled if it is still in `fromStatus`
+   */
+  async markCancelled(id: number, fromStatus: WorkflowStatus) {
+    const result = await this.prisma.execution.updateMany({
+      where: { id, status: fromStatus },
+      data: { status: WorkflowStatus.CANCELLED },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Mark every step that did not run as skipped, creating steps for actions never reached
+   */
+  async skipRemainingSteps(
+    executionId: number,
+    actions: { id: number; order: number }[],
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      await tx.executionStep.updateMany({
+        where: {
+          executionId,
+          status: {
+            in: [
+              ExecutionStepStatus.PENDING,
+              ExecutionStepStatus.RUNNING,
+              ExecutionStepStatus.WAITING,
+            ],
+          },
+        },
+        data: { status: ExecutionStepStatus.SKIPPED, completedAt: now },
+      });
+
+      const existing = await tx.executionStep.findMany({
+        where: { executionId },
+        select: { actionId: true },
+      });
+      const existingActionIds = new Set(existing.map((step) => step.actionId));
+      const missing = actions.filter(
+        (action) => !existingActionIds.has(action.id),
+      );
+
+      if (missing.length > 0) {
+        await tx.executionStep.createMany({
+          data: missing.map((action) => ({
+            executionId,
+            actionId: action.id,
+            order: action.order,
+            status: ExecutionStepStatus.SKIPPED,
+            completedAt: now,
+          })),
+        });
+      }
+    });
+  }
+
+  private staleRunningWhere(staleBefore: Date): Prisma.ExecutionWhereInput {
+    return {
+      status: WorkflowStatus.RUNNING,
+      OR: [
+        { heartbeatAt: { lt: staleBefore } },
+        { heartbeatAt: null, startedAt: { lt: staleBefore } },
+      ],
+    };
+  }
+
+  /**
+   * The step of one action in one loop iteration ("" outside loops)
+   */
+  async findExecutionStep(
+    executionId: number,
+    actionId: number,
+    iterationPath: string,
+  ) {
+    return this.prisma.executionStep.findFirst({
+      where: { executionId, actionId, iterationPath },
+      include: {
+        action: true,
+      },
+    });
+  }
+
   async createExecutionStep(data: {
     executionId: number;
     actionId: number;
     order: number;
+    iteration?: number;
+    iterationPath?: string;
     status?: ExecutionStepStatus;
     input?: Prisma.InputJsonValue;
   }) {
@@ -181,6 +501,8 @@ export class ExecutionRepository {
         executionId: data.executionId,
         actionId: data.actionId,
         order: data.order,
+        iteration: data.iteration,
+        iterationPath: data.iterationPath,
         status: (data.status || ExecutionStepStatus.PENDING) as any,
         input: data.input,
       },
@@ -190,13 +512,53 @@ export class ExecutionRepository {
     });
   }
 
+  /**
+   * Copy the steps of one execution that completed by the given time into another,
+   * so a re-run reuses their outputs instead of running them again
+   */
+  async copyCompletedSteps(
+    fromExecutionId: number,
+    toExecutionId: number,
+    completedBy: Date,
+  ) {
+    const steps = await this.prisma.executionStep.findMany({
+      where: {
+        executionId: fromExecutionId,
+        status: ExecutionStepStatus.COMPLETED,
+        completedAt: { lte: completedBy },
+      },
+    });
+
+    if (steps.length > 0) {
+      await this.prisma.executionStep.createMany({
+        data: steps.map((step) => ({
+          executionId: toExecutionId,
+          actionId: step.actionId,
+          status: step.status,
+          order: step.order,
+          iteration: step.iteration,
+          iterationPath: step.iterationPath,
+          input: step.input ?? undefined,
+          output: step.output ?? undefined,
+          retryCount: step.retryCount,
+          attempts: step.attempts ?? undefined,
+          startedAt: step.startedAt,
+          completedAt: step.completedAt,
+        })),
+      });
+    }
+    return steps.length;
+  }
+
   async updateExecutionStep(
     id: number,
     data: {
       status?: ExecutionStepStatus;
+      input?: Prisma.InputJsonValue;
       output?: Prisma.InputJsonValue;
       error?: string;
       retryCount?: number;
+      attempts?: Prisma.InputJsonValue;
       startedAt?: Date;
       completedAt?: Date;
     },
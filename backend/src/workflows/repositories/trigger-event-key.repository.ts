@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+@Injectable()
+export class TriggerEventKeyRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Claim a dedupe key for a trigger event. Returns null when the key is already
+   * claimed and hasn't expired; the unique (workflowId, key) index makes the claim
+   * atomic. Expired keys of the workflow are removed first.
+   */
+  async claim(workflowId: number, key: string, expiresAt: Date) {
+    await this.prisma.triggerEventKey.deleteMany({
+      where: { workflowId, expiresAt: { lte: new Date() } },
+    });
+
+    try {
+      return await this.prisma.triggerEventKey.create({
+        data: { workflowId, key, expiresAt },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count a suppressed duplicate on the key and on the execution the key started.
+   * Returns that execution's ID (null while it is still being created, or when
+   * the key was released or removed since the claim failed).
+   */
+  async recordDuplicate(
+    workflowId: number,
+    key: string,
+  ): Promise<number | null> {
+    const now = new Date();
+    let eventKey;
+    try {
+      eventKey = await this.prisma.triggerEventKey.update({
+        where: { workflowId_key: { workflowId, key } },
+        data: { duplicateCount: { increment: 1 }, lastDuplicateAt: now },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (eventKey.executionId !== null) {
+      await this.prisma.execution.update({
+        where: { id: eventKey.executionId },
+        data: { duplicatesSuppressed: { increment: 1 }, lastDuplicateAt: now },
+      });
+    }
+    return eventKey.executionId;
+  }
+
+  /**
+   * Link a claimed key to the execution it started, carrying over duplicates that
+   * arrived while the execution was being created
+   */
+  async attachExecution(id: number, executionId: number) {
+    const eventKey = await this.prisma.triggerEventKey.update({
+      where: { id },
+      data: { executionId },
+    });
+
+    if (eventKey.duplicateCount > 0) {
+      await this.prisma.execution.update({
+        where: { id: executionId },
+        data: {
+          duplicatesSuppressed: eventKey.duplicateCount,
+          lastDuplicateAt: eventKey.lastDuplicateAt,
+        },
+      });
+    }
+  }
+
+  /**
+   * Give up a claim whose event didn't start an execution, so it can be retried
+   */
+  async release(id: number) {
+    await this.prisma.triggerEventKey.deleteMany({ where: { id } });
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+@Injectable()
+export class WorkflowTemplateRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Built-in templates and the user's own templates
+   */
+  async findAvailable(userId: number, category?: string) {
+    return this.prisma.workflowTemplate.findMany({
+      where: {
+        OR: [{ userId: null }, { userId }],
+        ...(category ? { category } : {}),
+      },
+      orderBy: [{ userId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+    });
+  }
+
+  async findById(id: number) {
+    return this.prisma.workflowTemplate.findUnique({
+      where: { id },
+    });
+  }
+
+  async create(data: {
+    userId: number;
+    name: string;
+    description?: string;
+    category?: string;
+    definition: Prisma.InputJsonValue;
+  }) {
+    return this.prisma.workflowTemplate.create({ data });
+  }
+
+  /**
+   * Create or update a built-in template by its key
+   */
+  async upsertBuiltIn(data: {
+    key: string;
+    name: string;
+    description: string;
+    category: string;
+    definition: Prisma.InputJsonValue;
+    parameters: Prisma.InputJsonValue;
+  }) {
+    const { key, ...fields } = data;
+    return this.prisma.workflowTemplate.upsert({
+      where: { key },
+      create: { key, ...fields },
+      update: fields,
+    });
+  }
+
+  async delete(id: number) {
+    return this.prisma.workflowTemplate.delete({
+      where: { id },
+    });
+  }
+}
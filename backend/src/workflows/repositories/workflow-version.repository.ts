@@ -0,0 +1,234 @@
+import { Injectable } from '@nestjs/common';
+import { Action, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { TriggerType } from '../interfaces/workflow.interface';
+
+/**
+ * Config keys of control-flow actions that hold action IDs
+ */
+export const ACTION_ID_CONFIG_KEYS = [
+  'loopActionId',
+  'trueActionId',
+  'falseActionId',
+] as const;
+
+/**
+ * Trigger config that belongs to one installed workflow (webhook URLs, Gmail watch
+ * state, the owner's user ID). It must not travel with definitions, and stays on
+ * the draft trigger, where registering keeps it up to date.
+ */
+export const INSTANCE_TRIGGER_CONFIG_KEYS: Partial<
+  Record<TriggerType, string[]>
+> = {
+  [TriggerType.WEBHOOK]: ['webhookId', 'webhookUrl'],
+  [TriggerType.GOOGLE_MAIL]: [
+    'userId',
+    'topicName',
+    'watchChannelId',
+    'watchExpiration',
+    'historyId',
+    'watchHistoryId',
+  ],
+};
+
+/**
+ * The trigger a workflow runs with: the published version's, with the instance
+ * config of the draft trigger. Workflows that were never published run their draft.
+ */
+export function resolveLiveTrigger(
+  draft: { type: string; config: unknown },
+  published: unknown,
+): { type: string; config: Record<string, any> } {
+  const draftConfig = (draft.config ?? {}) as Record<string, any>;
+  const live = published as { type: string; config?: Record<string, any> };
+  if (!live?.type) {
+    return { type: draft.type, config: draftConfig };
+  }
+
+  const config = { ...(live.config ?? {}) };
+  const instanceKeys = INSTANCE_TRIGGER_CONFIG_KEYS[live.type as TriggerType];
+  for (const key of instanceKeys ?? []) {
+    if (draftConfig[key] !== undefined) {
+      config[key] = draftConfig[key];
+    }
+  }
+  return { type: live.type, config };
+}
+
+/**
+ * Workflow Version Repository
+ * Published versions own their own copies of the actions, so editing the draft
+ * (which deletes and recreates the workflow's actions) never changes a version
+ * or the execution steps of runs pinned to it.
+ */
+@Injectable()
+export class WorkflowVersionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByWorkflowId(workflowId: number) {
+    return this.prisma.workflowVersion.findMany({
+      where: { workflowId },
+      include: {
+        _count: { select: { actions: true, executions: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findByVersion(workflowId: number, version: number) {
+    return this.prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+      include: {
+        actions: {
+          orderBy: { order: 'asc' },
+        },
+        _count: { select: { actions: true, executions: true } },
+      },
+    });
+  }
+
+  /**
+   * Snapshot the workflow's draft trigger and actions as its next version and publish it
+   */
+  async publish(workflowId: number, note?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const workflow = await tx.workflow.findUniqueOrThrow({
+        where: { id: workflowId },
+        include: { trigger: true, actions: { orderBy: { order: 'asc' } } },
+      });
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      const version = await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version: (latest?.version ?? 0) + 1,
+          name: workflow.name,
+          description: workflow.description,
+          trigger: workflow.trigger
+            ? {
+                type: workflow.trigger.type,
+                config: workflow.trigger.config as Prisma.InputJsonValue,
+              }
+            : Prisma.JsonNull,
+          note,
+        },
+      });
+      await this.copyActions(tx, workflow.actions, {
+        workflowVersionId: version.id,
+      });
+
+      await tx.workflow.update({
+        where: { id: workflowId },
+        data: { publishedVersionId: version.id, hasUnpublishedChanges: false },
+      });
+      return version;
+    });
+  }
+
+  /**
+   * Publish an earlier version again and reset the draft to it
+   */
+  async rollback(workflowId: number, versionId: number) {
+    return this.prisma.$transaction(async (tx) => {
+      const version = await tx.workflowVersion.findUniqueOrThrow({
+        where: { id: versionId },
+        include: { actions: { orderBy: { order: 'asc' } } },
+      });
+
+      await tx.action.deleteMany({ where: { workflowId } });
+      await this.copyActions(tx, version.actions, { workflowId });
+
+      const trigger = version.trigger as {
+        type: string;
+        config: Prisma.InputJsonValue;
+      } | null;
+      if (trigger) {
+        await tx.trigger.update({
+          where: { workflowId },
+          data: { type: trigger.type, config: trigger.config },
+        });
+      }
+
+      await tx.workflow.update({
+        where: { id: workflowId },
+        data: {
+          name: version.name,
+          description: version.description,
+          publishedVersionId: version.id,
+          hasUnpublishedChanges: false,
+        },
+      });
+      return version;
+    });
+  }
+
+  /**
+   * Copy actions to a new owner (a version or the draft), pointing their
+   * relationships and control-flow config at the copies
+   */
+  private async copyActions(
+    tx: Prisma.TransactionClient,
+    actions: Action[],
+    owner: { workflowId?: number; workflowVersionId?: number },
+  ): Promise<void> {
+    const idMap = new Map<number, number>();
+    for (const action of actions) {
+      const copy = await tx.action.create({
+        data: {
+          ...owner,
+          type: action.type,
+          name: action.name,
+          config: action.config as Prisma.InputJsonValue,
+          order: action.order,
+          retryConfig: (action.retryConfig ?? undefined) as
+            | Prisma.InputJsonValue
+            | undefined,
+          onError: action.onError,
+          positionX: action.positionX,
+          positionY: action.positionY,
+        },
+      });
+      idMap.set(action.id, copy.id);
+    }
+
+    const remap = (id: number | null) =>
+      id !== null ? (idMap.get(id) ?? null) : null;
+    for (const action of actions) {
+      await tx.action.update({
+        where: { id: idMap.get(action.id)! },
+        data: {
+          nextActionId: remap(action.nextActionId),
+          parentActionId: remap(action.parentActionId),
+          errorActionId: remap(action.errorActionId),
+          config: this.remapConfig(action.config, idMap),
+        },
+      });
+    }
+  }
+
+  private remapConfig(
+    config: Prisma.JsonValue,
+    idMap: Map<number, number>,
+  ): Prisma.InputJsonValue {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return (config ?? {}) as Prisma.InputJsonValue;
+    }
+
+    const remapped: Record<string, any> = { ...config };
+    if (Array.isArray(remapped.actionIds)) {
+      remapped.actionIds = remapped.actionIds.map(
+        (id: number) => idMap.get(id) ?? id,
+      );
+    }
+    for (const key of ACTION_ID_CONFIG_KEYS) {
+      if (typeof remapped[key] === 'number' && idMap.has(remapped[key])) {
+        remapped[key] = idMap.get(remapped[key]);
+      }
+    }
+    return remapped;
+  }
+}
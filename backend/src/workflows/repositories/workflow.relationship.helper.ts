@@ -4,7 +4,7 @@ import { PrismaService } from '../../database/prisma.service';
 /**
  * Helper service for managing action relationships in workflows
  *
- * Note: Action relationships (nextActionId, parentActionId) need to be set
+ * Note: Action relationships (nextActionId, parentActionId, errorActionId) need to be set
  * after actions are created because they reference other actions in the same workflow.
  */
 @Injectable()
@@ -17,13 +17,13 @@ export class WorkflowRelationshipHelper {
    * Update action relationships after all actions are created
    *
    * @param workflowId - The workflow ID
-   * @param actionRelationships - Map of actionId -> { nextActionId?, parentActionId? }
+   * @param actionRelationships - Map of actionId -> { nextActionId?, parentActionId?, errorActionId? }
    */
   async updateActionRelationships(
     workflowId: number,
     actionRelationships: Map<
       number,
-      { nextActionId?: number; parentActionId?: number }
+      { nextActionId?: number; parentActionId?: number; errorActionId?: number }
     >,
   ): Promise<void> {
     this.logger.log(
@@ -45,6 +45,12 @@ export class WorkflowRelationshipHelper {
           `Action ${actionId}: parentActionId=${relationships.parentActionId}`,
         );
       }
+      if (relationships.errorActionId !== undefined) {
+        updateData.errorActionId = relationships.errorActionId;
+        this.logger.debug(
+          `Action ${actionId}: errorActionId=${relationships.errorActionId}`,
+        );
+      }
 
       if (Object.keys(updateData).length > 0) {
         updates.push(
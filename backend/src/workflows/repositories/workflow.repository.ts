@@ -11,6 +11,7 @@ export class WorkflowRepository {
     name: string;
     description?: string;
     enabled?: boolean;
+    errorWorkflowId?: number;
     trigger: {
       type: string;
       config: Prisma.InputJsonValue;
@@ -25,6 +26,7 @@ export class WorkflowRepository {
       positionX?: number;
       positionY?: number;
       retryConfig?: Prisma.InputJsonValue;
+      onError?: string;
     }>;
   }) {
     return this.prisma.workflow.create({
@@ -33,6 +35,7 @@ export class WorkflowRepository {
         name: data.name,
         description: data.description,
         enabled: data.enabled ?? true,
+        errorWorkflowId: data.errorWorkflowId,
         trigger: {
           create: {
             type: data.trigger.type,
@@ -50,6 +53,7 @@ export class WorkflowRepository {
             positionX: action.positionX,
             positionY: action.positionY,
             retryConfig: action.retryConfig,
+            onError: action.onError,
           })),
         },
       },
@@ -86,6 +90,9 @@ export class WorkflowRepository {
             childActions: true,
           },
         },
+        publishedVersion: {
+          select: { id: true, version: true, trigger: true, createdAt: true },
+        },
         user: {
           select: {
             id: true,
@@ -110,6 +117,9 @@ export class WorkflowRepository {
             order: 'asc',
           },
         },
+        publishedVersion: {
+          select: { id: true, version: true, createdAt: true },
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -123,6 +133,8 @@ export class WorkflowRepository {
       name?: string;
       description?: string;
       enabled?: boolean;
+      errorWorkflowId?: number | null;
+      hasUnpublishedChanges?: boolean;
     },
   ) {
     return this.prisma.workflow.update({
@@ -139,6 +151,27 @@ export class WorkflowRepository {
     });
   }
 
+  /**
+   * Pin a sample trigger payload to the workflow, or clear it with null
+   */
+  async setPinnedTriggerData(
+    id: number,
+    triggerData: Prisma.InputJsonValue | null,
+  ) {
+    return this.prisma.workflow.update({
+      where: { id },
+      data: { pinnedTriggerData: triggerData ?? Prisma.DbNull },
+      include: {
+        trigger: true,
+        actions: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    });
+  }
+
   async delete(id: number) {
     return this.prisma.workflow.delete({
       where: { id },
@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConditionService } from './condition.service';
+import { ExpressionService } from './expression.service';
+import { ExecutionContext } from '../interfaces/workflow.interface';
+
+describe('ConditionService', () => {
+  let service: ConditionService;
+  let context: ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ConditionService, ExpressionService],
+    }).compile();
+
+    service = module.get<ConditionService>(ConditionService);
+
+    context = {
+      executionId: 1,
+      workflowId: 1,
+      userId: 1,
+      triggerData: {
+        status: 'open',
+        priority: 3,
+        labels: ['bug', 'urgent'],
+        email: 'ada@example.com',
+        assignee: null,
+        draft: false,
+      },
+      stepResults: {
+        1: { status: 200, body: { ok: true } },
+      },
+      stepNames: { 'Fetch Issue': 1 },
+      currentStepOrder: 1,
+    };
+  });
+
+  describe('evaluate', () => {
+    it('should compare typed placeholder values', () => {
+      expect(
+        service.evaluate('{{steps.1.output.status}} == 200', context),
+      ).toBe(true);
+      expect(service.evaluate("{{trigger.status}} != 'closed'", context)).toBe(
+        true,
+      );
+      expect(service.evaluate('{{trigger.priority}} >= 3', context)).toBe(true);
+      expect(service.evaluate('{{trigger.priority}} < 3', context)).toBe(false);
+    });
+
+    it('should treat numeric strings and numbers as equal with ==', () => {
+      expect(service.evaluate("{{trigger.priority}} == '3'", context)).toBe(
+        true,
+      );
+      expect(service.evaluate("{{trigger.priority}} === '3'", context)).toBe(
+        false,
+      );
+    });
+
+    it('should apply && before ||', () => {
+      expect(
+        service.evaluate(
+          "{{trigger.priority}} == 1 && {{trigger.status}} == 'open' || {{trigger.draft}} == false",
+          context,
+        ),
+      ).toBe(true);
+      expect(
+        service.evaluate(
+          "{{trigger.status}} == 'open' && {{trigger.priority}} == 3",
+          context,
+        ),
+      ).toBe(true);
+      expect(
+        service.evaluate(
+          "{{trigger.status}} == 'open' and {{trigger.priority}} == 2",
+          context,
+        ),
+      ).toBe(false);
+    });
+
+    it('should support grouping and negation', () => {
+      expect(
+        service.evaluate(
+          "{{trigger.priority}} == 1 && ({{trigger.status}} == 'open' || true)",
+          context,
+        ),
+      ).toBe(false);
+      expect(service.evaluate('not {{trigger.draft}}', context)).toBe(true);
+      expect(service.evaluate("!({{trigger.status}} == 'open')", context)).toBe(
+        false,
+      );
+    });
+
+    it('should support in, contains and their negations', () => {
+      expect(service.evaluate("'bug' in {{trigger.labels}}", context)).toBe(
+        true,
+      );
+      expect(
+        service.evaluate("{{trigger.status}} in ['open', 'pending']", context),
+      ).toBe(true);
+      expect(
+        service.evaluate("{{trigger.status}} not in ['open']", context),
+      ).toBe(false);
+      expect(
+        service.evaluate("{{trigger.email}} contains '@example.com'", context),
+      ).toBe(true);
+      expect(
+        service.evaluate("{{trigger.labels}} not contains 'wontfix'", context),
+      ).toBe(true);
+    });
+
+    it('should support regex matching', () => {
+      expect(
+        service.evaluate('{{trigger.email}} matches /^ADA@/i', context),
+      ).toBe(true);
+      expect(
+        service.evaluate("{{trigger.email}} =~ '\\\\.org$'", context),
+      ).toBe(false);
+    });
+
+    it('should support null checks', () => {
+      expect(service.evaluate('{{trigger.assignee}} is null', context)).toBe(
+        true,
+      );
+      expect(service.evaluate('{{trigger.missing}} is null', context)).toBe(
+        true,
+      );
+      expect(service.evaluate('{{trigger.email}} is not null', context)).toBe(
+        true,
+      );
+    });
+
+    it('should resolve bare paths and step names', () => {
+      expect(service.evaluate("trigger.labels[1] == 'urgent'", context)).toBe(
+        true,
+      );
+      expect(
+        service.evaluate(
+          "steps['Fetch Issue'].output.body.ok == true",
+          context,
+        ),
+      ).toBe(true);
+    });
+
+    it('should interpolate placeholders inside quoted strings', () => {
+      expect(
+        service.evaluate(
+          "'{{trigger.status}}-{{trigger.priority}}' == 'open-3'",
+          context,
+        ),
+      ).toBe(true);
+    });
+
+    it('should evaluate object conditions', () => {
+      expect(
+        service.evaluate(
+          { field: '{{trigger.priority}}', operator: '>', value: 2 },
+          context,
+        ),
+      ).toBe(true);
+      expect(
+        service.evaluate(
+          {
+            field: '{{trigger.labels}}',
+            operator: 'notContains',
+            value: 'bug',
+          },
+          context,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept valid conditions', () => {
+      expect(() =>
+        service.validate(
+          '({{a}} > 1 or {{b}} is not null) and not {{c}} in [1, 2, -3]',
+        ),
+      ).not.toThrow();
+    });
+
+    it('should report syntax errors with their position', () => {
+      expect(() => service.validate('{{a}} == ')).toThrow(
+        'Unexpected end of condition at position 9',
+      );
+      expect(() => service.validate('({{a}} == 1')).toThrow('Missing ")"');
+      expect(() => service.validate("{{a}} == 'open")).toThrow(
+        'Unterminated string literal at position 9',
+      );
+      expect(() => service.validate('{{a}} 1')).toThrow(
+        'Unexpected "1" at position 6',
+      );
+      expect(() => service.validate('{{a}} == 1 #')).toThrow(
+        'Unexpected character "#"',
+      );
+      expect(() => service.validate('{{a}} is 1')).toThrow(
+        'Expected "null" after "is"',
+      );
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => service.validate('{{a}} matches /(abc/')).toThrow(
+        'Invalid regular expression',
+      );
+      expect(() => service.validate("{{a}} matches '(['")).toThrow(
+        'Invalid regular expression',
+      );
+    });
+
+    it('should reject empty conditions and unknown object operators', () => {
+      expect(() => service.validate('   ')).toThrow(
+        'Condition cannot be empty',
+      );
+      expect(() =>
+        service.validate({ field: '{{a}}', operator: 'between', value: 1 }),
+      ).toThrow('Unknown comparison operator: between');
+    });
+  });
+});
@@ -0,0 +1,823 @@
+import { Injectable } from '@nestjs/common';
+import { ExecutionContext } from '../interfaces/workflow.interface';
+import { ExpressionService } from './expression.service';
+
+/**
+ * Parsed condition tree
+ */
+export type ConditionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'interpolated'; template: string }
+  | { kind: 'template'; expression: string }
+  | { kind: 'path'; path: string }
+  | { kind: 'array'; items: ConditionNode[] }
+  | { kind: 'not'; operand: ConditionNode }
+  | {
+      kind: 'logical';
+      operator: 'and' | 'or';
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | {
+      kind: 'compare';
+      operator: string;
+      negate: boolean;
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | { kind: 'nullCheck'; negate: boolean; operand: ConditionNode };
+
+/**
+ * Structured condition, e.g. { field: '{{trigger.status}}', operator: '==', value: 'open' }
+ */
+export interface ObjectCondition {
+  field: any;
+  operator?: string;
+  value?: any;
+}
+
+type TokenType =
+  | 'string'
+  | 'number'
+  | 'regex'
+  | 'template'
+  | 'identifier'
+  | 'keyword'
+  | 'operator'
+  | 'punctuation'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: any;
+  text: string;
+  position: number;
+}
+
+const KEYWORDS = new Set([
+  'and',
+  'or',
+  'not',
+  'in',
+  'is',
+  'null',
+  'true',
+  'false',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'matches',
+]);
+
+// Longest operators first so that "===" is not read as "==" followed by "="
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '>=',
+  '<=',
+  '=~',
+  '&&',
+  '||',
+  '>',
+  '<',
+  '!',
+];
+
+const COMPARISON_OPERATORS = new Set([
+  '==',
+  '===',
+  '!=',
+  '!==',
+  '>',
+  '<',
+  '>=',
+  '<=',
+  '=~',
+]);
+
+const KEYWORD_COMPARISONS = new Set([
+  'in',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'matches',
+]);
+
+/**
+ * Operators accepted by ConditionService.compare (and the object condition format)
+ */
+const SUPPORTED_OPERATORS = new Set([
+  ...COMPARISON_OPERATORS,
+  ...KEYWORD_COMPARISONS,
+  'notIn',
+  'notContains',
+]);
+
+/**
+ * Condition Service
+ * Parses and evaluates boolean conditions used by conditional and wait actions.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or:         and (("||" | "or") and)*
+ *   and:        not (("&&" | "and") not)*
+ *   not:        ("!" | "not") not | comparison
+ *   comparison: operand [ (== | != | === | !== | > | < | >= | <= | =~) operand
+ *                       | [not] (in | contains | startsWith | endsWith | matches) operand
+ *                       | is [not] null ]
+ *   operand:    "(" or ")" | [operand, ...] | 'string' | 123 | true | false | null
+ *               | /regex/flags | {{ expression }} | path.to[0].value
+ *
+ * Operands keep their types: {{steps.1.output.status}} == 200 compares numbers.
+ * Quoted strings may contain placeholders ('{{trigger.name}}'), which are interpolated.
+ */
+@Injectable()
+export class ConditionService {
+  constructor(private readonly expressionService: ExpressionService) {}
+
+  /**
+   * Evaluate a string or object condition against the execution context
+   */
+  evaluate(
+    condition: string | ObjectCondition,
+    context: ExecutionContext,
+  ): boolean {
+    if (typeof condition === 'string') {
+      return this.evaluateNode(this.parse(condition), context);
+    }
+
+    if (condition && typeof condition === 'object') {
+      this.validateObjectCondition(condition);
+      const { field, operator = '==', value } = condition;
+      return this.compare(
+        this.expressionService.resolve(field, context),
+        operator,
+        this.expressionService.resolve(value, context),
+      );
+    }
+
+    throw new Error('Invalid condition format');
+  }
+
+  /**
+   * Check that a condition can be parsed; throws a descriptive error otherwise
+   */
+  validate(condition: string | ObjectCondition): void {
+    if (typeof condition === 'string') {
+      this.parse(condition);
+      return;
+    }
+
+    if (condition && typeof condition === 'object') {
+      this.validateObjectCondition(condition);
+      return;
+    }
+
+    throw new Error('Invalid condition format');
+  }
+
+  /**
+   * Parse a condition string into a tree
+   */
+  parse(condition: string): ConditionNode {
+    if (!condition.trim()) {
+      throw new Error('Condition cannot be empty');
+    }
+    return new ConditionParser(condition, this.tokenize(condition)).parse();
+  }
+
+  /**
+   * Compare two already-resolved values with the given operator
+   */
+  compare(left: any, operator: string, right: any): boolean {
+    switch (operator) {
+      case '==':
+        return this.looseEquals(left, right);
+      case '!=':
+        return !this.looseEquals(left, right);
+      case '===':
+        return left === right;
+      case '!==':
+        return left !== right;
+      case '>':
+      case '<':
+      case '>=':
+      case '<=':
+        return this.compareOrder(left, operator, right);
+      case 'contains':
+        return this.contains(left, right);
+      case 'notContains':
+        return !this.contains(left, right);
+      case 'in':
+        return this.contains(right, left);
+      case 'notIn':
+        return !this.contains(right, left);
+      case 'startsWith':
+        return (
+          left !== null &&
+          left !== undefined &&
+          String(left).startsWith(String(right))
+        );
+      case 'endsWith':
+        return (
+          left !== null &&
+          left !== undefined &&
+          String(left).endsWith(String(right))
+        );
+      case 'matches':
+      case '=~':
+        return this.matches(left, right);
+      default:
+        throw new Error(`Unknown comparison operator: ${operator}`);
+    }
+  }
+
+  private evaluateNode(node: ConditionNode, context: ExecutionContext): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'interpolated':
+        return this.expressionService.resolve(node.template, context);
+      case 'template':
+        return this.expressionService.evaluate(node.expression, context);
+      case 'path':
+        return this.expressionService.evaluate(node.path, context);
+      case 'array':
+        return node.items.map((item) => this.evaluateNode(item, context));
+      case 'not':
+        return !this.evaluateNode(node.operand, context);
+      case 'logical':
+        if (node.operator === 'and') {
+          return (
+            Boolean(this.evaluateNode(node.left, context)) &&
+            Boolean(this.evaluateNode(node.right, context))
+          );
+        }
+        return (
+          Boolean(this.evaluateNode(node.left, context)) ||
+          Boolean(this.evaluateNode(node.right, context))
+        );
+      case 'compare': {
+        const result = this.compare(
+          this.evaluateNode(node.left, context),
+          node.operator,
+          this.evaluateNode(node.right, context),
+        );
+        return node.negate ? !result : result;
+      }
+      case 'nullCheck': {
+        const value = this.evaluateNode(node.operand, context);
+        const isNull = value === null || value === undefined;
+        return node.negate ? !isNull : isNull;
+      }
+    }
+  }
+
+  private validateObjectCondition(condition: ObjectCondition): void {
+    if (!condition.field) {
+      throw new Error('Condition object must have a field property');
+    }
+    const operator = condition.operator ?? '==';
+    if (!SUPPORTED_OPERATORS.has(operator)) {
+      throw new Error(`Unknown comparison operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Equality that tolerates the string/number/boolean mismatches common in
+   * webhook payloads, e.g. 200 == '200' and true == 'true'
+   */
+  private looseEquals(left: any, right: any): boolean {
+    if (left === right) return true;
+    if (left === null || left === undefined) {
+      return right === null || right === undefined;
+    }
+    if (right === null || right === undefined) return false;
+
+    if (typeof left === 'object' || typeof right === 'object') {
+      return (
+        typeof left === typeof right &&
+        JSON.stringify(left) === JSON.stringify(right)
+      );
+    }
+
+    if (typeof left === 'number' || typeof right === 'number') {
+      const leftNumber = this.toNumber(left);
+      const rightNumber = this.toNumber(right);
+      return (
+        leftNumber !== undefined &&
+        rightNumber !== undefined &&
+        leftNumber === rightNumber
+      );
+    }
+
+    return String(left) === String(right);
+  }
+
+  private compareOrder(left: any, operator: string, right: any): boolean {
+    if (
+      left === null ||
+      left === undefined ||
+      right === null ||
+      right === undefined
+    ) {
+      return false;
+    }
+
+    const leftNumber = this.toNumber(left);
+    const rightNumber = this.toNumber(right);
+    const [a, b] =
+      leftNumber !== undefined && rightNumber !== undefined
+        ? [leftNumber, rightNumber]
+        : [String(left), String(right)];
+
+    switch (operator) {
+      case '>':
+        return a > b;
+      case '<':
+        return a < b;
+      case '>=':
+        return a >= b;
+      default:
+        return a <= b;
+    }
+  }
+
+  private contains(container: any, item: any): boolean {
+    if (container === null || container === undefined) return false;
+    if (Array.isArray(container)) {
+      return container.some((entry) => this.looseEquals(entry, item));
+    }
+    if (typeof container === 'object') {
+      return String(item) in container;
+    }
+    return String(container).includes(String(item));
+  }
+
+  private matches(value: any, pattern: any): boolean {
+    if (value === null || value === undefined) return false;
+    const regex =
+      pattern instanceof RegExp ? pattern : this.toRegExp(String(pattern));
+    regex.lastIndex = 0;
+    return regex.test(String(value));
+  }
+
+  private toRegExp(pattern: string, flags?: string): RegExp {
+    try {
+      return new RegExp(pattern, flags);
+    } catch (error: any) {
+      throw new Error(
+        `Invalid regular expression /${pattern}/: ${error.message}`,
+      );
+    }
+  }
+
+  private toNumber(value: any): number | undefined {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const fail = (message: string, position: number): never => {
+      throw new Error(
+        `Invalid condition: ${message} at position ${position} in "${source}"`,
+      );
+    };
+
+    while (i < source.length) {
+      const char = source[i];
+      const start = i;
+      const previous = tokens[tokens.length - 1];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      // {{ expression }}
+      if (source.startsWith('{{', i)) {
+        const end = source.indexOf('}}', i + 2);
+        if (end === -1) {
+          fail('Unterminated "{{"', start);
+        }
+        const expression = source.slice(i + 2, end).trim();
+        if (!expression) {
+          fail('Empty "{{ }}" placeholder', start);
+        }
+        i = end + 2;
+        tokens.push({
+          type: 'template',
+          value: expression,
+          text: source.slice(start, i),
+          position: start,
+        });
+        continue;
+      }
+
+      // 'string' or "string"
+      if (char === "'" || char === '"') {
+        let value = '';
+        i++;
+        while (i < source.length && source[i] !== char) {
+          if (source[i] === '\\' && i + 1 < source.length) {
+            const escaped = source[i + 1];
+            value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+            i += 2;
+          } else {
+            value += source[i++];
+          }
+        }
+        if (i >= source.length) {
+          fail('Unterminated string literal', start);
+        }
+        i++;
+        tokens.push({
+          type: 'string',
+          value,
+          text: source.slice(start, i),
+          position: start,
+        });
+        continue;
+      }
+
+      // /regex/flags, only directly after a regex operator
+      if (
+        char === '/' &&
+        previous &&
+        ((previous.type === 'keyword' && previous.value === 'matches') ||
+          (previous.type === 'operator' && previous.value === '=~'))
+      ) {
+        let pattern = '';
+        let inClass = false;
+        i++;
+        while (i < source.length && (source[i] !== '/' || inClass)) {
+          if (source[i] === '\\' && i + 1 < source.length) {
+            pattern += source[i] + source[i + 1];
+            i += 2;
+            continue;
+          }
+          if (source[i] === '[') inClass = true;
+          if (source[i] === ']') inClass = false;
+          pattern += source[i++];
+        }
+        if (i >= source.length) {
+          fail('Unterminated regular expression', start);
+        }
+        i++;
+        const flagsMatch = source.slice(i).match(/^[gimsuy]*/);
+        const flags = flagsMatch ? flagsMatch[0] : '';
+        i += flags.length;
+        tokens.push({
+          type: 'regex',
+          value: this.toRegExp(pattern, flags),
+          text: source.slice(start, i),
+          position: start,
+        });
+        continue;
+      }
+
+      // Numbers, including a leading minus where a value is expected
+      const canBeNegative =
+        char === '-' &&
+        (!previous ||
+          previous.type === 'operator' ||
+          previous.type === 'keyword' ||
+          (previous.type === 'punctuation' &&
+            previous.value !== ')' &&
+            previous.value !== ']'));
+      if (
+        /\d/.test(char) ||
+        (canBeNegative && /\d/.test(source[i + 1] || ''))
+      ) {
+        const match = source.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/);
+        const text = match![0];
+        i += text.length;
+        tokens.push({
+          type: 'number',
+          value: Number(text),
+          text,
+          position: start,
+        });
+        continue;
+      }
+
+      // Identifiers, keywords and paths (trigger.items[0].name)
+      if (/[A-Za-z_$]/.test(char)) {
+        while (i < source.length) {
+          if (/[\w$.]/.test(source[i])) {
+            i++;
+          } else if (source[i] === '[') {
+            const close = this.findClosingBracket(source, i);
+            if (close === -1) {
+              fail('Unterminated "["', i);
+            }
+            i = close + 1;
+          } else {
+            break;
+          }
+        }
+        const text = source.slice(start, i);
+        if (KEYWORDS.has(text)) {
+          const value =
+            text === 'true'
+              ? true
+              : text === 'false'
+                ? false
+                : text === 'null'
+                  ? null
+                  : text;
+          tokens.push({ type: 'keyword', value, text, position: start });
+        } else {
+          tokens.push({
+            type: 'identifier',
+            value: text,
+            text,
+            position: start,
+          });
+        }
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => source.startsWith(op, i));
+      if (operator) {
+        i += operator.length;
+        tokens.push({
+          type: 'operator',
+          value: operator,
+          text: operator,
+          position: start,
+        });
+        continue;
+      }
+
+      if ('()[],'.includes(char)) {
+        i++;
+        tokens.push({
+          type: 'punctuation',
+          value: char,
+          text: char,
+          position: start,
+        });
+        continue;
+      }
+
+      fail(`Unexpected character "${char}"`, start);
+    }
+
+    tokens.push({
+      type: 'eof',
+      value: null,
+      text: '',
+      position: source.length,
+    });
+    return tokens;
+  }
+
+  private findClosingBracket(source: string, openIndex: number): number {
+    let quote: string | null = null;
+    for (let i = openIndex + 1; i < source.length; i++) {
+      const char = source[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ']') {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
+
+/**
+ * Recursive descent parser over the token stream
+ */
+class ConditionParser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.fail(`Unexpected "${token.text}"`, token);
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||') || this.matchKeyword('or')) {
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&') || this.matchKeyword('and')) {
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.matchOperator('!') || this.matchKeyword('not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      this.index++;
+      const right = this.parseOperand();
+      this.validateRegexOperand(token.value, right);
+      return {
+        kind: 'compare',
+        operator: token.value,
+        negate: false,
+        left,
+        right,
+      };
+    }
+
+    if (token.type === 'keyword' && token.value === 'is') {
+      this.index++;
+      const negate = this.matchKeyword('not');
+      const next = this.peek();
+      if (next.type !== 'keyword' || next.value !== null) {
+        this.fail('Expected "null" after "is"', next);
+      }
+      this.index++;
+      return { kind: 'nullCheck', negate, operand: left };
+    }
+
+    const negate =
+      token.type === 'keyword' &&
+      token.value === 'not' &&
+      this.isKeywordComparison(this.tokens[this.index + 1]);
+    if (negate) {
+      this.index++;
+    }
+
+    const operatorToken = this.peek();
+    if (this.isKeywordComparison(operatorToken)) {
+      this.index++;
+      const right = this.parseOperand();
+      this.validateRegexOperand(operatorToken.value, right);
+      return {
+        kind: 'compare',
+        operator: operatorToken.value,
+        negate,
+        left,
+        right,
+      };
+    }
+
+    return left;
+  }
+
+  private parseOperand(): ConditionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'punctuation':
+        if (token.value === '(') {
+          this.index++;
+          const node = this.parseOr();
+          this.expectPunctuation(')');
+          return node;
+        }
+        if (token.value === '[') {
+          this.index++;
+          const items: ConditionNode[] = [];
+          if (!this.matchPunctuation(']')) {
+            do {
+              items.push(this.parseOperand());
+            } while (this.matchPunctuation(','));
+            this.expectPunctuation(']');
+          }
+          return { kind: 'array', items };
+        }
+        break;
+      case 'string':
+        this.index++;
+        return /\{\{.+?\}\}/s.test(token.value)
+          ? { kind: 'interpolated', template: token.value }
+          : { kind: 'literal', value: token.value };
+      case 'number':
+      case 'regex':
+        this.index++;
+        return { kind: 'literal', value: token.value };
+      case 'template':
+        this.index++;
+        return { kind: 'template', expression: token.value };
+      case 'identifier':
+        this.index++;
+        return { kind: 'path', path: token.value };
+      case 'keyword':
+        if (
+          token.value === true ||
+          token.value === false ||
+          token.value === null
+        ) {
+          this.index++;
+          return { kind: 'literal', value: token.value };
+        }
+        break;
+      case 'eof':
+        this.fail('Unexpected end of condition', token);
+    }
+
+    return this.fail(`Expected a value but found "${token.text}"`, token);
+  }
+
+  private validateRegexOperand(operator: string, right: ConditionNode): void {
+    if (
+      (operator === 'matches' || operator === '=~') &&
+      right.kind === 'literal' &&
+      typeof right.value === 'string'
+    ) {
+      try {
+        new RegExp(right.value);
+      } catch (error: any) {
+        throw new Error(
+          `Invalid regular expression /${right.value}/: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private isKeywordComparison(token: Token | undefined): boolean {
+    return (
+      !!token &&
+      token.type === 'keyword' &&
+      KEYWORD_COMPARISONS.has(token.value)
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(char: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === char) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(char: string): void {
+    if (!this.matchPunctuation(char)) {
+      const token = this.peek();
+      this.fail(
+        token.type === 'eof'
+          ? `Missing "${char}"`
+          : `Expected "${char}" but found "${token.text}"`,
+        token,
+      );
+    }
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new Error(
+      `Invalid condition: ${message} at position ${token.position} in "${this.source}"`,
+    );
+  }
+}
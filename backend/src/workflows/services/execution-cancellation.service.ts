@@ -0,0 +1,84 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RedisService } from '../../database/redis.service';
+
+/**
+ * Redis channel used to broadcast cancellation requests to every process running executions
+ */
+export const EXECUTION_CANCEL_CHANNEL = 'workflow:execution:cancel';
+
+/**
+ * Execution Cancellation Service
+ * Keeps an AbortController per execution running in this process and aborts it when a
+ * cancellation is requested, either locally or from another process (API server -> worker)
+ * via Redis pub/sub.
+ */
+@Injectable()
+export class ExecutionCancellationService implements OnModuleInit {
+  private readonly logger = new Logger(ExecutionCancellationService.name);
+  private readonly controllers = new Map<number, AbortController>();
+
+  constructor(private readonly redisService: RedisService) {}
+
+  onModuleInit() {
+    // Don't block startup on Redis; the execution heartbeat also picks up cancellations
+    this.redisService
+      .subscribe(EXECUTION_CANCEL_CHANNEL, (message) => {
+        const executionId = parseInt(message, 10);
+        if (!isNaN(executionId)) {
+          this.abort(executionId);
+        }
+      })
+      .catch((error) => {
+        this.logger.warn(
+          `Failed to subscribe to execution cancellations: ${error.message}`,
+        );
+      });
+  }
+
+  /**
+   * Register an execution running in this process and get its abort signal
+   */
+  register(executionId: number): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(executionId, controller);
+    return controller.signal;
+  }
+
+  unregister(executionId: number): void {
+    this.controllers.delete(executionId);
+  }
+
+  /**
+   * Abort an execution if it runs in this process
+   */
+  abort(executionId: number): boolean {
+    const controller = this.controllers.get(executionId);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    this.logger.log(`Aborting execution ${executionId}`);
+    controller.abort(new Error('Execution cancelled'));
+    return true;
+  }
+
+  /**
+   * Ask whichever process runs the execution to stop it
+   */
+  async requestCancel(executionId: number): Promise<void> {
+    if (this.abort(executionId)) {
+      return;
+    }
+
+    try {
+      await this.redisService.publish(
+        EXECUTION_CANCEL_CHANNEL,
+        String(executionId),
+      );
+    } catch (error: any) {
+      this.logger.warn(
+        `Failed to broadcast cancellation of execution ${executionId}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessageEvent } from '@nestjs/common';
+import {
+  EXECUTION_EVENTS_CHANNEL,
+  ExecutionEventsService,
+} from './execution-events.service';
+import { RedisService } from '../../database/redis.service';
+import { ExecutionEventType } from '../interfaces/workflow.interface';
+
+describe('ExecutionEventsService', () => {
+  let service: ExecutionEventsService;
+  let redisService: { publish: jest.Mock; subscribe: jest.Mock };
+  let deliver: (message: string) => void;
+
+  beforeEach(async () => {
+    redisService = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(async (_channel, listener) => {
+        deliver = listener;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExecutionEventsService,
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<ExecutionEventsService>(ExecutionEventsService);
+    service.onModuleInit();
+  });
+
+  it('should publish events with a timestamp', () => {
+    service.publish({
+      type: ExecutionEventType.STEP_STARTED,
+      executionId: 1,
+      actionId: 2,
+      stepId: 3,
+      status: 'running' as any,
+    });
+
+    expect(redisService.publish).toHaveBeenCalledWith(
+      EXECUTION_EVENTS_CHANNEL,
+      expect.any(String),
+    );
+    expect(JSON.parse(redisService.publish.mock.calls[0][1])).toEqual({
+      type: 'step.started',
+      executionId: 1,
+      actionId: 2,
+      stepId: 3,
+      status: 'running',
+      timestamp: expect.any(String),
+    });
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should stream the snapshot and events of one execution until it finishes', async () => {
+    const messages: MessageEvent[] = [];
+    let completed = false;
+
+    service
+      .stream(1, async () => ({ status: 'running' }))
+      .subscribe({
+        next: (message) => messages.push(message),
+        complete: () => (completed = true),
+      });
+    await flush();
+
+    deliver(
+      JSON.stringify({
+        type: 'step.started',
+        executionId: 2,
+        status: 'running',
+      }),
+    );
+    deliver(
+      JSON.stringify({
+        type: 'step.started',
+        executionId: 1,
+        status: 'running',
+      }),
+    );
+    deliver('not json');
+    deliver(
+      JSON.stringify({
+        type: 'execution.status',
+        executionId: 1,
+        status: 'completed',
+      }),
+    );
+    deliver(
+      JSON.stringify({
+        type: 'step.started',
+        executionId: 1,
+        status: 'running',
+      }),
+    );
+
+    expect(messages.map((message) => message.type)).toEqual([
+      'snapshot',
+      'step.started',
+      'execution.status',
+    ]);
+    expect(messages[0].data).toEqual({ status: 'running' });
+    expect(completed).toBe(true);
+  });
+
+  it('should only send the snapshot of a finished execution', async () => {
+    const messages: MessageEvent[] = [];
+    let completed = false;
+
+    service
+      .stream(1, async () => ({ status: 'failed' }))
+      .subscribe({
+        next: (message) => messages.push(message),
+        complete: () => (completed = true),
+      });
+    await flush();
+
+    expect(messages).toEqual([
+      { type: 'snapshot', data: { status: 'failed' } },
+    ]);
+    expect(completed).toBe(true);
+  });
+
+  it('should not miss an execution finishing while the snapshot loads', async () => {
+    const messages: MessageEvent[] = [];
+    let completed = false;
+
+    service
+      .stream(1, async () => {
+        // Finishes after the snapshot was read, before it is sent
+        deliver(
+          JSON.stringify({
+            type: 'execution.status',
+            executionId: 1,
+            status: 'completed',
+          }),
+        );
+        return { status: 'running' };
+      })
+      .subscribe({
+        next: (message) => messages.push(message),
+        complete: () => (completed = true),
+      });
+    await flush();
+
+    expect(messages.map((message) => message.type)).toEqual([
+      'snapshot',
+      'execution.status',
+    ]);
+    expect(completed).toBe(true);
+  });
+});
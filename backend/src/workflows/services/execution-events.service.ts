@@ -0,0 +1,140 @@
+import { Injectable, Logger, MessageEvent, OnModuleInit } from '@nestjs/common';
+import {
+  Observable,
+  ReplaySubject,
+  Subject,
+  defer,
+  filter,
+  finalize,
+  from,
+  interval,
+  map,
+  merge,
+  of,
+  startWith,
+  switchMap,
+  takeWhile,
+} from 'rxjs';
+import { RedisService } from '../../database/redis.service';
+import {
+  ExecutionEvent,
+  ExecutionEventType,
+  WorkflowStatus,
+} from '../interfaces/workflow.interface';
+
+/**
+ * Redis channel carrying live execution events from the workers to the API processes
+ */
+export const EXECUTION_EVENTS_CHANNEL = 'workflow:execution:events';
+
+/**
+ * How often an open execution stream sends a ping, so proxies keep the connection open
+ */
+export const EXECUTION_STREAM_KEEPALIVE_MS = 15 * 1000;
+
+const FINISHED_STATUSES: string[] = [
+  WorkflowStatus.COMPLETED,
+  WorkflowStatus.FAILED,
+  WorkflowStatus.CANCELLED,
+];
+
+/**
+ * Execution Events Service
+ * Publishes step and status changes of running executions through Redis pub/sub,
+ * so the API process can relay events produced in the worker process to
+ * Server-Sent Events streams.
+ */
+@Injectable()
+export class ExecutionEventsService implements OnModuleInit {
+  private readonly logger = new Logger(ExecutionEventsService.name);
+  private readonly events = new Subject<ExecutionEvent>();
+
+  constructor(private readonly redisService: RedisService) {}
+
+  onModuleInit() {
+    // Don't block startup on Redis; without it clients fall back to polling
+    this.redisService
+      .subscribe(EXECUTION_EVENTS_CHANNEL, (message) => {
+        try {
+          this.events.next(JSON.parse(message));
+        } catch {
+          this.logger.warn(`Ignoring malformed execution event: ${message}`);
+        }
+      })
+      .catch((error) => {
+        this.logger.warn(
+          `Failed to subscribe to execution events: ${error.message}`,
+        );
+      });
+  }
+
+  /**
+   * Publish an execution event (fire-and-forget; live updates must never fail an execution)
+   */
+  publish(event: Omit<ExecutionEvent, 'timestamp'>): void {
+    const message = JSON.stringify({
+      ...event,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.redisService
+      .publish(EXECUTION_EVENTS_CHANNEL, message)
+      .catch((error) => {
+        this.logger.warn(
+          `Failed to publish ${event.type} event for execution ${event.executionId}: ${error.message}`,
+        );
+      });
+  }
+
+  /**
+   * Live events of one execution (no snapshot, never completes)
+   */
+  watch(executionId: number): Observable<ExecutionEvent> {
+    return this.events.pipe(
+      filter((event) => event.executionId === executionId),
+    );
+  }
+
+  /**
+   * Stream of an execution as SSE messages: a snapshot of its current state, then live
+   * events. Completes after the event that finishes the execution.
+   * Events are listened to before the snapshot is loaded, so an execution finishing
+   * in between is seen either in the snapshot or as an event.
+   */
+  stream(
+    executionId: number,
+    loadSnapshot: () => Promise<{ status: string }>,
+  ): Observable<MessageEvent> {
+    return defer(() => {
+      const received = new ReplaySubject<MessageEvent>();
+      const subscription = this.watch(executionId)
+        .pipe(map((event): MessageEvent => ({ type: event.type, data: event })))
+        .subscribe(received);
+      const pings = interval(EXECUTION_STREAM_KEEPALIVE_MS).pipe(
+        map((): MessageEvent => ({ type: 'ping', data: {} })),
+      );
+
+      return from(loadSnapshot()).pipe(
+        switchMap((snapshot) => {
+          const initial: MessageEvent = { type: 'snapshot', data: snapshot };
+          if (FINISHED_STATUSES.includes(snapshot.status)) {
+            return of(initial);
+          }
+          return merge(received, pings).pipe(
+            takeWhile((message) => !this.isFinished(message), true),
+            startWith(initial),
+          );
+        }),
+        finalize(() => subscription.unsubscribe()),
+      );
+    });
+  }
+
+  private isFinished(message: MessageEvent): boolean {
+    const event = message.data as ExecutionEvent;
+    return (
+      message.type === ExecutionEventType.EXECUTION_STATUS &&
+      FINISHED_STATUSES.includes(event.status)
+    );
+  }
+}
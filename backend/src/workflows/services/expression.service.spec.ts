@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExpressionService } from './expression.service';
+import { ExecutionContext } from '../interfaces/workflow.interface';
+
+describe('ExpressionService', () => {
+  let service: ExpressionService;
+  let context: ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ExpressionService],
+    }).compile();
+
+    service = module.get<ExpressionService>(ExpressionService);
+
+    context = {
+      executionId: 10,
+      workflowId: 1,
+      userId: 1,
+      triggerData: {
+        payload: {
+          name: 'Ada',
+          tags: ['vip', 'beta'],
+          createdAt: '2024-03-05T08:09:10.000Z',
+        },
+        count: 3,
+      },
+      stepResults: {
+        1: { status: 200, data: { users: [{ email: 'a@example.com' }] } },
+      },
+      stepNames: { 'Fetch Users': 1 },
+      currentStepOrder: 1,
+    };
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('resolve', () => {
+    it('should keep the type of a value that is a single placeholder', () => {
+      expect(service.resolve('{{trigger.payload.tags}}', context)).toEqual([
+        'vip',
+        'beta',
+      ]);
+      expect(service.resolve('{{ trigger.count }}', context)).toBe(3);
+      expect(service.resolve('{{trigger.payload}}', context)).toEqual(
+        context.triggerData.payload,
+      );
+    });
+
+    it('should stringify placeholders embedded in text', () => {
+      expect(
+        service.resolve(
+          'Hi {{trigger.payload.name}}, you have {{trigger.count}}',
+          context,
+        ),
+      ).toBe('Hi Ada, you have 3');
+      expect(service.resolve('Tags: {{trigger.payload.tags}}', context)).toBe(
+        'Tags: ["vip","beta"]',
+      );
+    });
+
+    it('should leave unresolved embedded placeholders untouched', () => {
+      expect(service.resolve('Hello {{trigger.missing}}', context)).toBe(
+        'Hello {{trigger.missing}}',
+      );
+      expect(service.resolve('{{trigger.missing}}', context)).toBeUndefined();
+    });
+
+    it('should resolve nested objects and arrays recursively', () => {
+      const resolved = service.resolve(
+        {
+          headers: { 'X-User': '{{trigger.payload.name}}' },
+          list: ['{{trigger.count}}', 'static'],
+          enabled: true,
+        },
+        context,
+      );
+
+      expect(resolved).toEqual({
+        headers: { 'X-User': 'Ada' },
+        list: [3, 'static'],
+        enabled: true,
+      });
+    });
+
+    it('should return non-template values unchanged', () => {
+      expect(service.resolve(42, context)).toBe(42);
+      expect(service.resolve(undefined, context)).toBeUndefined();
+      expect(service.resolve('plain text', context)).toBe('plain text');
+    });
+  });
+
+  describe('paths and aliases', () => {
+    it('should support array indexing and bracket notation', () => {
+      expect(service.evaluate('trigger.payload.tags[1]', context)).toBe('beta');
+      expect(
+        service.evaluate(
+          "steps['Fetch Users'].output.data.users[0].email",
+          context,
+        ),
+      ).toBe('a@example.com');
+    });
+
+    it('should expose step outputs by action id and by action name', () => {
+      expect(service.evaluate('steps.1.output.status', context)).toBe(200);
+      expect(service.evaluate('step.1.output.status', context)).toBe(200);
+      expect(service.evaluate('steps.Fetch Users.output.status', context)).toBe(
+        200,
+      );
+    });
+
+    it('should expose the branch outputs of a parallel action', () => {
+      context.stepResults[2] = {
+        actionIds: [3, 4],
+        branches: [{ id: 'a' }, { error: { message: 'Timeout' } }],
+      };
+
+      expect(service.evaluate('steps.2.branches[0].id', context)).toBe('a');
+      expect(
+        service.evaluate('steps.2.output.branches[1].error.message', context),
+      ).toBe('Timeout');
+      expect(service.evaluate('steps.1.branches', context)).toBeUndefined();
+    });
+
+    it('should keep raw context fields available', () => {
+      expect(service.evaluate('triggerData.count', context)).toBe(3);
+      expect(service.evaluate('executionId', context)).toBe(10);
+    });
+
+    it('should expose the current loop item', () => {
+      context.loopContext = {
+        item: { id: 7 },
+        index: 2,
+        itemVariable: 'user',
+        parentActionId: 5,
+        path: '2',
+      };
+
+      expect(service.evaluate('loop.item.id', context)).toBe(7);
+      expect(service.evaluate('loop.index', context)).toBe(2);
+      expect(service.evaluate('user.id', context)).toBe(7);
+      expect(service.evaluate('loopContext.item.id', context)).toBe(7);
+    });
+
+    it('should expose the enclosing loop in nested loops', () => {
+      const outer = {
+        item: { id: 7 },
+        index: 2,
+        itemVariable: 'user',
+        parentActionId: 5,
+        path: '2',
+      };
+      context.loopContext = {
+        item: 'admin',
+        index: 0,
+        itemVariable: 'role',
+        parentActionId: 6,
+        path: '2.0',
+        parent: outer,
+      };
+
+      expect(service.evaluate('loop.item', context)).toBe('admin');
+      expect(service.evaluate('loop.parent.item.id', context)).toBe(7);
+      expect(service.evaluate('loop.parent.index', context)).toBe(2);
+      expect(service.evaluate('role', context)).toBe('admin');
+      expect(service.evaluate('user.id', context)).toBe(7);
+    });
+
+    it('should throw on an unterminated bracket', () => {
+      expect(() => service.evaluate('trigger.items[0', context)).toThrow(
+        'Unterminated "["',
+      );
+    });
+  });
+
+  describe('filters', () => {
+    it('should apply default values', () => {
+      expect(
+        service.resolve("{{trigger.payload.nickname | default:'x'}}", context),
+      ).toBe('x');
+      expect(
+        service.resolve("{{trigger.payload.name | default:'x'}}", context),
+      ).toBe('Ada');
+      expect(service.evaluate('trigger.missing | default:5', context)).toBe(5);
+    });
+
+    it('should apply upper, lower and length', () => {
+      expect(service.evaluate('trigger.payload.name | upper', context)).toBe(
+        'ADA',
+      );
+      expect(service.evaluate('trigger.payload.name | lower', context)).toBe(
+        'ada',
+      );
+      expect(service.evaluate('trigger.payload.tags | length', context)).toBe(
+        2,
+      );
+      expect(service.evaluate('trigger.missing | length', context)).toBe(0);
+    });
+
+    it('should serialize values with json', () => {
+      expect(service.evaluate('trigger.payload.tags | json', context)).toBe(
+        '["vip","beta"]',
+      );
+    });
+
+    it('should format dates', () => {
+      expect(
+        service.evaluate(
+          "trigger.payload.createdAt | date:'YYYY-MM-DD HH:mm:ss'",
+          context,
+        ),
+      ).toBe('2024-03-05 08:09:10');
+      expect(
+        service.evaluate('trigger.payload.createdAt | date', context),
+      ).toBe('2024-03-05T08:09:10.000Z');
+    });
+
+    it('should chain filters', () => {
+      expect(
+        service.evaluate(
+          "trigger.payload.nickname | default:'guest' | upper",
+          context,
+        ),
+      ).toBe('GUEST');
+    });
+
+    it('should support custom filters', () => {
+      service.registerFilter('reverse', (value: string) =>
+        value.split('').reverse().join(''),
+      );
+
+      expect(service.evaluate('trigger.payload.name | reverse', context)).toBe(
+        'adA',
+      );
+    });
+
+    it('should throw on unknown filters', () => {
+      expect(() =>
+        service.evaluate('trigger.payload.name | shout', context),
+      ).toThrow('Unknown expression filter "shout"');
+    });
+  });
+});
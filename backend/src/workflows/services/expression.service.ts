@@ -0,0 +1,427 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  LoopContext,
+} from '../interfaces/workflow.interface';
+
+/**
+ * A filter applied with the pipe syntax, e.g. {{trigger.name | upper}}
+ */
+export type ExpressionFilter = (value: any, ...args: any[]) => any;
+
+/**
+ * Matches every {{ ... }} placeholder in a string
+ */
+const TEMPLATE_PATTERN = /\{\{((?:(?!\{\{|\}\}).)+)\}\}/gs;
+
+/**
+ * Matches a string that is exactly one {{ ... }} placeholder
+ */
+const SINGLE_TEMPLATE_PATTERN = /^\s*\{\{((?:(?!\{\{|\}\}).)+)\}\}\s*$/s;
+
+/**
+ * Expression Service
+ * Resolves {{ ... }} templates in action configs against the execution context.
+ *
+ * Supported syntax:
+ * - Paths with dot and bracket notation: {{trigger.items[0].name}}, {{steps['Fetch User'].output}}
+ * - Aliases: trigger.* (trigger data), steps.<actionId|actionName>.output, loop.item / loop.index,
+ *   steps.<parallel>.branches[i] (output of each branch of a parallel action)
+ * - Filters: {{trigger.name | default:'x' | upper}}
+ *
+ * A value that is exactly one placeholder keeps its type (objects, arrays, numbers);
+ * placeholders embedded in a larger string are stringified.
+ */
+@Injectable()
+export class ExpressionService {
+  private readonly filters: Map<string, ExpressionFilter> = new Map();
+
+  constructor() {
+    this.registerBuiltInFilters();
+  }
+
+  /**
+   * Register a custom filter
+   */
+  registerFilter(name: string, filter: ExpressionFilter): void {
+    this.filters.set(name, filter);
+  }
+
+  /**
+   * Resolve all templates in a value.
+   * Strings, arrays and plain objects are resolved recursively; other values are returned as-is.
+   */
+  resolve<T = any>(value: T, context: ExecutionContext): any {
+    return this.resolveWithScope(value, this.buildScope(context));
+  }
+
+  /**
+   * Evaluate a single expression (without the surrounding braces), e.g. "trigger.items | length"
+   */
+  evaluate(expression: string, context: ExecutionContext): any {
+    return this.evaluateExpression(expression, this.buildScope(context));
+  }
+
+  /**
+   * Check whether a string contains at least one template placeholder
+   */
+  hasTemplate(value: unknown): boolean {
+    return typeof value === 'string' && /\{\{.+?\}\}/s.test(value);
+  }
+
+  /**
+   * Build the lookup scope for an execution context.
+   * The raw context fields stay available for backwards compatibility
+   * (e.g. {{triggerData.email}}, {{loopContext.item}}).
+   */
+  buildScope(context: ExecutionContext): Record<string, any> {
+    const stepResults = context.stepResults || {};
+    const steps: Record<
+      string,
+      ReturnType<ExpressionService['buildStepScope']>
+    > = {};
+
+    for (const [actionId, output] of Object.entries(stepResults)) {
+      steps[actionId] = this.buildStepScope(output);
+    }
+
+    for (const [name, actionId] of Object.entries(context.stepNames || {})) {
+      if (actionId in stepResults) {
+        steps[name] = this.buildStepScope(stepResults[actionId]);
+      }
+    }
+
+    const scope: Record<string, any> = {
+      ...context,
+      trigger: context.triggerData || {},
+      steps,
+      step: steps,
+    };
+
+    if (context.loopContext) {
+      scope.loop = this.buildLoopScope(context.loopContext);
+      // Inner loops' item variables shadow outer ones
+      for (
+        let loop: LoopContext | undefined = context.loopContext;
+        loop;
+        loop = loop.parent
+      ) {
+        if (loop.itemVariable && !(loop.itemVariable in scope)) {
+          scope[loop.itemVariable] = loop.item;
+        }
+      }
+    }
+
+    return scope;
+  }
+
+  private buildStepScope(output: any): {
+    output: any;
+    branches?: any[];
+    iterations?: any[];
+  } {
+    if (Array.isArray(output?.branches)) {
+      return { output, branches: output.branches };
+    }
+    if (Array.isArray(output?.iterations)) {
+      return { output, iterations: output.iterations };
+    }
+    return { output };
+  }
+
+  /**
+   * {{loop.item}} / {{loop.index}} of the innermost loop, {{loop.parent.item}} of the enclosing one
+   */
+  private buildLoopScope(loop: LoopContext): Record<string, any> {
+    return {
+      item: loop.item,
+      index: loop.index,
+      parent: loop.parent ? this.buildLoopScope(loop.parent) : undefined,
+    };
+  }
+
+  private resolveWithScope(value: any, scope: Record<string, any>): any {
+    if (typeof value === 'string') {
+      return this.resolveString(value, scope);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveWithScope(item, scope));
+    }
+
+    if (this.isPlainObject(value)) {
+      const resolved: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = this.resolveWithScope(item, scope);
+      }
+      return resolved;
+    }
+
+    return value;
+  }
+
+  private resolveString(template: string, scope: Record<string, any>): any {
+    const single = template.match(SINGLE_TEMPLATE_PATTERN);
+    if (single) {
+      return this.evaluateExpression(single[1], scope);
+    }
+
+    return template.replace(TEMPLATE_PATTERN, (match, expression) => {
+      const value = this.evaluateExpression(expression, scope);
+      // Leave unresolved placeholders untouched so missing data is visible in the output
+      if (value === undefined || value === null) {
+        return match;
+      }
+      return this.stringify(value);
+    });
+  }
+
+  private evaluateExpression(
+    expression: string,
+    scope: Record<string, any>,
+  ): any {
+    const [head, ...filterParts] = this.splitOutsideQuotes(expression, '|');
+
+    let value = this.evaluateOperand(head.trim(), scope);
+
+    for (const part of filterParts) {
+      const filterSource = part.trim();
+      const separator = filterSource.indexOf(':');
+      const name = (
+        separator === -1 ? filterSource : filterSource.slice(0, separator)
+      ).trim();
+      const args =
+        separator === -1
+          ? []
+          : this.splitOutsideQuotes(filterSource.slice(separator + 1), ',').map(
+              (arg) => this.parseLiteral(arg.trim()),
+            );
+
+      const filter = this.filters.get(name);
+      if (!filter) {
+        throw new Error(
+          `Unknown expression filter "${name}" in: ${expression}`,
+        );
+      }
+      value = filter(value, ...args);
+    }
+
+    return value;
+  }
+
+  /**
+   * An operand is either a literal ('text', 42, true, null) or a path into the scope
+   */
+  private evaluateOperand(operand: string, scope: Record<string, any>): any {
+    if (!operand) {
+      throw new Error('Empty expression');
+    }
+
+    if (this.isLiteral(operand)) {
+      return this.parseLiteral(operand);
+    }
+
+    return this.getPath(scope, operand);
+  }
+
+  /**
+   * Walk a dot/bracket path such as items[0].name or steps['My Step'].output
+   */
+  getPath(source: any, path: string): any {
+    let value = source;
+    for (const segment of this.parsePath(path)) {
+      if (value === null || value === undefined) {
+        return undefined;
+      }
+      value = value[segment];
+    }
+    return value;
+  }
+
+  private parsePath(path: string): string[] {
+    const segments: string[] = [];
+    let current = '';
+
+    const pushCurrent = () => {
+      const trimmed = current.trim();
+      if (trimmed) {
+        segments.push(trimmed);
+      }
+      current = '';
+    };
+
+    for (let i = 0; i < path.length; i++) {
+      const char = path[i];
+
+      if (char === '.') {
+        pushCurrent();
+      } else if (char === '[') {
+        pushCurrent();
+        const close = this.findClosingBracket(path, i);
+        if (close === -1) {
+          throw new Error(`Unterminated "[" in expression: ${path}`);
+        }
+        const inner = path.slice(i + 1, close).trim();
+        segments.push(
+          this.isQuoted(inner) ? inner.slice(1, -1) : String(Number(inner)),
+        );
+        i = close;
+      } else {
+        current += char;
+      }
+    }
+    pushCurrent();
+
+    return segments;
+  }
+
+  private findClosingBracket(path: string, openIndex: number): number {
+    let quote: string | null = null;
+    for (let i = openIndex + 1; i < path.length; i++) {
+      const char = path[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ']') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private splitOutsideQuotes(source: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (const char of source) {
+      if (quote) {
+        if (char === quote) quote = null;
+        current += char;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        current += char;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (quote) {
+      throw new Error(`Unterminated string literal in expression: ${source}`);
+    }
+
+    parts.push(current);
+    return parts;
+  }
+
+  private isLiteral(operand: string): boolean {
+    return (
+      this.isQuoted(operand) ||
+      operand === 'true' ||
+      operand === 'false' ||
+      operand === 'null' ||
+      /^-?\d+(\.\d+)?$/.test(operand)
+    );
+  }
+
+  private isQuoted(value: string): boolean {
+    return (
+      value.length >= 2 &&
+      ((value.startsWith("'") && value.endsWith("'")) ||
+        (value.startsWith('"') && value.endsWith('"')))
+    );
+  }
+
+  private parseLiteral(value: string): any {
+    if (this.isQuoted(value)) return value.slice(1, -1);
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (value === 'null') return null;
+    if (value !== '' && !isNaN(Number(value))) return Number(value);
+    return value;
+  }
+
+  private stringify(value: any): string {
+    if (typeof value === 'string') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      Object.getPrototypeOf(value) === Object.prototype
+    );
+  }
+
+  private registerBuiltInFilters(): void {
+    this.registerFilter('default', (value, fallback) =>
+      value === undefined || value === null || value === '' ? fallback : value,
+    );
+    this.registerFilter('json', (value, indent) =>
+      JSON.stringify(value, null, typeof indent === 'number' ? indent : 0),
+    );
+    this.registerFilter('upper', (value) =>
+      value === undefined || value === null
+        ? value
+        : String(value).toUpperCase(),
+    );
+    this.registerFilter('lower', (value) =>
+      value === undefined || value === null
+        ? value
+        : String(value).toLowerCase(),
+    );
+    this.registerFilter('length', (value) => {
+      if (value === undefined || value === null) return 0;
+      if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length;
+      }
+      if (typeof value === 'object') return Object.keys(value).length;
+      return String(value).length;
+    });
+    this.registerFilter('date', (value, format) =>
+      this.formatDate(value, format),
+    );
+  }
+
+  /**
+   * Format a date (Date, ISO string, or epoch milliseconds) in UTC.
+   * Tokens: YYYY, MM, DD, HH, mm, ss, SSS. Without a format the ISO string is returned.
+   */
+  private formatDate(value: any, format?: string): any {
+    if (value === undefined || value === null || value === '') {
+      return value;
+    }
+
+    const date = value === 'now' ? new Date() : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Cannot format invalid date: ${value}`);
+    }
+
+    if (!format) {
+      return date.toISOString();
+    }
+
+    const pad = (num: number, size = 2) => String(num).padStart(size, '0');
+    const tokens: Record<string, string> = {
+      YYYY: String(date.getUTCFullYear()),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      HH: pad(date.getUTCHours()),
+      mm: pad(date.getUTCMinutes()),
+      ss: pad(date.getUTCSeconds()),
+      SSS: pad(date.getUTCMilliseconds(), 3),
+    };
+
+    return String(format).replace(
+      /YYYY|MM|DD|HH|mm|SSS|ss/g,
+      (token) => tokens[token],
+    );
+  }
+}
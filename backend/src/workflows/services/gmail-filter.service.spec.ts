@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GmailFilterService } from './gmail-filter.service';
+import { GmailService } from './gmail.service';
+import { GmailTriggerEvent } from '../interfaces/workflow.interface';
+
+describe('GmailFilterService', () => {
+  let service: GmailFilterService;
+  let gmailService: { matchesQuery: jest.Mock };
+
+  const encode = (text: string) => Buffer.from(text).toString('base64url');
+
+  const gmailMessage = {
+    id: 'msg-1',
+    payload: {
+      mimeType: 'multipart/mixed',
+      headers: [
+        { name: 'From', value: 'Billing <billing@acme.com>' },
+        { name: 'To', value: 'me@example.com' },
+        { name: 'Cc', value: 'Accounts <accounts@example.com>' },
+        { name: 'Subject', value: 'Invoice #1042 for October' },
+        { name: 'Date', value: 'Mon, 19 Oct 2026 09:00:00 +0000' },
+        { name: 'Message-ID', value: '<abc@mail.acme.com>' },
+      ],
+      parts: [
+        {
+          mimeType: 'multipart/alternative',
+          parts: [
+            { mimeType: 'text/plain', body: { data: encode('Amount: 42 €') } },
+            {
+              mimeType: 'text/html',
+              body: { data: encode('<p>Amount: 42 €</p>') },
+            },
+          ],
+        },
+        {
+          mimeType: 'application/pdf',
+          filename: 'invoice-1042.pdf',
+          body: { attachmentId: 'att-1', size: 2048 },
+        },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    gmailService = { matchesQuery: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GmailFilterService,
+        { provide: GmailService, useValue: gmailService },
+      ],
+    }).compile();
+
+    service = module.get(GmailFilterService);
+  });
+
+  describe('parseMessage', () => {
+    it('should extract headers, bodies and attachments', () => {
+      expect(service.parseMessage(gmailMessage)).toEqual({
+        headers: expect.objectContaining({
+          from: 'Billing <billing@acme.com>',
+          'message-id': '<abc@mail.acme.com>',
+        }),
+        messageId: '<abc@mail.acme.com>',
+        from: 'Billing <billing@acme.com>',
+        to: 'me@example.com',
+        cc: 'Accounts <accounts@example.com>',
+        subject: 'Invoice #1042 for October',
+        date: 'Mon, 19 Oct 2026 09:00:00 +0000',
+        body: { text: 'Amount: 42 €', html: '<p>Amount: 42 €</p>' },
+        attachments: [
+          {
+            filename: 'invoice-1042.pdf',
+            mimeType: 'application/pdf',
+            size: 2048,
+            attachmentId: 'att-1',
+          },
+        ],
+      });
+    });
+
+    it('should handle a missing message', () => {
+      expect(service.parseMessage(null)).toMatchObject({
+        from: '',
+        subject: '',
+        body: { text: '', html: '' },
+        attachments: [],
+      });
+    });
+  });
+
+  describe('matches', () => {
+    const email = () => service.parseMessage(gmailMessage);
+
+    it('should match every message without filters', async () => {
+      await expect(
+        service.matches('token', {}, 'msg-1', email()),
+      ).resolves.toEqual({ matched: true });
+    });
+
+    it.each([
+      [{ from: 'billing@acme.com' }, true],
+      [{ from: '*@acme.com' }, true],
+      [{ from: '*@other.com, billing' }, true],
+      [{ from: '*@other.com' }, false],
+      [{ from: '/^billing <.*@acme\\.com>$/' }, true],
+      [{ from: '*@other.com, /^[a-z]{2,7} </' }, true],
+      [{ from: ['*@other.com', '/^[a-z]{2,3} </'] }, false],
+      [{ to: 'accounts@example.com' }, true],
+      [{ to: 'sales@example.com' }, false],
+      [{ subjectContains: 'INVOICE' }, true],
+      [{ subjectContains: 'receipt' }, false],
+      [{ subjectRegex: '^invoice #\\d+' }, true],
+      [{ subjectRegex: '^receipt' }, false],
+      [{ hasAttachment: true, from: 'acme.com' }, true],
+      [{ hasAttachment: false }, false],
+      [{ subjectRegex: '(invoice' }, false],
+      [{ from: '/[a-/' }, false],
+    ])('should apply %j', async (filters, matched) => {
+      const result = await service.matches('token', filters, 'msg-1', email());
+      expect(result.matched).toBe(matched);
+    });
+
+    it('should skip messages without attachments when required', async () => {
+      const result = await service.matches(
+        'token',
+        { hasAttachment: true },
+        'msg-1',
+        { ...email(), attachments: [] },
+      );
+
+      expect(result).toEqual({
+        matched: false,
+        reason: 'message has no attachments',
+      });
+    });
+
+    it('should only fire label events for watched labels', async () => {
+      const filters = {
+        labelIds: ['Label_invoices'],
+        events: [GmailTriggerEvent.LABEL_ADDED],
+      };
+
+      await expect(
+        service.matches('token', filters, 'msg-1', email()),
+      ).resolves.toMatchObject({ matched: false });
+      await expect(
+        service.matches(
+          'token',
+          filters,
+          'msg-1',
+          email(),
+          GmailTriggerEvent.LABEL_ADDED,
+          ['STARRED'],
+        ),
+      ).resolves.toMatchObject({ matched: false });
+      await expect(
+        service.matches(
+          'token',
+          filters,
+          'msg-1',
+          email(),
+          GmailTriggerEvent.LABEL_ADDED,
+          ['Label_invoices'],
+        ),
+      ).resolves.toEqual({ matched: true });
+    });
+
+    it('should run the search query last, on the message', async () => {
+      gmailService.matchesQuery.mockResolvedValue(false);
+
+      await expect(
+        service.matches(
+          'token',
+          { subjectContains: 'receipt', query: 'has:attachment' },
+          'msg-1',
+          email(),
+        ),
+      ).resolves.toMatchObject({ matched: false });
+      expect(gmailService.matchesQuery).not.toHaveBeenCalled();
+
+      await expect(
+        service.matches('token', { query: 'has:attachment' }, 'msg-1', email()),
+      ).resolves.toEqual({
+        matched: false,
+        reason: 'message does not match query "has:attachment"',
+      });
+      expect(gmailService.matchesQuery).toHaveBeenCalledWith(
+        'token',
+        'msg-1',
+        '<abc@mail.acme.com>',
+        'has:attachment',
+      );
+    });
+  });
+
+  describe('validateFilters', () => {
+    it('should accept valid filters', () => {
+      expect(() =>
+        service.validateFilters({
+          from: '/@acme\\.com$/, *@example.com',
+          subjectRegex: 'invoice|receipt',
+          events: [GmailTriggerEvent.MESSAGE_ADDED],
+        }),
+      ).not.toThrow();
+    });
+
+    it('should reject invalid regular expressions and unknown events', () => {
+      expect(() => service.validateFilters({ subjectRegex: '(' })).toThrow(
+        'Invalid regular expression /(/',
+      );
+      expect(() => service.validateFilters({ to: '/[a-/' })).toThrow(
+        'Invalid regular expression',
+      );
+      expect(() =>
+        service.validateFilters({ events: ['messageDeleted' as any] }),
+      ).toThrow('Unknown Gmail event "messageDeleted"');
+    });
+  });
+});
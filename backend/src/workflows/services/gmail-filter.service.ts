@@ -0,0 +1,300 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GmailService } from './gmail.service';
+import { GmailTriggerEvent } from '../interfaces/workflow.interface';
+
+/**
+ * Filters of a Google Mail trigger (all optional, all must match)
+ */
+export interface GmailTriggerFilters {
+  labelIds?: string[];
+  events?: GmailTriggerEvent[];
+  from?: string | string[]; // Sender patterns, comma-separated or a list
+  to?: string | string[]; // Recipient patterns (To and Cc), comma-separated or a list
+  subjectContains?: string;
+  subjectRegex?: string;
+  query?: string; // Gmail search query
+  hasAttachment?: boolean; // true: only with attachments, false: only without
+}
+
+export interface GmailAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string;
+}
+
+/**
+ * A Gmail API message (format=full) reduced to what workflows use
+ */
+export interface ParsedGmailMessage {
+  headers: Record<string, string>; // Lower-cased header names
+  messageId: string; // RFC 822 Message-ID header
+  from: string;
+  to: string;
+  cc: string;
+  subject: string;
+  date: string;
+  body: { text: string; html: string };
+  attachments: GmailAttachment[];
+}
+
+export interface GmailFilterResult {
+  matched: boolean;
+  reason?: string; // Why the message was skipped
+}
+
+/**
+ * Gmail Filter Service
+ * Parses Gmail messages and applies the filters of Google Mail triggers, so that
+ * workflows only run for the emails they are meant for
+ */
+@Injectable()
+export class GmailFilterService {
+  private readonly logger = new Logger(GmailFilterService.name);
+
+  constructor(private readonly gmailService: GmailService) {}
+
+  parseMessage(message: any): ParsedGmailMessage {
+    const headers: Record<string, string> = {};
+    for (const header of message?.payload?.headers || []) {
+      if (header.name) {
+        headers[header.name.toLowerCase()] = header.value || '';
+      }
+    }
+
+    const body = { text: '', html: '' };
+    const attachments: GmailAttachment[] = [];
+    const walk = (part: any) => {
+      if (!part) {
+        return;
+      }
+      if (part.filename) {
+        attachments.push({
+          filename: part.filename,
+          mimeType: part.mimeType || 'application/octet-stream',
+          size: part.body?.size || 0,
+          attachmentId: part.body?.attachmentId,
+        });
+      } else if (part.mimeType === 'text/plain' && !body.text) {
+        body.text = this.decode(part.body?.data);
+      } else if (part.mimeType === 'text/html' && !body.html) {
+        body.html = this.decode(part.body?.data);
+      }
+      (part.parts || []).forEach(walk);
+    };
+    walk(message?.payload);
+
+    return {
+      headers,
+      messageId: headers['message-id'] || '',
+      from: headers['from'] || '',
+      to: headers['to'] || '',
+      cc: headers['cc'] || '',
+      subject: headers['subject'] || '',
+      date: headers['date'] || '',
+      body,
+      attachments,
+    };
+  }
+
+  /**
+   * Check a message against a trigger's filters; the Gmail search query is checked
+   * last since it costs an API call
+   */
+  async matches(
+    accessToken: string,
+    filters: GmailTriggerFilters,
+    messageId: string,
+    email: ParsedGmailMessage,
+    event: GmailTriggerEvent = GmailTriggerEvent.MESSAGE_ADDED,
+    changedLabelIds: string[] = [],
+  ): Promise<GmailFilterResult> {
+    const events = filters.events?.length
+      ? filters.events
+      : [GmailTriggerEvent.MESSAGE_ADDED];
+    if (!events.includes(event)) {
+      return { matched: false, reason: `event ${event} is not watched` };
+    }
+
+    if (event !== GmailTriggerEvent.MESSAGE_ADDED) {
+      const watched = filters.labelIds?.length ? filters.labelIds : ['INBOX'];
+      if (!changedLabelIds.some((labelId) => watched.includes(labelId))) {
+        return {
+          matched: false,
+          reason: `none of the changed labels (${changedLabelIds.join(', ')}) is watched`,
+        };
+      }
+    }
+
+    if (filters.from && !this.matchesAddress(filters.from, [email.from])) {
+      return { matched: false, reason: `sender ${email.from} does not match` };
+    }
+
+    if (filters.to && !this.matchesAddress(filters.to, [email.to, email.cc])) {
+      return { matched: false, reason: 'recipients do not match' };
+    }
+
+    if (
+      filters.subjectContains &&
+      !email.subject
+        .toLowerCase()
+        .includes(filters.subjectContains.toLowerCase())
+    ) {
+      return {
+        matched: false,
+        reason: `subject does not contain "${filters.subjectContains}"`,
+      };
+    }
+
+    if (filters.subjectRegex) {
+      const regex = this.compile(filters.subjectRegex);
+      if (!regex?.test(email.subject)) {
+        return {
+          matched: false,
+          reason: regex
+            ? `subject does not match /${filters.subjectRegex}/`
+            : `subject filter /${filters.subjectRegex}/ is not a valid regular expression`,
+        };
+      }
+    }
+
+    if (filters.hasAttachment !== undefined) {
+      const hasAttachments = email.attachments.length > 0;
+      if (filters.hasAttachment && !hasAttachments) {
+        return { matched: false, reason: 'message has no attachments' };
+      }
+      if (!filters.hasAttachment && hasAttachments) {
+        return { matched: false, reason: 'message has attachments' };
+      }
+    }
+
+    if (filters.query) {
+      if (!email.messageId) {
+        return {
+          matched: false,
+          reason: 'message has no Message-ID to run the search query on',
+        };
+      }
+      const found = await this.gmailService.matchesQuery(
+        accessToken,
+        messageId,
+        email.messageId,
+        filters.query,
+      );
+      if (!found) {
+        return {
+          matched: false,
+          reason: `message does not match query "${filters.query}"`,
+        };
+      }
+    }
+
+    return { matched: true };
+  }
+
+  /**
+   * The filters that can be checked without Gmail: throws on invalid ones
+   */
+  validateFilters(filters: GmailTriggerFilters): void {
+    const events = Object.values(GmailTriggerEvent) as string[];
+    for (const event of filters.events || []) {
+      if (!events.includes(event)) {
+        throw new Error(
+          `Unknown Gmail event "${event}". Supported events: ${events.join(', ')}`,
+        );
+      }
+    }
+
+    const patterns = [
+      ...this.splitPatterns(filters.from),
+      ...this.splitPatterns(filters.to),
+    ]
+      .filter((pattern) => this.isRegex(pattern))
+      .map((pattern) => pattern.slice(1, -1));
+    if (filters.subjectRegex) {
+      patterns.push(filters.subjectRegex);
+    }
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (error: any) {
+        throw new Error(
+          `Invalid regular expression /${pattern}/: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Address patterns are comma-separated or a list; each is a /regex/ (commas
+   * inside it don't separate patterns), a glob with * (matched against the email
+   * address, e.g. *@example.com) or a case-insensitive substring of the header
+   * (which also covers display names)
+   */
+  private matchesAddress(
+    patterns: string | string[],
+    headers: string[],
+  ): boolean {
+    const values = headers.filter((header) => header);
+    const addresses = values.flatMap((header) =>
+      [...header.matchAll(/[^\s<>,;"]+@[^\s<>,;"]+/g)].map((match) =>
+        match[0].toLowerCase(),
+      ),
+    );
+
+    return this.splitPatterns(patterns).some((pattern) => {
+      if (this.isRegex(pattern)) {
+        const regex = this.compile(pattern.slice(1, -1));
+        return !!regex && values.some((value) => regex.test(value));
+      }
+      if (pattern.includes('*')) {
+        const glob = new RegExp(
+          `^${pattern
+            .split('*')
+            .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`,
+          'i',
+        );
+        return addresses.some((address) => glob.test(address));
+      }
+      return values.some((value) =>
+        value.toLowerCase().includes(pattern.toLowerCase()),
+      );
+    });
+  }
+
+  private splitPatterns(patterns?: string | string[]): string[] {
+    const list = Array.isArray(patterns)
+      ? patterns
+      : (patterns || '').match(/\s*\/(?:\\.|[^\\/])+\/\s*(?=,|$)|[^,]+/g) || [];
+    return list.map((pattern) => pattern.trim()).filter((pattern) => pattern);
+  }
+
+  /**
+   * Filters saved before they were validated may hold invalid patterns: those
+   * match nothing instead of failing every message
+   */
+  private compile(pattern: string): RegExp | null {
+    try {
+      return new RegExp(pattern, 'i');
+    } catch (error: any) {
+      this.logger.warn(
+        `Ignoring invalid regular expression /${pattern}/: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private isRegex(pattern: string): boolean {
+    return (
+      pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')
+    );
+  }
+
+  /**
+   * Gmail encodes message bodies as base64url
+   */
+  private decode(data?: string): string {
+    return data ? Buffer.from(data, 'base64url').toString('utf8') : '';
+  }
+}
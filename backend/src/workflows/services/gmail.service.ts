@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
+import { GmailTriggerEvent } from '../interfaces/workflow.interface';
 
 interface GmailWatchRequest {
   topicName: string;
@@ -17,6 +18,16 @@ interface GmailMessage {
   labelIds: string[];
   snippet: string;
   historyId: string;
+  event: GmailTriggerEvent;
+  changedLabelIds?: string[]; // Labels added or removed, for label events
+}
+
+interface GmailHistoryMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  snippet: string;
+  historyId: string;
 }
 
 interface GmailHistoryResponse {
@@ -26,13 +37,15 @@ interface GmailHistoryResponse {
       threadId: string;
     }>;
     messagesAdded?: Array<{
-      message: {
-        id: string;
-        threadId: string;
-        labelIds: string[];
-        snippet: string;
-        historyId: string;
-      };
+      message: GmailHistoryMessage;
+    }>;
+    labelsAdded?: Array<{
+      message: GmailHistoryMessage;
+      labelIds: string[];
+    }>;
+    labelsRemoved?: Array<{
+      message: GmailHistoryMessage;
+      labelIds: string[];
     }>;
   }>;
 }
@@ -142,10 +155,12 @@ export class GmailService {
 
   /**
    * Fetch new messages using history API
+   * Label events are reported once per change, with the labels that changed
    */
   async fetchNewMessages(
     accessToken: string,
     historyId: string,
+    historyTypes: GmailTriggerEvent[] = [GmailTriggerEvent.MESSAGE_ADDED],
   ): Promise<GmailMessage[]> {
     this.logger.log(`Fetching new messages since historyId: ${historyId}`);
 
@@ -157,29 +172,61 @@ export class GmailService {
         {
           params: {
             startHistoryId: historyId,
-            historyTypes: ['messageAdded'],
+            historyTypes,
             maxResults: 100,
             access_token: accessToken,
           },
+          // Gmail expects repeated historyTypes=..., not historyTypes[]=...
+          paramsSerializer: { indexes: null },
         },
       );
 
       const messages: GmailMessage[] = [];
+      const toMessage = (
+        message: GmailHistoryMessage,
+        event: GmailTriggerEvent,
+        changedLabelIds?: string[],
+      ): GmailMessage => ({
+        id: message.id,
+        threadId: message.threadId,
+        labelIds: message.labelIds || [],
+        snippet: message.snippet || '',
+        historyId: message.historyId || historyId,
+        event,
+        ...(changedLabelIds && { changedLabelIds }),
+      });
 
       // Extract messages from history
       if (response.data.history) {
         for (const historyItem of response.data.history) {
           if (historyItem.messagesAdded) {
             for (const messageAdded of historyItem.messagesAdded) {
-              messages.push({
-                id: messageAdded.message.id,
-                threadId: messageAdded.message.threadId,
-                labelIds: messageAdded.message.labelIds || [],
-                snippet: messageAdded.message.snippet || '',
-                historyId: messageAdded.message.historyId || historyId,
-              });
+              messages.push(
+                toMessage(
+                  messageAdded.message,
+                  GmailTriggerEvent.MESSAGE_ADDED,
+                ),
+              );
             }
           }
+          for (const labelAdded of historyItem.labelsAdded || []) {
+            messages.push(
+              toMessage(
+                labelAdded.message,
+                GmailTriggerEvent.LABEL_ADDED,
+                labelAdded.labelIds || [],
+              ),
+            );
+          }
+          for (const labelRemoved of historyItem.labelsRemoved || []) {
+            messages.push(
+              toMessage(
+                labelRemoved.message,
+                GmailTriggerEvent.LABEL_REMOVED,
+                labelRemoved.labelIds || [],
+              ),
+            );
+          }
         }
       }
 
@@ -223,6 +270,71 @@ export class GmailService {
     }
   }
 
+  /**
+   * Get the mailbox profile; its historyId is where polling starts
+   */
+  async getProfile(
+    accessToken: string,
+  ): Promise<{ emailAddress: string; historyId: string }> {
+    const client = this.createApiClient(accessToken);
+
+    try {
+      const response = await client.get('/users/me/profile', {
+        params: {
+          access_token: accessToken,
+        },
+      });
+
+      return {
+        emailAddress: response.data.emailAddress,
+        historyId: response.data.historyId,
+      };
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to fetch Gmail profile:`,
+        error.response?.data || error.message,
+      );
+      throw new Error(
+        `Failed to fetch Gmail profile: ${error.response?.data?.error?.message || error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Check whether a message matches a Gmail search query (the `q` of the Gmail UI
+   * search box). The search is narrowed to the message by its Message-ID header.
+   */
+  async matchesQuery(
+    accessToken: string,
+    messageId: string,
+    rfc822MessageId: string,
+    query: string,
+  ): Promise<boolean> {
+    const client = this.createApiClient(accessToken);
+
+    try {
+      const response = await client.get('/users/me/messages', {
+        params: {
+          q: `(${query}) rfc822msgid:${rfc822MessageId.replace(/^<|>$/g, '')}`,
+          includeSpamTrash: true,
+          maxResults: 10,
+          access_token: accessToken,
+        },
+      });
+
+      const matches: Array<{ id: string }> = response.data.messages || [];
+      return matches.some((match) => match.id === messageId);
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to search Gmail messages:`,
+        error.response?.data || error.message,
+      );
+      throw new Error(
+        `Gmail search failed: ${error.response?.data?.error?.message || error.message}`,
+      );
+    }
+  }
+
   /**
    * Renew a Gmail watch subscription
    * Gmail watch subscriptions expire after 7 days and need to be renewed
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StepTestService } from './step-test.service';
+import { ExpressionService } from './expression.service';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { ActionFactory } from '../actions/action.factory';
+
+describe('StepTestService', () => {
+  let module: TestingModule;
+  let service: StepTestService;
+  let executionRepository: { findLatestWithCompletedSteps: jest.Mock };
+  const handler = {
+    type: 'http_request',
+    name: 'HTTP Request',
+    sideEffects: true,
+    execute: jest.fn(),
+    preview: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        StepTestService,
+        ExpressionService,
+        {
+          provide: WorkflowService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              id: 3,
+              actions: [
+                { id: 11, name: 'Fetch order' },
+                { id: 12, name: 'Notify' },
+              ],
+            }),
+          },
+        },
+        {
+          provide: ExecutionRepository,
+          useValue: { findLatestWithCompletedSteps: jest.fn() },
+        },
+        {
+          provide: ActionFactory,
+          useValue: {
+            isSupported: jest.fn((type: string) => type !== 'unknown'),
+            getHandler: jest.fn().mockReturnValue(handler),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(StepTestService);
+    executionRepository = module.get(ExecutionRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should resolve templates against the last execution's outputs, matched by name", async () => {
+    executionRepository.findLatestWithCompletedSteps.mockResolvedValue({
+      id: 40,
+      triggerData: { orderId: 7 },
+      // Run of a published version: other action IDs, same names
+      executionSteps: [
+        { actionId: 91, action: { name: 'Fetch order' }, output: { total: 5 } },
+      ],
+    });
+    handler.execute.mockResolvedValue({ status: 200 });
+
+    const result = await service.testStep(3, 1, {
+      type: 'http_request',
+      config: {
+        url: 'https://api.example.com/orders/{{trigger.orderId}}',
+        body: { total: '{{steps.Fetch order.output.total}}' },
+      },
+      useLastExecution: true,
+    });
+
+    expect(result).toEqual({
+      status: 'completed',
+      input: {
+        url: 'https://api.example.com/orders/7',
+        body: { total: 5 },
+      },
+      output: { status: 200 },
+      durationMs: expect.any(Number),
+      sourceExecutionId: 40,
+    });
+    expect(handler.execute.mock.calls[0][0]).toMatchObject({
+      executionId: 0,
+      stepResults: { 11: { total: 5 } },
+    });
+  });
+
+  it('should prefer sample trigger data and given step outputs', async () => {
+    handler.preview.mockResolvedValue({ dryRun: true, summary: 'Would send' });
+
+    const result = await service.testStep(3, 1, {
+      type: 'http_request',
+      config: { url: '{{trigger.url}}?n={{steps.Notify.output.count}}' },
+      triggerData: { url: 'https://example.com' },
+      stepOutputs: { Notify: { count: 2 } },
+      dryRun: true,
+    });
+
+    expect(
+      executionRepository.findLatestWithCompletedSteps,
+    ).not.toHaveBeenCalled();
+    expect(handler.execute).not.toHaveBeenCalled();
+    expect(result.input).toEqual({ url: 'https://example.com?n=2' });
+    expect(result.output).toEqual({ dryRun: true, summary: 'Would send' });
+  });
+
+  it("should default to the workflow's pinned trigger data unless asked for the last execution's", async () => {
+    const workflowService = module.get(WorkflowService);
+    (workflowService.findById as jest.Mock).mockResolvedValue({
+      id: 3,
+      actions: [],
+      pinnedTriggerData: { orderId: 99 },
+    });
+    executionRepository.findLatestWithCompletedSteps.mockResolvedValue({
+      id: 40,
+      triggerData: { orderId: 7 },
+      executionSteps: [],
+    });
+    handler.execute.mockResolvedValue({ status: 200 });
+
+    const config = {
+      url: 'https://api.example.com/orders/{{trigger.orderId}}',
+    };
+
+    const pinned = await service.testStep(3, 1, {
+      type: 'http_request',
+      config,
+    });
+    const last = await service.testStep(3, 1, {
+      type: 'http_request',
+      config,
+      useLastExecution: true,
+    });
+
+    expect(pinned.input).toEqual({ url: 'https://api.example.com/orders/99' });
+    expect(last.input).toEqual({ url: 'https://api.example.com/orders/7' });
+  });
+
+  it('should report handler errors in the result', async () => {
+    handler.execute.mockRejectedValue(new Error('HTTP Request failed: 404'));
+
+    const result = await service.testStep(3, 1, {
+      type: 'http_request',
+      config: { url: 'https://example.com/missing' },
+    });
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      error: 'HTTP Request failed: 404',
+    });
+  });
+
+  it('should reject actions that need a real execution', async () => {
+    await expect(
+      service.testStep(3, 1, { type: 'wait', config: { duration: '1h' } }),
+    ).rejects.toThrow('wait actions cannot be tested on their own');
+    await expect(
+      service.testStep(3, 1, { type: 'unknown', config: {} }),
+    ).rejects.toThrow('Unknown action type: unknown');
+  });
+});
@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException } from '../../common/exceptions/custom-exceptions';
+import { WorkflowService } from '../workflow.service';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { ActionFactory } from '../actions/action.factory';
+import { ExpressionService } from './expression.service';
+import {
+  ExecutionContext,
+  ExecutionStepStatus,
+  StepTestResult,
+} from '../interfaces/workflow.interface';
+
+/**
+ * How long a tested step may run before it is aborted
+ */
+export const STEP_TEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Actions that only make sense inside a real execution
+ */
+const UNTESTABLE_ACTION_TYPES = ['wait', 'execute_workflow'];
+
+/**
+ * Step Test Service
+ * Runs a single action handler against a synthesized execution context, without
+ * creating an execution. The context holds sample (or pinned) trigger data and/or
+ * the trigger data and step outputs of the workflow's last execution.
+ */
+@Injectable()
+export class StepTestService {
+  private readonly logger = new Logger(StepTestService.name);
+
+  constructor(
+    private readonly workflowService: WorkflowService,
+    private readonly executionRepository: ExecutionRepository,
+    private readonly actionFactory: ActionFactory,
+    private readonly expressionService: ExpressionService,
+  ) {}
+
+  async testStep(
+    workflowId: number,
+    userId: number,
+    options: {
+      type: string;
+      config: Record<string, any>;
+      triggerData?: Record<string, any>;
+      stepOutputs?: Record<string, any>; // Action name -> output
+      useLastExecution?: boolean;
+      dryRun?: boolean;
+    },
+  ): Promise<StepTestResult> {
+    if (UNTESTABLE_ACTION_TYPES.includes(options.type)) {
+      throw new BadRequestException(
+        `${options.type} actions cannot be tested on their own`,
+      );
+    }
+    if (!this.actionFactory.isSupported(options.type)) {
+      throw new BadRequestException(`Unknown action type: ${options.type}`);
+    }
+
+    const { context, sourceExecutionId } = await this.buildContext(
+      workflowId,
+      userId,
+      options,
+    );
+    const handler = this.actionFactory.getHandler(options.type);
+
+    this.logger.log(
+      `Testing ${options.type} step of workflow ${workflowId} for user ${userId}`,
+    );
+    const startedAt = Date.now();
+    let input = options.config;
+    try {
+      input = this.expressionService.resolve(options.config, context);
+      handler.validateConfig?.(options.config);
+      const output =
+        options.dryRun && handler.sideEffects && handler.preview
+          ? await handler.preview(context, options.config)
+          : await handler.execute(context, options.config);
+
+      return {
+        status: ExecutionStepStatus.COMPLETED,
+        input,
+        output,
+        durationMs: Date.now() - startedAt,
+        sourceExecutionId,
+      };
+    } catch (error: any) {
+      return {
+        status: ExecutionStepStatus.FAILED,
+        input,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+        sourceExecutionId,
+      };
+    }
+  }
+
+  /**
+   * Context for the tested step. Trigger data is the given sample, else the last
+   * execution's when asked for (so it matches that execution's step outputs), else
+   * the workflow's pinned sample payload. Outputs of the last execution are
+   * matched to the workflow's actions by name, since a published version has its
+   * own action IDs.
+   * There is no execution, so the context's executionId is 0.
+   */
+  private async buildContext(
+    workflowId: number,
+    userId: number,
+    options: {
+      triggerData?: Record<string, any>;
+      stepOutputs?: Record<string, any>;
+      useLastExecution?: boolean;
+      dryRun?: boolean;
+    },
+  ): Promise<{ context: ExecutionContext; sourceExecutionId?: number }> {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const stepNames: Record<string, number> = {};
+    for (const action of workflow.actions) {
+      stepNames[action.name] = action.id;
+    }
+
+    let sourceExecutionId: number | undefined;
+    let triggerData = (workflow.pinnedTriggerData as Record<string, any>) || {};
+    const stepResults: Record<number, any> = {};
+
+    if (options.useLastExecution) {
+      const last =
+        await this.executionRepository.findLatestWithCompletedSteps(workflowId);
+      if (last) {
+        sourceExecutionId = last.id;
+        triggerData = (last.triggerData as Record<string, any>) || {};
+        for (const step of last.executionSteps) {
+          const actionId = step.action
+            ? stepNames[step.action.name]
+            : undefined;
+          if (actionId !== undefined) {
+            stepResults[actionId] = step.output;
+          }
+        }
+      }
+    }
+
+    for (const [name, output] of Object.entries(options.stepOutputs ?? {})) {
+      if (!(name in stepNames)) {
+        throw new BadRequestException(
+          `Workflow ${workflowId} has no action named "${name}"`,
+        );
+      }
+      stepResults[stepNames[name]] = output;
+    }
+
+    const context: ExecutionContext = {
+      executionId: 0,
+      workflowId,
+      userId,
+      triggerData: options.triggerData ?? triggerData,
+      stepResults,
+      stepNames,
+      currentStepOrder: 0,
+      signal: AbortSignal.timeout(STEP_TEST_TIMEOUT_MS),
+      dryRun: options.dryRun,
+    };
+    return { context, sourceExecutionId };
+  }
+}
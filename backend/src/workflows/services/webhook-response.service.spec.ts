@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Subject } from 'rxjs';
+import { WebhookResponseService } from './webhook-response.service';
+import { ExecutionEventsService } from './execution-events.service';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import {
+  ExecutionEvent,
+  ExecutionEventType,
+  ExecutionStepStatus,
+  WebhookResponseMode,
+  WorkflowStatus,
+} from '../interfaces/workflow.interface';
+
+describe('WebhookResponseService', () => {
+  let service: WebhookResponseService;
+  let executionRepository: { findById: jest.Mock };
+  let events: Subject<ExecutionEvent>;
+
+  const step = (
+    name: string,
+    type: string,
+    output: any,
+    completedAt: string,
+  ) => ({
+    status: ExecutionStepStatus.COMPLETED,
+    output,
+    completedAt: new Date(completedAt),
+    action: { name, type },
+  });
+
+  const execution = (status: WorkflowStatus, executionSteps: any[] = []) => ({
+    id: 42,
+    status,
+    error: null,
+    executionSteps,
+  });
+
+  beforeEach(async () => {
+    events = new Subject<ExecutionEvent>();
+    executionRepository = { findById: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookResponseService,
+        { provide: ExecutionRepository, useValue: executionRepository },
+        {
+          provide: ExecutionEventsService,
+          useValue: { watch: () => events.asObservable() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WebhookResponseService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the last step output once the execution completes', async () => {
+    executionRepository.findById
+      .mockResolvedValueOnce(execution(WorkflowStatus.RUNNING))
+      .mockResolvedValue(
+        execution(WorkflowStatus.COMPLETED, [
+          step('Lookup', 'http_request', { data: 1 }, '2026-10-19T10:00:02Z'),
+          step(
+            'Format',
+            'example_action',
+            { total: 3 },
+            '2026-10-19T10:00:03Z',
+          ),
+        ]),
+      );
+
+    const response = service.waitForResponse(42, {
+      mode: WebhookResponseMode.LAST_NODE,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    events.next({
+      type: ExecutionEventType.EXECUTION_STATUS,
+      executionId: 42,
+      status: WorkflowStatus.COMPLETED,
+      timestamp: '2026-10-19T10:00:03Z',
+    });
+
+    await expect(response).resolves.toEqual({
+      statusCode: 200,
+      body: { total: 3 },
+    });
+  });
+
+  it('should return the output of the chosen step', async () => {
+    executionRepository.findById.mockResolvedValue(
+      execution(WorkflowStatus.COMPLETED, [
+        step('Lookup', 'http_request', { data: 1 }, '2026-10-19T10:00:02Z'),
+        step('Format', 'example_action', { total: 3 }, '2026-10-19T10:00:03Z'),
+      ]),
+    );
+
+    await expect(
+      service.waitForResponse(42, {
+        mode: WebhookResponseMode.LAST_NODE,
+        responseStep: 'Lookup',
+      }),
+    ).resolves.toEqual({ statusCode: 200, body: { data: 1 } });
+    await expect(
+      service.waitForResponse(42, {
+        mode: WebhookResponseMode.LAST_NODE,
+        responseStep: 'Notify',
+      }),
+    ).rejects.toThrow('step "Notify" did not run');
+  });
+
+  it('should respond as soon as a Respond to Webhook step completed', async () => {
+    const response = { statusCode: 201, headers: { 'x-id': '7' }, body: {} };
+    executionRepository.findById.mockResolvedValue(
+      execution(WorkflowStatus.RUNNING, [
+        step('Reply', 'respond_to_webhook', response, '2026-10-19T10:00:01Z'),
+      ]),
+    );
+
+    await expect(
+      service.waitForResponse(42, { mode: WebhookResponseMode.RESPOND_NODE }),
+    ).resolves.toEqual(response);
+  });
+
+  it('should fail when the execution fails or never responds', async () => {
+    executionRepository.findById.mockResolvedValue({
+      ...execution(WorkflowStatus.FAILED),
+      error: 'Action "Lookup" failed: timeout',
+    });
+    await expect(
+      service.waitForResponse(42, { mode: WebhookResponseMode.LAST_NODE }),
+    ).rejects.toThrow('Execution 42 failed: Action "Lookup" failed: timeout');
+
+    executionRepository.findById.mockResolvedValue(
+      execution(WorkflowStatus.COMPLETED),
+    );
+    await expect(
+      service.waitForResponse(42, { mode: WebhookResponseMode.RESPOND_NODE }),
+    ).rejects.toThrow('without running a Respond to Webhook step');
+  });
+
+  it('should accept the request when the execution is parked', async () => {
+    executionRepository.findById.mockResolvedValue(
+      execution(WorkflowStatus.WAITING),
+    );
+
+    await expect(
+      service.waitForResponse(42, { mode: WebhookResponseMode.LAST_NODE }),
+    ).resolves.toEqual({
+      statusCode: 202,
+      body: { executionId: 42, status: WorkflowStatus.WAITING },
+    });
+  });
+
+  it('should time out with 504', async () => {
+    jest.useFakeTimers();
+    executionRepository.findById.mockResolvedValue(
+      execution(WorkflowStatus.RUNNING),
+    );
+
+    const response = service.waitForResponse(42, {
+      mode: WebhookResponseMode.LAST_NODE,
+      timeoutSeconds: 5,
+    });
+    const assertion = expect(response).rejects.toMatchObject({
+      status: 504,
+      message: 'Workflow did not respond within 5 seconds (execution 42)',
+    });
+    await jest.advanceTimersByTimeAsync(5000);
+    await assertion;
+  });
+});
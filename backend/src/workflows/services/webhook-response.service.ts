@@ -0,0 +1,169 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import {
+  exhaustMap,
+  filter,
+  firstValueFrom,
+  interval,
+  merge,
+  of,
+  startWith,
+  timeout,
+} from 'rxjs';
+import {
+  ExecutionException,
+  WorkflowException,
+} from '../../common/exceptions/custom-exceptions';
+import {
+  ExecutionStepStatus,
+  WebhookResponse,
+  WebhookResponseMode,
+  WorkflowStatus,
+} from '../interfaces/workflow.interface';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import { ExecutionEventsService } from './execution-events.service';
+
+/**
+ * Action type whose output is the response in "respondNode" mode
+ */
+export const RESPOND_TO_WEBHOOK_ACTION_TYPE = 'respond_to_webhook';
+
+export const DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS = 30;
+
+/**
+ * How often the execution is re-read while waiting, in case an event is missed
+ * (e.g. it was published before the wait started, or Redis is unavailable)
+ */
+export const WEBHOOK_RESPONSE_POLL_MS = 2000;
+
+const FINISHED_STATUSES: string[] = [
+  WorkflowStatus.COMPLETED,
+  WorkflowStatus.FAILED,
+  WorkflowStatus.CANCELLED,
+];
+
+/**
+ * Webhook Response Service
+ * Holds a webhook request until its execution produces the response: the output
+ * of a step once the execution finished ("lastNode"), or the output of a
+ * respond_to_webhook step ("respondNode").
+ */
+@Injectable()
+export class WebhookResponseService {
+  private readonly logger = new Logger(WebhookResponseService.name);
+
+  constructor(
+    private readonly executionRepository: ExecutionRepository,
+    private readonly executionEvents: ExecutionEventsService,
+  ) {}
+
+  async waitForResponse(
+    executionId: number,
+    options: {
+      mode: WebhookResponseMode;
+      responseStep?: string; // lastNode: name of the step to return (default: the last one)
+      timeoutSeconds?: number;
+    },
+  ): Promise<WebhookResponse> {
+    const timeoutSeconds =
+      options.timeoutSeconds || DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS;
+    const respondNode = options.mode === WebhookResponseMode.RESPOND_NODE;
+
+    // Re-read the execution on each of its events, and periodically
+    const execution = await firstValueFrom(
+      merge(
+        this.executionEvents.watch(executionId),
+        interval(WEBHOOK_RESPONSE_POLL_MS),
+      ).pipe(
+        startWith(null),
+        exhaustMap(() => this.executionRepository.findById(executionId)),
+        filter(
+          (current) =>
+            !current ||
+            this.isSettled(current.status) ||
+            (respondNode && !!this.findRespondStep(current)),
+        ),
+        timeout({ first: timeoutSeconds * 1000, with: () => of(undefined) }),
+      ),
+    );
+
+    if (execution === undefined) {
+      this.logger.warn(
+        `Execution ${executionId} did not respond to its webhook within ${timeoutSeconds}s`,
+      );
+      throw new WorkflowException(
+        `Workflow did not respond within ${timeoutSeconds} seconds (execution ${executionId})`,
+        HttpStatus.GATEWAY_TIMEOUT,
+      );
+    }
+    if (!execution) {
+      throw new ExecutionException('execution not found', executionId);
+    }
+
+    if (respondNode) {
+      const step = this.findRespondStep(execution);
+      if (step) {
+        return step.output as unknown as WebhookResponse;
+      }
+    }
+
+    if (execution.status === WorkflowStatus.WAITING) {
+      // Parked by a long wait: the rest runs later
+      return {
+        statusCode: HttpStatus.ACCEPTED,
+        body: { executionId, status: execution.status },
+      };
+    }
+    if (execution.status !== WorkflowStatus.COMPLETED) {
+      throw new ExecutionException(
+        execution.error || `execution ${execution.status}`,
+        executionId,
+      );
+    }
+    if (respondNode) {
+      throw new ExecutionException(
+        'workflow finished without running a Respond to Webhook step',
+        executionId,
+      );
+    }
+
+    const completed = execution.executionSteps.filter(
+      (step) => step.status === ExecutionStepStatus.COMPLETED,
+    );
+    const step = options.responseStep
+      ? completed.find(
+          (candidate) => candidate.action?.name === options.responseStep,
+        )
+      : completed.sort(
+          (a, b) =>
+            (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0),
+        )[completed.length - 1];
+    if (options.responseStep && !step) {
+      throw new ExecutionException(
+        `step "${options.responseStep}" did not run`,
+        executionId,
+      );
+    }
+
+    return { statusCode: HttpStatus.OK, body: step?.output ?? null };
+  }
+
+  private isSettled(status: string): boolean {
+    return (
+      FINISHED_STATUSES.includes(status) || status === WorkflowStatus.WAITING
+    );
+  }
+
+  private findRespondStep(execution: {
+    executionSteps: {
+      status: string;
+      output: unknown;
+      action: { type: string } | null;
+    }[];
+  }) {
+    return execution.executionSteps.find(
+      (step) =>
+        step.status === ExecutionStepStatus.COMPLETED &&
+        step.action?.type === RESPOND_TO_WEBHOOK_ACTION_TYPE,
+    );
+  }
+}
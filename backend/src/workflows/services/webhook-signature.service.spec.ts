@@ -0,0 +1,212 @@
+import { createHmac } from 'crypto';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { WebhookVerification } from '../interfaces/workflow.interface';
+
+describe('WebhookSignatureService', () => {
+  const service = new WebhookSignatureService();
+  const secret = 'whsec_test';
+  const body = '{"id":"evt_1","type":"invoice.paid"}';
+  const now = 1_790_000_000_000;
+  const timestamp = String(now / 1000);
+
+  const hmac = (content: string, encoding: 'hex' | 'base64' = 'hex') =>
+    createHmac('sha256', secret).update(content).digest(encoding);
+
+  describe('getMode', () => {
+    it('should use a configured secret as a shared secret by default', () => {
+      expect(service.getMode({})).toBe(WebhookVerification.NONE);
+      expect(service.getMode({ secret })).toBe(WebhookVerification.SECRET);
+      expect(
+        service.getMode({ secret, verification: WebhookVerification.GITHUB }),
+      ).toBe(WebhookVerification.GITHUB);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept any request without verification', () => {
+      expect(() => service.verify({}, {}, body, now)).not.toThrow();
+    });
+
+    it('should compare the shared secret header', () => {
+      const config = { secret };
+
+      expect(() =>
+        service.verify(config, { 'x-webhook-secret': secret }, body, now),
+      ).not.toThrow();
+      expect(() =>
+        service.verify(config, { 'x-secret': secret }, body, now),
+      ).not.toThrow();
+      expect(() =>
+        service.verify(config, { 'x-webhook-secret': 'wrong' }, body, now),
+      ).toThrow('Invalid webhook secret');
+      expect(() => service.verify(config, {}, body, now)).toThrow(
+        'Invalid webhook secret',
+      );
+    });
+
+    it('should verify HMAC signatures with the configured header and encoding', () => {
+      const config = {
+        verification: WebhookVerification.HMAC,
+        secret,
+        signatureHeader: 'X-Acme-Signature',
+        signatureEncoding: 'base64' as const,
+        signaturePrefix: 'sha256=',
+      };
+      const signature = `sha256=${hmac(body, 'base64')}`;
+
+      expect(() =>
+        service.verify(config, { 'x-acme-signature': signature }, body, now),
+      ).not.toThrow();
+      expect(() =>
+        service.verify(
+          config,
+          { 'x-acme-signature': signature },
+          Buffer.from(`${body} `),
+          now,
+        ),
+      ).toThrow('Invalid webhook signature');
+      expect(() =>
+        service.verify(
+          config,
+          { 'x-acme-signature': hmac(body, 'base64') },
+          body,
+          now,
+        ),
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should sign the raw bytes of bodies that are not UTF-8', () => {
+      const config = {
+        verification: WebhookVerification.HMAC,
+        secret,
+        timestampHeader: 'x-timestamp',
+      };
+      const raw = Buffer.from([0x7b, 0xff, 0xfe, 0x7d]);
+      const signature = createHmac('sha256', secret)
+        .update(Buffer.concat([Buffer.from(`${timestamp}.`), raw]))
+        .digest('hex');
+      const headers = { 'x-timestamp': timestamp, 'x-signature': signature };
+
+      expect(() => service.verify(config, headers, raw, now)).not.toThrow();
+      expect(() =>
+        service.verify(config, headers, Buffer.from(raw.toString()), now),
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should sign the timestamp with the body and reject stale requests', () => {
+      const config = {
+        verification: WebhookVerification.HMAC,
+        secret,
+        timestampHeader: 'x-timestamp',
+        timestampTolerance: 60,
+      };
+      const headers = {
+        'x-timestamp': timestamp,
+        'x-signature': hmac(`${timestamp}.${body}`),
+      };
+
+      expect(() => service.verify(config, headers, body, now)).not.toThrow();
+      expect(() => service.verify(config, headers, body, now + 61_000)).toThrow(
+        'Webhook signature timestamp is outside the tolerance',
+      );
+      expect(() =>
+        service.verify(
+          config,
+          { 'x-signature': headers['x-signature'] },
+          body,
+          now,
+        ),
+      ).toThrow('Missing webhook signature timestamp');
+    });
+
+    it('should verify GitHub signatures', () => {
+      const config = { verification: WebhookVerification.GITHUB, secret };
+
+      expect(() =>
+        service.verify(
+          config,
+          { 'x-hub-signature-256': `sha256=${hmac(body)}` },
+          body,
+          now,
+        ),
+      ).not.toThrow();
+      expect(() =>
+        service.verify(
+          config,
+          { 'x-hub-signature-256': hmac(body) },
+          body,
+          now,
+        ),
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should verify Stripe signatures', () => {
+      const config = { verification: WebhookVerification.STRIPE, secret };
+      const header = `t=${timestamp},v1=${'0'.repeat(64)},v1=${hmac(`${timestamp}.${body}`)}`;
+
+      expect(() =>
+        service.verify(config, { 'stripe-signature': header }, body, now),
+      ).not.toThrow();
+      expect(() =>
+        service.verify(
+          config,
+          { 'stripe-signature': header },
+          body,
+          now + 301_000,
+        ),
+      ).toThrow('Webhook signature timestamp is outside the tolerance');
+      expect(() =>
+        service.verify(
+          config,
+          { 'stripe-signature': `t=${timestamp},v1=${hmac(body)}` },
+          body,
+          now,
+        ),
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should verify Slack signatures', () => {
+      const config = { verification: WebhookVerification.SLACK, secret };
+      const headers = {
+        'x-slack-request-timestamp': timestamp,
+        'x-slack-signature': `v0=${hmac(`v0:${timestamp}:${body}`)}`,
+      };
+
+      expect(() => service.verify(config, headers, body, now)).not.toThrow();
+      expect(() =>
+        service.verify(
+          config,
+          { ...headers, 'x-slack-request-timestamp': String(now / 1000 + 1) },
+          body,
+          now,
+        ),
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should reject signature verification without a secret', () => {
+      expect(() =>
+        service.verify(
+          { verification: WebhookVerification.GITHUB },
+          {},
+          body,
+          now,
+        ),
+      ).toThrow('Webhook verification "github" requires a secret');
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should reject incomplete or unknown settings', () => {
+      expect(() => service.validateConfig({})).not.toThrow();
+      expect(() =>
+        service.validateConfig({ verification: WebhookVerification.STRIPE }),
+      ).toThrow('requires a secret');
+      expect(() =>
+        service.validateConfig({ verification: 'md5' as any, secret }),
+      ).toThrow('Unknown webhook verification "md5"');
+      expect(() =>
+        service.validateConfig({ secret, timestampTolerance: 0 }),
+      ).toThrow('Timestamp tolerance must be a positive number of seconds');
+    });
+  });
+});
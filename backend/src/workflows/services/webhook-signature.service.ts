@@ -0,0 +1,236 @@
+import { Injectable } from '@nestjs/common';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { UnauthorizedException } from '../../common/exceptions/custom-exceptions';
+import { WebhookVerification } from '../interfaces/workflow.interface';
+
+/**
+ * Verification settings of a webhook trigger
+ */
+export interface WebhookVerificationConfig {
+  verification?: WebhookVerification;
+  secret?: string;
+  signatureHeader?: string; // hmac: header carrying the signature
+  signatureEncoding?: 'hex' | 'base64'; // hmac: encoding of the signature
+  signaturePrefix?: string; // hmac: e.g. "sha256=" before the signature
+  timestampHeader?: string; // hmac: header carrying the signing timestamp
+  timestampTolerance?: number; // Seconds a signed request stays valid
+}
+
+/**
+ * Headers callers put a plain shared secret in; never passed on to workflows
+ */
+export const WEBHOOK_SECRET_HEADERS = ['x-webhook-secret', 'x-secret'];
+
+export const DEFAULT_SIGNATURE_HEADER = 'x-signature';
+export const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+/**
+ * Webhook Signature Service
+ * Checks that webhook requests come from the configured sender: a shared secret,
+ * an HMAC-SHA256 signature of the raw body, or the signing scheme of a known
+ * sender (GitHub, Stripe, Slack)
+ */
+@Injectable()
+export class WebhookSignatureService {
+  /**
+   * The verification a config asks for; configs from before verification modes
+   * existed use their secret as a shared secret
+   */
+  getMode(config: WebhookVerificationConfig): WebhookVerification {
+    if (config.verification) {
+      return config.verification;
+    }
+    return config.secret
+      ? WebhookVerification.SECRET
+      : WebhookVerification.NONE;
+  }
+
+  /**
+   * Throws an UnauthorizedException when the request doesn't verify
+   */
+  verify(
+    config: WebhookVerificationConfig,
+    headers: Record<string, string>,
+    rawBody: Buffer | string,
+    now: number = Date.now(),
+  ): void {
+    const mode = this.getMode(config);
+    if (mode === WebhookVerification.NONE) {
+      return;
+    }
+    if (!config.secret) {
+      throw new UnauthorizedException(
+        `Webhook verification "${mode}" requires a secret`,
+      );
+    }
+
+    // Signatures cover the exact bytes received, which need not be valid UTF-8
+    const body = Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody);
+    const secret = config.secret;
+    const tolerance =
+      config.timestampTolerance || DEFAULT_TIMESTAMP_TOLERANCE_SECONDS;
+
+    switch (mode) {
+      case WebhookVerification.SECRET: {
+        const provided = WEBHOOK_SECRET_HEADERS.map(
+          (header) => headers[header],
+        ).find((value) => value);
+        if (!provided || !this.secretsMatch(provided, secret)) {
+          throw new UnauthorizedException('Invalid webhook secret');
+        }
+        return;
+      }
+
+      case WebhookVerification.HMAC: {
+        const timestampHeader = config.timestampHeader?.toLowerCase();
+        let signed = body;
+        if (timestampHeader) {
+          const timestamp = headers[timestampHeader];
+          this.checkTimestamp(timestamp, tolerance, now);
+          signed = Buffer.concat([Buffer.from(`${timestamp}.`), body]);
+        }
+        this.checkSignature(
+          headers[
+            (config.signatureHeader || DEFAULT_SIGNATURE_HEADER).toLowerCase()
+          ],
+          config.signaturePrefix || '',
+          this.sign(secret, signed, config.signatureEncoding || 'hex'),
+        );
+        return;
+      }
+
+      case WebhookVerification.GITHUB:
+        this.checkSignature(
+          headers['x-hub-signature-256'],
+          'sha256=',
+          this.sign(secret, body, 'hex'),
+        );
+        return;
+
+      case WebhookVerification.STRIPE: {
+        // Stripe-Signature: t=<timestamp>,v1=<signature>[,v1=<signature>...]
+        const parts = (headers['stripe-signature'] || '')
+          .split(',')
+          .map((part) => part.trim().split('='));
+        const timestamp = parts.find(([key]) => key === 't')?.[1];
+        this.checkTimestamp(timestamp, tolerance, now);
+        const expected = this.sign(
+          secret,
+          Buffer.concat([Buffer.from(`${timestamp}.`), body]),
+          'hex',
+        );
+        const valid = parts.some(
+          ([key, value]) =>
+            key === 'v1' && this.secretsMatch(value || '', expected),
+        );
+        if (!valid) {
+          throw new UnauthorizedException('Invalid webhook signature');
+        }
+        return;
+      }
+
+      case WebhookVerification.SLACK: {
+        const timestamp = headers['x-slack-request-timestamp'];
+        this.checkTimestamp(timestamp, tolerance, now);
+        this.checkSignature(
+          headers['x-slack-signature'],
+          'v0=',
+          this.sign(
+            secret,
+            Buffer.concat([Buffer.from(`v0:${timestamp}:`), body]),
+            'hex',
+          ),
+        );
+        return;
+      }
+
+      default:
+        throw new UnauthorizedException(
+          `Unknown webhook verification "${mode}"`,
+        );
+    }
+  }
+
+  /**
+   * Configuration errors that can be found without a request
+   */
+  validateConfig(config: WebhookVerificationConfig): void {
+    const modes = Object.values(WebhookVerification) as string[];
+    if (config.verification && !modes.includes(config.verification)) {
+      throw new Error(
+        `Unknown webhook verification "${config.verification}". Supported: ${modes.join(', ')}`,
+      );
+    }
+    const mode = this.getMode(config);
+    if (mode !== WebhookVerification.NONE && !config.secret) {
+      throw new Error(`Webhook verification "${mode}" requires a secret`);
+    }
+    if (
+      config.signatureEncoding &&
+      !['hex', 'base64'].includes(config.signatureEncoding)
+    ) {
+      throw new Error('Signature encoding must be hex or base64');
+    }
+    if (
+      config.timestampTolerance !== undefined &&
+      !(config.timestampTolerance > 0)
+    ) {
+      throw new Error(
+        'Timestamp tolerance must be a positive number of seconds',
+      );
+    }
+  }
+
+  /**
+   * Constant-time comparison; hashing first gives both sides the same length
+   */
+  secretsMatch(provided: string, expected: string): boolean {
+    return timingSafeEqual(
+      createHash('sha256').update(provided).digest(),
+      createHash('sha256').update(expected).digest(),
+    );
+  }
+
+  private sign(
+    secret: string,
+    content: Buffer,
+    encoding: 'hex' | 'base64',
+  ): string {
+    return createHmac('sha256', secret).update(content).digest(encoding);
+  }
+
+  private checkSignature(
+    header: string | undefined,
+    prefix: string,
+    expected: string,
+  ): void {
+    const valid =
+      !!header &&
+      header.startsWith(prefix) &&
+      this.secretsMatch(header.slice(prefix.length), expected);
+    if (!valid) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Reject requests signed too long ago (or in the future), so captured requests
+   * can't be replayed. Timestamps are Unix seconds; millisecond ones are accepted.
+   */
+  private checkTimestamp(
+    timestamp: string | undefined,
+    toleranceSeconds: number,
+    now: number,
+  ): void {
+    const value = Number(timestamp);
+    if (!timestamp || !Number.isFinite(value)) {
+      throw new UnauthorizedException('Missing webhook signature timestamp');
+    }
+    const seconds = value > 1e12 ? value / 1000 : value;
+    if (Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+      throw new UnauthorizedException(
+        'Webhook signature timestamp is outside the tolerance',
+      );
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as yaml from 'js-yaml';
+import { WorkflowDefinitionService } from './workflow-definition.service';
+import { WorkflowService } from '../workflow.service';
+
+describe('WorkflowDefinitionService', () => {
+  let service: WorkflowDefinitionService;
+  let workflowService: { findById: jest.Mock; create: jest.Mock };
+
+  const workflow = {
+    id: 4,
+    userId: 7,
+    name: 'Order alerts',
+    description: null,
+    trigger: {
+      type: 'webhook',
+      config: {
+        path: 'orders',
+        secret: 's3cret',
+        webhookId: 'webhook-4-1700000000000',
+        webhookUrl: '/api/triggers/webhook/webhook-4-1700000000000',
+      },
+      positionX: 0,
+      positionY: 0,
+    },
+    actions: [
+      {
+        id: 31,
+        type: 'parallel',
+        name: 'Fan out',
+        config: { actionIds: [32, 33] },
+        positionX: 100,
+        positionY: 0,
+        nextActionId: null,
+        parentActionId: null,
+        errorActionId: null,
+        retryConfig: null,
+        onError: 'fail',
+      },
+      {
+        id: 32,
+        type: 'http_request',
+        name: 'Notify API',
+        config: {
+          url: 'https://api.example.com/orders',
+          auth: { type: 'bearer', token: 'abc123' },
+          headers: { 'X-Api-Key': '{{trigger.apiKey}}' },
+        },
+        positionX: 200,
+        positionY: 0,
+        nextActionId: null,
+        parentActionId: 31,
+        errorActionId: null,
+        retryConfig: {
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 1000 },
+        },
+        onError: 'fail',
+      },
+      {
+        id: 33,
+        type: 'email',
+        name: 'Email team',
+        config: { to: 'team@example.com', subject: 'New order' },
+        positionX: 200,
+        positionY: 100,
+        nextActionId: null,
+        parentActionId: 31,
+        errorActionId: null,
+        retryConfig: null,
+        onError: 'continue',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowDefinitionService,
+        {
+          provide: WorkflowService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(workflow),
+            create: jest
+              .fn()
+              .mockImplementation((userId, dto) => ({ id: 9, ...dto })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WorkflowDefinitionService);
+    workflowService = module.get(WorkflowService);
+  });
+
+  describe('toDefinition', () => {
+    it('should refer to actions by order index and remove secrets and instance IDs', () => {
+      const definition = service.toDefinition(workflow);
+
+      expect(definition.formatVersion).toBe(1);
+      expect(definition.workflow.trigger).toEqual({
+        type: 'webhook',
+        config: { path: 'orders', secret: '' },
+        positionX: 0,
+        positionY: 0,
+      });
+      expect(definition.workflow.actions[0].config).toEqual({
+        actionIds: [1, 2],
+      });
+      expect(definition.workflow.actions[1]).toEqual({
+        type: 'http_request',
+        name: 'Notify API',
+        config: {
+          url: 'https://api.example.com/orders',
+          auth: { type: 'bearer', token: '' },
+          headers: { 'X-Api-Key': '{{trigger.apiKey}}' },
+        },
+        order: 1,
+        positionX: 200,
+        positionY: 0,
+        parentActionOrder: 0,
+        retryConfig: { type: 'exponential', delay: 1000 },
+        onError: 'fail',
+      });
+      expect(definition.strippedFields).toEqual([
+        'actions[1].config.auth.token',
+        'trigger.config.secret',
+      ]);
+    });
+  });
+
+  describe('workflow references', () => {
+    const subWorkflow = (index: number, workflowId: any) => ({
+      type: 'execute_workflow',
+      name: `Run sub-workflow ${index}`,
+      config: { workflowId, input: {} },
+      order: index,
+    });
+
+    it('should remove the IDs of other workflows on export', () => {
+      const definition = service.toDefinition({
+        ...workflow,
+        actions: [
+          { ...subWorkflow(0, 12), id: 40 },
+          { ...subWorkflow(1, '{{trigger.workflowId}}'), id: 41 },
+        ],
+      });
+
+      expect(
+        definition.workflow.actions.map((action) => action.config),
+      ).toEqual([
+        { input: {} },
+        { workflowId: '{{trigger.workflowId}}', input: {} },
+      ]);
+      expect(definition.strippedFields).toContain(
+        'actions[0].config.workflowId',
+      );
+    });
+
+    it('should remove the IDs of other workflows on import', async () => {
+      const content = JSON.stringify({
+        formatVersion: 1,
+        workflow: {
+          name: 'Parent',
+          trigger: { type: 'manual', config: {} },
+          actions: [subWorkflow(0, 12)],
+        },
+      });
+
+      const { warnings } = await service.import(8, content);
+
+      expect(workflowService.create.mock.calls[0][1].actions[0].config).toEqual(
+        { input: {} },
+      );
+      expect(warnings).toEqual([
+        'actions[0].config.workflowId referred to a workflow of the exporting account and was removed; set it before enabling',
+      ]);
+    });
+  });
+
+  describe('import', () => {
+    it('should create a disabled workflow from an exported YAML file', async () => {
+      const { content } = await service.export(4, 7, 'yaml');
+
+      const { warnings } = await service.import(8, content);
+
+      const [userId, dto] = workflowService.create.mock.calls[0];
+      expect(userId).toBe(8);
+      expect(dto.enabled).toBe(false);
+      expect(dto.name).toBe('Order alerts');
+      expect(dto.actions.map((action: any) => action.name)).toEqual([
+        'Fan out',
+        'Notify API',
+        'Email team',
+      ]);
+      expect(warnings).toEqual([
+        'actions[1].config.auth.token was removed on export; set it before enabling',
+        'trigger.config.secret was removed on export; set it before enabling',
+      ]);
+    });
+
+    it('should give a Gmail trigger to the importing user', async () => {
+      const content = JSON.stringify({
+        formatVersion: 1,
+        workflow: {
+          name: 'Inbox',
+          trigger: {
+            type: 'google-mail',
+            config: { userId: 7, watchChannelId: 'c-1', labelIds: ['INBOX'] },
+          },
+          actions: [],
+        },
+      });
+
+      await service.import(8, content);
+
+      expect(workflowService.create.mock.calls[0][1].trigger.config).toEqual({
+        userId: 8,
+        labelIds: ['INBOX'],
+      });
+    });
+
+    it('should reject definitions that are not valid workflows', async () => {
+      const content = yaml.dump({
+        formatVersion: 1,
+        workflow: {
+          name: 'Broken',
+          trigger: { type: 'manual', config: {} },
+          actions: [{ type: 'email', config: {}, order: 'first' }],
+        },
+      });
+
+      await expect(service.import(8, content)).rejects.toMatchObject({
+        response: {
+          message: 'Invalid workflow definition',
+          details: [
+            'workflow.actions.0.name: name must be a string',
+            'workflow.actions.0.order: order must be a number conforming to the specified constraints',
+          ],
+        },
+      });
+      expect(workflowService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported format versions', async () => {
+      await expect(
+        service.import(8, '{"formatVersion": 2, "workflow": {}}'),
+      ).rejects.toThrow(
+        'Unsupported workflow definition formatVersion 2; expected 1',
+      );
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import * as yaml from 'js-yaml';
+import { BadRequestException } from '../../common/exceptions/custom-exceptions';
+import { WorkflowService } from '../workflow.service';
+import { CreateWorkflowDto } from '../dto/create-workflow.dto';
+import {
+  ACTION_ID_CONFIG_KEYS,
+  INSTANCE_TRIGGER_CONFIG_KEYS,
+} from '../repositories/workflow-version.repository';
+import {
+  TriggerType,
+  WorkflowDefinition,
+  WorkflowDefinitionFormat,
+} from '../interfaces/workflow.interface';
+
+/**
+ * Current version of the workflow definition file format
+ */
+export const WORKFLOW_DEFINITION_FORMAT_VERSION = 1;
+
+/**
+ * Action config that points at another workflow of the exporting user; the ID means
+ * nothing (or someone else's workflow) once imported
+ */
+const WORKFLOW_REFERENCE_CONFIG_KEYS: Record<string, string[]> = {
+  execute_workflow: ['workflowId'],
+};
+
+const SECRET_KEY_PATTERN =
+  /secret|password|passwd|token|api[-_]?key|authorization|credential/i;
+
+/**
+ * Workflow Definition Service
+ * Exports workflows as versioned JSON / YAML definition files and creates workflows
+ * from them. Secrets are removed on export; IDs that only make sense for one user
+ * or one installed workflow are removed on export and import.
+ */
+@Injectable()
+export class WorkflowDefinitionService {
+  private readonly logger = new Logger(WorkflowDefinitionService.name);
+
+  constructor(private readonly workflowService: WorkflowService) {}
+
+  async export(
+    workflowId: number,
+    userId: number,
+    format: WorkflowDefinitionFormat = 'json',
+  ): Promise<{ filename: string; contentType: string; content: string }> {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const definition = this.toDefinition(workflow);
+    this.logger.log(
+      `Exporting workflow ${workflowId} as ${format} (${definition.strippedFields.length} fields removed)`,
+    );
+
+    const slug =
+      workflow.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || `workflow-${workflowId}`;
+    return format === 'yaml'
+      ? {
+          filename: `${slug}.workflow.yaml`,
+          contentType: 'application/yaml',
+          content: yaml.dump(definition, { noRefs: true, lineWidth: -1 }),
+        }
+      : {
+          filename: `${slug}.workflow.json`,
+          contentType: 'application/json',
+          content: JSON.stringify(definition, null, 2),
+        };
+  }
+
+  /**
+   * Create a workflow from a definition file. Imported workflows start disabled so
+   * removed secrets can be filled in before the trigger is registered.
+   */
+  async import(userId: number, content: string) {
+    return this.createWorkflow(userId, this.parse(content));
+  }
+
+  /**
+   * Validate a parsed definition and create a disabled workflow from it
+   */
+  async createWorkflow(userId: number, definition: WorkflowDefinition) {
+    const dto = await this.validateDefinition(definition);
+
+    const warnings = (definition.strippedFields ?? []).map(
+      (field) => `${field} was removed on export; set it before enabling`,
+    );
+    dto.actions.forEach((action, index) => {
+      const removed: string[] = [];
+      this.stripWorkflowReferences(
+        action.type,
+        action.config ?? {},
+        `actions[${index}].config`,
+        removed,
+      );
+      warnings.push(
+        ...removed.map(
+          (field) =>
+            `${field} referred to a workflow of the exporting account and was removed; set it before enabling`,
+        ),
+      );
+    });
+    const removed = this.stripInstanceConfig(
+      dto.trigger.type,
+      dto.trigger.config,
+    );
+    if (removed.length > 0) {
+      this.logger.debug(
+        `Removed instance trigger config on import: ${removed.join(', ')}`,
+      );
+    }
+    if (dto.trigger.type === TriggerType.GOOGLE_MAIL) {
+      dto.trigger.config.userId = userId;
+    }
+
+    const workflow = await this.workflowService.create(userId, {
+      ...dto,
+      enabled: false,
+    });
+    this.logger.log(
+      `Created workflow "${workflow.name}" (${workflow.id}) from a definition for user ${userId}`,
+    );
+    return { workflow, warnings };
+  }
+
+  /**
+   * Definition of a stored workflow; action IDs become order indices
+   */
+  toDefinition(workflow: {
+    name: string;
+    description?: string | null;
+    trigger?: {
+      type: string;
+      config: any;
+      positionX?: number | null;
+      positionY?: number | null;
+    } | null;
+    actions: {
+      id: number;
+      type: string;
+      name: string;
+      config: any;
+      positionX?: number | null;
+      positionY?: number | null;
+      nextActionId?: number | null;
+      parentActionId?: number | null;
+      errorActionId?: number | null;
+      retryConfig?: any;
+      onError?: string;
+    }[];
+  }): WorkflowDefinition & { strippedFields: string[] } {
+    const strippedFields: string[] = [];
+    const orderOf = new Map(
+      workflow.actions.map((action, index) => [action.id, index]),
+    );
+    const toOrder = (id: number | null | undefined) =>
+      id !== null && id !== undefined ? orderOf.get(id) : undefined;
+
+    const triggerType = (workflow.trigger?.type ??
+      TriggerType.MANUAL) as TriggerType;
+    const triggerConfig = { ...(workflow.trigger?.config ?? {}) };
+    this.stripInstanceConfig(triggerType, triggerConfig);
+
+    const actions = workflow.actions.map((action, index) => {
+      const config = { ...(action.config ?? {}) };
+      if (Array.isArray(config.actionIds)) {
+        config.actionIds = config.actionIds
+          .map((id: number) => orderOf.get(id))
+          .filter((order: number | undefined) => order !== undefined);
+      }
+      for (const key of ACTION_ID_CONFIG_KEYS) {
+        if (typeof config[key] === 'number' && orderOf.has(config[key])) {
+          config[key] = orderOf.get(config[key]);
+        }
+      }
+      this.stripWorkflowReferences(
+        action.type,
+        config,
+        `actions[${index}].config`,
+        strippedFields,
+      );
+
+      const backoff = action.retryConfig?.backoff;
+      return this.withoutUndefined({
+        type: action.type,
+        name: action.name,
+        config: this.stripSecrets(
+          config,
+          `actions[${index}].config`,
+          strippedFields,
+        ),
+        order: index,
+        positionX: action.positionX ?? undefined,
+        positionY: action.positionY ?? undefined,
+        nextActionOrder: toOrder(action.nextActionId),
+        parentActionOrder: toOrder(action.parentActionId),
+        retryConfig: backoff
+          ? { type: backoff.type, delay: backoff.delay }
+          : undefined,
+        onError: action.onError,
+        errorActionOrder: toOrder(action.errorActionId),
+      });
+    });
+
+    return {
+      formatVersion: WORKFLOW_DEFINITION_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      workflow: this.withoutUndefined({
+        name: workflow.name,
+        description: workflow.description ?? undefined,
+        trigger: this.withoutUndefined({
+          type: triggerType,
+          config: this.stripSecrets(
+            triggerConfig,
+            'trigger.config',
+            strippedFields,
+          ),
+          positionX: workflow.trigger?.positionX ?? undefined,
+          positionY: workflow.trigger?.positionY ?? undefined,
+        }),
+        actions,
+      }),
+      strippedFields,
+    };
+  }
+
+  /**
+   * Parse a JSON or YAML definition (YAML is a superset of JSON)
+   */
+  parse(content: string): WorkflowDefinition {
+    let parsed: any;
+    try {
+      parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA });
+    } catch (error: any) {
+      throw new BadRequestException(
+        `Workflow definition is not valid JSON or YAML: ${error.message}`,
+      );
+    }
+
+    if (!parsed || typeof parsed !== 'object' || !parsed.workflow) {
+      throw new BadRequestException(
+        'Workflow definition must have a "workflow" section',
+      );
+    }
+    if (parsed.formatVersion !== WORKFLOW_DEFINITION_FORMAT_VERSION) {
+      throw new BadRequestException(
+        `Unsupported workflow definition formatVersion ${parsed.formatVersion}; expected ${WORKFLOW_DEFINITION_FORMAT_VERSION}`,
+      );
+    }
+    return parsed as WorkflowDefinition;
+  }
+
+  /**
+   * Validate the workflow section like a create request (unknown action types are
+   * rejected by WorkflowService.create)
+   */
+  private async validateDefinition(
+    definition: WorkflowDefinition,
+  ): Promise<CreateWorkflowDto> {
+    const dto = plainToInstance(CreateWorkflowDto, definition.workflow);
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid workflow definition',
+        this.formatValidationErrors(errors),
+      );
+    }
+    return dto;
+  }
+
+  private formatValidationErrors(
+    errors: ValidationError[],
+    parent = 'workflow',
+  ): string[] {
+    return errors.flatMap((error) => {
+      const path = `${parent}.${error.property}`;
+      const constraints = Object.values(error.constraints ?? {});
+      return [
+        ...(constraints.length > 0
+          ? [`${path}: ${constraints.join(', ')}`]
+          : []),
+        ...this.formatValidationErrors(error.children ?? [], path),
+      ];
+    });
+  }
+
+  /**
+   * Remove trigger config tied to one installed workflow; returns the removed keys
+   */
+  private stripInstanceConfig(
+    type: TriggerType,
+    config: Record<string, any>,
+  ): string[] {
+    return (INSTANCE_TRIGGER_CONFIG_KEYS[type] ?? []).filter((key) => {
+      if (!(key in config)) return false;
+      delete config[key];
+      return true;
+    });
+  }
+
+  /**
+   * Remove IDs of other workflows from an action's config. Template expressions are
+   * kept, they pick the workflow at run time.
+   */
+  private stripWorkflowReferences(
+    type: string,
+    config: Record<string, any>,
+    path: string,
+    stripped: string[],
+  ): void {
+    for (const key of WORKFLOW_REFERENCE_CONFIG_KEYS[type] ?? []) {
+      const value = config[key];
+      if (
+        value === undefined ||
+        value === null ||
+        (typeof value === 'string' && value.includes('{{'))
+      ) {
+        continue;
+      }
+      delete config[key];
+      stripped.push(`${path}.${key}`);
+    }
+  }
+
+  /**
+   * Blank out values stored under secret-looking keys. Template expressions are kept,
+   * they reference data rather than containing it.
+   */
+  private stripSecrets(value: any, path: string, stripped: string[]): any {
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.stripSecrets(item, `${path}[${index}]`, stripped),
+      );
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = `${path}.${key}`;
+      const isTemplate = typeof item === 'string' && item.includes('{{');
+      if (
+        SECRET_KEY_PATTERN.test(key) &&
+        typeof item === 'string' &&
+        item !== '' &&
+        !isTemplate
+      ) {
+        result[key] = '';
+        stripped.push(itemPath);
+      } else {
+        result[key] = this.stripSecrets(item, itemPath, stripped);
+      }
+    }
+    return result;
+  }
+
+  private withoutUndefined<T extends Record<string, any>>(value: T): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, item]) => item !== undefined),
+    ) as T;
+  }
+}
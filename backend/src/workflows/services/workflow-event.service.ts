@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TriggerDedupe } from '../interfaces/workflow.interface';
 
 /**
  * Service for emitting workflow trigger events
- * All triggers should use this service to emit events that trigger workflow executions
+ * All triggers should use this service to emit events that trigger workflow executions.
+ * Execution failures are emitted here too, so the workflow's error workflow can be triggered.
  */
 @Injectable()
 export class WorkflowEventService {
@@ -13,9 +15,14 @@ export class WorkflowEventService {
 
   /**
    * Emit a workflow trigger event
-   * This event will be picked up by the workflow engine to start execution
+   * This event will be picked up by the workflow engine to start execution;
+   * events with a dedupe key start at most one execution per key
    */
-  emitWorkflowTrigger(workflowId: number, payload: Record<string, any>): void {
+  emitWorkflowTrigger(
+    workflowId: number,
+    payload: Record<string, any>,
+    dedupe?: TriggerDedupe,
+  ): void {
     this.logger.log(
       `Emitting workflow trigger event for workflow ${workflowId}`,
     );
@@ -24,6 +31,36 @@ export class WorkflowEventService {
     this.eventEmitter.emit('workflow.trigger', {
       workflowId,
       payload,
+      dedupe,
     });
   }
+
+  /**
+   * Emit a workflow trigger event and wait for the listener to start the execution,
+   * for triggers that follow it (e.g. webhooks answering with its result).
+   * Resolves to the execution ID (for a duplicate event: the original execution's),
+   * or null when no execution was started.
+   */
+  async triggerWorkflow(
+    workflowId: number,
+    payload: Record<string, any>,
+    dedupe?: TriggerDedupe,
+  ): Promise<number | null> {
+    this.logger.log(`Triggering workflow ${workflowId} and awaiting execution`);
+
+    const [executionId] = await this.eventEmitter.emitAsync(
+      'workflow.trigger',
+      { workflowId, payload, dedupe },
+    );
+    return executionId ?? null;
+  }
+
+  /**
+   * Emit an execution failed event (picked up by the error workflow listener)
+   */
+  emitExecutionFailed(executionId: number): void {
+    this.logger.debug(`Emitting execution failed event for ${executionId}`);
+
+    this.eventEmitter.emit('execution.failed', { executionId });
+  }
 }
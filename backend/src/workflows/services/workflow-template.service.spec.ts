@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkflowTemplateService } from './workflow-template.service';
+import { WorkflowDefinitionService } from './workflow-definition.service';
+import { WorkflowService } from '../workflow.service';
+import { WorkflowTemplateRepository } from '../repositories/workflow-template.repository';
+import { BUILT_IN_TEMPLATES } from '../templates/built-in.templates';
+
+describe('WorkflowTemplateService', () => {
+  let service: WorkflowTemplateService;
+  let templateRepository: {
+    findById: jest.Mock;
+    delete: jest.Mock;
+  };
+  let definitionService: { createWorkflow: jest.Mock };
+
+  const healthCheck = BUILT_IN_TEMPLATES.find(
+    (template) => template.key === 'daily-health-check',
+  )!;
+
+  const builtInTemplate = {
+    id: 1,
+    key: healthCheck.key,
+    userId: null,
+    name: healthCheck.name,
+    parameters: healthCheck.parameters,
+    definition: healthCheck.definition,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowTemplateService,
+        {
+          provide: WorkflowTemplateRepository,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(builtInTemplate),
+            delete: jest.fn(),
+            upsertBuiltIn: jest.fn(),
+          },
+        },
+        { provide: WorkflowService, useValue: { findById: jest.fn() } },
+        {
+          provide: WorkflowDefinitionService,
+          useValue: {
+            createWorkflow: jest
+              .fn()
+              .mockResolvedValue({ workflow: { id: 5 }, warnings: [] }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WorkflowTemplateService);
+    templateRepository = module.get(WorkflowTemplateRepository);
+    definitionService = module.get(WorkflowDefinitionService);
+  });
+
+  describe('instantiate', () => {
+    it('should fill placeholders and apply parameter defaults', async () => {
+      await service.instantiate(1, 7, {
+        name: 'Shop health',
+        parameters: {
+          url: 'https://shop.example.com/health',
+          alertEmail: 'ops@example.com',
+        },
+      });
+
+      const [userId, definition] =
+        definitionService.createWorkflow.mock.calls[0];
+      expect(userId).toBe(7);
+      expect(definition.workflow.name).toBe('Shop health');
+      expect(definition.workflow.description).toBe(
+        'Checks https://shop.example.com/health on schedule 0 9 * * *',
+      );
+      expect(definition.workflow.trigger.config).toEqual({
+        cron: '0 9 * * *',
+      });
+      expect(definition.workflow.actions[1].config).toEqual({
+        to: 'ops@example.com',
+        subject: 'Health check failed for https://shop.example.com/health',
+        body: 'The health check failed: {{error.message}}',
+      });
+    });
+
+    it('should reject missing and invalid parameters', async () => {
+      await expect(
+        service.instantiate(1, 7, { parameters: { url: 'not a url' } }),
+      ).rejects.toMatchObject({
+        response: {
+          message: 'Invalid template parameters',
+          details: [
+            'URL to check must be an http(s) URL',
+            'Alert email is required',
+          ],
+        },
+      });
+      expect(definitionService.createWorkflow).not.toHaveBeenCalled();
+    });
+
+    it("should not expose another user's template", async () => {
+      templateRepository.findById.mockResolvedValue({
+        ...builtInTemplate,
+        userId: 3,
+      });
+
+      await expect(service.instantiate(1, 7, {})).rejects.toThrow(
+        'Template with ID 1 not found',
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse to delete built-in templates', async () => {
+      await expect(service.delete(1, 7)).rejects.toThrow(
+        'Built-in templates cannot be deleted',
+      );
+      expect(templateRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '../../common/exceptions/custom-exceptions';
+import { WorkflowService } from '../workflow.service';
+import { WorkflowDefinitionService } from './workflow-definition.service';
+import { WorkflowTemplateRepository } from '../repositories/workflow-template.repository';
+import { BUILT_IN_TEMPLATES } from '../templates/built-in.templates';
+import {
+  TemplateParameter,
+  WorkflowDefinition,
+} from '../interfaces/workflow.interface';
+
+const PLACEHOLDER_PATTERN = /\[\[\s*(\w+)\s*\]\]/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\[\[\s*(\w+)\s*\]\]$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Workflow Template Service
+ * Catalogue of workflow templates: built-in templates (seeded on startup) and
+ * templates users save from their own workflows. Instantiating a template fills in
+ * its [[placeholders]] and creates a disabled workflow from its definition.
+ */
+@Injectable()
+export class WorkflowTemplateService implements OnModuleInit {
+  private readonly logger = new Logger(WorkflowTemplateService.name);
+
+  constructor(
+    private readonly templateRepository: WorkflowTemplateRepository,
+    private readonly workflowService: WorkflowService,
+    private readonly definitionService: WorkflowDefinitionService,
+  ) {}
+
+  onModuleInit() {
+    // Non-blocking so the app starts even if the database isn't ready yet
+    this.seedBuiltInTemplates().catch((error: any) => {
+      this.logger.warn(
+        `⚠️ Failed to seed built-in templates: ${error.message}`,
+      );
+    });
+  }
+
+  async seedBuiltInTemplates(): Promise<void> {
+    for (const template of BUILT_IN_TEMPLATES) {
+      await this.templateRepository.upsertBuiltIn({
+        key: template.key,
+        name: template.name,
+        description: template.description,
+        category: template.category,
+        definition: template.definition as unknown as Prisma.InputJsonValue,
+        parameters: template.parameters as unknown as Prisma.InputJsonValue,
+      });
+    }
+    this.logger.log(`Seeded ${BUILT_IN_TEMPLATES.length} built-in templates`);
+  }
+
+  async findAll(userId: number, category?: string) {
+    return this.templateRepository.findAvailable(userId, category);
+  }
+
+  async findById(id: number, userId: number) {
+    const template = await this.templateRepository.findById(id);
+    if (!template || (template.userId !== null && template.userId !== userId)) {
+      throw new NotFoundException('Template', id);
+    }
+    return template;
+  }
+
+  /**
+   * Save one of the user's workflows as a template (secrets are removed)
+   */
+  async createFromWorkflow(
+    userId: number,
+    workflowId: number,
+    data: { name?: string; description?: string; category?: string },
+  ) {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const { strippedFields, ...definition } =
+      this.definitionService.toDefinition(workflow);
+
+    const template = await this.templateRepository.create({
+      userId,
+      name: data.name || workflow.name,
+      description: data.description ?? workflow.description ?? undefined,
+      category: data.category,
+      definition: {
+        ...definition,
+        strippedFields,
+      } as unknown as Prisma.InputJsonValue,
+    });
+    this.logger.log(
+      `Saved workflow ${workflowId} as template ${template.id} for user ${userId}`,
+    );
+    return template;
+  }
+
+  async delete(id: number, userId: number): Promise<void> {
+    const template = await this.findById(id, userId);
+    if (template.userId === null) {
+      throw new ForbiddenException('Built-in templates cannot be deleted');
+    }
+    await this.templateRepository.delete(id);
+  }
+
+  /**
+   * Create a workflow from a template with the given parameter values
+   */
+  async instantiate(
+    id: number,
+    userId: number,
+    data: { name?: string; parameters?: Record<string, string | number> },
+  ) {
+    const template = await this.findById(id, userId);
+    const parameters = template.parameters as unknown as TemplateParameter[];
+    const values = this.resolveParameters(parameters, data.parameters ?? {});
+
+    const definition = template.definition as unknown as WorkflowDefinition;
+    const workflow = this.fillPlaceholders(definition.workflow, values);
+    if (data.name) {
+      workflow.name = data.name;
+    }
+
+    this.logger.log(
+      `Instantiating template ${id} ("${template.name}") for user ${userId}`,
+    );
+    return this.definitionService.createWorkflow(userId, {
+      ...definition,
+      workflow,
+    });
+  }
+
+  /**
+   * Apply defaults and check the given values against the template's parameters
+   */
+  private resolveParameters(
+    parameters: TemplateParameter[],
+    given: Record<string, string | number>,
+  ): Record<string, string | number> {
+    const values: Record<string, string | number> = {};
+    const errors: string[] = [];
+
+    for (const parameter of parameters) {
+      const value = given[parameter.key] ?? parameter.default;
+      if (value === undefined || value === '') {
+        if (parameter.required !== false) {
+          errors.push(`${parameter.label} is required`);
+        }
+        values[parameter.key] = '';
+        continue;
+      }
+
+      if (parameter.type === 'number' && Number.isNaN(Number(value))) {
+        errors.push(`${parameter.label} must be a number`);
+      } else if (
+        parameter.type === 'email' &&
+        !EMAIL_PATTERN.test(String(value))
+      ) {
+        errors.push(`${parameter.label} must be an email address`);
+      } else if (parameter.type === 'url' && !this.isUrl(String(value))) {
+        errors.push(`${parameter.label} must be an http(s) URL`);
+      }
+      values[parameter.key] =
+        parameter.type === 'number' ? Number(value) : value;
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException('Invalid template parameters', errors);
+    }
+    return values;
+  }
+
+  private isUrl(value: string): boolean {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Replace [[key]] placeholders; a string that is only a placeholder takes the
+   * value as is, so numbers stay numbers
+   */
+  private fillPlaceholders<T>(value: T, values: Record<string, any>): T {
+    if (typeof value === 'string') {
+      const single = value.match(SINGLE_PLACEHOLDER_PATTERN);
+      if (single && single[1] in values) {
+        return values[single[1]];
+      }
+      return value.replace(PLACEHOLDER_PATTERN, (match, key) =>
+        key in values ? String(values[key]) : match,
+      ) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.fillPlaceholders(item, values)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.fillPlaceholders(item, values),
+        ]),
+      ) as T;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkflowValidationService } from './workflow-validation.service';
+import { ActionRegistry } from '../actions/action.registry';
+import { CreateActionDto } from '../dto/create-workflow.dto';
+import { BUILT_IN_TEMPLATES } from '../templates/built-in.templates';
+
+describe('WorkflowValidationService', () => {
+  let service: WorkflowValidationService;
+
+  const handlers: Record<string, { validateConfig?: jest.Mock }> = {
+    http_request: {
+      validateConfig: jest.fn((config: Record<string, any>) => {
+        if (!config.url) {
+          throw new Error('HTTP action requires a url');
+        }
+        return true;
+      }),
+    },
+    email: {},
+    conditional: {},
+    loop: {},
+    parallel: {},
+  };
+
+  const action = (
+    order: number,
+    overrides: Partial<CreateActionDto> = {},
+  ): CreateActionDto => ({
+    type: 'email',
+    name: `Step ${order}`,
+    config: {},
+    order,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowValidationService,
+        {
+          provide: ActionRegistry,
+          useValue: {
+            getHandler: jest.fn((type: string) => handlers[type]),
+            getRegisteredTypes: jest.fn(() => Object.keys(handlers)),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WorkflowValidationService);
+  });
+
+  it('should accept a sequential workflow', () => {
+    expect(
+      service.validate([
+        action(0, {
+          type: 'http_request',
+          name: 'Fetch order',
+          config: { url: 'https://api.example.com/orders/{{trigger.id}}' },
+        }),
+        action(1, {
+          config: { body: '{{steps.Fetch order.output.total | default:0}}' },
+        }),
+      ]),
+    ).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should report unknown types, invalid configs and dangling references per action', () => {
+    const result = service.validate([
+      action(0, { type: 'conditional', config: { trueActionId: 7 } }),
+      action(1, { type: 'http_request', config: {} }),
+      action(2, { type: 'sms' }),
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid_config',
+        message:
+          'Invalid config for action "Step 1": HTTP action requires a url',
+        actionOrder: 1,
+        field: 'config',
+      },
+      expect.objectContaining({
+        code: 'unknown_action_type',
+        actionOrder: 2,
+      }),
+      {
+        severity: 'error',
+        code: 'dangling_reference',
+        message:
+          'Action "Step 0": true branch points to action 7, which does not exist',
+        actionOrder: 0,
+        field: 'config.trueActionId',
+      },
+    ]);
+  });
+
+  it('should report cycles through next actions and branches', () => {
+    const result = service.validate([
+      action(0, { nextActionOrder: 1 }),
+      action(1, {
+        type: 'conditional',
+        config: { condition: 'true', trueActionId: 2 },
+      }),
+      action(2, { nextActionOrder: 1 }),
+    ]);
+
+    expect(result.errors).toEqual([
+      {
+        severity: 'error',
+        code: 'cycle',
+        message: 'Actions "Step 1" → "Step 2" → "Step 1" form a cycle',
+        actionOrder: 2,
+        field: 'nextActionOrder',
+      },
+    ]);
+  });
+
+  it('should warn about actions the trigger never reaches', () => {
+    const result = service.validate([
+      action(0, {
+        type: 'conditional',
+        config: { condition: 'true', trueActionId: 1 },
+      }),
+      action(1, { nextActionOrder: 3 }),
+      action(2),
+      action(3),
+    ]);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        severity: 'warning',
+        code: 'unreachable_action',
+        message:
+          'Action "Step 2" is not reachable from the trigger and will never run',
+        actionOrder: 2,
+      },
+    ]);
+  });
+
+  it('should check step references in templates', () => {
+    const result = service.validate([
+      action(0, { name: 'Fetch order' }),
+      action(1, {
+        config: {
+          to: "{{steps['Fetch order'].output.email}}",
+          body: ['{{steps.Fetch orders.output}}', '{{steps.12.output}}'],
+          subject: '{{trigger.steps.first}}',
+        },
+      }),
+    ]);
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'unknown_step_reference',
+        message:
+          'Action "Step 1" refers to unknown step "Fetch orders" in config.body[0]',
+        actionOrder: 1,
+      }),
+    ]);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: 'unknown_step_reference',
+        field: 'config.body[1]',
+      }),
+    ]);
+  });
+
+  it('should accept every built-in template', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      const result = service.validate(
+        template.definition.workflow.actions as CreateActionDto[],
+      );
+      expect({ template: template.key, errors: result.errors }).toEqual({
+        template: template.key,
+        errors: [],
+      });
+    }
+  });
+});
@@ -0,0 +1,368 @@
+import { Injectable } from '@nestjs/common';
+import { ActionRegistry } from '../actions/action.registry';
+import { CreateActionDto } from '../dto/create-workflow.dto';
+import {
+  ActionErrorPolicy,
+  WorkflowValidationIssue,
+  WorkflowValidationResult,
+} from '../interfaces/workflow.interface';
+
+/**
+ * An edge of the action graph, by order index
+ */
+interface GraphEdge {
+  to: number;
+  field: string;
+}
+
+/**
+ * Matches every {{ ... }} placeholder in a string
+ */
+const PLACEHOLDER_PATTERN = /\{\{((?:(?!\{\{|\}\}).)+)\}\}/gs;
+
+/**
+ * Matches the start of a `steps` reference inside an expression: steps. followed by
+ * a name or ID, steps['Fetch order'] or steps[12] (but not trigger.steps)
+ */
+const STEP_REFERENCE_PATTERN =
+  /(?<![\w.$\]])steps(?:\.|\[\s*(?:(['"])(.*?)\1|(\d+))\s*\])/g;
+
+/**
+ * Workflow Validation Service
+ * Checks a workflow's actions before they are saved, the way WorkflowService wires
+ * them: actions refer to each other by order index (nextActionOrder, errorActionOrder,
+ * and trueActionId / falseActionId / loopActionId / actionIds in their configs).
+ *
+ * Errors (unknown action types, invalid configs, dangling references, cycles, no
+ * entry action, templates referring to unknown steps) block saving; warnings
+ * (unreachable actions, templates referring to steps by ID) don't.
+ */
+@Injectable()
+export class WorkflowValidationService {
+  constructor(private readonly actionRegistry: ActionRegistry) {}
+
+  validate(actions: CreateActionDto[]): WorkflowValidationResult {
+    const issues: WorkflowValidationIssue[] = [];
+
+    actions.forEach((action, index) => {
+      issues.push(...this.validateAction(action, index));
+      issues.push(...this.validateTemplates(actions, action, index));
+    });
+
+    const edges = actions.map((action, index) =>
+      this.collectEdges(actions, action, index, issues),
+    );
+    issues.push(...this.findCycles(actions, edges));
+    issues.push(...this.findUnreachable(actions, edges));
+
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    const warnings = issues.filter((issue) => issue.severity === 'warning');
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * The action type must be registered and its handler must accept the config
+   */
+  private validateAction(
+    action: CreateActionDto,
+    index: number,
+  ): WorkflowValidationIssue[] {
+    const handler = this.actionRegistry.getHandler(action.type);
+    if (!handler) {
+      return [
+        {
+          severity: 'error',
+          code: 'unknown_action_type',
+          message: `Action type "${action.type}" is not registered. Available types: ${this.actionRegistry.getRegisteredTypes().join(', ')}`,
+          actionOrder: index,
+          field: 'type',
+        },
+      ];
+    }
+
+    try {
+      handler.validateConfig?.(action.config || {});
+      return [];
+    } catch (error: any) {
+      return [
+        {
+          severity: 'error',
+          code: 'invalid_config',
+          message: `Invalid config for action "${action.name}": ${error.message}`,
+          actionOrder: index,
+          field: 'config',
+        },
+      ];
+    }
+  }
+
+  /**
+   * The edges WorkflowService.create wires for an action, reporting references to
+   * actions that don't exist. Without nextActionOrder a plain action continues with
+   * the next one in order.
+   */
+  private collectEdges(
+    actions: CreateActionDto[],
+    action: CreateActionDto,
+    index: number,
+    issues: WorkflowValidationIssue[],
+  ): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    const config = action.config || {};
+
+    const reference = (value: unknown, field: string, label: string) => {
+      if (value === undefined || value === null) {
+        return;
+      }
+      if (typeof value === 'number' && actions[value]) {
+        edges.push({ to: value, field });
+        return;
+      }
+      issues.push({
+        severity: 'error',
+        code: 'dangling_reference',
+        message: `Action "${action.name}": ${label} points to action ${JSON.stringify(value)}, which does not exist`,
+        actionOrder: index,
+        field,
+      });
+    };
+
+    if (action.nextActionOrder !== undefined) {
+      reference(action.nextActionOrder, 'nextActionOrder', 'next action');
+    } else if (
+      index < actions.length - 1 &&
+      !['parallel', 'conditional', 'loop'].includes(action.type) &&
+      !config.actionIds &&
+      !config.loopActionId &&
+      !config.trueActionId &&
+      !config.falseActionId &&
+      action.parentActionOrder === undefined
+    ) {
+      edges.push({ to: index + 1, field: 'nextActionOrder' });
+    }
+
+    if (
+      action.parentActionOrder !== undefined &&
+      !actions[action.parentActionOrder]
+    ) {
+      reference(action.parentActionOrder, 'parentActionOrder', 'parent');
+    }
+
+    if (action.type === 'conditional') {
+      reference(config.trueActionId, 'config.trueActionId', 'true branch');
+      reference(config.falseActionId, 'config.falseActionId', 'false branch');
+    }
+    if (action.type === 'loop') {
+      reference(config.loopActionId, 'config.loopActionId', 'loop body');
+    }
+    if (action.type === 'parallel' && Array.isArray(config.actionIds)) {
+      for (const childOrder of config.actionIds) {
+        reference(childOrder, 'config.actionIds', 'parallel branch');
+      }
+    }
+
+    if (action.onError === ActionErrorPolicy.BRANCH) {
+      const errorActionOrder = action.errorActionOrder;
+      if (
+        errorActionOrder === undefined ||
+        errorActionOrder === index ||
+        !actions[errorActionOrder]
+      ) {
+        issues.push({
+          severity: 'error',
+          code: 'missing_error_handler',
+          message: `Action "${action.name}" branches on error but has no valid error-handler action`,
+          actionOrder: index,
+          field: 'errorActionOrder',
+        });
+      } else {
+        edges.push({ to: errorActionOrder, field: 'errorActionOrder' });
+      }
+    }
+
+    return edges;
+  }
+
+  /**
+   * Cycles through any kind of edge never finish; each is reported once, on the
+   * action where the cycle closes
+   */
+  private findCycles(
+    actions: CreateActionDto[],
+    edges: GraphEdge[][],
+  ): WorkflowValidationIssue[] {
+    const issues: WorkflowValidationIssue[] = [];
+    const state = new Array<'visiting' | 'done' | undefined>(actions.length);
+    const path: number[] = [];
+
+    const visit = (index: number) => {
+      state[index] = 'visiting';
+      path.push(index);
+      for (const edge of edges[index]) {
+        if (state[edge.to] === 'visiting') {
+          const cycle = [...path.slice(path.indexOf(edge.to)), edge.to];
+          issues.push({
+            severity: 'error',
+            code: 'cycle',
+            message: `Actions ${cycle.map((i) => `"${actions[i].name}"`).join(' → ')} form a cycle`,
+            actionOrder: index,
+            field: edge.field,
+          });
+        } else if (state[edge.to] === undefined) {
+          visit(edge.to);
+        }
+      }
+      path.pop();
+      state[index] = 'done';
+    };
+
+    actions.forEach((_, index) => {
+      if (state[index] === undefined) {
+        visit(index);
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Executions start at the action with order 0 that no action continues with;
+   * actions it can't lead to never run
+   */
+  private findUnreachable(
+    actions: CreateActionDto[],
+    edges: GraphEdge[][],
+  ): WorkflowValidationIssue[] {
+    if (actions.length === 0) {
+      return [];
+    }
+
+    const nextTargets = new Set(
+      edges.flatMap((actionEdges) =>
+        actionEdges
+          .filter((edge) => edge.field === 'nextActionOrder')
+          .map((edge) => edge.to),
+      ),
+    );
+    const roots = actions
+      .map((action, index) => index)
+      .filter((index) => actions[index].order === 0 && !nextTargets.has(index));
+    if (roots.length === 0) {
+      return [
+        {
+          severity: 'error',
+          code: 'no_entry_action',
+          message:
+            'The workflow has no entry action: one action must have order 0 and not be the next action of another',
+        },
+      ];
+    }
+
+    const reached = new Set<number>(roots);
+    const queue = [...roots];
+    while (queue.length > 0) {
+      for (const edge of edges[queue.shift()!]) {
+        if (!reached.has(edge.to)) {
+          reached.add(edge.to);
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    return actions
+      .map((action, index) => ({ action, index }))
+      .filter(({ index }) => !reached.has(index))
+      .map(({ action, index }) => ({
+        severity: 'warning' as const,
+        code: 'unreachable_action' as const,
+        message: `Action "${action.name}" is not reachable from the trigger and will never run`,
+        actionOrder: index,
+      }));
+  }
+
+  /**
+   * Templates must refer to steps of this workflow by name; IDs change on every save
+   */
+  private validateTemplates(
+    actions: CreateActionDto[],
+    action: CreateActionDto,
+    index: number,
+  ): WorkflowValidationIssue[] {
+    const issues: WorkflowValidationIssue[] = [];
+    // Longest first, so "Fetch order items" wins over "Fetch order"
+    const names = actions
+      .map((a) => a.name)
+      .sort((a, b) => b.length - a.length);
+
+    const check = (value: unknown, field: string) => {
+      if (typeof value === 'string') {
+        for (const [, expression] of value.matchAll(PLACEHOLDER_PATTERN)) {
+          for (const reference of this.stepReferences(expression, names)) {
+            issues.push(
+              this.stepReferenceIssue(action, index, field, reference),
+            );
+          }
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item, i) => check(item, `${field}[${i}]`));
+      } else if (value && typeof value === 'object') {
+        for (const [key, item] of Object.entries(value)) {
+          check(item, `${field}.${key}`);
+        }
+      }
+    };
+    check(action.config, 'config');
+    return issues;
+  }
+
+  /**
+   * The step references in an expression that don't name an action
+   */
+  private stepReferences(expression: string, names: string[]): string[] {
+    const unknown: string[] = [];
+    for (const match of expression.matchAll(STEP_REFERENCE_PATTERN)) {
+      const [reference, , quoted, numeric] = match;
+      if (quoted !== undefined || numeric !== undefined) {
+        if (numeric !== undefined || !names.includes(quoted)) {
+          unknown.push(numeric ?? quoted);
+        }
+        continue;
+      }
+
+      // Dot notation: names may contain spaces, so match known names as prefixes
+      const rest = expression.slice(match.index + reference.length);
+      const known = names.some(
+        (name) =>
+          rest.startsWith(name) &&
+          (rest.length === name.length || /[.[\s|]/.test(rest[name.length])),
+      );
+      if (!known) {
+        unknown.push(rest.split(/[.[|]/)[0].trim());
+      }
+    }
+    return unknown;
+  }
+
+  private stepReferenceIssue(
+    action: CreateActionDto,
+    index: number,
+    field: string,
+    reference: string,
+  ): WorkflowValidationIssue {
+    if (/^\d+$/.test(reference)) {
+      return {
+        severity: 'warning',
+        code: 'unknown_step_reference',
+        message: `Action "${action.name}" refers to step ${reference} by ID in ${field}; action IDs change when the workflow is saved, so refer to the step by name`,
+        actionOrder: index,
+        field,
+      };
+    }
+    return {
+      severity: 'error',
+      code: 'unknown_step_reference',
+      message: `Action "${action.name}" refers to unknown step "${reference}" in ${field}`,
+      actionOrder: index,
+      field,
+    };
+  }
+}
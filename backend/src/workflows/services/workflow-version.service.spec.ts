@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkflowVersionService } from './workflow-version.service';
+import { WorkflowService } from '../workflow.service';
+import { WorkflowVersionRepository } from '../repositories/workflow-version.repository';
+import { TriggerRegistry } from '../triggers/trigger.registry';
+
+describe('WorkflowVersionService', () => {
+  let service: WorkflowVersionService;
+  let workflowService: { findById: jest.Mock };
+  let versionRepository: {
+    findByWorkflowId: jest.Mock;
+    findByVersion: jest.Mock;
+    publish: jest.Mock;
+    rollback: jest.Mock;
+  };
+  let triggerRegistry: { register: jest.Mock; unregister: jest.Mock };
+
+  const action = (overrides: Record<string, any>) => ({
+    type: 'http_request',
+    order: 0,
+    config: {},
+    nextActionId: null,
+    parentActionId: null,
+    errorActionId: null,
+    onError: 'fail',
+    retryConfig: null,
+    positionX: 0,
+    positionY: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowVersionService,
+        {
+          provide: WorkflowService,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: WorkflowVersionRepository,
+          useValue: {
+            findByWorkflowId: jest.fn(),
+            findByVersion: jest.fn(),
+            publish: jest.fn(),
+            rollback: jest.fn(),
+          },
+        },
+        {
+          provide: TriggerRegistry,
+          useValue: { register: jest.fn(), unregister: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WorkflowVersionService);
+    workflowService = module.get(WorkflowService);
+    versionRepository = module.get(WorkflowVersionRepository);
+    triggerRegistry = module.get(TriggerRegistry);
+  });
+
+  describe('publish', () => {
+    it('should publish the draft as the next version', async () => {
+      workflowService.findById.mockResolvedValue({
+        id: 1,
+        actions: [action({ id: 1, name: 'Fetch' })],
+        publishedVersionId: null,
+        hasUnpublishedChanges: true,
+      });
+      versionRepository.publish.mockResolvedValue({ id: 5, version: 1 });
+      versionRepository.findByVersion.mockResolvedValue({ id: 5, version: 1 });
+
+      const version = await service.publish(1, 7, 'First release');
+
+      expect(versionRepository.publish).toHaveBeenCalledWith(
+        1,
+        'First release',
+      );
+      expect(version).toEqual({ id: 5, version: 1, published: false });
+    });
+
+    it('should register the published trigger in place of the live one', async () => {
+      const schedule = { type: 'schedule', config: { cron: '0 * * * *' } };
+      const webhook = { type: 'webhook', config: {} };
+      workflowService.findById.mockResolvedValue({
+        id: 1,
+        enabled: true,
+        actions: [action({ id: 1, name: 'Fetch' })],
+        trigger: webhook,
+        publishedVersionId: 5,
+        publishedVersion: { trigger: schedule },
+        hasUnpublishedChanges: true,
+      });
+      versionRepository.publish.mockResolvedValue({
+        id: 6,
+        version: 2,
+        trigger: webhook,
+      });
+      versionRepository.findByVersion.mockResolvedValue({ id: 6, version: 2 });
+
+      await service.publish(1, 7);
+
+      expect(triggerRegistry.unregister).toHaveBeenCalledWith(1);
+      expect(triggerRegistry.register).toHaveBeenCalledWith(1, 'webhook', {});
+
+      // Unchanged trigger: nothing to re-register
+      triggerRegistry.register.mockClear();
+      versionRepository.publish.mockResolvedValue({
+        id: 7,
+        version: 3,
+        trigger: schedule,
+      });
+      await service.publish(1, 7);
+      expect(triggerRegistry.register).not.toHaveBeenCalled();
+    });
+
+    it('should reject publishing when nothing changed since the last version', async () => {
+      workflowService.findById.mockResolvedValue({
+        id: 1,
+        actions: [action({ id: 1, name: 'Fetch' })],
+        publishedVersionId: 5,
+        hasUnpublishedChanges: false,
+      });
+
+      await expect(service.publish(1, 7)).rejects.toThrow(
+        'Workflow 1 has no unpublished changes',
+      );
+      expect(versionRepository.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rollback', () => {
+    it('should register the restored trigger of an enabled workflow', async () => {
+      workflowService.findById.mockResolvedValue({
+        id: 1,
+        enabled: true,
+        publishedVersionId: 6,
+        publishedVersion: {
+          trigger: { type: 'schedule', config: { cron: '0 * * * *' } },
+        },
+        trigger: { type: 'schedule', config: { cron: '0 * * * *' } },
+      });
+      versionRepository.findByVersion.mockResolvedValue({
+        id: 5,
+        version: 1,
+        trigger: { type: 'webhook', config: {} },
+      });
+
+      await service.rollback(1, 7, 1);
+
+      expect(versionRepository.rollback).toHaveBeenCalledWith(1, 5);
+      expect(triggerRegistry.unregister).toHaveBeenCalledWith(1);
+      expect(triggerRegistry.register).toHaveBeenCalledWith(1, 'webhook', {});
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare actions by order and ignore their IDs', async () => {
+      workflowService.findById.mockResolvedValue({ id: 1 });
+      versionRepository.findByVersion
+        .mockResolvedValueOnce({
+          id: 5,
+          version: 1,
+          name: 'Sync',
+          description: null,
+          trigger: { type: 'manual', config: {} },
+          actions: [
+            action({ id: 10, name: 'Fetch', nextActionId: 11 }),
+            action({ id: 11, name: 'Notify', type: 'email', order: 1 }),
+            action({ id: 12, name: 'Log', order: 2 }),
+            action({ id: 13, name: 'Log', order: 3 }),
+          ],
+        })
+        .mockResolvedValueOnce({
+          id: 6,
+          version: 2,
+          name: 'Sync',
+          description: null,
+          trigger: { type: 'webhook', config: {} },
+          actions: [
+            action({
+              id: 20,
+              name: 'Fetch',
+              nextActionId: 21,
+              positionX: 300,
+            }),
+            action({
+              id: 21,
+              name: 'Notify',
+              type: 'email',
+              order: 1,
+              config: { to: 'ops@example.com' },
+            }),
+            action({ id: 22, name: 'Log', order: 2 }),
+            action({ id: 23, name: 'Log', order: 3, onError: 'continue' }),
+            action({ id: 24, name: 'Archive', order: 4 }),
+          ],
+        });
+
+      const diff = await service.diff(1, 7, 1, 2);
+
+      expect(diff).toEqual({
+        from: 1,
+        to: 2,
+        changes: [
+          {
+            field: 'trigger',
+            from: { type: 'manual', config: {} },
+            to: { type: 'webhook', config: {} },
+          },
+        ],
+        actions: {
+          added: [{ order: 4, name: 'Archive' }],
+          removed: [],
+          changed: [
+            {
+              order: 1,
+              name: 'Notify',
+              changes: [
+                {
+                  field: 'config',
+                  from: {},
+                  to: { to: 'ops@example.com' },
+                },
+              ],
+            },
+            {
+              order: 3,
+              name: 'Log',
+              changes: [{ field: 'onError', from: 'fail', to: 'continue' }],
+            },
+          ],
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { isDeepStrictEqual } from 'util';
+import {
+  NotFoundException,
+  BadRequestException,
+} from '../../common/exceptions/custom-exceptions';
+import { WorkflowService } from '../workflow.service';
+import {
+  ACTION_ID_CONFIG_KEYS,
+  WorkflowVersionRepository,
+} from '../repositories/workflow-version.repository';
+import { TriggerRegistry } from '../triggers/trigger.registry';
+import {
+  TriggerType,
+  VersionFieldChange,
+  WorkflowVersionDiff,
+} from '../interfaces/workflow.interface';
+
+/**
+ * Workflow Version Service
+ * Publishes the draft of a workflow as an immutable version, lists and compares
+ * versions, and rolls back to an earlier version.
+ * Executions run the published version, so editing the draft never changes
+ * running or past executions.
+ */
+@Injectable()
+export class WorkflowVersionService {
+  private readonly logger = new Logger(WorkflowVersionService.name);
+
+  constructor(
+    private readonly workflowService: WorkflowService,
+    private readonly versionRepository: WorkflowVersionRepository,
+    private readonly triggerRegistry: TriggerRegistry,
+  ) {}
+
+  async publish(workflowId: number, userId: number, note?: string) {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    if (workflow.actions.length === 0) {
+      throw new BadRequestException('A workflow needs actions to be published');
+    }
+    if (workflow.publishedVersionId && !workflow.hasUnpublishedChanges) {
+      throw new BadRequestException(
+        `Workflow ${workflowId} has no unpublished changes`,
+      );
+    }
+
+    const version = await this.versionRepository.publish(workflowId, note);
+    this.logger.log(
+      `Published workflow ${workflowId} as version ${version.version}`,
+    );
+
+    // Trigger edits in the draft take effect once published
+    await this.activateTrigger(workflow, version.trigger);
+
+    return this.findVersion(workflowId, userId, version.version);
+  }
+
+  async findVersions(workflowId: number, userId: number) {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const versions = await this.versionRepository.findByWorkflowId(workflowId);
+    return versions.map((version) => ({
+      ...version,
+      published: version.id === workflow.publishedVersionId,
+    }));
+  }
+
+  async findVersion(workflowId: number, userId: number, version: number) {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const found = await this.versionRepository.findByVersion(
+      workflowId,
+      version,
+    );
+    if (!found) {
+      throw new NotFoundException(`Version ${version} of workflow`, workflowId);
+    }
+    return { ...found, published: found.id === workflow.publishedVersionId };
+  }
+
+  /**
+   * Publish an earlier version again and reset the draft to it
+   */
+  async rollback(workflowId: number, userId: number, version: number) {
+    const workflow = await this.workflowService.findById(workflowId, userId);
+    const target = await this.findVersion(workflowId, userId, version);
+
+    await this.versionRepository.rollback(workflowId, target.id);
+    this.logger.log(`Rolled back workflow ${workflowId} to version ${version}`);
+
+    // The restored trigger takes effect right away
+    await this.activateTrigger(workflow, target.trigger);
+
+    return this.workflowService.findById(workflowId, userId);
+  }
+
+  async diff(
+    workflowId: number,
+    userId: number,
+    from: number,
+    to: number,
+  ): Promise<WorkflowVersionDiff> {
+    const [before, after] = await Promise.all([
+      this.findVersion(workflowId, userId, from),
+      this.findVersion(workflowId, userId, to),
+    ]);
+
+    const changes: VersionFieldChange[] = [];
+    for (const field of ['name', 'description', 'trigger'] as const) {
+      if (!isDeepStrictEqual(before[field], after[field])) {
+        changes.push({ field, from: before[field], to: after[field] });
+      }
+    }
+
+    const beforeActions = this.describeActions(before.actions);
+    const afterActions = this.describeActions(after.actions);
+    const diff: WorkflowVersionDiff = {
+      from,
+      to,
+      changes,
+      actions: { added: [], removed: [], changed: [] },
+    };
+
+    for (const [order, action] of afterActions) {
+      const previous = beforeActions.get(order);
+      if (!previous) {
+        diff.actions.added.push({ order, name: action.name });
+        continue;
+      }
+      const actionChanges = Object.keys(action)
+        .filter((field) => !isDeepStrictEqual(previous[field], action[field]))
+        .map((field) => ({
+          field,
+          from: previous[field],
+          to: action[field],
+        }));
+      if (actionChanges.length > 0) {
+        diff.actions.changed.push({
+          order,
+          name: action.name,
+          changes: actionChanges,
+        });
+      }
+    }
+    for (const [order, action] of beforeActions) {
+      if (!afterActions.has(order)) {
+        diff.actions.removed.push({ order, name: action.name });
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Register a trigger of an enabled workflow in place of the one currently live
+   * (the published version's, or the draft's before the first publish)
+   */
+  private async activateTrigger(
+    workflow: {
+      id: number;
+      enabled: boolean;
+      trigger: { type: string; config: unknown } | null;
+      publishedVersion: { trigger: unknown } | null;
+    },
+    value: unknown,
+  ): Promise<void> {
+    const trigger = value as {
+      type: TriggerType;
+      config: Record<string, any>;
+    } | null;
+    const live = workflow.publishedVersion
+      ? workflow.publishedVersion.trigger
+      : { type: workflow.trigger?.type, config: workflow.trigger?.config };
+    if (!workflow.enabled || !trigger || isDeepStrictEqual(live, trigger)) {
+      return;
+    }
+
+    await this.triggerRegistry.unregister(workflow.id);
+    await this.triggerRegistry.register(
+      workflow.id,
+      trigger.type,
+      trigger.config,
+    );
+  }
+
+  /**
+   * Comparable description of each action, keyed by order. Copies of an action have
+   * different IDs in every version, so references to other actions use their order.
+   */
+  private describeActions(
+    actions: {
+      id: number;
+      name: string;
+      type: string;
+      order: number;
+      config: any;
+      nextActionId: number | null;
+      parentActionId: number | null;
+      errorActionId: number | null;
+      onError: string;
+      retryConfig: any;
+    }[],
+  ): Map<number, Record<string, any>> {
+    const orders = new Map(actions.map((action) => [action.id, action.order]));
+    const orderOf = (id: number | null) =>
+      id !== null ? (orders.get(id) ?? null) : null;
+
+    return new Map(
+      actions.map((action) => {
+        const config = { ...(action.config ?? {}) };
+        if (Array.isArray(config.actionIds)) {
+          config.actionIds = config.actionIds.map(
+            (id: number) => orders.get(id) ?? id,
+          );
+        }
+        for (const key of ACTION_ID_CONFIG_KEYS) {
+          if (typeof config[key] === 'number' && orders.has(config[key])) {
+            config[key] = orders.get(config[key]);
+          }
+        }
+
+        return [
+          action.order,
+          {
+            name: action.name,
+            type: action.type,
+            config,
+            nextAction: orderOf(action.nextActionId),
+            parentAction: orderOf(action.parentActionId),
+            onError: action.onError,
+            errorAction: orderOf(action.errorActionId),
+            retryConfig: action.retryConfig ?? null,
+          },
+        ];
+      }),
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  TemplateParameter,
+  TriggerType,
+  WorkflowDefinition,
+} from '../interfaces/workflow.interface';
+
+export interface BuiltInTemplate {
+  key: string; // Stable identifier; the template is updated in place when it changes
+  name: string;
+  description: string;
+  category: string;
+  parameters: TemplateParameter[];
+  definition: WorkflowDefinition;
+}
+
+/**
+ * Templates available to every user, seeded into the database on startup
+ */
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    key: 'gmail-to-webhook',
+    name: 'Gmail → HTTP webhook',
+    description:
+      'Forward every new email in a Gmail label to an HTTP endpoint as JSON.',
+    category: 'Email',
+    parameters: [
+      {
+        key: 'webhookUrl',
+        label: 'Webhook URL',
+        description: 'Endpoint that receives a POST for each new email',
+        type: 'url',
+      },
+      {
+        key: 'label',
+        label: 'Gmail label',
+        default: 'INBOX',
+      },
+    ],
+    definition: {
+      formatVersion: 1,
+      workflow: {
+        name: 'Forward Gmail to webhook',
+        description: 'Posts each new email in [[label]] to [[webhookUrl]]',
+        trigger: {
+          type: TriggerType.GOOGLE_MAIL,
+          config: { labelIds: ['[[label]]'] },
+          positionX: 100,
+          positionY: 100,
+        },
+        actions: [
+          {
+            type: 'http_request',
+            name: 'Post to webhook',
+            config: {
+              method: 'POST',
+              url: '[[webhookUrl]]',
+              headers: { 'Content-Type': 'application/json' },
+              body: {
+                messageId: '{{trigger.messageId}}',
+                threadId: '{{trigger.threadId}}',
+                snippet: '{{trigger.snippet}}',
+              },
+            },
+            order: 0,
+            positionX: 100,
+            positionY: 250,
+            retryConfig: { type: 'exponential', delay: 1000 },
+          },
+        ],
+      },
+    },
+  },
+  {
+    key: 'daily-health-check',
+    name: 'Daily health check with email alert',
+    description:
+      'Call a URL every day and send an email when the request fails.',
+    category: 'Monitoring',
+    parameters: [
+      {
+        key: 'url',
+        label: 'URL to check',
+        type: 'url',
+      },
+      {
+        key: 'cron',
+        label: 'Schedule (cron)',
+        description: 'When to run the check, e.g. "0 9 * * *" for 9:00 daily',
+        default: '0 9 * * *',
+      },
+      {
+        key: 'alertEmail',
+        label: 'Alert email',
+        description: 'Who is emailed when the check fails',
+        type: 'email',
+      },
+    ],
+    definition: {
+      formatVersion: 1,
+      workflow: {
+        name: 'Daily health check',
+        description: 'Checks [[url]] on schedule [[cron]]',
+        trigger: {
+          type: TriggerType.SCHEDULE,
+          config: { cron: '[[cron]]' },
+          positionX: 100,
+          positionY: 100,
+        },
+        actions: [
+          {
+            type: 'http_request',
+            name: 'Health check',
+            config: { method: 'GET', url: '[[url]]', timeout: 10000 },
+            order: 0,
+            positionX: 100,
+            positionY: 250,
+            retryConfig: { type: 'fixed', delay: 5000 },
+            onError: 'branch',
+            errorActionOrder: 1,
+          },
+          {
+            type: 'email',
+            name: 'Email on failure',
+            config: {
+              to: '[[alertEmail]]',
+              subject: 'Health check failed for [[url]]',
+              body: 'The health check failed: {{error.message}}',
+            },
+            order: 1,
+            positionX: 350,
+            positionY: 250,
+          },
+        ],
+      },
+    },
+  },
+  {
+    key: 'webhook-to-http',
+    name: 'Webhook → HTTP request',
+    description:
+      'Receive a webhook and pass its payload on to another HTTP API.',
+    category: 'Integrations',
+    parameters: [
+      {
+        key: 'path',
+        label: 'Webhook path',
+        default: 'incoming',
+      },
+      {
+        key: 'targetUrl',
+        label: 'Target URL',
+        type: 'url',
+      },
+    ],
+    definition: {
+      formatVersion: 1,
+      workflow: {
+        name: 'Relay webhook',
+        trigger: {
+          type: TriggerType.WEBHOOK,
+          config: { path: '[[path]]' },
+          positionX: 100,
+          positionY: 100,
+        },
+        actions: [
+          {
+            type: 'http_request',
+            name: 'Relay payload',
+            config: {
+              method: 'POST',
+              url: '[[targetUrl]]',
+              body: '{{trigger}}',
+            },
+            order: 0,
+            positionX: 100,
+            positionY: 250,
+          },
+        ],
+      },
+    },
+  },
+];
@@ -5,6 +5,7 @@ import { PrismaService } from '../../database/prisma.service';
 import { ConfigService } from '@nestjs/config';
 import { WorkflowEventService } from '../services/workflow-event.service';
 import { GmailService } from '../services/gmail.service';
+import { GmailFilterService } from '../services/gmail-filter.service';
 import { PubSubService } from '../services/pubsub.service';
 import { OAuthService } from '../../oauth/oauth.service';
 import { GoogleOAuthService } from '../../auth/services/google-oauth.service';
@@ -17,6 +18,14 @@ jest.mock('../../queues/gmail-event.queue', () => ({
   },
 }));
 
+jest.mock('../../queues/gmail-poll.queue', () => ({
+  gmailPollQueue: {
+    upsertJobScheduler: jest.fn().mockResolvedValue({}),
+    removeJobScheduler: jest.fn().mockResolvedValue(false),
+  },
+  gmailPollSchedulerId: (workflowId: number) => `gmail-poll-${workflowId}`,
+}));
+
 describe('GoogleMailTriggerHandler', () => {
   let handler: GoogleMailTriggerHandler;
   let prismaService: jest.Mocked<PrismaService>;
@@ -29,6 +38,9 @@ describe('GoogleMailTriggerHandler', () => {
       oAuthAccount: {
         findFirst: jest.fn() as jest.MockedFunction<any>,
       },
+      workflow: {
+        findMany: jest.fn() as jest.MockedFunction<any>,
+      },
       trigger: {
         update: jest.fn() as jest.MockedFunction<any>,
         findUnique: jest.fn() as jest.MockedFunction<any>,
@@ -105,6 +117,7 @@ describe('GoogleMailTriggerHandler', () => {
           provide: GoogleOAuthService,
           useValue: mockGoogleOAuthService,
         },
+        GmailFilterService,
       ],
     }).compile();
 
@@ -146,6 +159,12 @@ describe('GoogleMailTriggerHandler', () => {
       const result = await handler.validate(config);
       expect(result).toBe(false);
     });
+
+    it('should return false if a filter is invalid', async () => {
+      const config = { userId: 1, subjectRegex: '(invoice' };
+      const result = await handler.validate(config);
+      expect(result).toBe(false);
+    });
   });
 
   describe('register', () => {
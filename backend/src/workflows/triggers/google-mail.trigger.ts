@@ -1,22 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../database/prisma.service';
-import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
+import {
+  GmailTriggerEvent,
+  GmailTriggerMode,
+  ITriggerHandler,
+  JsonSchema,
+  TriggerType,
+} from '../interfaces/workflow.interface';
 import { WorkflowEventService } from '../services/workflow-event.service';
 import { GmailService } from '../services/gmail.service';
+import { GmailFilterService } from '../services/gmail-filter.service';
 import { PubSubService } from '../services/pubsub.service';
 import {
   gmailEventQueue,
   GmailEventJobData,
 } from '../../queues/gmail-event.queue';
+import {
+  gmailPollQueue,
+  gmailPollSchedulerId,
+} from '../../queues/gmail-poll.queue';
 import { OAuthService } from '../../oauth/oauth.service';
 import { GoogleOAuthService } from '../../auth/services/google-oauth.service';
+import { resolveLiveTrigger } from '../repositories/workflow-version.repository';
 
 /**
  * Google Mail (Gmail) trigger handler
  * Uses Gmail API with OAuth2 credentials
- * Creates Gmail watch using users.watch API
- * Handles Pub/Sub notifications to trigger workflows
+ * Push mode: creates Gmail watch using users.watch API and handles Pub/Sub
+ * notifications to trigger workflows
+ * Poll mode: a repeatable job fetches the Gmail history on an interval, for
+ * environments without Pub/Sub or a public endpoint
  */
 @Injectable()
 export class GoogleMailTriggerHandler implements ITriggerHandler {
@@ -28,6 +42,130 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
 
   readonly type: TriggerType = TriggerType.GOOGLE_MAIL;
   readonly name = 'Google-Mail Trigger';
+  readonly description =
+    'Run the workflow when an email arrives in the connected Gmail account';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    required: ['userId'],
+    properties: {
+      userId: {
+        type: 'integer',
+        description: 'Owner of the connected Google account',
+        readOnly: true,
+      },
+      mode: {
+        type: 'string',
+        title: 'Mode',
+        description:
+          'push: Gmail notifies through Pub/Sub (needs a public endpoint); poll: check Gmail on an interval',
+        enum: Object.values(GmailTriggerMode),
+        default: GmailTriggerMode.PUSH,
+      },
+      pollInterval: {
+        type: 'integer',
+        title: 'Poll interval (seconds)',
+        description: 'Poll mode only',
+        minimum: 10,
+        default: 60,
+      },
+      labelIds: {
+        type: 'array',
+        title: 'Gmail labels',
+        description:
+          'Labels to watch, e.g. INBOX, IMPORTANT or a custom label (case-sensitive)',
+        items: { type: 'string' },
+        default: ['INBOX'],
+      },
+      events: {
+        type: 'array',
+        title: 'Events',
+        description:
+          'Run when a message arrives in a watched label, or when a watched label is added to or removed from a message',
+        items: { type: 'string', enum: Object.values(GmailTriggerEvent) },
+        default: [GmailTriggerEvent.MESSAGE_ADDED],
+      },
+      from: {
+        type: 'string',
+        title: 'From',
+        description:
+          'Comma-separated sender patterns: part of the address or name, a glob like *@example.com or a /regex/',
+        examples: ['billing@example.com, *@invoices.example.com'],
+      },
+      to: {
+        type: 'string',
+        title: 'To',
+        description:
+          'Comma-separated recipient patterns, matched against To and Cc',
+        examples: ['accounts@example.com'],
+      },
+      subjectContains: {
+        type: 'string',
+        title: 'Subject contains',
+        description: 'Case-insensitive',
+        examples: ['invoice'],
+      },
+      subjectRegex: {
+        type: 'string',
+        title: 'Subject matches',
+        description: 'Case-insensitive regular expression, without slashes',
+        examples: ['^(Invoice|Receipt) #\\d+'],
+      },
+      query: {
+        type: 'string',
+        title: 'Gmail search query',
+        description: 'Only messages this Gmail search finds',
+        examples: ['has:attachment filename:pdf -category:promotions'],
+      },
+      hasAttachment: {
+        type: 'boolean',
+        title: 'Attachments',
+        description:
+          'Set: only messages with (checked) or without (unchecked) attachments. Leave unset for any message.',
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      triggerType: { type: 'string', enum: [TriggerType.GOOGLE_MAIL] },
+      messageId: { type: 'string' },
+      threadId: { type: 'string' },
+      labelIds: { type: 'array', items: { type: 'string' } },
+      snippet: { type: 'string' },
+      historyId: { type: 'string' },
+      sender: { type: 'string' },
+      subject: { type: 'string' },
+      date: { type: 'string' },
+      to: { type: 'string' },
+      from: { type: 'string' },
+      cc: { type: 'string' },
+      event: { type: 'string', enum: Object.values(GmailTriggerEvent) },
+      changedLabelIds: { type: 'array', items: { type: 'string' } },
+      headers: {
+        type: 'object',
+        description: 'Message headers by lower-cased name',
+      },
+      body: {
+        type: 'object',
+        properties: { text: { type: 'string' }, html: { type: 'string' } },
+      },
+      attachments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            filename: { type: 'string' },
+            mimeType: { type: 'string' },
+            size: { type: 'integer' },
+            attachmentId: { type: 'string' },
+          },
+        },
+      },
+      messageContent: { type: 'object' },
+    },
+  };
 
   constructor(
     private readonly prisma: PrismaService,
@@ -37,6 +175,7 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
     private readonly pubSubService?: PubSubService,
     private readonly oauthService?: OAuthService,
     private readonly googleOAuthService?: GoogleOAuthService,
+    private readonly gmailFilterService?: GmailFilterService,
   ) {}
 
   async validate(config: Record<string, any>): Promise<boolean> {
@@ -49,6 +188,32 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
       );
       return false;
     }
+    if (
+      config.mode !== undefined &&
+      !Object.values(GmailTriggerMode).includes(config.mode)
+    ) {
+      this.logger.warn(
+        `Google Mail trigger validation failed: unknown mode "${config.mode}"`,
+      );
+      return false;
+    }
+    if (
+      config.pollInterval !== undefined &&
+      !(Number.isInteger(config.pollInterval) && config.pollInterval >= 10)
+    ) {
+      this.logger.warn(
+        'Google Mail trigger validation failed: pollInterval must be an integer of at least 10 seconds',
+      );
+      return false;
+    }
+    try {
+      this.gmailFilterService?.validateFilters(config);
+    } catch (error: any) {
+      this.logger.warn(
+        `Google Mail trigger validation failed: ${error.message}`,
+      );
+      return false;
+    }
     return true;
   }
 
@@ -161,6 +326,12 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
       );
     }
 
+    if (config.mode === GmailTriggerMode.POLL) {
+      await this.registerPolling(workflowId, config, accessToken);
+      return;
+    }
+    await this.stopPolling(workflowId);
+
     // Generate unique channel ID for this workflow
     const channelId = `${workflowId}-${Date.now()}`;
 
@@ -276,9 +447,96 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
     }
   }
 
+  /**
+   * Schedule the poll job of a trigger in poll mode. Polling continues from the
+   * stored history ID, so re-registering (e.g. by the health check) loses nothing.
+   */
+  private async registerPolling(
+    workflowId: number,
+    config: Record<string, any>,
+    accessToken: string,
+  ): Promise<void> {
+    const pollInterval = config.pollInterval || 60;
+
+    try {
+      const historyId =
+        config.watchHistoryId ||
+        config.historyId ||
+        (await this.gmailService.getProfile(accessToken)).historyId;
+
+      await gmailPollQueue.upsertJobScheduler(
+        gmailPollSchedulerId(workflowId),
+        { every: pollInterval * 1000 },
+        { name: 'gmail-poll', data: { workflowId } },
+      );
+
+      await this.prisma.trigger.update({
+        where: { workflowId },
+        data: {
+          config: {
+            ...config,
+            pollInterval,
+            watchHistoryId: historyId,
+            historyId,
+            // Drop the metadata of a previous watch; there is none to renew
+            watchChannelId: undefined,
+            watchExpiration: undefined,
+            topicName: undefined,
+            pubsubEndpoint: undefined,
+          },
+        },
+      });
+
+      this.logger.log(
+        `Gmail trigger registered in poll mode for workflow ${workflowId}, every ${pollInterval}s from historyId ${historyId}`,
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to schedule Gmail polling for workflow ${workflowId}`,
+        error.message,
+      );
+      throw new Error(`Failed to register Gmail trigger: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove the poll job of a workflow, if it has one
+   */
+  private async stopPolling(workflowId: number): Promise<void> {
+    try {
+      if (
+        await gmailPollQueue.removeJobScheduler(
+          gmailPollSchedulerId(workflowId),
+        )
+      ) {
+        this.logger.log(`Gmail polling stopped for workflow ${workflowId}`);
+      }
+    } catch (error: any) {
+      this.logger.warn(
+        `Failed to stop Gmail polling for workflow ${workflowId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Check Gmail for new messages of a trigger in poll mode (called by the poll
+   * worker). Messages are queued like push notifications, so they go through the
+   * same filters.
+   */
+  async poll(workflowId: number): Promise<void> {
+    await this.processGmailNotificationForWorkflow(
+      workflowId,
+      `poll-${workflowId}`,
+      {},
+      GmailTriggerMode.POLL,
+    );
+  }
+
   async unregister(workflowId: number): Promise<void> {
     this.logger.log(`Unregistering Gmail trigger for workflow ${workflowId}`);
 
+    await this.stopPolling(workflowId);
+
     const watchInfo = this.watchedWorkflows.get(workflowId);
     if (!watchInfo) {
       this.logger.warn(`No watch info found for workflow ${workflowId}`);
@@ -549,6 +807,7 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
     workflowId: number,
     channelId: string,
     _payload: any,
+    mode: GmailTriggerMode = GmailTriggerMode.PUSH,
   ): Promise<void> {
     this.logger.log(
       `[GmailTrigger] Processing Gmail notification for workflow ${workflowId}`,
@@ -557,7 +816,11 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
     // Get trigger and workflow to fetch new messages
     const trigger = await this.prisma.trigger.findUnique({
       where: { workflowId },
-      include: { workflow: true },
+      include: {
+        workflow: {
+          include: { publishedVersion: { select: { trigger: true } } },
+        },
+      },
     });
 
     if (!trigger || !trigger.workflow.enabled) {
@@ -567,6 +830,22 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
       return;
     }
 
+    // Settings take effect on publish, like the rest of the workflow
+    const liveConfig = resolveLiveTrigger(
+      trigger,
+      trigger.workflow.publishedVersion?.trigger,
+    ).config;
+
+    // Push notifications cover every Gmail workflow of the user, including those
+    // that poll
+    const triggerMode = liveConfig.mode || GmailTriggerMode.PUSH;
+    if (triggerMode !== mode) {
+      this.logger.debug(
+        `[GmailTrigger] Workflow ${workflowId} is in ${triggerMode} mode, ignoring ${mode} check`,
+      );
+      return;
+    }
+
     try {
       // Get OAuth tokens
       const oauthAccount = await this.prisma.oAuthAccount.findFirst({
@@ -654,6 +933,7 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
       const messages = await this.gmailService.fetchNewMessages(
         accessToken,
         historyId,
+        liveConfig.events,
       );
 
       this.logger.log(
@@ -672,6 +952,8 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
           snippet: message.snippet,
           historyId: message.historyId,
           channelId,
+          event: message.event,
+          changedLabelIds: message.changedLabelIds,
         });
       }
 
@@ -716,9 +998,12 @@ export class GoogleMailTriggerHandler implements ITriggerHandler {
           receivedAt: new Date().toISOString(),
         },
         {
-          jobId: `gmail-${data.workflowId}-${data.messageId}-${Date.now()}`,
+          // Redelivered notifications of the same change map to the same job
+          // while it is queued; finished jobs are removed so a failed change can
+          // be queued again (the trigger's dedupe key covers completed ones)
+          jobId: `gmail-${data.workflowId}-${data.messageId}-${data.event || GmailTriggerEvent.MESSAGE_ADDED}-${data.historyId}`,
           removeOnComplete: true,
-          removeOnFail: false,
+          removeOnFail: true,
         },
       );
 
@@ -1,5 +1,9 @@
 import { Injectable } from '@nestjs/common';
-import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
+import {
+  ITriggerHandler,
+  JsonSchema,
+  TriggerType,
+} from '../interfaces/workflow.interface';
 
 /**
  * Manual trigger handler
@@ -9,6 +13,14 @@ import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
 export class ManualTriggerHandler implements ITriggerHandler {
   readonly type: TriggerType = TriggerType.MANUAL;
   readonly name = 'Manual Trigger';
+  readonly description = 'Run the workflow from the app or the API';
+
+  readonly configSchema: JsonSchema = { type: 'object', properties: {} };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    description: 'The trigger data given when the workflow is run',
+  };
 
   async validate(_config: Record<string, any>): Promise<boolean> {
     // Manual triggers don't require any configuration
@@ -7,7 +7,11 @@ import {
 } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { PrismaService } from '../../database/prisma.service';
-import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
+import {
+  ITriggerHandler,
+  JsonSchema,
+  TriggerType,
+} from '../interfaces/workflow.interface';
 import { WorkflowEventService } from '../services/workflow-event.service';
 import * as cron from 'node-cron';
 
@@ -23,6 +27,54 @@ export class ScheduleTriggerHandler
   private readonly logger = new Logger(ScheduleTriggerHandler.name);
   readonly type: TriggerType = TriggerType.SCHEDULE;
   readonly name = 'Schedule Trigger';
+  readonly description =
+    'Run the workflow on a CRON schedule or at a fixed interval';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      cron: {
+        type: 'string',
+        title: 'CRON expression',
+        description:
+          'e.g. "0 * * * *" for hourly, "0 0 * * *" for daily; takes precedence over the interval',
+        examples: ['0 * * * *'],
+      },
+      interval: {
+        type: 'integer',
+        title: 'Interval (seconds)',
+        description: 'Fixed interval in seconds (e.g. 3600 for hourly)',
+        minimum: 1,
+      },
+      timezone: {
+        type: 'string',
+        title: 'Timezone',
+        description: 'Timezone for the CRON schedule (e.g. "America/New_York")',
+        default: 'UTC',
+      },
+      runImmediately: {
+        type: 'boolean',
+        title: 'Run immediately on schedule creation',
+        description: 'Interval schedules only',
+        default: true,
+      },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      triggerType: { type: 'string', enum: [TriggerType.SCHEDULE] },
+      schedule: {
+        type: 'object',
+        properties: {
+          cron: { type: 'string' },
+          interval: { type: 'integer' },
+        },
+      },
+      timestamp: { type: 'string', format: 'date-time' },
+    },
+  };
 
   private scheduledJobs: Map<number, cron.ScheduledTask> = new Map();
   private scheduleQueue: Queue | null = null;
@@ -1,5 +1,9 @@
 import { Injectable } from '@nestjs/common';
-import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
+import {
+  ITriggerHandler,
+  TriggerType,
+  TriggerTypeDescriptor,
+} from '../interfaces/workflow.interface';
 
 /**
  * Registry for trigger handlers
@@ -23,6 +27,19 @@ export class TriggerRegistry {
     return this.handlers.get(type);
   }
 
+  /**
+   * Describe every registered trigger type, with its config and trigger data schemas
+   */
+  describe(): TriggerTypeDescriptor[] {
+    return Array.from(this.handlers.values()).map((handler) => ({
+      type: handler.type,
+      name: handler.name,
+      description: handler.description ?? '',
+      configSchema: handler.configSchema ?? { type: 'object', properties: {} },
+      outputSchema: handler.outputSchema ?? { type: 'object' },
+    }));
+  }
+
   /**
    * Register a workflow trigger (set up webhook, subscribe to events, etc.)
    */
@@ -1,13 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { createHmac } from 'crypto';
 import { WebhookTriggerHandler } from './webhook.trigger';
 import { PrismaService } from '../../database/prisma.service';
 import { WorkflowEventService } from '../services/workflow-event.service';
-import { TriggerType } from '../interfaces/workflow.interface';
+import { WebhookSignatureService } from '../services/webhook-signature.service';
+import { WebhookResponseService } from '../services/webhook-response.service';
+import { TriggerType, WebhookResponseMode } from '../interfaces/workflow.interface';
 
 describe('WebhookTriggerHandler', () => {
   let handler: WebhookTriggerHandler;
   let prismaService: jest.Mocked<PrismaService>;
   let workflowEventService: jest.Mocked<WorkflowEventService>;
+  let webhookResponseService: { waitForResponse: jest.Mock };
 
   beforeEach(async () => {
     const mockPrismaService = {
@@ -24,11 +28,18 @@ describe('WebhookTriggerHandler', () => {
 
     const mockWorkflowEventService = {
       emitWorkflowTrigger: jest.fn(),
+      triggerWorkflow: jest.fn(),
     };
+    webhookResponseService = { waitForResponse: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         WebhookTriggerHandler,
+        WebhookSignatureService,
+        {
+          provide: WebhookResponseService,
+          useValue: webhookResponseService,
+        },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -65,10 +76,10 @@ describe('WebhookTriggerHandler', () => {
       expect(result).toBe(true);
     });
 
-    it('should return false if path is not provided', async () => {
+    it('should return true if path is not provided', async () => {
       const config = {};
       const result = await handler.validate(config);
-      expect(result).toBe(false);
+      expect(result).toBe(true);
     });
 
     it('should return false if path is not a string', async () => {
@@ -153,6 +164,37 @@ describe('WebhookTriggerHandler', () => {
           webhookId,
           payload,
         }),
+        undefined,
+      );
+    });
+
+    it('should pass the Idempotency-Key header as the dedupe key', async () => {
+      const webhookId = 'webhook-1';
+      const payload = { event: { id: 'evt_1' } };
+
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        {
+          workflowId: 1,
+          config: { webhookId, idempotencyKeyField: 'event.id' },
+        },
+      ] as any);
+
+      await handler.handleWebhookRequest(webhookId, payload, {
+        'idempotency-key': 'req-42',
+      });
+      await handler.handleWebhookRequest(webhookId, payload, {});
+
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenNthCalledWith(
+        1,
+        1,
+        expect.anything(),
+        { key: 'webhook:req-42', ttlSeconds: undefined },
+      );
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenNthCalledWith(
+        2,
+        1,
+        expect.anything(),
+        { key: 'webhook:evt_1', ttlSeconds: undefined },
       );
     });
 
@@ -180,6 +222,150 @@ describe('WebhookTriggerHandler', () => {
       ).rejects.toThrow('Invalid webhook secret');
     });
 
+    it('should verify with the published secret, not a draft edit', async () => {
+      const webhookId = 'webhook-1';
+
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        {
+          workflowId: 1,
+          type: TriggerType.WEBHOOK,
+          config: { webhookId, secret: 'draft-secret' },
+          workflow: {
+            publishedVersion: {
+              trigger: {
+                type: TriggerType.WEBHOOK,
+                config: { secret: 'published-secret' },
+              },
+            },
+          },
+        },
+      ] as any);
+
+      await expect(
+        handler.handleWebhookRequest(webhookId, {}, { 'x-webhook-secret': 'draft-secret' }),
+      ).rejects.toThrow('Invalid webhook secret');
+      await handler.handleWebhookRequest(webhookId, {}, {
+        'x-webhook-secret': 'published-secret',
+      });
+
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ webhookId }),
+        undefined,
+      );
+    });
+
+    it('should not pass the shared secret on to the workflow', async () => {
+      const webhookId = 'webhook-1';
+
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        { workflowId: 1, config: { webhookId, secret: 'correct-secret' } },
+      ] as any);
+
+      await handler.handleWebhookRequest(
+        webhookId,
+        { data: 'test' },
+        { 'x-webhook-secret': 'correct-secret', 'content-type': 'application/json' },
+      );
+
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          headers: { 'content-type': 'application/json' },
+        }),
+        undefined,
+      );
+    });
+
+    it('should verify signatures against the raw body', async () => {
+      const webhookId = 'webhook-1';
+      const rawBody = Buffer.from('{"action":"opened"}');
+      const signature = `sha256=${createHmac('sha256', 'gh-secret').update(rawBody).digest('hex')}`;
+
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        {
+          workflowId: 1,
+          config: { webhookId, verification: 'github', secret: 'gh-secret' },
+        },
+      ] as any);
+
+      await handler.handleWebhookRequest(
+        webhookId,
+        { action: 'opened' },
+        { 'x-hub-signature-256': signature },
+        rawBody,
+      );
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalledTimes(1);
+
+      await expect(
+        handler.handleWebhookRequest(
+          webhookId,
+          { action: 'opened' },
+          { 'x-hub-signature-256': signature },
+          Buffer.from('{"action":"closed"}'),
+        ),
+      ).rejects.toThrow('Invalid webhook signature');
+      expect(workflowEventService.emitWorkflowTrigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('should acknowledge requests right away by default', async () => {
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        { workflowId: 1, config: { webhookId: 'webhook-1' } },
+      ] as any);
+
+      await expect(
+        handler.handleWebhookRequest('webhook-1', {}, {}),
+      ).resolves.toEqual({
+        statusCode: 200,
+        body: { success: true, message: 'Webhook processed successfully' },
+      });
+      expect(workflowEventService.triggerWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should answer with the response of the execution', async () => {
+      const response = { statusCode: 201, headers: {}, body: { id: 7 } };
+
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        {
+          workflowId: 1,
+          config: {
+            webhookId: 'webhook-1',
+            responseMode: WebhookResponseMode.RESPOND_NODE,
+            responseTimeout: 10,
+          },
+        },
+      ] as any);
+      (workflowEventService.triggerWorkflow as jest.Mock).mockResolvedValue(42);
+      webhookResponseService.waitForResponse.mockResolvedValue(response);
+
+      await expect(
+        handler.handleWebhookRequest('webhook-1', { name: 'Ada' }, {}),
+      ).resolves.toBe(response);
+      expect(workflowEventService.emitWorkflowTrigger).not.toHaveBeenCalled();
+      expect(webhookResponseService.waitForResponse).toHaveBeenCalledWith(42, {
+        mode: WebhookResponseMode.RESPOND_NODE,
+        responseStep: undefined,
+        timeoutSeconds: 10,
+      });
+    });
+
+    it('should fail when no execution was started', async () => {
+      (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([
+        {
+          workflowId: 1,
+          config: {
+            webhookId: 'webhook-1',
+            responseMode: WebhookResponseMode.LAST_NODE,
+          },
+        },
+      ] as any);
+      (workflowEventService.triggerWorkflow as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        handler.handleWebhookRequest('webhook-1', {}, {}),
+      ).rejects.toThrow('Workflow 1 did not start an execution');
+    });
+
     it('should throw error if webhook not found', async () => {
       const webhookId = 'non-existent';
       (prismaService.trigger.findMany as jest.Mock).mockResolvedValue([] as any);
@@ -1,7 +1,30 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { WorkflowException } from '../../common/exceptions/custom-exceptions';
 import { PrismaService } from '../../database/prisma.service';
-import { ITriggerHandler, TriggerType } from '../interfaces/workflow.interface';
+import {
+  ITriggerHandler,
+  JsonSchema,
+  TriggerDedupe,
+  TriggerType,
+  WebhookResponse,
+  WebhookResponseMode,
+  WebhookVerification,
+} from '../interfaces/workflow.interface';
 import { WorkflowEventService } from '../services/workflow-event.service';
+import {
+  WEBHOOK_SECRET_HEADERS,
+  WebhookSignatureService,
+} from '../services/webhook-signature.service';
+import {
+  DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS,
+  WebhookResponseService,
+} from '../services/webhook-response.service';
+import { resolveLiveTrigger } from '../repositories/workflow-version.repository';
+
+/**
+ * Longest a webhook request is held open for its workflow's response
+ */
+export const MAX_WEBHOOK_RESPONSE_TIMEOUT_SECONDS = 300;
 
 /**
  * Webhook trigger handler
@@ -13,6 +36,120 @@ export class WebhookTriggerHandler implements ITriggerHandler {
   private readonly logger = new Logger(WebhookTriggerHandler.name);
   readonly type: TriggerType = TriggerType.WEBHOOK;
   readonly name = 'Webhook Trigger';
+  readonly description = 'Run the workflow when a URL is called';
+
+  readonly configSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        title: 'Webhook path',
+        description: 'Leave empty to auto-generate a unique webhook ID',
+      },
+      verification: {
+        type: 'string',
+        title: 'Verification',
+        description:
+          'How requests are authenticated: a shared secret in the X-Webhook-Secret header, an HMAC-SHA256 signature of the body, or the signing scheme of GitHub, Stripe or Slack. Defaults to the shared secret when one is set.',
+        enum: Object.values(WebhookVerification),
+      },
+      secret: {
+        type: 'string',
+        title: 'Secret',
+        description:
+          'Shared secret, or the signing secret of signature verification',
+        format: 'password',
+      },
+      signatureHeader: {
+        type: 'string',
+        title: 'Signature header',
+        description: 'HMAC verification: header carrying the signature',
+        default: 'x-signature',
+      },
+      signatureEncoding: {
+        type: 'string',
+        title: 'Signature encoding',
+        description: 'HMAC verification: encoding of the signature',
+        enum: ['hex', 'base64'],
+        default: 'hex',
+      },
+      signaturePrefix: {
+        type: 'string',
+        title: 'Signature prefix',
+        description:
+          'HMAC verification: text before the signature in the header',
+        examples: ['sha256='],
+      },
+      timestampHeader: {
+        type: 'string',
+        title: 'Timestamp header',
+        description:
+          'HMAC verification: header carrying the Unix time the request was signed at; the signature then covers "<timestamp>.<body>"',
+        examples: ['x-timestamp'],
+      },
+      timestampTolerance: {
+        type: 'integer',
+        title: 'Timestamp tolerance (seconds)',
+        description:
+          'How old a signed request may be before it is rejected as a replay',
+        minimum: 1,
+        default: 300,
+      },
+      responseMode: {
+        type: 'string',
+        title: 'Respond',
+        description:
+          'onReceived: acknowledge right away. lastNode: wait for the workflow to finish and return the output of a step. respondNode: return the response of a Respond to Webhook step.',
+        enum: Object.values(WebhookResponseMode),
+        default: WebhookResponseMode.ON_RECEIVED,
+      },
+      responseStep: {
+        type: 'string',
+        title: 'Response step',
+        description:
+          'lastNode: name of the step whose output is returned (default: the last step to finish)',
+      },
+      responseTimeout: {
+        type: 'integer',
+        title: 'Response timeout (seconds)',
+        description:
+          'How long the request waits for the workflow before failing with 504',
+        minimum: 1,
+        maximum: MAX_WEBHOOK_RESPONSE_TIMEOUT_SECONDS,
+        default: DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS,
+      },
+      idempotencyKeyField: {
+        type: 'string',
+        title: 'Idempotency key field',
+        description:
+          'Payload field identifying an event (dot path, e.g. event.id), so sender retries run the workflow once. An Idempotency-Key header takes precedence.',
+        examples: ['event.id'],
+      },
+      idempotencyTtl: {
+        type: 'integer',
+        title: 'Deduplication window (seconds)',
+        description: 'How long repeats of an event are ignored',
+        minimum: 1,
+        default: 86400,
+      },
+      webhookId: { type: 'string', readOnly: true },
+      webhookUrl: { type: 'string', title: 'Webhook URL', readOnly: true },
+    },
+  };
+
+  readonly outputSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      triggerType: { type: 'string', enum: [TriggerType.WEBHOOK] },
+      webhookId: { type: 'string' },
+      payload: { description: 'Request body' },
+      headers: {
+        type: 'object',
+        description: 'Request headers, without the shared secret',
+      },
+      timestamp: { type: 'string', format: 'date-time' },
+    },
+  };
 
   private registeredWebhooks: Map<number, { path: string; secret?: string }> =
     new Map();
@@ -20,11 +157,36 @@ export class WebhookTriggerHandler implements ITriggerHandler {
   constructor(
     private readonly prisma: PrismaService,
     private readonly workflowEventService: WorkflowEventService,
+    private readonly webhookSignatureService: WebhookSignatureService,
+    private readonly webhookResponseService: WebhookResponseService,
   ) {}
 
   async validate(config: Record<string, any>): Promise<boolean> {
-    // Webhook triggers should have a path
-    if (!config.path || typeof config.path !== 'string') {
+    // Without a path, a unique webhook ID is generated on register
+    if (config.path !== undefined && typeof config.path !== 'string') {
+      return false;
+    }
+    if (
+      config.responseMode &&
+      !(Object.values(WebhookResponseMode) as string[]).includes(
+        config.responseMode,
+      )
+    ) {
+      return false;
+    }
+    if (
+      config.responseTimeout !== undefined &&
+      !(
+        config.responseTimeout > 0 &&
+        config.responseTimeout <= MAX_WEBHOOK_RESPONSE_TIMEOUT_SECONDS
+      )
+    ) {
+      return false;
+    }
+    try {
+      this.webhookSignatureService.validateConfig(config);
+    } catch (error: any) {
+      this.logger.warn(`Webhook trigger validation failed: ${error.message}`);
       return false;
     }
     return true;
@@ -79,20 +241,27 @@ export class WebhookTriggerHandler implements ITriggerHandler {
     if (!webhook) {
       return false;
     }
-    if (webhook.secret && webhook.secret !== secret) {
+    if (
+      webhook.secret &&
+      !this.webhookSignatureService.secretsMatch(secret || '', webhook.secret)
+    ) {
       return false;
     }
     return true;
   }
 
   /**
-   * Handle webhook request and trigger workflow
+   * Handle webhook request and trigger workflow. Signatures are checked against
+   * the raw body; without it, the payload re-serialized as JSON is used.
+   * Returns the HTTP response: an acknowledgement, or in the "lastNode" and
+   * "respondNode" modes the response the execution produced.
    */
   async handleWebhookRequest(
     webhookId: string,
     payload: any,
     headers?: Record<string, string>,
-  ): Promise<void> {
+    rawBody?: Buffer,
+  ): Promise<WebhookResponse> {
     this.logger.log(`Handling webhook request for webhookId: ${webhookId}`);
 
     // Find workflow by webhookId
@@ -100,22 +269,29 @@ export class WebhookTriggerHandler implements ITriggerHandler {
       where: {
         type: TriggerType.WEBHOOK,
       },
-      include: { workflow: true },
+      include: {
+        workflow: {
+          include: { publishedVersion: { select: { trigger: true } } },
+        },
+      },
     });
 
     let workflowId: number | null = null;
-    let secret: string | undefined;
+    let triggerConfig: Record<string, any> = {};
 
     for (const trigger of triggers) {
-      const config = trigger.config as any;
-      if (config.webhookId === webhookId) {
+      if ((trigger.config as any)?.webhookId === webhookId) {
         workflowId = trigger.workflowId;
-        secret = config.secret;
+        // Settings take effect on publish, like the rest of the workflow
+        triggerConfig = resolveLiveTrigger(
+          trigger,
+          trigger.workflow?.publishedVersion?.trigger,
+        ).config;
 
         // Update memory cache
         this.registeredWebhooks.set(workflowId, {
-          path: config.path || webhookId,
-          secret: config.secret,
+          path: triggerConfig.path || webhookId,
+          secret: triggerConfig.secret,
         });
         break;
       }
@@ -126,31 +302,104 @@ export class WebhookTriggerHandler implements ITriggerHandler {
       throw new Error(`Webhook ${webhookId} not found`);
     }
 
-    // Validate secret if required
-    if (secret) {
-      const providedSecret =
-        headers?.['x-webhook-secret'] ||
-        headers?.['x-secret'] ||
-        payload?.secret;
-      if (providedSecret !== secret) {
-        this.logger.warn(`Invalid secret for webhook ${webhookId}`);
-        throw new Error('Invalid webhook secret');
-      }
+    try {
+      this.webhookSignatureService.verify(
+        triggerConfig,
+        headers || {},
+        rawBody ??
+          (typeof payload === 'string'
+            ? payload
+            : JSON.stringify(payload ?? {})),
+      );
+    } catch (error: any) {
+      this.logger.warn(
+        `Rejected request for webhook ${webhookId}: ${error.message}`,
+      );
+      throw error;
+    }
+
+    // The shared secret must not reach the execution data
+    const forwardedHeaders = { ...headers };
+    for (const header of WEBHOOK_SECRET_HEADERS) {
+      delete forwardedHeaders[header];
     }
 
     // Emit workflow trigger event
     this.logger.log(
       `Triggering workflow ${workflowId} via webhook ${webhookId}`,
     );
-    this.workflowEventService.emitWorkflowTrigger(workflowId, {
+    const triggerData = {
       triggerType: TriggerType.WEBHOOK,
       webhookId,
       payload,
-      headers: headers || {},
+      headers: forwardedHeaders,
       timestamp: new Date().toISOString(),
+    };
+    const dedupe = this.getDedupe(triggerConfig, payload, headers);
+    const responseMode: WebhookResponseMode =
+      triggerConfig.responseMode || WebhookResponseMode.ON_RECEIVED;
+
+    if (responseMode === WebhookResponseMode.ON_RECEIVED) {
+      this.workflowEventService.emitWorkflowTrigger(
+        workflowId,
+        triggerData,
+        dedupe,
+      );
+      return {
+        statusCode: HttpStatus.OK,
+        body: { success: true, message: 'Webhook processed successfully' },
+      };
+    }
+
+    const executionId = await this.workflowEventService.triggerWorkflow(
+      workflowId,
+      triggerData,
+      dedupe,
+    );
+    if (executionId === null) {
+      throw new WorkflowException(
+        `Workflow ${workflowId} did not start an execution`,
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    return this.webhookResponseService.waitForResponse(executionId, {
+      mode: responseMode,
+      responseStep: triggerConfig.responseStep,
+      timeoutSeconds: triggerConfig.responseTimeout,
     });
   }
 
+  /**
+   * The dedupe key of a request: its Idempotency-Key header, or the configured
+   * payload field. Requests without one are never deduplicated.
+   */
+  private getDedupe(
+    config: Record<string, any>,
+    payload: any,
+    headers?: Record<string, string>,
+  ): TriggerDedupe | undefined {
+    let value: unknown = headers?.['idempotency-key'];
+    if (!value && config.idempotencyKeyField) {
+      value = String(config.idempotencyKeyField)
+        .split('.')
+        .reduce((current: any, key) => current?.[key], payload);
+    }
+
+    if (
+      value === undefined ||
+      value === null ||
+      value === '' ||
+      typeof value === 'object'
+    ) {
+      return undefined;
+    }
+    return {
+      key: `webhook:${value}`,
+      ttlSeconds: config.idempotencyTtl,
+    };
+  }
+
   /**
    * Get webhook URL for a workflow
    */
@@ -164,10 +413,18 @@ export class WebhookTriggerHandler implements ITriggerHandler {
     try {
       const trigger = await this.prisma.trigger.findUnique({
         where: { workflowId },
+        include: {
+          workflow: {
+            include: { publishedVersion: { select: { trigger: true } } },
+          },
+        },
       });
 
       if (trigger) {
-        const config = trigger.config as any;
+        const { config } = resolveLiveTrigger(
+          trigger,
+          trigger.workflow?.publishedVersion?.trigger,
+        );
         return (
           config.webhookUrl ||
           `/api/triggers/webhook/${config.webhookId || webhook.path}`
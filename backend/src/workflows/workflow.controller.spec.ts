@@ -2,6 +2,13 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { WorkflowController } from './workflow.controller';
 import { WorkflowService } from './workflow.service';
 import { ExecutionService } from './execution.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowVersionService } from './services/workflow-version.service';
+import { WorkflowDefinitionService } from './services/workflow-definition.service';
+import { StepTestService } from './services/step-test.service';
+import { WorkflowValidationService } from './services/workflow-validation.service';
+import { ActionRegistry } from './actions/action.registry';
+import { TriggerRegistry } from './triggers/trigger.registry';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 
 describe('WorkflowController', () => {
@@ -36,6 +43,40 @@ describe('WorkflowController', () => {
           provide: ExecutionService,
           useValue: mockExecutionService,
         },
+        {
+          provide: ExecutionEventsService,
+          useValue: { stream: jest.fn() },
+        },
+        {
+          provide: WorkflowVersionService,
+          useValue: {
+            publish: jest.fn(),
+            findVersions: jest.fn(),
+            findVersion: jest.fn(),
+            rollback: jest.fn(),
+            diff: jest.fn(),
+          },
+        },
+        {
+          provide: WorkflowDefinitionService,
+          useValue: { export: jest.fn(), import: jest.fn() },
+        },
+        {
+          provide: StepTestService,
+          useValue: { testStep: jest.fn() },
+        },
+        {
+          provide: WorkflowValidationService,
+          useValue: { validate: jest.fn() },
+        },
+        {
+          provide: ActionRegistry,
+          useValue: { describe: jest.fn().mockReturnValue([]) },
+        },
+        {
+          provide: TriggerRegistry,
+          useValue: { describe: jest.fn().mockReturnValue([]) },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
@@ -113,9 +154,22 @@ describe('WorkflowController', () => {
         workflowId,
         userId,
         triggerDto.triggerData,
+        { draft: undefined },
       );
       expect(result).toBeDefined();
     });
+
+    it('should run the draft when requested', async () => {
+      workflowService.trigger.mockResolvedValue({ id: 2 } as any);
+
+      await controller.trigger(1, 1, { triggerData: {}, draft: true });
+
+      expect(workflowService.trigger).toHaveBeenCalledWith(
+        1,
+        1,
+        {},
+        { draft: true },
+      );
+    });
   });
 });
-
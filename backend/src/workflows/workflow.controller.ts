@@ -9,19 +9,53 @@ import {
   Query,
   UseGuards,
   ParseIntPipe,
+  Sse,
+  MessageEvent,
+  Res,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
+import { Response } from 'express';
+import { Observable } from 'rxjs';
 import { WorkflowService } from './workflow.service';
 import { ExecutionService } from './execution.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowVersionService } from './services/workflow-version.service';
+import { WorkflowDefinitionService } from './services/workflow-definition.service';
+import { StepTestService } from './services/step-test.service';
+import { WorkflowValidationService } from './services/workflow-validation.service';
+import { ActionRegistry } from './actions/action.registry';
+import { TriggerRegistry } from './triggers/trigger.registry';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import {
+  CreateWorkflowDto,
+  ValidateWorkflowDto,
+} from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
-import { TriggerWorkflowDto } from './dto/trigger-workflow.dto';
+import {
+  TriggerWorkflowDto,
+  PinTriggerDataDto,
+  RerunExecutionDto,
+} from './dto/trigger-workflow.dto';
+import { PublishWorkflowDto } from './dto/publish-workflow.dto';
+import { ImportWorkflowDto } from './dto/import-workflow.dto';
+import { TestStepDto } from './dto/test-step.dto';
 import {
   WorkflowResponseDto,
+  WorkflowVersionResponseDto,
   ExecutionResponseDto,
 } from './dto/workflow-response.dto';
+import {
+  WorkflowVersionDiff,
+  WorkflowDefinitionFormat,
+  StepTestResult,
+  WorkflowValidationResult,
+  ActionTypeDescriptor,
+  TriggerTypeDescriptor,
+} from './interfaces/workflow.interface';
 import { plainToInstance } from 'class-transformer';
+import { BadRequestException } from '../common/exceptions/custom-exceptions';
 
 /**
  * @openapi
@@ -35,6 +69,13 @@ export class WorkflowController {
   constructor(
     private readonly workflowService: WorkflowService,
     private readonly executionService: ExecutionService,
+    private readonly executionEvents: ExecutionEventsService,
+    private readonly versionService: WorkflowVersionService,
+    private readonly definitionService: WorkflowDefinitionService,
+    private readonly stepTestService: StepTestService,
+    private readonly validationService: WorkflowValidationService,
+    private readonly actionRegistry: ActionRegistry,
+    private readonly triggerRegistry: TriggerRegistry,
   ) {}
 
   /**
@@ -97,6 +138,113 @@ export class WorkflowController {
     });
   }
 
+  /**
+   * @openapi
+   * /workflows/validate:
+   *   post:
+   *     summary: Validate a workflow's actions
+   *     description: Runs the checks done when a workflow is saved, without saving. Returns errors (unknown action types, invalid configs, references to missing actions, cycles, templates referring to unknown steps), which make a save fail, and warnings (unreachable actions), which don't. Issues point at actions by order index.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - actions
+   *             properties:
+   *               actions:
+   *                 type: array
+   *                 items:
+   *                   $ref: '#/components/schemas/CreateAction'
+   *     responses:
+   *       200:
+   *         description: Validation result
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowValidationResult'
+   *       400:
+   *         description: Invalid input data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  validate(@Body() validateDto: ValidateWorkflowDto): WorkflowValidationResult {
+    return this.validationService.validate(validateDto.actions);
+  }
+
+  /**
+   * @openapi
+   * /workflows/import:
+   *   post:
+   *     summary: Import a workflow definition
+   *     description: Creates a workflow from a JSON or YAML definition file (see GET /workflows/{id}/export). The definition is validated like a create request. Imported workflows start disabled; secrets and references to other workflows removed from the definition are listed in the warnings and must be set before enabling.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *             properties:
+   *               content:
+   *                 type: string
+   *                 description: Contents of the definition file
+   *     responses:
+   *       201:
+   *         description: Workflow created from the definition
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 workflow:
+   *                   $ref: '#/components/schemas/WorkflowResponse'
+   *                 warnings:
+   *                   type: array
+   *                   items:
+   *                     type: string
+   *       400:
+   *         description: Invalid definition, unsupported formatVersion or unknown action type
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   */
+  @Post('import')
+  async import(
+    @CurrentUser('id') userId: number,
+    @Body() importDto: ImportWorkflowDto,
+  ): Promise<{ workflow: WorkflowResponseDto; warnings: string[] }> {
+    const { workflow, warnings } = await this.definitionService.import(
+      userId,
+      importDto.content,
+    );
+    return {
+      workflow: plainToInstance(WorkflowResponseDto, workflow, {
+        excludeExtraneousValues: true,
+      }),
+      warnings,
+    };
+  }
+
   /**
    * @openapi
    * /workflows:
@@ -142,6 +290,46 @@ export class WorkflowController {
     );
   }
 
+  /**
+   * @openapi
+   * /workflows/action-types:
+   *   get:
+   *     summary: List the available action and trigger types
+   *     description: Returns every registered action and trigger type with JSON Schemas of its config and output. The workflow builder generates its palette and property forms from them.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Action and trigger types
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 actions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/ActionTypeDescriptor'
+   *                 triggers:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TriggerTypeDescriptor'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   */
+  @Get('action-types')
+  getActionTypes(): {
+    actions: ActionTypeDescriptor[];
+    triggers: TriggerTypeDescriptor[];
+  } {
+    return {
+      actions: this.actionRegistry.describe(),
+      triggers: this.triggerRegistry.describe(),
+    };
+  }
+
   /**
    * @openapi
    * /workflows/{id}:
@@ -297,6 +485,68 @@ export class WorkflowController {
     return { message: 'Workflow deleted successfully' };
   }
 
+  /**
+   * @openapi
+   * /workflows/{id}/export:
+   *   get:
+   *     summary: Export a workflow definition
+   *     description: Downloads the workflow's trigger and actions as a versioned definition file. Actions refer to each other by order index, secrets are blanked and listed in strippedFields, and IDs tied to this installation (webhook URL, Gmail watch, user ID) are removed.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [json, yaml]
+   *           default: json
+   *         description: File format
+   *     responses:
+   *       200:
+   *         description: Definition file
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *           application/yaml:
+   *             schema:
+   *               type: string
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id/export')
+  async export(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Res() res: Response,
+    @Query('format') format: WorkflowDefinitionFormat = 'json',
+  ): Promise<void> {
+    if (format !== 'json' && format !== 'yaml') {
+      throw new BadRequestException('format must be json or yaml');
+    }
+    const file = await this.definitionService.export(id, userId, format);
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  }
+
   /**
    * @openapi
    * /workflows/{id}/trigger:
@@ -352,6 +602,11 @@ export class WorkflowController {
       id,
       userId,
       triggerDto.triggerData,
+      {
+        draft: triggerDto.draft,
+        dryRun: triggerDto.dryRun,
+        mockOutputs: triggerDto.mockOutputs,
+      },
     );
     return plainToInstance(ExecutionResponseDto, execution, {
       excludeExtraneousValues: true,
@@ -360,10 +615,10 @@ export class WorkflowController {
 
   /**
    * @openapi
-   * /workflows/{id}/executions:
-   *   get:
-   *     summary: Get execution history for a workflow
-   *     description: Returns execution history for a specific workflow
+   * /workflows/{id}/test-step:
+   *   post:
+   *     summary: Test a single action
+   *     description: Runs one action handler on its own, without creating an execution. Templates resolve against the sample trigger data and step outputs given, and/or the trigger data and step outputs of the workflow's last execution. Handler errors are returned in the result rather than as an error response.
    *     tags:
    *       - Workflows
    *     security:
@@ -375,27 +630,25 @@ export class WorkflowController {
    *         schema:
    *           type: integer
    *         description: Workflow ID
-   *       - in: query
-   *         name: limit
-   *         schema:
-   *           type: integer
-   *           default: 20
-   *         description: Maximum number of executions to return
-   *       - in: query
-   *         name: offset
-   *         schema:
-   *           type: integer
-   *           default: 0
-   *         description: Number of executions to skip
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TestStep'
    *     responses:
-   *       200:
-   *         description: List of executions
+   *       201:
+   *         description: Step test result
    *         content:
    *           application/json:
    *             schema:
-   *               type: array
-   *               items:
-   *                 $ref: '#/components/schemas/ExecutionResponse'
+   *               $ref: '#/components/schemas/StepTestResult'
+   *       400:
+   *         description: Unknown action type, or an action that cannot be tested on its own
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    *       401:
    *         description: Unauthorized - Invalid or missing token
    *       404:
@@ -405,122 +658,797 @@ export class WorkflowController {
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  @Get(':id/executions')
-  async getExecutions(
+  @Post(':id/test-step')
+  async testStep(
     @CurrentUser('id') userId: number,
     @Param('id', ParseIntPipe) id: number,
-    @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
-  ): Promise<ExecutionResponseDto[]> {
-    // Verify workflow belongs to user
-    await this.workflowService.findById(id, userId);
-
-    const executions = await this.executionService.findByWorkflowId(id, {
-      limit: limit ? parseInt(limit, 10) : undefined,
-      offset: offset ? parseInt(offset, 10) : undefined,
-    });
-
-    return executions.map((execution) =>
-      plainToInstance(ExecutionResponseDto, execution, {
-        excludeExtraneousValues: true,
-      }),
-    );
+    @Body() testStepDto: TestStepDto,
+  ): Promise<StepTestResult> {
+    return this.stepTestService.testStep(id, userId, testStepDto);
   }
 
   /**
    * @openapi
-   * /workflows/executions/history:
-   *   get:
-   *     summary: Get execution history for all workflows
-   *     description: Returns execution history for all workflows belonging to the authenticated user
+   * /workflows/{id}/pinned-trigger-data:
+   *   put:
+   *     summary: Pin sample trigger data
+   *     description: Pins a sample trigger payload to the workflow, for example the trigger data of an earlier execution. It is used as the default input for test runs.
    *     tags:
    *       - Workflows
    *     security:
    *       - bearerAuth: []
    *     parameters:
-   *       - in: query
-   *         name: limit
-   *         schema:
-   *           type: integer
-   *           default: 20
-   *         description: Maximum number of executions to return
-   *       - in: query
-   *         name: offset
+   *       - in: path
+   *         name: id
+   *         required: true
    *         schema:
    *           type: integer
-   *           default: 0
-   *         description: Number of executions to skip
+   *         description: Workflow ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - triggerData
+   *             properties:
+   *               triggerData:
+   *                 type: object
+   *                 example: { "orderId": 42 }
    *     responses:
    *       200:
-   *         description: List of executions
+   *         description: Workflow with the pinned trigger data
    *         content:
    *           application/json:
    *             schema:
-   *               type: array
-   *               items:
-   *                 $ref: '#/components/schemas/ExecutionResponse'
+   *               $ref: '#/components/schemas/WorkflowResponse'
+   *       400:
+   *         description: Validation error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    *       401:
    *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    */
-  @Get('executions/history')
-  async getExecutionHistory(
+  @Put(':id/pinned-trigger-data')
+  async pinTriggerData(
     @CurrentUser('id') userId: number,
-    @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
-  ): Promise<ExecutionResponseDto[]> {
-    const executions = await this.executionService.findByUserId(userId, {
-      limit: limit ? parseInt(limit, 10) : undefined,
-      offset: offset ? parseInt(offset, 10) : undefined,
-    });
-
-    return executions.map((execution) =>
-      plainToInstance(ExecutionResponseDto, execution, {
-        excludeExtraneousValues: true,
-      }),
+    @Param('id', ParseIntPipe) id: number,
+    @Body() pinDto: PinTriggerDataDto,
+  ): Promise<WorkflowResponseDto> {
+    const workflow = await this.workflowService.setPinnedTriggerData(
+      id,
+      userId,
+      pinDto.triggerData,
     );
+    return plainToInstance(WorkflowResponseDto, workflow, {
+      excludeExtraneousValues: true,
+    });
   }
 
   /**
    * @openapi
-   * /workflows/executions/{executionId}:
-   *   get:
-   *     summary: Get execution details
-   *     description: Returns detailed information about a specific workflow execution
+   * /workflows/{id}/pinned-trigger-data:
+   *   delete:
+   *     summary: Unpin sample trigger data
+   *     description: Removes the workflow's pinned sample trigger payload
    *     tags:
    *       - Workflows
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: path
-   *         name: executionId
+   *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Execution ID
+   *         description: Workflow ID
    *     responses:
    *       200:
-   *         description: Execution details
+   *         description: Workflow without pinned trigger data
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/ExecutionResponse'
+   *               $ref: '#/components/schemas/WorkflowResponse'
    *       401:
    *         description: Unauthorized - Invalid or missing token
    *       404:
-   *         description: Execution not found
+   *         description: Workflow not found
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  @Get('executions/:executionId')
-  async getExecution(
+  @Delete(':id/pinned-trigger-data')
+  async unpinTriggerData(
     @CurrentUser('id') userId: number,
-    @Param('executionId', ParseIntPipe) executionId: number,
-  ): Promise<ExecutionResponseDto> {
-    const execution = await this.executionService.findById(executionId, userId);
-    return plainToInstance(ExecutionResponseDto, execution, {
-      excludeExtraneousValues: true,
-    });
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WorkflowResponseDto> {
+    const workflow = await this.workflowService.setPinnedTriggerData(
+      id,
+      userId,
+      null,
+    );
+    return plainToInstance(WorkflowResponseDto, workflow, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/publish:
+   *   post:
+   *     summary: Publish the workflow draft
+   *     description: Saves the current trigger and actions as a new immutable version. Executions run the published version, so later edits to the draft don't affect them until the next publish.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               note:
+   *                 type: string
+   *                 example: Retry the HTTP call on 5xx
+   *     responses:
+   *       201:
+   *         description: Published version
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowVersionResponse'
+   *       400:
+   *         description: The workflow has no actions or no unpublished changes
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post(':id/publish')
+  async publish(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() publishDto: PublishWorkflowDto,
+  ): Promise<WorkflowVersionResponseDto> {
+    const version = await this.versionService.publish(
+      id,
+      userId,
+      publishDto.note,
+    );
+    return plainToInstance(WorkflowVersionResponseDto, version, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/versions:
+   *   get:
+   *     summary: Get the published versions of a workflow
+   *     description: Returns the version history of a workflow, newest first
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *     responses:
+   *       200:
+   *         description: List of versions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WorkflowVersionResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id/versions')
+  async getVersions(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WorkflowVersionResponseDto[]> {
+    const versions = await this.versionService.findVersions(id, userId);
+    return versions.map((version) =>
+      plainToInstance(WorkflowVersionResponseDto, version, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/versions/diff:
+   *   get:
+   *     summary: Compare two versions of a workflow
+   *     description: Lists the changed workflow fields and the added, removed and changed actions between two versions
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *       - in: query
+   *         name: from
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Version number to compare from
+   *       - in: query
+   *         name: to
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Version number to compare to
+   *     responses:
+   *       200:
+   *         description: Differences between the versions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowVersionDiff'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow or version not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id/versions/diff')
+  async diffVersions(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to', ParseIntPipe) to: number,
+  ): Promise<WorkflowVersionDiff> {
+    return this.versionService.diff(id, userId, from, to);
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/versions/{version}:
+   *   get:
+   *     summary: Get a version of a workflow
+   *     description: Returns a published version with its trigger and actions
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *       - in: path
+   *         name: version
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Version number
+   *     responses:
+   *       200:
+   *         description: Version details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowVersionResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow or version not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id/versions/:version')
+  async getVersion(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<WorkflowVersionResponseDto> {
+    const found = await this.versionService.findVersion(id, userId, version);
+    return plainToInstance(WorkflowVersionResponseDto, found, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/versions/{version}/rollback:
+   *   post:
+   *     summary: Roll back to a version
+   *     description: Publishes an earlier version again and resets the draft (name, description, trigger and actions) to it
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *       - in: path
+   *         name: version
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Version number
+   *     responses:
+   *       201:
+   *         description: Workflow after the rollback
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WorkflowResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow or version not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post(':id/versions/:version/rollback')
+  async rollbackVersion(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<WorkflowResponseDto> {
+    const workflow = await this.versionService.rollback(id, userId, version);
+    return plainToInstance(WorkflowResponseDto, workflow, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/{id}/executions:
+   *   get:
+   *     summary: Get execution history for a workflow
+   *     description: Returns execution history for a specific workflow
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Workflow ID
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *         description: Maximum number of executions to return
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           default: 0
+   *         description: Number of executions to skip
+   *     responses:
+   *       200:
+   *         description: List of executions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/ExecutionResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Workflow not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get(':id/executions')
+  async getExecutions(
+    @CurrentUser('id') userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<ExecutionResponseDto[]> {
+    // Verify workflow belongs to user
+    await this.workflowService.findById(id, userId);
+
+    const executions = await this.executionService.findByWorkflowId(id, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+
+    return executions.map((execution) =>
+      plainToInstance(ExecutionResponseDto, execution, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/history:
+   *   get:
+   *     summary: Get execution history for all workflows
+   *     description: Returns execution history for all workflows belonging to the authenticated user
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *         description: Maximum number of executions to return
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           default: 0
+   *         description: Number of executions to skip
+   *     responses:
+   *       200:
+   *         description: List of executions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/ExecutionResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   */
+  @Get('executions/history')
+  async getExecutionHistory(
+    @CurrentUser('id') userId: number,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<ExecutionResponseDto[]> {
+    const executions = await this.executionService.findByUserId(userId, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+
+    return executions.map((execution) =>
+      plainToInstance(ExecutionResponseDto, execution, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/{executionId}:
+   *   get:
+   *     summary: Get execution details
+   *     description: Returns detailed information about a specific workflow execution, including a step timeline with per-step durations, attempt history and resolved input
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: executionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Execution ID
+   *     responses:
+   *       200:
+   *         description: Execution details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExecutionResponse'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Execution not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Get('executions/:executionId')
+  async getExecution(
+    @CurrentUser('id') userId: number,
+    @Param('executionId', ParseIntPipe) executionId: number,
+  ): Promise<ExecutionResponseDto> {
+    const execution = await this.executionService.findById(executionId, userId);
+    return this.toExecutionDetails(execution);
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/{executionId}/stream:
+   *   get:
+   *     summary: Stream execution updates
+   *     description: |
+   *       Server-Sent Events stream of an execution. The first event (`snapshot`) carries the execution details;
+   *       it is followed by live `step.started`, `step.completed`, `step.failed`, `step.waiting`, `step.skipped`
+   *       and `execution.status` events, plus a `ping` every 15 seconds. The stream ends after the execution
+   *       completes, fails or is cancelled (immediately after the snapshot if it already has).
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: executionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Execution ID
+   *     responses:
+   *       200:
+   *         description: Event stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Execution not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Sse('executions/:executionId/stream')
+  async streamExecution(
+    @CurrentUser('id') userId: number,
+    @Param('executionId', ParseIntPipe) executionId: number,
+  ): Promise<Observable<MessageEvent>> {
+    // Check access up front, so a missing execution is a 404 rather than a broken stream
+    await this.executionService.findById(executionId, userId);
+    return this.executionEvents.stream(executionId, async () =>
+      this.toExecutionDetails(
+        await this.executionService.findById(executionId, userId),
+      ),
+    );
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/{executionId}/resume:
+   *   post:
+   *     summary: Resume an execution
+   *     description: Resumes a failed execution, or a running execution whose worker stopped responding, from the last completed step. Completed steps are not re-run; their stored outputs are reused.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: executionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Execution ID
+   *     responses:
+   *       201:
+   *         description: Execution queued for resume
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExecutionResponse'
+   *       400:
+   *         description: Execution is still running or already finished
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Execution not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post('executions/:executionId/resume')
+  async resumeExecution(
+    @CurrentUser('id') userId: number,
+    @Param('executionId', ParseIntPipe) executionId: number,
+  ): Promise<ExecutionResponseDto> {
+    const execution = await this.workflowService.resumeExecution(
+      executionId,
+      userId,
+    );
+    return plainToInstance(ExecutionResponseDto, execution, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/{executionId}/rerun:
+   *   post:
+   *     summary: Re-run an execution
+   *     description: Runs a finished execution again with the same trigger data, as a new execution. From the beginning it runs like a new trigger; with fromStepId it runs the same workflow version from that failed step, reusing the outputs of the steps that completed before it.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: executionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Execution ID
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               fromStepId:
+   *                 type: integer
+   *                 description: Failed execution step to re-run from; omit to re-run from the beginning
+   *                 example: 12
+   *     responses:
+   *       201:
+   *         description: New execution queued
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExecutionResponse'
+   *       400:
+   *         description: Execution has not finished, or the step did not fail
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Execution or step not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post('executions/:executionId/rerun')
+  async rerunExecution(
+    @CurrentUser('id') userId: number,
+    @Param('executionId', ParseIntPipe) executionId: number,
+    @Body() rerunDto: RerunExecutionDto,
+  ): Promise<ExecutionResponseDto> {
+    const execution = await this.workflowService.rerunExecution(
+      executionId,
+      userId,
+      { fromStepId: rerunDto.fromStepId },
+    );
+    return plainToInstance(ExecutionResponseDto, execution, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * @openapi
+   * /workflows/executions/{executionId}/cancel:
+   *   post:
+   *     summary: Cancel an execution
+   *     description: Cancels a queued, running or waiting execution. A queued or waiting execution is removed from the queue; a running execution stops before its next step and aborts an in-flight wait or HTTP request. Steps that did not run are marked as skipped.
+   *     tags:
+   *       - Workflows
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: executionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Execution ID
+   *     responses:
+   *       201:
+   *         description: Execution cancelled (or cancellation requested for a running execution)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExecutionResponse'
+   *       400:
+   *         description: Execution has already finished
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Unauthorized - Invalid or missing token
+   *       404:
+   *         description: Execution not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  @Post('executions/:executionId/cancel')
+  async cancelExecution(
+    @CurrentUser('id') userId: number,
+    @Param('executionId', ParseIntPipe) executionId: number,
+  ): Promise<ExecutionResponseDto> {
+    const execution = await this.workflowService.cancelExecution(
+      executionId,
+      userId,
+    );
+    return plainToInstance(ExecutionResponseDto, execution, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  private toExecutionDetails(
+    execution: Awaited<ReturnType<ExecutionService['findById']>>,
+  ): ExecutionResponseDto {
+    return plainToInstance(
+      ExecutionResponseDto,
+      {
+        ...execution,
+        timeline: this.executionService.buildTimeline(execution),
+      },
+      { excludeExtraneousValues: true },
+    );
   }
 }
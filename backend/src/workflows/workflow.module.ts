@@ -6,6 +6,9 @@ import { WorkflowService } from './workflow.service';
 import { ExecutionService } from './execution.service';
 import { WorkflowRepository } from './repositories/workflow.repository';
 import { ExecutionRepository } from './repositories/execution.repository';
+import { TriggerEventKeyRepository } from './repositories/trigger-event-key.repository';
+import { WorkflowVersionRepository } from './repositories/workflow-version.repository';
+import { WorkflowTemplateRepository } from './repositories/workflow-template.repository';
 import { WorkflowRelationshipHelper } from './repositories/workflow.relationship.helper';
 import { TriggerRegistry } from './triggers/trigger.registry';
 import { ActionRegistry } from './actions/action.registry';
@@ -19,7 +22,19 @@ import { getRedisConnectionObject } from '../queues/queue.config';
 // Services
 import { WorkflowEventService } from './services/workflow-event.service';
 import { GmailService } from './services/gmail.service';
+import { GmailFilterService } from './services/gmail-filter.service';
+import { WebhookSignatureService } from './services/webhook-signature.service';
+import { WebhookResponseService } from './services/webhook-response.service';
 import { PubSubService } from './services/pubsub.service';
+import { ExpressionService } from './services/expression.service';
+import { ConditionService } from './services/condition.service';
+import { ExecutionCancellationService } from './services/execution-cancellation.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowVersionService } from './services/workflow-version.service';
+import { WorkflowDefinitionService } from './services/workflow-definition.service';
+import { StepTestService } from './services/step-test.service';
+import { WorkflowValidationService } from './services/workflow-validation.service';
+import { WorkflowTemplateService } from './services/workflow-template.service';
 import { OAuthService } from '../oauth/oauth.service';
 import { GoogleOAuthService } from '../auth/services/google-oauth.service';
 import { PrismaService } from '../database/prisma.service';
@@ -34,11 +49,14 @@ import { ScheduleTriggerHandler } from './triggers/schedule.trigger';
 // Controllers
 import { TriggerController } from './controllers/trigger.controller';
 import { GmailTriggerController } from './controllers/gmail-trigger.controller';
+import { WorkflowTemplateController } from './controllers/workflow-template.controller';
 
 // Listeners
 import { WorkflowTriggerListener } from './listeners/workflow-trigger.listener';
 import { GmailAutoRegisterListener } from './listeners/gmail-auto-register.listener';
 import { TriggerAutoStartListener } from './listeners/trigger-auto-start.listener';
+import { StaleExecutionListener } from './listeners/stale-execution.listener';
+import { ErrorWorkflowListener } from './listeners/error-workflow.listener';
 
 // Action handlers
 import { ExampleActionHandler } from './actions/example.action';
@@ -48,6 +66,8 @@ import { WaitActionHandler } from './actions/wait.action';
 import { ConditionalActionHandler } from './actions/conditional.action';
 import { LoopActionHandler } from './actions/loop.action';
 import { ParallelActionHandler } from './actions/parallel.action';
+import { ExecuteWorkflowActionHandler } from './actions/execute-workflow.action';
+import { RespondToWebhookActionHandler } from './actions/respond-to-webhook.action';
 
 @Module({
   imports: [
@@ -57,12 +77,20 @@ import { ParallelActionHandler } from './actions/parallel.action';
     EventEmitterModule.forRoot(),
     ScheduleModule.forRoot(),
   ],
-  controllers: [WorkflowController, TriggerController, GmailTriggerController],
+  controllers: [
+    WorkflowController,
+    TriggerController,
+    GmailTriggerController,
+    WorkflowTemplateController,
+  ],
   providers: [
     WorkflowService,
     ExecutionService,
     WorkflowRepository,
     ExecutionRepository,
+    TriggerEventKeyRepository,
+    WorkflowVersionRepository,
+    WorkflowTemplateRepository,
     WorkflowRelationshipHelper,
     TriggerRegistry,
     ActionRegistry,
@@ -70,7 +98,19 @@ import { ParallelActionHandler } from './actions/parallel.action';
     // Services
     WorkflowEventService,
     GmailService,
+    GmailFilterService,
+    WebhookSignatureService,
+    WebhookResponseService,
     PubSubService,
+    ExpressionService,
+    ConditionService,
+    ExecutionCancellationService,
+    ExecutionEventsService,
+    WorkflowVersionService,
+    WorkflowDefinitionService,
+    WorkflowTemplateService,
+    StepTestService,
+    WorkflowValidationService,
     // Trigger handlers
     ManualTriggerHandler,
     WebhookTriggerHandler,
@@ -84,6 +124,7 @@ import { ParallelActionHandler } from './actions/parallel.action';
         pubSubService: PubSubService,
         oauthService: OAuthService,
         googleOAuthService: GoogleOAuthService,
+        gmailFilterService: GmailFilterService,
       ) => {
         return new GoogleMailTriggerHandler(
           prisma,
@@ -93,6 +134,7 @@ import { ParallelActionHandler } from './actions/parallel.action';
           pubSubService,
           oauthService,
           googleOAuthService,
+          gmailFilterService,
         );
       },
       inject: [
@@ -103,6 +145,7 @@ import { ParallelActionHandler } from './actions/parallel.action';
         PubSubService,
         OAuthService,
         GoogleOAuthService,
+        GmailFilterService,
       ],
     },
     ScheduleTriggerHandler,
@@ -110,6 +153,8 @@ import { ParallelActionHandler } from './actions/parallel.action';
     WorkflowTriggerListener,
     GmailAutoRegisterListener,
     TriggerAutoStartListener,
+    StaleExecutionListener,
+    ErrorWorkflowListener,
     // Schedule queue (optional, for distributed scheduling)
     {
       provide: 'WORKFLOW_SCHEDULE_QUEUE',
@@ -135,6 +180,8 @@ import { ParallelActionHandler } from './actions/parallel.action';
     ConditionalActionHandler,
     LoopActionHandler,
     ParallelActionHandler,
+    ExecuteWorkflowActionHandler,
+    RespondToWebhookActionHandler,
     // Workflow queue
     {
       provide: 'WORKFLOW_QUEUE',
@@ -195,6 +242,8 @@ import { ParallelActionHandler } from './actions/parallel.action';
         conditionalAction: ConditionalActionHandler,
         loopAction: LoopActionHandler,
         parallelAction: ParallelActionHandler,
+        executeWorkflowAction: ExecuteWorkflowActionHandler,
+        respondToWebhookAction: RespondToWebhookActionHandler,
       ) => {
         actionRegistry.registerHandler(exampleAction);
         actionRegistry.registerHandler(httpAction);
@@ -203,6 +252,8 @@ import { ParallelActionHandler } from './actions/parallel.action';
         actionRegistry.registerHandler(conditionalAction);
         actionRegistry.registerHandler(loopAction);
         actionRegistry.registerHandler(parallelAction);
+        actionRegistry.registerHandler(executeWorkflowAction);
+        actionRegistry.registerHandler(respondToWebhookAction);
         return true;
       },
       inject: [
@@ -214,6 +265,8 @@ import { ParallelActionHandler } from './actions/parallel.action';
         ConditionalActionHandler,
         LoopActionHandler,
         ParallelActionHandler,
+        ExecuteWorkflowActionHandler,
+        RespondToWebhookActionHandler,
       ],
     },
   ],
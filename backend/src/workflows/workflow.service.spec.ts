@@ -6,8 +6,35 @@ import { WorkflowRelationshipHelper } from './repositories/workflow.relationship
 import { TriggerRegistry } from './triggers/trigger.registry';
 import { ActionRegistry } from './actions/action.registry';
 import { PrismaService } from '../database/prisma.service';
+import { PubSubService } from './services/pubsub.service';
+import { GmailService } from './services/gmail.service';
+import { GoogleOAuthService } from '../auth/services/google-oauth.service';
+import { ExecutionCancellationService } from './services/execution-cancellation.service';
+import { ExecutionEventsService } from './services/execution-events.service';
+import { WorkflowValidationService } from './services/workflow-validation.service';
+import { TriggerEventKeyRepository } from './repositories/trigger-event-key.repository';
+import { BUILT_IN_TEMPLATES } from './templates/built-in.templates';
+import {
+  GmailTriggerMode,
+  TriggerType,
+  WebhookResponseMode,
+  WebhookVerification,
+} from './interfaces/workflow.interface';
 import { Queue } from 'bullmq';
 import { getRedisConnectionObject } from '../queues/queue.config';
+import { GoogleMailTriggerHandler } from './triggers/google-mail.trigger';
+import { GmailFilterService } from './services/gmail-filter.service';
+import { WebhookTriggerHandler } from './triggers/webhook.trigger';
+import { WebhookSignatureService } from './services/webhook-signature.service';
+
+jest.mock('../queues/gmail-event.queue', () => ({
+  gmailEventQueue: { add: jest.fn() },
+}));
+
+jest.mock('../queues/gmail-poll.queue', () => ({
+  gmailPollQueue: {},
+  gmailPollSchedulerId: (workflowId: number) => `gmail-poll-${workflowId}`,
+}));
 
 describe('WorkflowService', () => {
   let service: WorkflowService;
@@ -15,6 +42,7 @@ describe('WorkflowService', () => {
   let executionRepository: jest.Mocked<ExecutionRepository>;
   let triggerRegistry: jest.Mocked<TriggerRegistry>;
   let actionRegistry: jest.Mocked<ActionRegistry>;
+  let relationshipHelper: jest.Mocked<WorkflowRelationshipHelper>;
   let workflowQueue: Queue;
 
   beforeEach(async () => {
@@ -43,6 +71,10 @@ describe('WorkflowService', () => {
     const mockTriggerRegistry = {
       register: jest.fn(),
       unregister: jest.fn(),
+      getHandler: jest.fn().mockReturnValue({
+        name: 'Test Trigger',
+        validate: jest.fn().mockResolvedValue(true),
+      }),
     };
 
     const mockActionRegistry = {
@@ -96,6 +128,36 @@ describe('WorkflowService', () => {
           provide: 'WORKFLOW_QUEUE',
           useValue: workflowQueue,
         },
+        {
+          provide: PubSubService,
+          useValue: { isAvailable: jest.fn().mockReturnValue(false) },
+        },
+        {
+          provide: GmailService,
+          useValue: {},
+        },
+        {
+          provide: GoogleOAuthService,
+          useValue: {},
+        },
+        {
+          provide: ExecutionCancellationService,
+          useValue: { cancel: jest.fn() },
+        },
+        {
+          provide: ExecutionEventsService,
+          useValue: { publish: jest.fn() },
+        },
+        {
+          provide: WorkflowValidationService,
+          useValue: {
+            validate: jest.fn().mockReturnValue({ errors: [], warnings: [] }),
+          },
+        },
+        {
+          provide: TriggerEventKeyRepository,
+          useValue: {},
+        },
       ],
     }).compile();
 
@@ -104,6 +166,7 @@ describe('WorkflowService', () => {
     executionRepository = module.get(ExecutionRepository);
     triggerRegistry = module.get(TriggerRegistry);
     actionRegistry = module.get(ActionRegistry);
+    relationshipHelper = module.get(WorkflowRelationshipHelper);
   });
 
   afterEach(async () => {
@@ -195,6 +258,181 @@ describe('WorkflowService', () => {
     });
   });
 
+  describe('create from a template', () => {
+    it('should reach the daily health check alert only through the error branch', async () => {
+      const template = BUILT_IN_TEMPLATES.find(
+        (candidate) => candidate.key === 'daily-health-check',
+      )!;
+      const { actions } = template.definition.workflow;
+      workflowRepository.create.mockResolvedValue({
+        id: 1,
+        enabled: false,
+        actions: actions.map((action, index) => ({ id: index + 10, ...action })),
+      } as any);
+      workflowRepository.findById.mockResolvedValue({ id: 1 } as any);
+
+      await service.create(1, {
+        ...template.definition.workflow,
+        enabled: false,
+      } as any);
+
+      const relationships =
+        relationshipHelper.updateActionRelationships.mock.calls[0][1];
+      expect(relationships.get(10)).toEqual({ errorActionId: 11 });
+      expect(relationships.get(10)?.nextActionId).toBeUndefined();
+    });
+  });
+
+  describe('Gmail triggers in poll mode', () => {
+    const pollTrigger = {
+      type: TriggerType.GOOGLE_MAIL,
+      config: { mode: GmailTriggerMode.POLL, pollInterval: 60 },
+    };
+
+    it('should create the workflow without Pub/Sub', async () => {
+      workflowRepository.create.mockResolvedValue({
+        id: 1,
+        enabled: true,
+        trigger: pollTrigger,
+        actions: [],
+      } as any);
+      workflowRepository.findById.mockResolvedValue({ id: 1 } as any);
+
+      await service.create(1, {
+        name: 'Invoices',
+        trigger: pollTrigger,
+        actions: [],
+      });
+
+      expect(workflowRepository.create).toHaveBeenCalled();
+      expect(triggerRegistry.register).toHaveBeenCalledWith(
+        1,
+        TriggerType.GOOGLE_MAIL,
+        pollTrigger.config,
+      );
+    });
+
+    it('should update the trigger without Pub/Sub', async () => {
+      workflowRepository.findById.mockResolvedValue({
+        id: 1,
+        userId: 1,
+        enabled: true,
+        publishedVersionId: null,
+        trigger: pollTrigger,
+      } as any);
+
+      await service.update(1, 1, { trigger: pollTrigger });
+
+      expect(triggerRegistry.register).toHaveBeenCalledWith(
+        1,
+        TriggerType.GOOGLE_MAIL,
+        pollTrigger.config,
+      );
+    });
+  });
+
+  describe('trigger validation', () => {
+    it('should reject a Gmail trigger with an invalid filter', async () => {
+      triggerRegistry.getHandler.mockReturnValue(
+        new GoogleMailTriggerHandler(
+          {} as any,
+          {} as any,
+          {} as any,
+          {} as any,
+          undefined,
+          undefined,
+          undefined,
+          new GmailFilterService({} as any),
+        ),
+      );
+      const trigger = {
+        type: TriggerType.GOOGLE_MAIL,
+        config: { userId: 1, mode: GmailTriggerMode.POLL, from: '/[a-/' },
+      };
+
+      await expect(
+        service.create(1, { name: 'Invoices', trigger, actions: [] }),
+      ).rejects.toMatchObject({ status: 400 });
+      expect(workflowRepository.create).not.toHaveBeenCalled();
+
+      workflowRepository.findById.mockResolvedValue({ id: 1, userId: 1 } as any);
+      await expect(service.update(1, 1, { trigger })).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+
+    it('should reject a webhook that verifies signatures without a secret', async () => {
+      triggerRegistry.getHandler.mockReturnValue(
+        new WebhookTriggerHandler(
+          {} as any,
+          {} as any,
+          new WebhookSignatureService(),
+          {} as any,
+        ),
+      );
+
+      await expect(
+        service.create(1, {
+          name: 'Stripe events',
+          trigger: {
+            type: TriggerType.WEBHOOK,
+            config: { verification: WebhookVerification.HMAC },
+          },
+          actions: [],
+        }),
+      ).rejects.toMatchObject({ status: 400 });
+      expect(workflowRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject webhook response settings that cannot be honoured', async () => {
+      triggerRegistry.getHandler.mockReturnValue(
+        new WebhookTriggerHandler(
+          {} as any,
+          {} as any,
+          new WebhookSignatureService(),
+          {} as any,
+        ),
+      );
+      const webhook = (config: Record<string, any>) => ({
+        type: TriggerType.WEBHOOK,
+        config,
+      });
+
+      await expect(
+        service.create(1, {
+          name: 'Lookup',
+          trigger: webhook({
+            responseMode: WebhookResponseMode.LAST_NODE,
+            responseTimeout: -5,
+          }),
+          actions: [],
+        }),
+      ).rejects.toMatchObject({ status: 400 });
+      await expect(
+        service.create(1, {
+          name: 'Lookup',
+          trigger: webhook({ responseMode: WebhookResponseMode.RESPOND_NODE }),
+          actions: [
+            { type: 'http_request', name: 'Lookup', config: {}, order: 0 },
+          ],
+        }),
+      ).rejects.toThrow('requires a Respond to Webhook action');
+      expect(workflowRepository.create).not.toHaveBeenCalled();
+
+      workflowRepository.findById.mockResolvedValue({
+        id: 1,
+        userId: 1,
+        trigger: webhook({}),
+        actions: [{ type: 'http_request' }],
+      } as any);
+      await expect(
+        service.update(1, 1, {
+          trigger: webhook({ responseMode: WebhookResponseMode.RESPOND_NODE }),
+        }),
+      ).rejects.toThrow('requires a Respond to Webhook action');
+    });
+  });
+
   describe('findById', () => {
     it('should return a workflow by id', async () => {
       const workflowId = 1;
@@ -314,5 +552,37 @@ describe('WorkflowService', () => {
       await expect(service.trigger(1, 1, {})).rejects.toThrow();
     });
   });
+
+  describe('rerunExecution', () => {
+    it('should run the version the original execution ran', async () => {
+      jest
+        .spyOn(service as any, 'enqueueExecution')
+        .mockResolvedValue(undefined);
+      executionRepository.findById.mockResolvedValue({
+        id: 5,
+        workflowId: 1,
+        userId: 1,
+        status: 'failed',
+        triggerData: {},
+        workflowVersionId: 3,
+        dryRun: false,
+        mockOutputs: null,
+        executionSteps: [],
+      } as any);
+      workflowRepository.findById.mockResolvedValue({
+        id: 1,
+        userId: 1,
+        enabled: true,
+        publishedVersionId: 4,
+      } as any);
+      executionRepository.create.mockResolvedValue({ id: 6 } as any);
+
+      await service.rerunExecution(5, 1);
+
+      expect(executionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ workflowVersionId: 3 }),
+      );
+    });
+  });
 });
 
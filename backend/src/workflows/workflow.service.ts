@@ -6,19 +6,41 @@ import {
 } from '../common/exceptions/custom-exceptions';
 import { WorkflowRepository } from './repositories/workflow.repository';
 import { ExecutionRepository } from './repositories/execution.repository';
+import { TriggerEventKeyRepository } from './repositories/trigger-event-key.repository';
 import { WorkflowRelationshipHelper } from './repositories/workflow.relationship.helper';
 import { PrismaService } from '../database/prisma.service';
 import { TriggerRegistry } from './triggers/trigger.registry';
-import { ActionRegistry } from './actions/action.registry';
-import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import { CreateWorkflowDto, CreateActionDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
-import { WorkflowStatus, TriggerType } from './interfaces/workflow.interface';
+import {
+  WorkflowStatus,
+  TriggerType,
+  ExecutionEventType,
+  ActionErrorPolicy,
+  ExecutionStepStatus,
+  TriggerDedupe,
+  GmailTriggerMode,
+  WebhookResponseMode,
+} from './interfaces/workflow.interface';
+import {
+  STALE_EXECUTION_TIMEOUT_MS,
+  getWaitResumeJobId,
+} from './execution.service';
 import { PubSubService } from './services/pubsub.service';
+import { ExecutionCancellationService } from './services/execution-cancellation.service';
+import { ExecutionEventsService } from './services/execution-events.service';
 import { GmailService } from './services/gmail.service';
+import { WorkflowValidationService } from './services/workflow-validation.service';
+import { RESPOND_TO_WEBHOOK_ACTION_TYPE } from './services/webhook-response.service';
 import { GoogleOAuthService } from '../auth/services/google-oauth.service';
 import { Queue } from 'bullmq';
 import axios from 'axios';
 
+/**
+ * How long a trigger event's dedupe key suppresses repeats by default
+ */
+export const DEFAULT_TRIGGER_DEDUPE_TTL_SECONDS = 24 * 60 * 60;
+
 @Injectable()
 export class WorkflowService {
   private readonly logger = new Logger(WorkflowService.name);
@@ -28,12 +50,15 @@ export class WorkflowService {
     private readonly executionRepository: ExecutionRepository,
     private readonly relationshipHelper: WorkflowRelationshipHelper,
     private readonly triggerRegistry: TriggerRegistry,
-    private readonly actionRegistry: ActionRegistry,
     private readonly prisma: PrismaService,
     @Inject('WORKFLOW_QUEUE') private readonly workflowQueue: Queue,
     private readonly pubSubService: PubSubService,
     private readonly gmailService: GmailService,
     private readonly googleOAuthService: GoogleOAuthService,
+    private readonly cancellationService: ExecutionCancellationService,
+    private readonly executionEvents: ExecutionEventsService,
+    private readonly validationService: WorkflowValidationService,
+    private readonly triggerEventKeyRepository: TriggerEventKeyRepository,
   ) {}
 
   async create(userId: number, createDto: CreateWorkflowDto) {
@@ -42,23 +67,17 @@ export class WorkflowService {
       `Workflow DTO: ${JSON.stringify({ name: createDto.name, actionCount: createDto.actions.length, triggerType: createDto.trigger.type })}`,
     );
 
-    // Validate that all action types are registered
-    for (const action of createDto.actions) {
-      const handler = this.actionRegistry.getHandler(action.type);
-      if (!handler) {
-        this.logger.error(
-          `Action type "${action.type}" is not registered. Available types: ${this.actionRegistry.getRegisteredTypes().join(', ')}`,
-        );
-        throw new BadRequestException(
-          `Action type "${action.type}" is not registered. Available types: ${this.actionRegistry.getRegisteredTypes().join(', ')}`,
-        );
-      }
-    }
+    // Validate action types, configs and the action graph
+    this.assertValidGraph(createDto.actions);
 
     this.logger.debug(`All ${createDto.actions.length} actions validated`);
 
+    await this.validateErrorWorkflow(userId, createDto.errorWorkflowId);
+    await this.validateTrigger(createDto.trigger);
+    this.assertWebhookCanRespond(createDto.trigger, createDto.actions);
+
     // Validate Pub/Sub topic and Gmail watch for Gmail triggers before saving to database
-    if (createDto.trigger.type === TriggerType.GOOGLE_MAIL) {
+    if (this.usesGmailPush(createDto.trigger)) {
       await this.validatePubSubTopicForGmailTrigger(
         userId,
         createDto.trigger.config,
@@ -78,6 +97,7 @@ export class WorkflowService {
       name: createDto.name,
       description: createDto.description,
       enabled: createDto.enabled ?? true,
+      errorWorkflowId: createDto.errorWorkflowId,
       trigger: {
         type: createDto.trigger.type,
         config: createDto.trigger.config,
@@ -100,6 +120,7 @@ export class WorkflowService {
               },
             }
           : undefined,
+        onError: action.onError,
       })),
     });
 
@@ -110,7 +131,7 @@ export class WorkflowService {
     // Build and set up action relationships
     const actionRelationships = new Map<
       number,
-      { nextActionId?: number; parentActionId?: number }
+      { nextActionId?: number; parentActionId?: number; errorActionId?: number }
     >();
 
     // Map order indices to actual action IDs
@@ -127,8 +148,11 @@ export class WorkflowService {
       const actionId = orderToActionId.get(index);
       if (!actionId) return;
 
-      const relationships: { nextActionId?: number; parentActionId?: number } =
-        {};
+      const relationships: {
+        nextActionId?: number;
+        parentActionId?: number;
+        errorActionId?: number;
+      } = {};
 
       // Handle parallel action: set parentActionId for child actions
       if (action.type === 'parallel' && action.config?.actionIds) {
@@ -198,7 +222,8 @@ export class WorkflowService {
             !action.config?.loopActionId &&
             !action.config?.trueActionId &&
             !action.config?.falseActionId &&
-            action.parentActionOrder === undefined // Don't infer if this is a child action
+            action.parentActionOrder === undefined && // Don't infer if this is a child action
+            action.errorActionOrder !== index + 1 // Nor into its own error branch
           ) {
             const nextActionId = orderToActionId.get(index + 1);
             if (nextActionId) {
@@ -223,6 +248,20 @@ export class WorkflowService {
         }
       }
 
+      // Handle error branch: route failures to the error-handler action
+      if (
+        action.onError === ActionErrorPolicy.BRANCH &&
+        action.errorActionOrder !== undefined
+      ) {
+        const errorActionId = orderToActionId.get(action.errorActionOrder);
+        if (errorActionId) {
+          relationships.errorActionId = errorActionId;
+          this.logger.debug(
+            `Error branch: action ${actionId} -> errorActionId ${errorActionId} (order ${action.errorActionOrder})`,
+          );
+        }
+      }
+
       if (Object.keys(relationships).length > 0) {
         actionRelationships.set(actionId, relationships);
         this.logger.debug(
@@ -233,7 +272,7 @@ export class WorkflowService {
 
     this.logger.log(`Built ${actionRelationships.size} action relationships`);
 
-    // Handle parallel action config updates (need to be done before relationship updates)
+    // Handle parallel and loop action config updates (need to be done before relationship updates)
     for (const action of createDto.actions) {
       if (action.type === 'parallel' && action.config?.actionIds) {
         const actionIndex = createDto.actions.indexOf(action);
@@ -264,6 +303,34 @@ export class WorkflowService {
           );
         }
       }
+
+      if (action.type === 'loop' && action.config?.loopActionId !== undefined) {
+        const actionId = orderToActionId.get(createDto.actions.indexOf(action));
+        const loopBodyActionId = orderToActionId.get(
+          action.config.loopActionId as number,
+        );
+        if (actionId && loopBodyActionId) {
+          this.logger.log(
+            `Updating loop action ${actionId} config: replacing loop body order ${action.config.loopActionId} with action ID ${loopBodyActionId}`,
+          );
+
+          // Update loop action config with the real body action ID (not the order index)
+          await this.prisma.action.update({
+            where: { id: actionId },
+            data: {
+              config: { ...action.config, loopActionId: loopBodyActionId },
+            },
+          });
+        }
+      }
+
+      if (action.type === 'conditional') {
+        await this.remapConditionalBranches(
+          action,
+          orderToActionId.get(createDto.actions.indexOf(action)),
+          orderToActionId,
+        );
+      }
     }
 
     // Update action relationships in database
@@ -317,7 +384,7 @@ export class WorkflowService {
 
     // Create Pub/Sub subscription for Gmail triggers after saving workflow
     if (
-      createDto.trigger.type === TriggerType.GOOGLE_MAIL &&
+      this.usesGmailPush(createDto.trigger) &&
       this.pubSubService.isAvailable()
     ) {
       try {
@@ -349,6 +416,139 @@ export class WorkflowService {
     return workflowWithRelations;
   }
 
+  /**
+   * Replace the order indices in a conditional action's trueActionId / falseActionId
+   * with the real action IDs (actions are recreated on every save, so IDs can't be sent).
+   * Exported definitions refer to branches by order index, like loopActionId, so
+   * without this an imported conditional would branch to unrelated action IDs.
+   */
+  private async remapConditionalBranches(
+    action: CreateActionDto,
+    actionId: number | undefined,
+    orderToActionId: Map<number, number>,
+  ): Promise<void> {
+    const config = { ...action.config };
+    let changed = false;
+    for (const key of ['trueActionId', 'falseActionId']) {
+      const branchActionId =
+        typeof config[key] === 'number'
+          ? orderToActionId.get(config[key])
+          : undefined;
+      if (branchActionId) {
+        config[key] = branchActionId;
+        changed = true;
+      }
+    }
+    if (!actionId || !changed) {
+      return;
+    }
+
+    this.logger.log(
+      `Updating conditional action ${actionId} config: branches -> ${config.trueActionId} / ${config.falseActionId}`,
+    );
+    await this.prisma.action.update({
+      where: { id: actionId },
+      data: { config },
+    });
+  }
+
+  /**
+   * Reject actions with graph or config errors; warnings don't block saving
+   */
+  private assertValidGraph(actions: CreateActionDto[]): void {
+    const { errors, warnings } = this.validationService.validate(actions);
+    for (const warning of warnings) {
+      this.logger.warn(warning.message);
+    }
+    if (errors.length === 0) {
+      return;
+    }
+
+    this.logger.warn(
+      `Workflow rejected with ${errors.length} validation errors: ${errors.map((e) => e.code).join(', ')}`,
+    );
+    throw new BadRequestException(
+      errors.length === 1
+        ? errors[0].message
+        : `Workflow has ${errors.length} errors: ${errors.map((e) => e.message).join('; ')}`,
+      { errors, warnings },
+    );
+  }
+
+  /**
+   * The error workflow must be another workflow owned by the same user
+   */
+  private async validateErrorWorkflow(
+    userId: number,
+    errorWorkflowId: number | null | undefined,
+    workflowId?: number,
+  ): Promise<void> {
+    if (errorWorkflowId === undefined || errorWorkflowId === null) {
+      return;
+    }
+
+    if (errorWorkflowId === workflowId) {
+      throw new BadRequestException(
+        'A workflow cannot be its own error workflow',
+      );
+    }
+
+    const errorWorkflow =
+      await this.workflowRepository.findById(errorWorkflowId);
+    if (!errorWorkflow || errorWorkflow.userId !== userId) {
+      throw new BadRequestException(
+        `Error workflow ${errorWorkflowId} not found`,
+      );
+    }
+  }
+
+  /**
+   * Check a trigger's config with its handler, so a trigger that would fail every
+   * event is not saved
+   */
+  private async validateTrigger(trigger: {
+    type: TriggerType;
+    config: Record<string, any>;
+  }): Promise<void> {
+    const handler = this.triggerRegistry.getHandler(trigger.type);
+    if (!handler) {
+      throw new BadRequestException(`Unknown trigger type "${trigger.type}"`);
+    }
+    if (!(await handler.validate(trigger.config || {}))) {
+      throw new BadRequestException(`Invalid ${handler.name} configuration`);
+    }
+  }
+
+  /**
+   * A webhook answered by a Respond to Webhook step would otherwise hold every
+   * request until the response timeout
+   */
+  private assertWebhookCanRespond(
+    trigger: { type: string; config?: any } | null,
+    actions: { type: string }[],
+  ): void {
+    if (
+      trigger?.type === TriggerType.WEBHOOK &&
+      trigger.config?.responseMode === WebhookResponseMode.RESPOND_NODE &&
+      !actions.some((action) => action.type === RESPOND_TO_WEBHOOK_ACTION_TYPE)
+    ) {
+      throw new BadRequestException(
+        'Webhook response mode "respondNode" requires a Respond to Webhook action',
+      );
+    }
+  }
+
+  /**
+   * Gmail triggers in push mode receive notifications through Pub/Sub; poll mode
+   * needs neither the topic nor the watch
+   */
+  private usesGmailPush(trigger: { type: string; config?: any }): boolean {
+    return (
+      trigger.type === TriggerType.GOOGLE_MAIL &&
+      trigger.config?.mode !== GmailTriggerMode.POLL
+    );
+  }
+
   /**
    * Validate Pub/Sub topic creation for Gmail triggers
    * Ensures topic can be created before saving workflow to database
@@ -570,13 +770,18 @@ export class WorkflowService {
     );
 
     const workflow = await this.findById(id, userId);
+    this.assertWebhookCanRespond(
+      data.trigger ?? workflow.trigger,
+      data.actions?.length ? data.actions : workflow.actions,
+    );
 
     // Update trigger if provided
     if (data.trigger) {
       this.logger.log(`Updating trigger for workflow ${id}`);
+      await this.validateTrigger(data.trigger);
 
       // Validate Pub/Sub topic and Gmail watch for Gmail triggers before updating database
-      if (data.trigger.type === TriggerType.GOOGLE_MAIL) {
+      if (this.usesGmailPush(data.trigger)) {
         await this.validatePubSubTopicForGmailTrigger(
           userId,
           data.trigger.config,
@@ -605,16 +810,8 @@ export class WorkflowService {
         `Updating ${data.actions.length} actions for workflow ${id}`,
       );
 
-      // Validate all action types
-      for (const action of data.actions) {
-        const handler = this.actionRegistry.getHandler(action.type);
-        if (!handler) {
-          this.logger.error(`Action type "${action.type}" is not registered`);
-          throw new BadRequestException(
-            `Action type "${action.type}" is not registered. Available types: ${this.actionRegistry.getRegisteredTypes().join(', ')}`,
-          );
-        }
-      }
+      // Validate action types, configs and the action graph
+      this.assertValidGraph(data.actions);
 
       // Delete existing actions (cascade will handle relationships)
       this.logger.debug(`Deleting existing actions for workflow ${id}`);
@@ -646,6 +843,7 @@ export class WorkflowService {
                     },
                   }
                 : undefined,
+              onError: action.onError,
             } as any,
           }),
         ),
@@ -658,7 +856,11 @@ export class WorkflowService {
       // Build and set up action relationships (same logic as create)
       const actionRelationships = new Map<
         number,
-        { nextActionId?: number; parentActionId?: number }
+        {
+          nextActionId?: number;
+          parentActionId?: number;
+          errorActionId?: number;
+        }
       >();
 
       // Map order indices to actual action IDs
@@ -678,6 +880,7 @@ export class WorkflowService {
         const relationships: {
           nextActionId?: number;
           parentActionId?: number;
+          errorActionId?: number;
         } = {};
 
         // Handle parallel action: set parentActionId for child actions
@@ -744,7 +947,8 @@ export class WorkflowService {
               !action.config?.loopActionId &&
               !action.config?.trueActionId &&
               !action.config?.falseActionId &&
-              action.parentActionOrder === undefined
+              action.parentActionOrder === undefined &&
+              action.errorActionOrder !== index + 1
             ) {
               const nextActionId = orderToActionId.get(index + 1);
               if (nextActionId) {
@@ -769,6 +973,20 @@ export class WorkflowService {
           }
         }
 
+        // Handle error branch: route failures to the error-handler action
+        if (
+          action.onError === ActionErrorPolicy.BRANCH &&
+          action.errorActionOrder !== undefined
+        ) {
+          const errorActionId = orderToActionId.get(action.errorActionOrder);
+          if (errorActionId) {
+            relationships.errorActionId = errorActionId;
+            this.logger.debug(
+              `Error branch: action ${actionId} -> errorActionId ${errorActionId} (order ${action.errorActionOrder})`,
+            );
+          }
+        }
+
         if (Object.keys(relationships).length > 0) {
           actionRelationships.set(actionId, relationships);
           this.logger.debug(
@@ -779,7 +997,7 @@ export class WorkflowService {
 
       this.logger.log(`Built ${actionRelationships.size} action relationships`);
 
-      // Handle parallel action config updates
+      // Handle parallel and loop action config updates
       for (const action of data.actions) {
         if (action.type === 'parallel' && action.config?.actionIds) {
           const actionIndex = data.actions.indexOf(action);
@@ -809,6 +1027,36 @@ export class WorkflowService {
             );
           }
         }
+
+        if (
+          action.type === 'loop' &&
+          action.config?.loopActionId !== undefined
+        ) {
+          const actionId = orderToActionId.get(data.actions.indexOf(action));
+          const loopBodyActionId = orderToActionId.get(
+            action.config.loopActionId as number,
+          );
+          if (actionId && loopBodyActionId) {
+            this.logger.log(
+              `Updating loop action ${actionId} config: replacing loop body order ${action.config.loopActionId} with action ID ${loopBodyActionId}`,
+            );
+
+            await this.prisma.action.update({
+              where: { id: actionId },
+              data: {
+                config: { ...action.config, loopActionId: loopBodyActionId },
+              },
+            });
+          }
+        }
+
+        if (action.type === 'conditional') {
+          await this.remapConditionalBranches(
+            action,
+            orderToActionId.get(data.actions.indexOf(action)),
+            orderToActionId,
+          );
+        }
       }
 
       // Update action relationships in database
@@ -829,11 +1077,26 @@ export class WorkflowService {
       name?: string;
       description?: string;
       enabled?: boolean;
+      errorWorkflowId?: number | null;
+      hasUnpublishedChanges?: boolean;
     } = {};
     if (data.name !== undefined) updateData.name = data.name;
     if (data.description !== undefined)
       updateData.description = data.description;
     if (data.enabled !== undefined) updateData.enabled = data.enabled;
+    if (
+      data.name !== undefined ||
+      data.description !== undefined ||
+      data.trigger ||
+      data.actions?.length
+    ) {
+      // The draft now differs from the published version
+      updateData.hasUnpublishedChanges = true;
+    }
+    if (data.errorWorkflowId !== undefined) {
+      await this.validateErrorWorkflow(userId, data.errorWorkflowId, id);
+      updateData.errorWorkflowId = data.errorWorkflowId;
+    }
 
     if (Object.keys(updateData).length > 0) {
       await this.workflowRepository.update(id, updateData);
@@ -848,11 +1111,15 @@ export class WorkflowService {
       throw new NotFoundException('Workflow', id);
     }
 
-    // If enabled status changed, register/unregister trigger
+    // If enabled status changed, register/unregister trigger. Once published, the
+    // live trigger is the published version's, not the draft's.
     const wasEnabled = workflow.enabled;
     const isEnabled =
       data.enabled !== undefined ? data.enabled : workflow.enabled;
-    const trigger = (updated as any).trigger;
+    const trigger = (updated.publishedVersion?.trigger ?? updated.trigger) as {
+      type: string;
+      config: unknown;
+    } | null;
 
     if (data.enabled !== undefined && isEnabled !== wasEnabled) {
       if (isEnabled && trigger) {
@@ -870,8 +1137,13 @@ export class WorkflowService {
         await this.triggerRegistry.unregister(updated.id);
         this.logger.debug(`Trigger unregistered for workflow ${id}`);
       }
-    } else if (data.trigger && workflow.enabled) {
-      // If trigger was updated and workflow is enabled, re-register it
+    } else if (
+      data.trigger &&
+      workflow.enabled &&
+      !workflow.publishedVersionId
+    ) {
+      // If trigger was updated and workflow is enabled, re-register it (a published
+      // workflow's trigger edits are part of the draft and go live on publish)
       this.logger.log(
         `Re-registering trigger for workflow ${id} (type: ${data.trigger.type})`,
       );
@@ -885,7 +1157,7 @@ export class WorkflowService {
 
       // Create Pub/Sub subscription for Gmail triggers after updating trigger
       if (
-        data.trigger.type === TriggerType.GOOGLE_MAIL &&
+        this.usesGmailPush(data.trigger) &&
         this.pubSubService.isAvailable()
       ) {
         try {
@@ -931,10 +1203,44 @@ export class WorkflowService {
     this.logger.log(`Workflow ${id} deleted successfully`);
   }
 
+  /**
+   * Pin a sample trigger payload to the workflow as its default test input,
+   * or unpin it with null
+   */
+  async setPinnedTriggerData(
+    id: number,
+    userId: number,
+    triggerData: Record<string, any> | null,
+  ) {
+    await this.findById(id, userId);
+    this.logger.log(
+      `${triggerData ? 'Pinning' : 'Unpinning'} trigger data for workflow ${id}`,
+    );
+    return this.workflowRepository.setPinnedTriggerData(id, triggerData);
+  }
+
+  /**
+   * Create an execution and queue it.
+   * The execution runs the published version; draft runs (`draft: true`, and workflows
+   * that were never published) run the current draft.
+   * Sub-workflow runs pass the parent execution and step they belong to; with
+   * `enqueue: false` the caller runs the execution itself.
+   * Dry runs (`dryRun: true`) preview actions with side effects instead of running
+   * them, use `mockOutputs` for the named actions, and may run disabled workflows.
+   */
   async trigger(
     workflowId: number,
     userId: number,
     triggerData?: Record<string, any>,
+    options: {
+      parentExecutionId?: number;
+      parentStepId?: number;
+      enqueue?: boolean;
+      draft?: boolean;
+      workflowVersionId?: number; // Run this version instead of the published one
+      dryRun?: boolean;
+      mockOutputs?: Record<string, any>;
+    } = {},
   ) {
     this.logger.log(`Triggering workflow ${workflowId} for user ${userId}`);
     this.logger.debug(`Trigger data: ${JSON.stringify(triggerData || {})}`);
@@ -946,7 +1252,7 @@ export class WorkflowService {
       throw new NotFoundException('Workflow', workflowId);
     }
 
-    if (!workflow.enabled) {
+    if (!workflow.enabled && !options.dryRun) {
       this.logger.warn(`Attempted to trigger disabled workflow ${workflowId}`);
       throw new WorkflowException(
         `Workflow ${workflowId} is disabled and cannot be executed`,
@@ -960,22 +1266,371 @@ export class WorkflowService {
       userId,
       status: WorkflowStatus.PENDING,
       triggerData: triggerData || {},
+      parentExecutionId: options.parentExecutionId,
+      parentStepId: options.parentStepId,
+      dryRun: options.dryRun,
+      mockOutputs: options.dryRun ? options.mockOutputs : undefined,
+      workflowVersionId: options.draft
+        ? undefined
+        : (options.workflowVersionId ??
+          workflow.publishedVersionId ??
+          undefined),
     });
 
+    if (options.enqueue === false) {
+      this.logger.log(
+        `Execution ${execution.id} created for workflow ${workflowId}, run by the caller`,
+      );
+      return execution;
+    }
+
     this.logger.log(
       `Execution ${execution.id} created for workflow ${workflowId}, queuing for processing`,
     );
 
     // Queue execution for processing
+    await this.enqueueExecution({
+      id: execution.id,
+      workflowId,
+      userId,
+      triggerData: triggerData || {},
+    });
+
+    this.logger.debug(`Execution ${execution.id} queued successfully`);
+    return execution;
+  }
+
+  /**
+   * Start an execution for a trigger event unless an event with the same dedupe
+   * key already started one (redelivered Pub/Sub notifications, webhook retries).
+   * Suppressed duplicates are counted on the original execution.
+   */
+  async triggerOnce(
+    workflowId: number,
+    userId: number,
+    triggerData: Record<string, any>,
+    dedupe: TriggerDedupe,
+  ): Promise<
+    | { duplicate: false; executionId: number }
+    | { duplicate: true; executionId: number | null }
+  > {
+    const ttlSeconds = dedupe.ttlSeconds ?? DEFAULT_TRIGGER_DEDUPE_TTL_SECONDS;
+    const eventKey = await this.triggerEventKeyRepository.claim(
+      workflowId,
+      dedupe.key,
+      new Date(Date.now() + ttlSeconds * 1000),
+    );
+
+    if (!eventKey) {
+      const executionId = await this.triggerEventKeyRepository.recordDuplicate(
+        workflowId,
+        dedupe.key,
+      );
+      this.logger.log(
+        `Duplicate trigger event "${dedupe.key}" for workflow ${workflowId} suppressed${executionId !== null ? ` (execution ${executionId})` : ''}`,
+      );
+      return { duplicate: true, executionId };
+    }
+
+    try {
+      const execution = await this.trigger(workflowId, userId, triggerData);
+      await this.triggerEventKeyRepository.attachExecution(
+        eventKey.id,
+        execution.id,
+      );
+      return { duplicate: false, executionId: execution.id };
+    } catch (error) {
+      await this.triggerEventKeyRepository.release(eventKey.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a failed or orphaned execution from where it stopped.
+   * Completed steps are not re-run; their stored outputs are reused.
+   */
+  async resumeExecution(executionId: number, userId: number) {
+    this.logger.log(`Resuming execution ${executionId} for user ${userId}`);
+
+    const execution = await this.executionRepository.findById(executionId);
+    if (!execution || execution.userId !== userId) {
+      throw new NotFoundException('Execution', executionId);
+    }
+
+    let resumeCount: number | null = null;
+    if (execution.status === WorkflowStatus.FAILED) {
+      resumeCount = await this.executionRepository.markForResume(executionId, {
+        fromStatuses: [WorkflowStatus.FAILED],
+      });
+    } else if (execution.status === WorkflowStatus.RUNNING) {
+      // Only running executions whose worker stopped sending heartbeats can be resumed
+      resumeCount = await this.executionRepository.markForResume(executionId, {
+        fromStatuses: [WorkflowStatus.RUNNING],
+        staleBefore: new Date(Date.now() - STALE_EXECUTION_TIMEOUT_MS),
+      });
+      if (resumeCount === null) {
+        throw new BadRequestException(
+          `Execution ${executionId} is still running and cannot be resumed`,
+        );
+      }
+    }
+
+    if (resumeCount === null) {
+      throw new BadRequestException(
+        `Execution ${executionId} is ${execution.status} and cannot be resumed`,
+      );
+    }
+
+    await this.enqueueExecution({
+      id: execution.id,
+      workflowId: execution.workflowId,
+      userId: execution.userId,
+      triggerData: execution.triggerData,
+      resumeCount,
+    });
+
+    this.logger.log(`Execution ${executionId} queued for resume`);
+    return this.executionRepository.findById(executionId);
+  }
+
+  /**
+   * Run a finished execution again with its trigger data, as a new execution.
+   * From the beginning it is triggered like any other run (dry runs stay dry runs).
+   * From a failed step it runs the same workflow version, reusing the outputs of the
+   * steps that completed before that step started; the failed step and everything
+   * after it run again.
+   */
+  async rerunExecution(
+    executionId: number,
+    userId: number,
+    options: { fromStepId?: number } = {},
+  ) {
+    this.logger.log(`Re-running execution ${executionId} for user ${userId}`);
+
+    const original = await this.executionRepository.findById(executionId);
+    if (!original || original.userId !== userId) {
+      throw new NotFoundException('Execution', executionId);
+    }
+
+    if (
+      [
+        WorkflowStatus.PENDING,
+        WorkflowStatus.RUNNING,
+        WorkflowStatus.WAITING,
+      ].includes(original.status as WorkflowStatus)
+    ) {
+      throw new BadRequestException(
+        `Execution ${executionId} is ${original.status} and cannot be re-run`,
+      );
+    }
+
+    const triggerData = (original.triggerData as Record<string, any>) || {};
+    const mockOutputs =
+      (original.mockOutputs as Record<string, any> | null) ?? undefined;
+
+    // Both kinds of re-run use the version the original ran, not the current one
+    if (options.fromStepId === undefined) {
+      return this.trigger(original.workflowId, userId, triggerData, {
+        draft: original.workflowVersionId === null,
+        workflowVersionId: original.workflowVersionId ?? undefined,
+        dryRun: original.dryRun,
+        mockOutputs,
+      });
+    }
+
+    const step = original.executionSteps.find(
+      (s) => s.id === options.fromStepId,
+    );
+    if (!step) {
+      throw new NotFoundException('Execution step', options.fromStepId);
+    }
+    if (step.status !== ExecutionStepStatus.FAILED) {
+      throw new BadRequestException(
+        `Step ${step.id} is ${step.status}; only a failed step can be re-run from`,
+      );
+    }
+
+    if (!original.workflow.enabled && !original.dryRun) {
+      throw new WorkflowException(
+        `Workflow ${original.workflowId} is disabled and cannot be executed`,
+      );
+    }
+
+    const execution = await this.executionRepository.create({
+      workflowId: original.workflowId,
+      userId,
+      status: WorkflowStatus.PENDING,
+      triggerData,
+      workflowVersionId: original.workflowVersionId ?? undefined,
+      dryRun: original.dryRun,
+      mockOutputs,
+    });
+    const reused = await this.executionRepository.copyCompletedSteps(
+      original.id,
+      execution.id,
+      step.startedAt ?? step.createdAt,
+    );
+
+    this.logger.log(
+      `Execution ${execution.id} re-runs execution ${executionId} from step ${step.id} (${reused} completed steps reused)`,
+    );
+    await this.enqueueExecution({
+      id: execution.id,
+      workflowId: original.workflowId,
+      userId,
+      triggerData,
+    });
+    return execution;
+  }
+
+  /**
+   * Requeue a running execution whose worker died (used by the stale-execution reaper).
+   * Returns false if another process already claimed it or it recovered.
+   */
+  async requeueStaleExecution(
+    execution: {
+      id: number;
+      workflowId: number;
+      userId: number;
+      triggerData?: any;
+    },
+    staleBefore: Date,
+  ): Promise<boolean> {
+    const resumeCount = await this.executionRepository.markForResume(
+      execution.id,
+      { fromStatuses: [WorkflowStatus.RUNNING], staleBefore },
+    );
+    if (resumeCount === null) {
+      return false;
+    }
+
+    await this.enqueueExecution({ ...execution, resumeCount });
+    return true;
+  }
+
+  /**
+   * Cancel a queued, running or waiting execution.
+   * A queued job is removed from the queue; a running execution is signalled and stops
+   * before its next step, aborting an in-flight wait or HTTP request.
+   */
+  async cancelExecution(executionId: number, userId: number) {
+    this.logger.log(`Cancelling execution ${executionId} for user ${userId}`);
+
+    const execution = await this.executionRepository.findById(executionId);
+    if (!execution || execution.userId !== userId) {
+      throw new NotFoundException('Execution', executionId);
+    }
+
+    const status = execution.status as WorkflowStatus;
+    const cancellable =
+      (status === WorkflowStatus.PENDING ||
+        status === WorkflowStatus.RUNNING ||
+        status === WorkflowStatus.WAITING) &&
+      (await this.executionRepository.markCancelled(executionId, status));
+    if (!cancellable) {
+      throw new BadRequestException(
+        `Execution ${executionId} is ${execution.status} and cannot be cancelled`,
+      );
+    }
+
+    if (status === WorkflowStatus.WAITING) {
+      // Parked, so no worker holds it and it can no longer be claimed: finalize here
+      if (execution.waitUntil) {
+        await this.removeQueuedJob(
+          getWaitResumeJobId(executionId, execution.waitUntil),
+        );
+      }
+      await this.finishCancelledExecution(execution);
+      return this.executionRepository.findById(executionId);
+    }
+
+    if (status === WorkflowStatus.PENDING) {
+      const removed = await this.removeQueuedJob(
+        this.getExecutionJobId(executionId, execution.resumeCount),
+      );
+      if (removed) {
+        // Never picked up by a worker: finalize here
+        await this.finishCancelledExecution(execution);
+        this.logger.log(`Removed queued job for execution ${executionId}`);
+        return this.executionRepository.findById(executionId);
+      }
+    }
+
+    // Already picked up by a worker: a running one stops at the next step, and one
+    // that is only starting sees the cancelled status (ExecutionService.execute);
+    // either way the worker finalizes the cancellation
+    void this.cancellationService.requestCancel(executionId);
+    this.logger.log(`Cancellation requested for execution ${executionId}`);
+    return this.executionRepository.findById(executionId);
+  }
+
+  private async finishCancelledExecution(execution: {
+    id: number;
+    workflow: { actions: { id: number; order: number }[] };
+  }) {
+    await this.executionRepository.skipRemainingSteps(
+      execution.id,
+      execution.workflow.actions,
+    );
+    await this.executionRepository.update(execution.id, {
+      status: WorkflowStatus.CANCELLED,
+      completedAt: new Date(),
+    });
+    this.executionEvents.publish({
+      type: ExecutionEventType.EXECUTION_STATUS,
+      executionId: execution.id,
+      status: WorkflowStatus.CANCELLED,
+    });
+  }
+
+  /**
+   * Remove a job that has not started yet; returns false if it is running or gone
+   */
+  private async removeQueuedJob(jobId: string): Promise<boolean> {
+    try {
+      const job = await this.workflowQueue.getJob(jobId);
+      if (!job) {
+        return false;
+      }
+      const state = await job.getState();
+      if (!['waiting', 'delayed', 'prioritized', 'paused'].includes(state)) {
+        return false;
+      }
+      await job.remove();
+      return true;
+    } catch (error: any) {
+      this.logger.warn(
+        `Failed to remove queued job ${jobId}: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Job IDs are derived from the execution so queued jobs can be found again (e.g. to cancel).
+   * The resume count keeps them unique when an execution is requeued.
+   */
+  private getExecutionJobId(executionId: number, resumeCount = 0): string {
+    return `execution-${executionId}-${resumeCount}`;
+  }
+
+  private async enqueueExecution(execution: {
+    id: number;
+    workflowId: number;
+    userId: number;
+    triggerData?: any;
+    resumeCount?: number;
+  }) {
     await this.workflowQueue.add(
       'execute-workflow',
       {
         executionId: execution.id,
-        workflowId,
-        userId,
-        triggerData: triggerData || {},
+        workflowId: execution.workflowId,
+        userId: execution.userId,
+        triggerData: execution.triggerData || {},
       },
       {
+        jobId: this.getExecutionJobId(execution.id, execution.resumeCount),
         attempts: 3,
         backoff: {
           type: 'exponential',
@@ -983,8 +1638,5 @@ export class WorkflowService {
         },
       },
     );
-
-    this.logger.debug(`Execution ${execution.id} queued successfully`);
-    return execution;
   }
 }
@@ -6,6 +6,7 @@ import WorkflowListPage from './pages/WorkflowListPage'
 import WorkflowEditorPage from './pages/WorkflowEditorPage'
 import WorkflowBuilderPage from './pages/WorkflowBuilderPage'
 import WorkflowRunPage from './pages/WorkflowRunPage'
+import TemplateGalleryPage from './pages/TemplateGalleryPage'
 import ProtectedRoute from './routes/ProtectedRoute'
 import OAuthRedirectHandler from './components/OAuthRedirectHandler'
 import GoogleOAuthCallbackPage from './pages/GoogleOAuthCallbackPage'
@@ -21,6 +22,7 @@ function App() {
             <Route path="/signup" element={<SignupPage />} />
             <Route path="/dashboard" element={<ProtectedRoute><DashboardPage /></ProtectedRoute>} />
             <Route path="/workflows" element={<ProtectedRoute><WorkflowListPage /></ProtectedRoute>} />
+            <Route path="/templates" element={<ProtectedRoute><TemplateGalleryPage /></ProtectedRoute>} />
             <Route path="/workflows/new" element={<ProtectedRoute><WorkflowBuilderPage /></ProtectedRoute>} />
             <Route path="/workflows/:id/edit" element={<ProtectedRoute><WorkflowBuilderPage /></ProtectedRoute>} />
             <Route path="/workflows/:id" element={<ProtectedRoute><WorkflowBuilderPage /></ProtectedRoute>} />
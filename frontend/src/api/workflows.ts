@@ -4,6 +4,20 @@ import {
   UpdateWorkflowRequest,
   TriggerWorkflowRequest,
   ExecutionResponse,
+  ExecutionStreamMessage,
+  WorkflowVersionResponse,
+  WorkflowVersionDiff,
+  WorkflowDefinitionFormat,
+  ImportWorkflowResponse,
+  WorkflowTemplate,
+  SaveAsTemplateRequest,
+  InstantiateTemplateRequest,
+  StepTestRequest,
+  StepTestResult,
+  RerunExecutionRequest,
+  CreateAction,
+  WorkflowValidationResult,
+  ActionTypesResponse,
 } from '../types/workflows';
 import { apiClient } from './axios';
 
@@ -98,17 +112,126 @@ export const deleteWorkflow = async (id: number): Promise<void> => {
   }
 };
 
+/**
+ * Download a workflow definition file (secrets are removed by the backend)
+ */
+export const exportWorkflow = async (
+  id: number,
+  format: WorkflowDefinitionFormat = 'json',
+): Promise<{ filename: string; content: string }> => {
+  try {
+    console.log(`📡 [API] GET /workflows/${id}/export - Request sent`, { format });
+    const res = await apiClient.get<string>(`/workflows/${id}/export`, {
+      params: { format },
+      responseType: 'text',
+      transformResponse: (data) => data, // Keep the file as text
+    });
+    const disposition = String(res.headers['content-disposition'] || '');
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `workflow-${id}.workflow.${format}`;
+    console.log(`✅ [API] GET /workflows/${id}/export - Response received`, { filename });
+    return { filename, content: res.data };
+  } catch (err: any) {
+    console.error(`❌ [API] GET /workflows/${id}/export - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to export workflow');
+  }
+};
+
+/**
+ * Create a workflow from a JSON or YAML definition file
+ */
+export const importWorkflow = async (content: string): Promise<ImportWorkflowResponse> => {
+  try {
+    console.log('📡 [API] POST /workflows/import - Request sent', { length: content.length });
+    const res = await apiClient.post<ImportWorkflowResponse>('/workflows/import', { content });
+    console.log('✅ [API] POST /workflows/import - Response received', { id: res.data.workflow.id, warnings: res.data.warnings.length });
+    return res.data;
+  } catch (err: any) {
+    console.error('❌ [API] POST /workflows/import - Error:', err);
+    const details: string[] | undefined = err.response?.data?.details;
+    const message = err.response?.data?.message || err.message || 'Failed to import workflow';
+    throw new Error(details?.length ? `${message}: ${details.join('; ')}` : message);
+  }
+};
+
+/**
+ * Get the built-in templates and the templates saved by the current user
+ */
+export const getTemplates = async (category?: string): Promise<WorkflowTemplate[]> => {
+  try {
+    console.log('📡 [API] GET /templates - Request sent', { category });
+    const res = await apiClient.get<WorkflowTemplate[]>('/templates', {
+      params: category ? { category } : undefined,
+    });
+    console.log('✅ [API] GET /templates - Response received', { count: res.data.length });
+    return res.data;
+  } catch (err: any) {
+    console.error('❌ [API] GET /templates - Error:', err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to fetch templates');
+  }
+};
+
+/**
+ * Save a workflow as a template (secrets are removed by the backend)
+ */
+export const saveAsTemplate = async (data: SaveAsTemplateRequest): Promise<WorkflowTemplate> => {
+  try {
+    console.log('📡 [API] POST /templates - Request sent', data);
+    const res = await apiClient.post<WorkflowTemplate>('/templates', data);
+    console.log('✅ [API] POST /templates - Response received', { id: res.data.id });
+    return res.data;
+  } catch (err: any) {
+    console.error('❌ [API] POST /templates - Error:', err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to save template');
+  }
+};
+
+/**
+ * Create a (disabled) workflow from a template
+ */
+export const instantiateTemplate = async (
+  id: number,
+  data: InstantiateTemplateRequest,
+): Promise<ImportWorkflowResponse> => {
+  try {
+    console.log(`📡 [API] POST /templates/${id}/instantiate - Request sent`, data);
+    const res = await apiClient.post<ImportWorkflowResponse>(`/templates/${id}/instantiate`, data);
+    console.log(`✅ [API] POST /templates/${id}/instantiate - Response received`, { workflowId: res.data.workflow.id });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /templates/${id}/instantiate - Error:`, err);
+    const details: string[] | undefined = err.response?.data?.details;
+    const message = err.response?.data?.message || err.message || 'Failed to create workflow from template';
+    throw new Error(details?.length ? `${message}: ${details.join('; ')}` : message);
+  }
+};
+
+/**
+ * Delete a template saved by the current user
+ */
+export const deleteTemplate = async (id: number): Promise<void> => {
+  try {
+    console.log(`📡 [API] DELETE /templates/${id} - Request sent`);
+    await apiClient.delete(`/templates/${id}`);
+    console.log(`✅ [API] DELETE /templates/${id} - Template deleted`);
+  } catch (err: any) {
+    console.error(`❌ [API] DELETE /templates/${id} - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to delete template');
+  }
+};
+
 /**
  * Trigger/execute a workflow
  */
 export const executeWorkflow = async (
   id: number,
   triggerData?: Record<string, any>,
+  options: Omit<TriggerWorkflowRequest, 'triggerData'> = {},
 ): Promise<ExecutionResponse> => {
   try {
-    console.log(`📡 [API] POST /workflows/${id}/trigger - Request sent`, { hasTriggerData: !!triggerData });
+    console.log(`📡 [API] POST /workflows/${id}/trigger - Request sent`, { hasTriggerData: !!triggerData, draft: !!options.draft, dryRun: !!options.dryRun });
     const res = await apiClient.post<ExecutionResponse>(`/workflows/${id}/trigger`, {
       triggerData,
+      ...options,
     });
     console.log(`✅ [API] POST /workflows/${id}/trigger - Response received`, { executionId: res.data.id, status: res.data.status });
     return res.data;
@@ -118,6 +241,123 @@ export const executeWorkflow = async (
   }
 };
 
+/**
+ * Run a single action on its own, without creating an execution
+ */
+export const testStep = async (id: number, data: StepTestRequest): Promise<StepTestResult> => {
+  try {
+    console.log(`📡 [API] POST /workflows/${id}/test-step - Request sent`, { type: data.type, useLastExecution: !!data.useLastExecution });
+    const res = await apiClient.post<StepTestResult>(`/workflows/${id}/test-step`, data);
+    console.log(`✅ [API] POST /workflows/${id}/test-step - Response received`, { status: res.data.status, durationMs: res.data.durationMs });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /workflows/${id}/test-step - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to test step');
+  }
+};
+
+/**
+ * Check actions for graph and config problems without saving them
+ */
+export const validateWorkflow = async (actions: CreateAction[]): Promise<WorkflowValidationResult> => {
+  try {
+    console.log('📡 [API] POST /workflows/validate - Request sent', { actionCount: actions.length });
+    const res = await apiClient.post<WorkflowValidationResult>('/workflows/validate', { actions });
+    console.log('✅ [API] POST /workflows/validate - Response received', {
+      errors: res.data.errors.length,
+      warnings: res.data.warnings.length,
+    });
+    return res.data;
+  } catch (err: any) {
+    console.error('❌ [API] POST /workflows/validate - Error:', err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to validate workflow');
+  }
+};
+
+/**
+ * Get the available action and trigger types, with the schemas of their configs and outputs
+ */
+export const getActionTypes = async (): Promise<ActionTypesResponse> => {
+  try {
+    console.log('📡 [API] GET /workflows/action-types - Request sent');
+    const res = await apiClient.get<ActionTypesResponse>('/workflows/action-types');
+    console.log('✅ [API] GET /workflows/action-types - Response received', {
+      actions: res.data.actions.length,
+      triggers: res.data.triggers.length,
+    });
+    return res.data;
+  } catch (err: any) {
+    console.error('❌ [API] GET /workflows/action-types - Error:', err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to fetch action types');
+  }
+};
+
+/**
+ * Publish the workflow draft as a new version
+ */
+export const publishWorkflow = async (id: number, note?: string): Promise<WorkflowVersionResponse> => {
+  try {
+    console.log(`📡 [API] POST /workflows/${id}/publish - Request sent`);
+    const res = await apiClient.post<WorkflowVersionResponse>(`/workflows/${id}/publish`, { note });
+    console.log(`✅ [API] POST /workflows/${id}/publish - Response received`, { version: res.data.version });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /workflows/${id}/publish - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to publish workflow');
+  }
+};
+
+/**
+ * Get the published versions of a workflow, newest first
+ */
+export const getWorkflowVersions = async (id: number): Promise<WorkflowVersionResponse[]> => {
+  try {
+    console.log(`📡 [API] GET /workflows/${id}/versions - Request sent`);
+    const res = await apiClient.get<WorkflowVersionResponse[]>(`/workflows/${id}/versions`);
+    console.log(`✅ [API] GET /workflows/${id}/versions - Response received`, { count: res.data.length });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] GET /workflows/${id}/versions - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to fetch versions');
+  }
+};
+
+/**
+ * Compare two versions of a workflow
+ */
+export const diffWorkflowVersions = async (
+  id: number,
+  from: number,
+  to: number,
+): Promise<WorkflowVersionDiff> => {
+  try {
+    console.log(`📡 [API] GET /workflows/${id}/versions/diff - Request sent`, { from, to });
+    const res = await apiClient.get<WorkflowVersionDiff>(`/workflows/${id}/versions/diff`, {
+      params: { from: from.toString(), to: to.toString() },
+    });
+    console.log(`✅ [API] GET /workflows/${id}/versions/diff - Response received`);
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] GET /workflows/${id}/versions/diff - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to compare versions');
+  }
+};
+
+/**
+ * Roll a workflow back to an earlier version
+ */
+export const rollbackWorkflowVersion = async (id: number, version: number): Promise<WorkflowResponse> => {
+  try {
+    console.log(`📡 [API] POST /workflows/${id}/versions/${version}/rollback - Request sent`);
+    const res = await apiClient.post<WorkflowResponse>(`/workflows/${id}/versions/${version}/rollback`);
+    console.log(`✅ [API] POST /workflows/${id}/versions/${version}/rollback - Response received`);
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /workflows/${id}/versions/${version}/rollback - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to roll back workflow');
+  }
+};
+
 /**
  * Get execution history for a workflow
  */
@@ -182,3 +422,129 @@ export const getExecutionById = async (executionId: number): Promise<ExecutionRe
   }
 };
 
+/**
+ * Cancel a queued or running execution
+ */
+export const cancelExecution = async (executionId: number): Promise<ExecutionResponse> => {
+  try {
+    console.log(`📡 [API] POST /workflows/executions/${executionId}/cancel - Request sent`);
+    const res = await apiClient.post<ExecutionResponse>(`/workflows/executions/${executionId}/cancel`);
+    console.log(`✅ [API] POST /workflows/executions/${executionId}/cancel - Response received`, { status: res.data.status });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /workflows/executions/${executionId}/cancel - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to cancel execution');
+  }
+};
+
+/**
+ * Re-run a finished execution with its trigger data, from the beginning or from a failed step
+ */
+export const rerunExecution = async (
+  executionId: number,
+  data: RerunExecutionRequest = {},
+): Promise<ExecutionResponse> => {
+  try {
+    console.log(`📡 [API] POST /workflows/executions/${executionId}/rerun - Request sent`, data);
+    const res = await apiClient.post<ExecutionResponse>(`/workflows/executions/${executionId}/rerun`, data);
+    console.log(`✅ [API] POST /workflows/executions/${executionId}/rerun - Response received`, { id: res.data.id });
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] POST /workflows/executions/${executionId}/rerun - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to re-run execution');
+  }
+};
+
+/**
+ * Pin sample trigger data to a workflow as its default test input
+ */
+export const pinTriggerData = async (
+  workflowId: number,
+  triggerData: Record<string, any>,
+): Promise<WorkflowResponse> => {
+  try {
+    console.log(`📡 [API] PUT /workflows/${workflowId}/pinned-trigger-data - Request sent`);
+    const res = await apiClient.put<WorkflowResponse>(`/workflows/${workflowId}/pinned-trigger-data`, { triggerData });
+    console.log(`✅ [API] PUT /workflows/${workflowId}/pinned-trigger-data - Response received`);
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] PUT /workflows/${workflowId}/pinned-trigger-data - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to pin trigger data');
+  }
+};
+
+/**
+ * Remove a workflow's pinned trigger data
+ */
+export const unpinTriggerData = async (workflowId: number): Promise<WorkflowResponse> => {
+  try {
+    console.log(`📡 [API] DELETE /workflows/${workflowId}/pinned-trigger-data - Request sent`);
+    const res = await apiClient.delete<WorkflowResponse>(`/workflows/${workflowId}/pinned-trigger-data`);
+    console.log(`✅ [API] DELETE /workflows/${workflowId}/pinned-trigger-data - Response received`);
+    return res.data;
+  } catch (err: any) {
+    console.error(`❌ [API] DELETE /workflows/${workflowId}/pinned-trigger-data - Error:`, err);
+    throw new Error(err.response?.data?.message || err.message || 'Failed to unpin trigger data');
+  }
+};
+
+/**
+ * Subscribe to live updates of an execution (Server-Sent Events).
+ * Uses fetch instead of EventSource so the auth header can be sent.
+ * Returns a function that closes the stream.
+ */
+export const streamExecution = (
+  executionId: number,
+  onMessage: (message: ExecutionStreamMessage) => void,
+  onError?: (error: Error) => void,
+): (() => void) => {
+  const url = `${apiClient.defaults.baseURL || ''}/workflows/executions/${executionId}/stream`;
+  const controller = new AbortController();
+
+  const run = async () => {
+    console.log(`📡 [API] GET /workflows/executions/${executionId}/stream - Opening stream`);
+    const accessToken = localStorage.getItem('access_token');
+    const res = await fetch(url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+      },
+      signal: controller.signal,
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`Failed to open execution stream (${res.status})`);
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      // Messages are separated by a blank line; keep the trailing partial message
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+      for (const block of blocks) {
+        let type = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) type = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) {
+          onMessage({ type, data: JSON.parse(data.join('\n')) } as ExecutionStreamMessage);
+        }
+      }
+    }
+    console.log(`✅ [API] GET /workflows/executions/${executionId}/stream - Stream closed`);
+  };
+
+  run().catch((err: any) => {
+    if (controller.signal.aborted) return;
+    console.error(`❌ [API] GET /workflows/executions/${executionId}/stream - Error:`, err);
+    onError?.(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  return () => controller.abort();
+};
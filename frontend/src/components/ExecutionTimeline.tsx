@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { ExecutionTimelineEntry } from '../types/workflows';
+
+interface ExecutionTimelineProps {
+  timeline: ExecutionTimelineEntry[];
+}
+
+const statusBarClass = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-500';
+    case 'failed':
+      return 'bg-red-500';
+    case 'running':
+      return 'bg-yellow-400';
+    case 'waiting':
+      return 'bg-blue-400';
+    default:
+      return 'bg-gray-300';
+  }
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Gantt-style view of an execution: one row per step, bars positioned by start time
+ * so overlapping parallel branches, retries and waits are visible at a glance.
+ */
+const ExecutionTimeline = ({ timeline }: ExecutionTimelineProps) => {
+  const [expandedStepId, setExpandedStepId] = useState<number | null>(null);
+
+  const started = timeline.filter((entry) => entry.startedAt);
+  if (started.length === 0) {
+    return <div className="text-sm text-gray-500">No steps have started yet.</div>;
+  }
+
+  // Unfinished steps run up to now
+  const now = Date.now();
+  const start = Math.min(...started.map((entry) => new Date(entry.startedAt!).getTime()));
+  const end = Math.max(
+    ...started.map((entry) => (entry.completedAt ? new Date(entry.completedAt).getTime() : now)),
+  );
+  const span = Math.max(end - start, 1);
+
+  const toPercent = (from: string | number, to: string | number) => {
+    const fromMs = new Date(from).getTime();
+    const toMs = new Date(to).getTime();
+    return {
+      left: `${((fromMs - start) / span) * 100}%`,
+      width: `${Math.max(((toMs - fromMs) / span) * 100, 0.5)}%`,
+    };
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1 pl-40 pr-20">
+        <span>0s</span>
+        <span>{formatDuration(span)}</span>
+      </div>
+      <div className="space-y-1">
+        {timeline.map((entry) => {
+          const isExpanded = expandedStepId === entry.stepId;
+          const name = entry.actionName || `Action ${entry.actionId}`;
+          // Steps inside loops run once per iteration
+          const label = entry.iterationPath ? `${name} [${entry.iterationPath}]` : name;
+
+          return (
+            <div key={entry.stepId}>
+              <button
+                type="button"
+                onClick={() => setExpandedStepId(isExpanded ? null : entry.stepId)}
+                className="w-full flex items-center text-left hover:bg-gray-50 rounded"
+              >
+                <span className="w-40 flex-shrink-0 truncate text-sm pr-2" title={label}>
+                  {label}
+                </span>
+                <span className="relative flex-1 h-5 bg-gray-100 rounded">
+                  {entry.startedAt && (
+                    <span
+                      className={`absolute top-0 h-5 rounded opacity-40 ${statusBarClass(entry.status)}`}
+                      style={toPercent(entry.startedAt, entry.completedAt || now)}
+                      title={`${entry.status}, ${formatDuration(entry.durationMs)}`}
+                    />
+                  )}
+                  {entry.attempts.map((attempt) => (
+                    <span
+                      key={attempt.attempt}
+                      className={`absolute top-1 h-3 rounded ${statusBarClass(attempt.status)}`}
+                      style={toPercent(attempt.startedAt, attempt.completedAt)}
+                      title={`Attempt ${attempt.attempt}: ${attempt.status}, ${formatDuration(attempt.durationMs)}`}
+                    />
+                  ))}
+                </span>
+                <span className="w-20 flex-shrink-0 text-right text-xs text-gray-600">
+                  {formatDuration(entry.durationMs)}
+                </span>
+              </button>
+
+              {isExpanded && (
+                <div className="ml-40 mr-20 mt-1 mb-2 border border-gray-200 rounded p-3 text-sm space-y-2">
+                  <div className="text-gray-600">
+                    {entry.actionType} · {entry.status}
+                    {entry.startedAt && ` · started ${new Date(entry.startedAt).toLocaleString()}`}
+                  </div>
+                  {entry.attempts.length > 0 && (
+                    <div>
+                      <div className="font-medium mb-1">Attempts</div>
+                      <ul className="space-y-1">
+                        {entry.attempts.map((attempt) => (
+                          <li key={attempt.attempt} className="text-xs">
+                            #{attempt.attempt} {attempt.status} in {formatDuration(attempt.durationMs)}
+                            {attempt.error && <span className="text-red-700"> — {attempt.error}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {entry.error && <div className="text-red-700 text-xs">{entry.error}</div>}
+                  {entry.childExecutions && entry.childExecutions.length > 0 && (
+                    <div>
+                      <div className="font-medium mb-1">Sub-workflow runs</div>
+                      <ul className="space-y-1">
+                        {entry.childExecutions.map((child) => (
+                          <li key={child.id} className="text-xs">
+                            <Link
+                              to={`/workflows/${child.workflowId}/execute?execution=${child.id}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              Execution #{child.id}
+                            </Link>{' '}
+                            · {child.status}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {entry.input && (
+                    <div>
+                      <div className="font-medium mb-1">Resolved input</div>
+                      <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">
+                        {JSON.stringify(entry.input, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExecutionTimeline;
@@ -23,6 +23,9 @@ const Navbar = () => {
             <Link to="/workflows" className="hover:text-gray-300">
               Workflows
             </Link>
+            <Link to="/templates" className="hover:text-gray-300">
+              Templates
+            </Link>
           </div>
         )}
       </div>
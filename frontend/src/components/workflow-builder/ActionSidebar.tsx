@@ -1,13 +1,14 @@
 /**
  * Sidebar component with draggable and clickable action types
+ * The palette lists the action types registered on the backend
  */
 import React from 'react';
-import { ACTION_TYPES } from '../../types/workflow-builder';
-import { ActionType } from '../../types/workflow-builder';
+import { ActionTypeConfig } from '../../types/workflow-builder';
 import { useWorkflowBuilderStore } from '../../store/workflow-builder.store';
+import { toActionTypeConfig } from '../../utils/json-schema';
 
 interface DraggableActionItemProps {
-  actionType: typeof ACTION_TYPES[0];
+  actionType: ActionTypeConfig;
 }
 
 const DraggableActionItem = ({ actionType }: DraggableActionItemProps) => {
@@ -83,6 +84,8 @@ const DraggableActionItem = ({ actionType }: DraggableActionItemProps) => {
 };
 
 const ActionSidebar = () => {
+  const { actionTypes } = useWorkflowBuilderStore();
+
   return (
     <div className="w-64 bg-gray-50 border-r border-gray-200 h-full overflow-y-auto">
       <div className="p-4 border-b border-gray-200">
@@ -92,8 +95,9 @@ const ActionSidebar = () => {
       <div className="p-3">
         <div>
           <h3 className="text-sm font-semibold text-gray-700 mb-2">Actions</h3>
-          {ACTION_TYPES.map((actionType) => (
-            <DraggableActionItem key={actionType.type} actionType={actionType} />
+          {actionTypes.length === 0 && <p className="text-xs text-gray-500">Loading actions...</p>}
+          {actionTypes.map((descriptor) => (
+            <DraggableActionItem key={descriptor.type} actionType={toActionTypeConfig(descriptor)} />
           ))}
         </div>
       </div>
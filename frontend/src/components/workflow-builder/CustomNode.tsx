@@ -3,7 +3,8 @@
  */
 import { Handle, Position } from 'reactflow';
 import { WorkflowNodeData } from '../../types/workflow-builder';
-import { ActionType, ACTION_TYPES } from '../../types/workflow-builder';
+import { ACTION_APPEARANCE, DEFAULT_ACTION_APPEARANCE } from '../../types/workflow-builder';
+import { useWorkflowBuilderStore } from '../../store/workflow-builder.store';
 
 interface CustomNodeProps {
   data: WorkflowNodeData;
@@ -11,31 +12,41 @@ interface CustomNodeProps {
 }
 
 const CustomNode = ({ data, selected }: CustomNodeProps) => {
-  const actionConfig = data.type !== 'trigger' ? ACTION_TYPES.find((a) => a.type === data.type) : null;
+  const { actionTypes } = useWorkflowBuilderStore();
+  const actionConfig = data.type !== 'trigger' ? ACTION_APPEARANCE[data.type] || DEFAULT_ACTION_APPEARANCE : null;
+  const typeName = actionTypes.find((a) => a.type === data.type)?.name;
   const icon = actionConfig?.icon || '⚙️';
   const name = data.name || 'Unnamed';
   const status = data.status;
+  const issues = data.validationIssues || [];
+  const hasErrors = issues.some((issue) => issue.severity === 'error');
 
   // Status colors
   const statusColors = {
     completed: 'border-green-500',
     failed: 'border-red-500',
     running: 'border-blue-500',
+    waiting: 'border-indigo-400',
     pending: 'border-gray-300',
+    skipped: 'border-gray-400',
   };
 
   const statusBg = {
     completed: 'bg-green-100',
     failed: 'bg-red-100',
     running: 'bg-blue-100',
+    waiting: 'bg-indigo-100',
     pending: '',
+    skipped: 'opacity-60',
   };
 
   return (
     <div
       className={`relative px-4 py-3 rounded-lg shadow-md min-w-[150px] ${
         selected ? 'ring-2 ring-blue-500' : ''
-      } ${status ? statusBg[status] : ''} ${status ? statusColors[status] : 'border-2 border-gray-300'}`}
+      } ${status ? statusBg[status] : ''} ${status ? statusColors[status] : 'border-2 border-gray-300'} ${
+        issues.length > 0 ? `outline outline-4 outline-offset-2 ${hasErrors ? 'outline-red-500' : 'outline-amber-400'}` : ''
+      }`}
       style={{
         background: data.type === 'trigger' ? '#4F46E5' : actionConfig?.color || '#6b7280',
         color: 'white',
@@ -51,11 +62,23 @@ const CustomNode = ({ data, selected }: CustomNodeProps) => {
         />
       )}
       
+      {/* Problems found when the workflow was last saved */}
+      {issues.length > 0 && (
+        <div
+          className={`absolute -top-2 -right-2 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+            hasErrors ? 'bg-red-600' : 'bg-amber-500'
+          }`}
+          title={issues.map((issue) => issue.message).join('\n')}
+        >
+          {issues.length}
+        </div>
+      )}
+
       <div className="text-center">
         <div className="text-2xl mb-1">{icon}</div>
         <div className="font-semibold text-sm">{name}</div>
         {data.type !== 'trigger' && (
-          <div className="text-xs opacity-80 mt-1">{actionConfig?.name || data.type}</div>
+          <div className="text-xs opacity-80 mt-1">{typeName || data.type}</div>
         )}
         
         {status && (
@@ -63,7 +86,9 @@ const CustomNode = ({ data, selected }: CustomNodeProps) => {
             {status === 'completed' && '✅ Completed'}
             {status === 'failed' && '❌ Failed'}
             {status === 'running' && '⏳ Running'}
+            {status === 'waiting' && '💤 Waiting'}
             {status === 'pending' && '⏸ Pending'}
+            {status === 'skipped' && '⏭ Skipped'}
           </div>
         )}
 
@@ -4,18 +4,50 @@
 import { useWorkflowBuilderStore } from '../../store/workflow-builder.store';
 import { ActionType } from '../../types/workflow-builder';
 import { TriggerType } from '../../types/workflows';
+import type { ActionErrorPolicy, WorkflowResponse } from '../../types/workflows';
 import { useAuth } from '../../context/AuthContext';
 import { useGoogleIntegration } from '../../hooks/useGoogleIntegration';
-import { useEffect, useRef } from 'react';
+import { getWorkflows } from '../../api/workflows';
+import StepTestPanel from './StepTestPanel';
+import SchemaForm from './SchemaForm';
+import { schemaDefaults } from '../../utils/json-schema';
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+
+// Actions that send email through the user's Google account
+const GOOGLE_ACTION_TYPES: string[] = [ActionType.EMAIL, 'gmail-oauth2-send'];
 
 const PropertiesPanel = () => {
-  const { selectedNode, updateNode, deleteNode, setTrigger, trigger, workflowMeta, setWorkflowMeta } = useWorkflowBuilderStore();
+  const {
+    selectedNode,
+    nodes,
+    updateNode,
+    deleteNode,
+    setTrigger,
+    trigger,
+    workflowMeta,
+    setWorkflowMeta,
+    actionTypes,
+    triggerTypes,
+  } = useWorkflowBuilderStore();
   const { user } = useAuth();
   const { isConnected, isConnecting, connect, checkStatus } = useGoogleIntegration();
   
+  const { id: workflowId } = useParams<{ id: string }>();
+  const [workflows, setWorkflows] = useState<WorkflowResponse[]>([]);
+
   // Track if we've already checked status for the current trigger type
   const hasCheckedStatusRef = useRef<string | null>(null);
 
+  // Load the workflows that can be picked as error workflow or sub-workflow
+  useEffect(() => {
+    getWorkflows()
+      .then(setWorkflows)
+      .catch((err) => {
+        console.error('❌ [PropertiesPanel] Failed to load workflows:', err);
+      });
+  }, []);
+
   // Auto-set userId when Gmail trigger is selected and user is logged in
   useEffect(() => {
     if (selectedNode?.data.type === 'trigger' && trigger.type === TriggerType.GOOGLE_MAIL && user?.id) {
@@ -53,10 +85,40 @@ const PropertiesPanel = () => {
       <div className="w-80 bg-gray-50 border-l border-gray-200 h-full p-4">
         <h3 className="text-lg font-bold text-gray-800 mb-4">Properties</h3>
         <p className="text-gray-500 text-sm">Select a node to edit its properties</p>
+
+        {/* Workflow Settings */}
+        <div className="mt-6 pt-4 border-t border-gray-300">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Workflow Settings</label>
+          <label className="block text-xs text-gray-600 mb-1">On failure, run</label>
+          <select
+            value={workflowMeta.errorWorkflowId ?? ''}
+            onChange={(e) =>
+              setWorkflowMeta({
+                ...workflowMeta,
+                errorWorkflowId: e.target.value ? parseInt(e.target.value, 10) : null,
+              })
+            }
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="">Nothing</option>
+            {workflows
+              .filter((workflow) => String(workflow.id) !== workflowId)
+              .map((workflow) => (
+                <option key={workflow.id} value={workflow.id}>
+                  {workflow.name}
+                </option>
+              ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Triggered with {'{{trigger.failedExecution}}'} and {'{{trigger.failedStep}}'} whenever an execution of this workflow fails
+          </p>
+        </div>
       </div>
     );
   }
 
+  const actionDescriptor = actionTypes.find((a) => a.type === selectedNode.data.type);
+
   const handleConfigChange = (key: string, value: any) => {
     updateNode(selectedNode.id, {
       config: {
@@ -88,10 +150,11 @@ const PropertiesPanel = () => {
 
   // Trigger node properties
   if (selectedNode.data.type === 'trigger') {
-    const updateConfig = (updates: Record<string, any>) => {
+    const triggerDescriptor = triggerTypes.find((t) => t.type === trigger.type);
+    const updateTriggerConfig = (key: string, value: any) => {
       setTrigger({
         type: trigger.type,
-        config: { ...trigger.config, ...updates },
+        config: { ...trigger.config, [key]: value },
       });
     };
 
@@ -106,74 +169,30 @@ const PropertiesPanel = () => {
             onChange={(e) => {
               const newType = e.target.value as TriggerType;
               // Reset config when type changes
-              let defaultConfig: Record<string, any> = {};
-              if (newType === TriggerType.WEBHOOK) {
-                defaultConfig = { path: '', secret: '' };
-              } else if (newType === TriggerType.GOOGLE_MAIL) {
-                defaultConfig = { userId: user?.id, labelIds: ['INBOX'] };
-              } else if (newType === TriggerType.SCHEDULE) {
-                defaultConfig = { cron: '', interval: undefined, timezone: 'UTC' };
+              const descriptor = triggerTypes.find((t) => t.type === newType);
+              const defaultConfig: Record<string, any> = descriptor ? schemaDefaults(descriptor.configSchema) : {};
+              if (newType === TriggerType.GOOGLE_MAIL) {
+                defaultConfig.userId = user?.id;
               }
               setTrigger({ type: newType, config: defaultConfig });
             }}
             className="w-full border border-gray-300 rounded px-3 py-2"
           >
-            <option value={TriggerType.MANUAL}>Manual</option>
-            <option value={TriggerType.WEBHOOK}>Webhook</option>
-            <option value={TriggerType.GOOGLE_MAIL}>Google-Mail</option>
-            <option value={TriggerType.SCHEDULE}>Schedule</option>
+            {triggerTypes.length === 0 && <option value={trigger.type}>{trigger.type}</option>}
+            {triggerTypes.map((triggerType) => (
+              <option key={triggerType.type} value={triggerType.type}>
+                {triggerType.name}
+              </option>
+            ))}
           </select>
+          {triggerDescriptor?.description && (
+            <p className="text-xs text-gray-500 mt-1">{triggerDescriptor.description}</p>
+          )}
         </div>
 
-        {/* Webhook Configuration */}
-        {trigger.type === TriggerType.WEBHOOK && (
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Webhook Path (optional)
-              </label>
-              <input
-                type="text"
-                value={trigger.config?.path || ''}
-                onChange={(e) => updateConfig({ path: e.target.value })}
-                placeholder="auto-generated"
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Leave empty to auto-generate a unique webhook ID
-              </p>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Secret (optional)
-              </label>
-              <input
-                type="password"
-                value={trigger.config?.secret || ''}
-                onChange={(e) => updateConfig({ secret: e.target.value })}
-                placeholder="Webhook secret for validation"
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Optional secret to validate webhook requests
-              </p>
-            </div>
-            {trigger.config?.webhookUrl && (
-              <div className="bg-blue-50 border border-blue-200 rounded p-3">
-                <label className="block text-sm font-medium text-blue-800 mb-1">
-                  Webhook URL
-                </label>
-                <code className="text-xs text-blue-700 break-all">
-                  {window.location.origin}{trigger.config.webhookUrl}
-                </code>
-              </div>
-            )}
-          </div>
-        )}
-
-        {/* Google-Mail Configuration */}
+        {/* Google-Mail Connection */}
         {trigger.type === TriggerType.GOOGLE_MAIL && (
-          <div className="space-y-4">
+          <div className="space-y-4 mb-4">
             {/* Google Connection Status */}
             {!isConnected ? (
               <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -234,36 +253,15 @@ const PropertiesPanel = () => {
                 </p>
               </div>
             )}
+          </div>
+        )}
 
-            {/* Gmail Configuration (only shown when connected) */}
-            {isConnected && (
-              <>
-                <div className="mt-4 pt-4 border-t border-gray-200">
-                  <h4 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
-                    <svg className="w-5 h-5 text-red-600" fill="currentColor" viewBox="0 0 24 24">
-                      <path d="M20 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 4l-8 5-8-5V6l8 5 8-5v2z"/>
-                    </svg>
-                    Gmail Trigger Settings
-                  </h4>
-                </div>
-                <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Gmail Labels (comma-separated)
-              </label>
-              <input
-                type="text"
-                value={Array.isArray(trigger.config?.labelIds) ? trigger.config.labelIds.join(', ') : 'INBOX'}
-                onChange={(e) => {
-                  const labels = e.target.value.split(',').map(l => l.trim()).filter(l => l);
-                  updateConfig({ labelIds: labels.length > 0 ? labels : ['INBOX'] });
-                }}
-                placeholder="INBOX"
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Gmail labels to watch (default: INBOX)
-              </p>
-              <details className="mt-2 text-xs">
+        {/* Trigger Configuration (Gmail settings only once connected) */}
+        {triggerDescriptor && (trigger.type !== TriggerType.GOOGLE_MAIL || isConnected) && (
+          <div className="space-y-4">
+            <SchemaForm schema={triggerDescriptor.configSchema} config={trigger.config || {}} onChange={updateTriggerConfig} />
+            {trigger.type === TriggerType.GOOGLE_MAIL && (
+              <details className="text-xs">
                 <summary className="text-blue-600 cursor-pointer hover:text-blue-800">
                   Common Gmail Labels
                 </summary>
@@ -284,88 +282,17 @@ const PropertiesPanel = () => {
                   </p>
                 </div>
               </details>
-            </div>
-              </>
             )}
-          </div>
-        )}
-
-        {/* Schedule Configuration */}
-        {trigger.type === TriggerType.SCHEDULE && (
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                CRON Expression
-              </label>
-              <input
-                type="text"
-                value={trigger.config?.cron || ''}
-                onChange={(e) => {
-                  const cronValue = e.target.value;
-                  updateConfig({ cron: cronValue, interval: cronValue ? undefined : trigger.config?.interval });
-                }}
-                placeholder="0 * * * * (every hour)"
-                className="w-full border border-gray-300 rounded px-3 py-2 font-mono text-sm"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                CRON expression (e.g., "0 * * * *" for hourly, "0 0 * * *" for daily)
-              </p>
-            </div>
-            <div className="text-center text-sm text-gray-500">OR</div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Interval (seconds)
-              </label>
-              <input
-                type="number"
-                value={trigger.config?.interval || ''}
-                onChange={(e) => {
-                  const intervalValue = parseInt(e.target.value);
-                  updateConfig({
-                    interval: intervalValue > 0 ? intervalValue : undefined,
-                    cron: intervalValue > 0 ? undefined : trigger.config?.cron,
-                  });
-                }}
-                placeholder="3600 (1 hour)"
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Fixed interval in seconds (e.g., 3600 for hourly)
-              </p>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Timezone
-              </label>
-              <input
-                type="text"
-                value={trigger.config?.timezone || 'UTC'}
-                onChange={(e) => updateConfig({ timezone: e.target.value })}
-                placeholder="UTC"
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Timezone for CRON schedule (e.g., "America/New_York", "UTC")
-              </p>
-            </div>
-            <div>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={trigger.config?.runImmediately !== false}
-                  onChange={(e) => updateConfig({ runImmediately: e.target.checked })}
-                  className="mr-2"
-                />
-                <span className="text-sm text-gray-700">Run immediately on schedule creation</span>
-              </label>
-            </div>
-          </div>
-        )}
-
-        {/* Manual Configuration */}
-        {trigger.type === TriggerType.MANUAL && (
-          <div className="text-sm text-gray-600">
-            Manual triggers are executed via API calls. No configuration needed.
+            {trigger.config?.webhookUrl && (
+              <div className="bg-blue-50 border border-blue-200 rounded p-3">
+                <label className="block text-sm font-medium text-blue-800 mb-1">
+                  Webhook URL
+                </label>
+                <code className="text-xs text-blue-700 break-all">
+                  {window.location.origin}{trigger.config.webhookUrl}
+                </code>
+              </div>
+            )}
           </div>
         )}
 
@@ -408,6 +335,20 @@ const PropertiesPanel = () => {
         </button>
       </div>
 
+      {/* Problems found when the workflow was last saved */}
+      {nodes.find((node) => node.id === selectedNode.id)?.data.validationIssues?.map((issue, index) => (
+        <div
+          key={index}
+          className={`mb-2 px-3 py-2 rounded text-xs border ${
+            issue.severity === 'error'
+              ? 'bg-red-50 border-red-200 text-red-700'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          {issue.message}
+        </div>
+      ))}
+
       <div className="mb-4">
         <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
         <input
@@ -429,71 +370,9 @@ const PropertiesPanel = () => {
         />
       </div>
 
-      {/* HTTP Request Config */}
-      {selectedNode.data.type === ActionType.HTTP_REQUEST && (
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
-            <select
-              value={selectedNode.data.config.method || 'GET'}
-              onChange={(e) => handleConfigChange('method', e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2"
-            >
-              <option value="GET">GET</option>
-              <option value="POST">POST</option>
-              <option value="PUT">PUT</option>
-              <option value="DELETE">DELETE</option>
-              <option value="PATCH">PATCH</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
-            <input
-              type="text"
-              value={selectedNode.data.config.url || ''}
-              onChange={(e) => handleConfigChange('url', e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2"
-              placeholder="https://api.example.com/endpoint"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Headers (JSON)</label>
-            <textarea
-              value={JSON.stringify(selectedNode.data.config.headers || {}, null, 2)}
-              onChange={(e) => {
-                try {
-                  const headers = JSON.parse(e.target.value);
-                  handleConfigChange('headers', headers);
-                } catch {
-                  // Invalid JSON
-                }
-              }}
-              className="w-full border border-gray-300 rounded px-3 py-2 font-mono text-xs"
-              rows={4}
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Body (JSON)</label>
-            <textarea
-              value={JSON.stringify(selectedNode.data.config.body || {}, null, 2)}
-              onChange={(e) => {
-                try {
-                  const body = JSON.parse(e.target.value);
-                  handleConfigChange('body', body);
-                } catch {
-                  // Invalid JSON
-                }
-              }}
-              className="w-full border border-gray-300 rounded px-3 py-2 font-mono text-xs"
-              rows={4}
-            />
-          </div>
-        </div>
-      )}
-
-      {/* Email Config */}
-      {selectedNode.data.type === ActionType.EMAIL && (
-        <div className="space-y-4">
+      {/* Google account needed to send email */}
+      {GOOGLE_ACTION_TYPES.includes(selectedNode.data.type) && (
+        <div className="space-y-4 mb-4">
           {!user?.googleLinked && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
               <h4 className="text-sm font-semibold text-amber-800 mb-2">
@@ -520,74 +399,68 @@ const PropertiesPanel = () => {
               </div>
             </div>
           )}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
-            <input
-              type="email"
-              value={selectedNode.data.config.to || ''}
-              onChange={(e) => handleConfigChange('to', e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2"
-              placeholder="recipient@example.com"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
-            <input
-              type="text"
-              value={selectedNode.data.config.subject || ''}
-              onChange={(e) => handleConfigChange('subject', e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2"
-              placeholder="Email subject"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
-            <textarea
-              value={selectedNode.data.config.body || ''}
-              onChange={(e) => handleConfigChange('body', e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2"
-              rows={6}
-              placeholder="Email body"
-            />
-          </div>
         </div>
       )}
 
-      {/* Wait Config */}
-      {selectedNode.data.type === ActionType.WAIT && (
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
-          <input
-            type="text"
-            value={selectedNode.data.config.duration || ''}
-            onChange={(e) => handleConfigChange('duration', e.target.value)}
-            className="w-full border border-gray-300 rounded px-3 py-2"
-            placeholder="5s, 10m, 2h"
-          />
-          <p className="text-xs text-gray-500 mt-1">Format: 5s, 10m, 2h, or milliseconds</p>
-        </div>
+      {/* Config form generated from the action type's schema */}
+      {actionDescriptor ? (
+        <SchemaForm
+          schema={actionDescriptor.configSchema}
+          config={
+            // stopOnFirstFailure is the older spelling of failurePolicy 'fail'
+            selectedNode.data.type === ActionType.PARALLEL && selectedNode.data.config.stopOnFirstFailure
+              ? { ...selectedNode.data.config, failurePolicy: 'fail' }
+              : selectedNode.data.config
+          }
+          onChange={(key, value) =>
+            selectedNode.data.type === ActionType.PARALLEL && key === 'failurePolicy'
+              ? updateNode(selectedNode.id, {
+                  config: { ...selectedNode.data.config, failurePolicy: value, stopOnFirstFailure: value === 'fail' },
+                })
+              : handleConfigChange(key, value)
+          }
+          workflows={workflows.filter((workflow) => String(workflow.id) !== workflowId)}
+          actionNodes={nodes
+            .filter((node) => node.data.type !== 'trigger' && node.id !== selectedNode.id)
+            .map((node) => ({ id: node.id, name: node.data.name }))}
+        />
+      ) : (
+        <p className="text-sm text-gray-600">
+          {actionTypes.length === 0 ? 'Loading action types...' : 'Unknown action type: edit its config as JSON below.'}
+        </p>
       )}
 
-      {/* Parallel Config */}
+      {/* Execute Workflow result */}
+      {selectedNode.data.type === ActionType.EXECUTE_WORKFLOW && (
+        <p className="text-xs text-gray-500 mt-2">
+          {selectedNode.data.config.waitForCompletion !== false
+            ? 'The sub-workflow result is available as {{steps.<name>.output.output}}'
+            : 'The sub-workflow is started and this workflow continues right away'}
+        </p>
+      )}
+
+      {/* Parallel join */}
       {selectedNode.data.type === ActionType.PARALLEL && (
-        <div className="space-y-4">
-          <div className="flex items-center">
-            <input
-              type="checkbox"
-              checked={selectedNode.data.config.waitForAll !== false}
-              onChange={(e) => handleConfigChange('waitForAll', e.target.checked)}
-              className="mr-2"
-            />
-            <label className="text-sm text-gray-700">Wait for all actions to complete</label>
-          </div>
-          <div className="flex items-center">
-            <input
-              type="checkbox"
-              checked={selectedNode.data.config.stopOnFirstFailure === true}
-              onChange={(e) => handleConfigChange('stopOnFirstFailure', e.target.checked)}
-              className="mr-2"
-            />
-            <label className="text-sm text-gray-700">Stop on first failure</label>
+        <div className="space-y-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Then continue with</label>
+            <select
+              value={selectedNode.data.nextNodeId || ''}
+              onChange={(e) => updateNode(selectedNode.id, { nextNodeId: e.target.value || undefined })}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            >
+              <option value="">Nothing (end after the branches)</option>
+              {nodes
+                .filter((node) => node.data.type !== 'trigger' && node.id !== selectedNode.id)
+                .map((node) => (
+                  <option key={node.id} value={node.id}>
+                    {node.data.name}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Runs once the branches have joined; each branch's output is available as {'{{steps.<id>.branches[i]}}'}
+            </p>
           </div>
           <p className="text-xs text-gray-500">Connect multiple edges to execute actions in parallel</p>
         </div>
@@ -636,6 +509,63 @@ const PropertiesPanel = () => {
         </div>
       </div>
 
+      {/* Error Handling */}
+      <div className="mt-6 pt-4 border-t border-gray-300">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Error Handling</label>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">On error</label>
+            <select
+              value={selectedNode.data.onError || 'fail'}
+              onChange={(e) =>
+                updateNode(selectedNode.id, { onError: e.target.value as ActionErrorPolicy })
+              }
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value="fail">Fail the workflow</option>
+              <option value="continue">Continue with the next action</option>
+              <option value="branch">Run an error handler</option>
+            </select>
+          </div>
+          {selectedNode.data.onError === 'branch' && (
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Error handler</label>
+              <select
+                value={selectedNode.data.errorActionNodeId || ''}
+                onChange={(e) =>
+                  updateNode(selectedNode.id, { errorActionNodeId: e.target.value || undefined })
+                }
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                <option value="">Select an action...</option>
+                {nodes
+                  .filter((node) => node.data.type !== 'trigger' && node.id !== selectedNode.id)
+                  .map((node) => (
+                    <option key={node.id} value={node.id}>
+                      {node.data.name}
+                    </option>
+                  ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                The handler can use {'{{error.message}}'} and the failed step's input as {'{{error.input}}'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Step Test (saved workflows only; wait and sub-workflow steps need a real execution) */}
+      {workflowId &&
+        selectedNode.data.type !== ActionType.WAIT &&
+        selectedNode.data.type !== ActionType.EXECUTE_WORKFLOW && (
+          <StepTestPanel
+            workflowId={parseInt(workflowId, 10)}
+            nodeId={selectedNode.id}
+            type={selectedNode.data.type}
+            config={selectedNode.data.config}
+          />
+        )}
+
       {/* Advanced Config */}
       <div className="mt-6 pt-4 border-t border-gray-300">
         <label className="block text-sm font-medium text-gray-700 mb-2">Advanced Config (JSON)</label>
@@ -0,0 +1,285 @@
+/**
+ * Form generated from the JSON Schema of an action or trigger config
+ */
+import { useEffect, useState } from 'react';
+import type { JsonSchema, WorkflowResponse } from '../../types/workflows';
+
+interface SchemaFormProps {
+  schema: JsonSchema;
+  config: Record<string, any>;
+  onChange: (key: string, value: any) => void;
+  workflows?: WorkflowResponse[]; // Choices for 'workflow' fields
+  actionNodes?: { id: string; name: string }[]; // Choices for 'action' fields
+}
+
+interface FieldProps {
+  property: JsonSchema;
+  required: boolean;
+  value: any;
+  onChange: (value: any) => void;
+  workflows: WorkflowResponse[];
+  actionNodes: { id: string; name: string }[];
+}
+
+const inputClass = 'w-full border border-gray-300 rounded px-3 py-2';
+
+/**
+ * Objects and free-form values are edited as JSON; the text is kept while it doesn't parse
+ */
+const JsonField = ({ value, onChange }: { value: any; onChange: (value: any) => void }) => {
+  const [text, setText] = useState(() => JSON.stringify(value ?? {}, null, 2));
+
+  // Follow changes made elsewhere (e.g. the Advanced Config editor)
+  useEffect(() => {
+    setText((current) => {
+      try {
+        return JSON.stringify(JSON.parse(current)) === JSON.stringify(value ?? {})
+          ? current
+          : JSON.stringify(value ?? {}, null, 2);
+      } catch {
+        return current;
+      }
+    });
+  }, [value]);
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        try {
+          onChange(JSON.parse(e.target.value));
+        } catch {
+          // Invalid JSON
+        }
+      }}
+      className={`${inputClass} font-mono text-xs`}
+      rows={4}
+    />
+  );
+};
+
+/**
+ * Lists of strings are entered comma-separated; the text is kept so separators can be typed
+ */
+const ListField = ({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: any;
+  onChange: (value: any) => void;
+  placeholder?: string;
+}) => {
+  const toText = (items: any) => (Array.isArray(items) ? items.join(', ') : '');
+  const parse = (text: string) =>
+    text
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item);
+  const [text, setText] = useState(() => toText(value));
+
+  // Follow changes made elsewhere (e.g. the Advanced Config editor)
+  useEffect(() => {
+    setText((current) => (parse(current).join(',') === (Array.isArray(value) ? value.join(',') : '') ? current : toText(value)));
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const items = parse(e.target.value);
+        onChange(items.length > 0 ? items : undefined);
+      }}
+      className={inputClass}
+      placeholder={placeholder}
+    />
+  );
+};
+
+const FieldInput = ({ property, required, value, onChange, workflows, actionNodes }: FieldProps) => {
+  const placeholder = property.examples?.[0] !== undefined ? String(property.examples[0]) : undefined;
+
+  if (property['x-widget'] === 'workflow') {
+    return (
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+        className={inputClass}
+      >
+        <option value="">Select a workflow</option>
+        {workflows.map((workflow) => (
+          <option key={workflow.id} value={workflow.id}>
+            {workflow.name}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (property['x-widget'] === 'action') {
+    return (
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} className={inputClass}>
+        <option value="">Nothing</option>
+        {actionNodes.map((node) => (
+          <option key={node.id} value={node.id}>
+            {node.name}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (property.enum) {
+    return (
+      <select
+        value={value ?? property.default ?? ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className={inputClass}
+      >
+        {!required && property.default === undefined && <option value="">—</option>}
+        {property.enum.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  switch (property.type) {
+    case 'integer':
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value ?? ''}
+          min={property.minimum}
+          max={property.maximum}
+          step={property.type === 'integer' ? 1 : 'any'}
+          onChange={(e) => {
+            const parsed = property.type === 'integer' ? parseInt(e.target.value, 10) : parseFloat(e.target.value);
+            onChange(Number.isNaN(parsed) ? undefined : parsed);
+          }}
+          placeholder={placeholder ?? (property.default !== undefined ? String(property.default) : undefined)}
+          className={inputClass}
+        />
+      );
+    case 'string':
+      return property['x-widget'] === 'textarea' ? (
+        <textarea
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+          rows={6}
+          placeholder={placeholder}
+        />
+      ) : (
+        <input
+          type={property.format === 'email' ? 'email' : property.format === 'password' ? 'password' : 'text'}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+          placeholder={placeholder}
+        />
+      );
+    case 'array':
+      if (property.items?.enum) {
+        const selected: any[] = value ?? property.default ?? [];
+        return (
+          <div className="space-y-1">
+            {property.items.enum.map((option) => (
+              <label key={option} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) =>
+                    onChange(
+                      e.target.checked
+                        ? [...selected, option]
+                        : selected.filter((item) => item !== option),
+                    )
+                  }
+                  className="mr-2"
+                />
+                <span className="text-sm text-gray-700">{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      if (property.items?.type === 'string') {
+        return (
+          <ListField
+            value={value}
+            onChange={onChange}
+            placeholder={Array.isArray(property.default) ? property.default.join(', ') : placeholder}
+          />
+        );
+      }
+      return <JsonField value={value ?? []} onChange={onChange} />;
+    default:
+      return <JsonField value={value} onChange={onChange} />;
+  }
+};
+
+const SchemaForm = ({ schema, config, onChange, workflows = [], actionNodes = [] }: SchemaFormProps) => {
+  // readOnly fields are set by the builder; deprecated ones have a replacement in the form
+  const fields = Object.entries(schema.properties || {}).filter(
+    ([, property]) => !property.readOnly && !property.deprecated,
+  );
+
+  if (fields.length === 0) {
+    return <div className="text-sm text-gray-600">No configuration needed.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.map(([name, property]) => {
+        const required = schema.required?.includes(name) ?? false;
+        const label = (
+          <>
+            {property.title || name}
+            {required && <span className="text-red-600"> *</span>}
+          </>
+        );
+
+        if (property.type === 'boolean') {
+          return (
+            <div key={name}>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={config[name] ?? property.default ?? false}
+                  onChange={(e) => onChange(name, e.target.checked)}
+                  className="mr-2"
+                />
+                <span className="text-sm text-gray-700">{label}</span>
+              </label>
+              {property.description && <p className="text-xs text-gray-500 mt-1">{property.description}</p>}
+            </div>
+          );
+        }
+
+        return (
+          <div key={name}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <FieldInput
+              property={property}
+              required={required}
+              value={config[name]}
+              onChange={(value) => onChange(name, value)}
+              workflows={workflows}
+              actionNodes={actionNodes}
+            />
+            {property.description && <p className="text-xs text-gray-500 mt-1">{property.description}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SchemaForm;
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { testStep } from '../../api/workflows';
+import type { StepTestResult } from '../../types/workflows';
+
+interface StepTestPanelProps {
+  workflowId: number;
+  nodeId: string;
+  type: string;
+  config: Record<string, any>;
+}
+
+// Actions with side effects that can be previewed instead of run
+const SIDE_EFFECT_TYPES = ['http_request', 'email', 'gmail-oauth2-send'];
+
+/**
+ * "Test this step": runs the selected action on its own with sample trigger data
+ * and/or the outputs of the workflow's last execution, and shows the result inline
+ */
+const StepTestPanel = ({ workflowId, nodeId, type, config }: StepTestPanelProps) => {
+  const [triggerData, setTriggerData] = useState('');
+  const [useLastExecution, setUseLastExecution] = useState(true);
+  const [dryRun, setDryRun] = useState(false);
+  const [result, setResult] = useState<StepTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // A result belongs to the node it was run for
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [nodeId]);
+
+  const handleTest = async () => {
+    console.log('🧪 [StepTestPanel] handleTest() called', { workflowId, nodeId, type });
+    try {
+      setIsRunning(true);
+      setError(null);
+      let parsedTriggerData: Record<string, any> | undefined;
+      if (triggerData.trim()) {
+        try {
+          parsedTriggerData = JSON.parse(triggerData);
+        } catch {
+          throw new Error('Invalid JSON in sample trigger data');
+        }
+      }
+      setResult(
+        await testStep(workflowId, {
+          type,
+          config,
+          triggerData: parsedTriggerData,
+          useLastExecution,
+          dryRun,
+        }),
+      );
+    } catch (err: any) {
+      console.error('❌ [StepTestPanel] Error testing step:', err);
+      setResult(null);
+      setError(err.message || 'Failed to test step');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-300">
+      <label className="block text-sm font-medium text-gray-700 mb-2">Test this step</label>
+      <label className="block text-xs text-gray-600 mb-1">Sample trigger data (JSON, optional)</label>
+      <textarea
+        value={triggerData}
+        onChange={(e) => setTriggerData(e.target.value)}
+        className="w-full border border-gray-300 rounded px-2 py-1 font-mono text-xs"
+        rows={3}
+        placeholder='{"orderId": 42}'
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-600 mt-2">
+        <input type="checkbox" checked={useLastExecution} onChange={(e) => setUseLastExecution(e.target.checked)} />
+        Use step outputs from the last execution
+      </label>
+      {SIDE_EFFECT_TYPES.includes(type) && (
+        <label className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+          <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+          Preview only (don't send)
+        </label>
+      )}
+      <button
+        onClick={handleTest}
+        disabled={isRunning}
+        className="w-full mt-3 bg-purple-600 text-white px-3 py-2 rounded text-sm hover:bg-purple-700 disabled:bg-gray-400"
+      >
+        {isRunning ? 'Running...' : 'Test this step'}
+      </button>
+
+      {error && <div className="mt-2 text-xs text-red-700">{error}</div>}
+
+      {result && (
+        <div className="mt-3 space-y-2 text-xs">
+          <div className="flex items-center justify-between">
+            <span
+              className={`px-2 py-0.5 rounded ${
+                result.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}
+            >
+              {result.status}
+            </span>
+            <span className="text-gray-500">
+              {result.durationMs} ms
+              {result.sourceExecutionId && ` · data from execution #${result.sourceExecutionId}`}
+            </span>
+          </div>
+          <div>
+            <div className="font-medium text-gray-700 mb-1">Resolved config</div>
+            <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto">
+              {JSON.stringify(result.input, null, 2)}
+            </pre>
+          </div>
+          {result.error ? (
+            <div className="bg-red-50 border border-red-200 rounded p-2 text-red-700 break-words">{result.error}</div>
+          ) : (
+            <div>
+              <div className="font-medium text-gray-700 mb-1">Output</div>
+              <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto max-h-64">
+                {JSON.stringify(result.output, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepTestPanel;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { getWorkflowVersions, diffWorkflowVersions, rollbackWorkflowVersion } from '../../api/workflows';
+import type { WorkflowVersionResponse, WorkflowVersionDiff, VersionFieldChange } from '../../types/workflows';
+
+interface VersionHistoryPanelProps {
+  workflowId: number;
+  refreshKey: number; // Changes whenever a version is published
+  onRollback: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const ChangeList = ({ changes }: { changes: VersionFieldChange[] }) => (
+  <ul className="ml-3 space-y-0.5">
+    {changes.map((change) => (
+      <li key={change.field} className="break-all">
+        <span className="font-medium">{change.field}</span>:{' '}
+        <span className="text-red-600 line-through">{formatValue(change.from)}</span>{' '}
+        <span className="text-green-700">{formatValue(change.to)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Published versions of a workflow, with rollback and a diff against the previous version
+ */
+const VersionHistoryPanel = ({ workflowId, refreshKey, onRollback, onClose }: VersionHistoryPanelProps) => {
+  const [versions, setVersions] = useState<WorkflowVersionResponse[]>([]);
+  const [diff, setDiff] = useState<WorkflowVersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    getWorkflowVersions(workflowId)
+      .then(setVersions)
+      .catch((err) => setError(err.message));
+  }, [workflowId, refreshKey]);
+
+  const handleCompare = async (version: number) => {
+    try {
+      setError(null);
+      setDiff(await diffWorkflowVersions(workflowId, version - 1, version));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!window.confirm(`Roll back to version ${version}? Unpublished changes to the draft will be lost.`)) {
+      return;
+    }
+    try {
+      setIsBusy(true);
+      setError(null);
+      await rollbackWorkflowVersion(workflowId, version);
+      console.log('✅ [VersionHistoryPanel] Rolled back to version', version);
+      setDiff(null);
+      setVersions(await getWorkflowVersions(workflowId));
+      onRollback();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const hasChanges =
+    diff &&
+    (diff.changes.length > 0 ||
+      diff.actions.added.length > 0 ||
+      diff.actions.removed.length > 0 ||
+      diff.actions.changed.length > 0);
+
+  return (
+    <div className="w-80 border-l border-gray-200 bg-white overflow-y-auto p-4 text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-gray-800">Version history</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+
+      {error && <div className="bg-red-100 text-red-700 px-2 py-1 rounded mb-2">{error}</div>}
+      {versions.length === 0 && !error && (
+        <p className="text-gray-500">No published versions yet. Executions run the draft until you publish.</p>
+      )}
+
+      <ul className="space-y-2">
+        {versions.map((version) => (
+          <li key={version.id} className="border border-gray-200 rounded p-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                v{version.version}
+                {version.published && (
+                  <span className="ml-2 text-xs bg-green-100 text-green-700 px-1.5 py-0.5 rounded">published</span>
+                )}
+              </span>
+              <span className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+            </div>
+            {version.note && <p className="text-gray-600 mt-1">{version.note}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              {version.actionCount ?? 0} actions · {version.executionCount ?? 0} runs
+            </p>
+            <div className="flex gap-2 mt-2">
+              {version.version > 1 && (
+                <button onClick={() => handleCompare(version.version)} className="text-blue-600 hover:underline">
+                  Compare with v{version.version - 1}
+                </button>
+              )}
+              {!version.published && (
+                <button
+                  onClick={() => handleRollback(version.version)}
+                  disabled={isBusy}
+                  className="text-orange-600 hover:underline disabled:text-gray-400"
+                >
+                  Roll back
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div className="mt-4 border-t border-gray-200 pt-3">
+          <h3 className="font-semibold mb-2">
+            v{diff.from} → v{diff.to}
+          </h3>
+          {!hasChanges && <p className="text-gray-500">No differences</p>}
+          {diff.changes.length > 0 && <ChangeList changes={diff.changes} />}
+          {diff.actions.added.map((action) => (
+            <p key={`added-${action.order}`} className="text-green-700">
+              + {action.name}
+            </p>
+          ))}
+          {diff.actions.removed.map((action) => (
+            <p key={`removed-${action.order}`} className="text-red-600">
+              − {action.name}
+            </p>
+          ))}
+          {diff.actions.changed.map((action) => (
+            <div key={`changed-${action.order}`} className="mt-1">
+              <p className="text-yellow-700">~ {action.name}</p>
+              <ChangeList changes={action.changes} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
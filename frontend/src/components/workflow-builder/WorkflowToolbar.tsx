@@ -5,20 +5,22 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useWorkflowBuilderStore } from '../../store/workflow-builder.store';
 import { convertToBackendFormat } from '../../utils/workflow-converter';
-import { createWorkflow, updateWorkflow, executeWorkflow } from '../../api/workflows';
-import type { WorkflowResponse } from '../../types/workflows';
+import { createWorkflow, updateWorkflow, executeWorkflow, validateWorkflow } from '../../api/workflows';
+import type { WorkflowResponse, ExecutionResponse } from '../../types/workflows';
 
 interface WorkflowToolbarProps {
   workflowId?: number;
-  onExecute?: () => void;
+  onExecute?: (execution: ExecutionResponse) => void;
+  onSaved?: () => void;
 }
 
-const WorkflowToolbar = ({ workflowId, onExecute }: WorkflowToolbarProps) => {
+const WorkflowToolbar = ({ workflowId, onExecute, onSaved }: WorkflowToolbarProps) => {
   const navigate = useNavigate();
-  const { workflowMeta, nodes, reset, trigger } = useWorkflowBuilderStore();
+  const { workflowMeta, nodes, reset, trigger, setValidationIssues } = useWorkflowBuilderStore();
   const [isSaving, setIsSaving] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
 
   const handleSave = async () => {
     console.log('🎨 [WorkflowToolbar] Save clicked');
@@ -40,6 +42,27 @@ const WorkflowToolbar = ({ workflowId, onExecute }: WorkflowToolbarProps) => {
       const workflowData = convertToBackendFormat();
       console.log('🎨 [WorkflowToolbar] Converted workflow data:', workflowData);
 
+      // Highlight problem nodes; errors would make the save fail
+      const validation = await validateWorkflow(workflowData.actions);
+      setValidationIssues([...validation.errors, ...validation.warnings]);
+      const workflowIssues = [...validation.errors, ...validation.warnings]
+        .filter((issue) => issue.actionOrder === undefined)
+        .map((issue) => issue.message);
+      setWarning(
+        validation.warnings.length > 0
+          ? `${validation.warnings.length} warning${validation.warnings.length === 1 ? '' : 's'} - see the highlighted actions`
+          : null,
+      );
+      if (!validation.valid) {
+        setError(
+          [
+            `${validation.errors.length} error${validation.errors.length === 1 ? '' : 's'} - fix the highlighted actions before saving`,
+            ...workflowIssues,
+          ].join('. '),
+        );
+        return;
+      }
+
       if (workflowId) {
         // Update existing workflow
         console.log('🎨 [WorkflowToolbar] Updating workflow:', workflowId);
@@ -47,10 +70,12 @@ const WorkflowToolbar = ({ workflowId, onExecute }: WorkflowToolbarProps) => {
           name: workflowData.name,
           description: workflowData.description,
           enabled: workflowData.enabled,
+          errorWorkflowId: workflowData.errorWorkflowId,
           trigger: workflowData.trigger,
           actions: workflowData.actions,
         });
         console.log('✅ [WorkflowToolbar] Workflow updated successfully');
+        onSaved?.();
       } else {
         // Create new workflow
         console.log('🎨 [WorkflowToolbar] Creating new workflow');
@@ -81,11 +106,12 @@ const WorkflowToolbar = ({ workflowId, onExecute }: WorkflowToolbarProps) => {
       setIsExecuting(true);
       setError(null);
 
-      const execution = await executeWorkflow(workflowId);
+      // Test runs from the builder use the draft, not the published version
+      const execution = await executeWorkflow(workflowId, undefined, { draft: true });
       console.log('✅ [WorkflowToolbar] Workflow execution started:', execution.id);
       
       if (onExecute) {
-        onExecute();
+        onExecute(execution);
       } else {
         navigate(`/workflows/${workflowId}/execute`);
       }
@@ -129,6 +155,11 @@ const WorkflowToolbar = ({ workflowId, onExecute }: WorkflowToolbarProps) => {
           {error}
         </div>
       )}
+      {!error && warning && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-2 rounded text-sm">
+          {warning}
+        </div>
+      )}
 
       <div className="flex items-center gap-2">
         <button
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { streamExecution } from '../api/workflows';
+import type { ExecutionStreamMessage } from '../types/workflows';
+
+/**
+ * Hook for following an execution live
+ * Opens the execution event stream while `executionId` is set and closes it on change/unmount
+ */
+export const useExecutionStream = (
+  executionId: number | null,
+  onMessage: (message: ExecutionStreamMessage) => void,
+  onError?: (error: Error) => void,
+) => {
+  // Keep the latest callbacks without reopening the stream on every render
+  const onMessageRef = useRef(onMessage);
+  const onErrorRef = useRef(onError);
+  onMessageRef.current = onMessage;
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (executionId === null) {
+      return;
+    }
+
+    console.log('📡 [useExecutionStream] Following execution', { executionId });
+    return streamExecution(
+      executionId,
+      (message) => onMessageRef.current(message),
+      (error) => onErrorRef.current?.(error),
+    );
+  }, [executionId]);
+};
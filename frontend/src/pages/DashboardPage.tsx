@@ -98,6 +98,7 @@ const DashboardPage = () => {
       case 'failed':
         return 'bg-red-100 text-red-800';
       case 'running':
+      case 'waiting':
         return 'bg-blue-100 text-blue-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
@@ -395,6 +396,17 @@ const DashboardPage = () => {
                         >
                           {execution.status}
                         </span>
+                        {!!execution.duplicatesSuppressed && (
+                          <span
+                            className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-700"
+                            title={`Repeats of the trigger event were ignored, the last at ${formatDate(
+                              execution.lastDuplicateAt ?? undefined
+                            )}`}
+                          >
+                            {execution.duplicatesSuppressed} duplicate
+                            {execution.duplicatesSuppressed === 1 ? '' : 's'} suppressed
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {formatDate(execution.startedAt)}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import { useAuth } from '../context/AuthContext';
+import { getTemplates, instantiateTemplate, deleteTemplate } from '../api/workflows';
+import type { WorkflowTemplate, TemplateParameter } from '../types/workflows';
+
+const INPUT_TYPES: Record<NonNullable<TemplateParameter['type']>, string> = {
+  string: 'text',
+  number: 'number',
+  email: 'email',
+  url: 'url',
+};
+
+const TemplateGalleryPage = () => {
+  const { isAuthenticated, isInitializing } = useAuth();
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [selected, setSelected] = useState<WorkflowTemplate | null>(null);
+  const [workflowName, setWorkflowName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    console.log('📋 [TemplateGalleryPage] Component mounted', { isInitializing, isAuthenticated });
+    if (!isInitializing && !isAuthenticated) {
+      navigate('/login', { replace: true });
+      return;
+    }
+
+    if (isAuthenticated) {
+      fetchTemplates();
+    }
+  }, [isAuthenticated, isInitializing, navigate]);
+
+  const fetchTemplates = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getTemplates();
+      console.log('📋 [TemplateGalleryPage] Templates fetched', { count: data.length });
+      setTemplates(data);
+    } catch (err: any) {
+      console.error('❌ [TemplateGalleryPage] Error fetching templates:', err);
+      setError(err.message || 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map((t) => t.category).filter((c): c is string => !!c))).sort(),
+    [templates],
+  );
+  const visibleTemplates = category ? templates.filter((t) => t.category === category) : templates;
+
+  const openTemplate = (template: WorkflowTemplate) => {
+    console.log('📋 [TemplateGalleryPage] Template selected', { templateId: template.id });
+    setSelected(template);
+    setWorkflowName(template.definition.workflow.name);
+    setValues(
+      Object.fromEntries(
+        template.parameters.map((p) => [p.key, p.default !== undefined ? String(p.default) : '']),
+      ),
+    );
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    if (!selected) return;
+    console.log('📋 [TemplateGalleryPage] handleCreate() called', { templateId: selected.id });
+    try {
+      setIsCreating(true);
+      setError(null);
+      const { workflow, warnings } = await instantiateTemplate(selected.id, {
+        name: workflowName.trim() || undefined,
+        parameters: values,
+      });
+      console.log('✅ [TemplateGalleryPage] Workflow created from template', { workflowId: workflow.id });
+      if (warnings.length > 0) {
+        alert(warnings.join('\n'));
+      }
+      navigate(`/workflows/${workflow.id}/edit`);
+    } catch (err: any) {
+      console.error('❌ [TemplateGalleryPage] Error creating workflow:', err);
+      setError(err.message || 'Failed to create workflow from template');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (template: WorkflowTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      console.log('✅ [TemplateGalleryPage] Template deleted', { templateId: template.id });
+      setTemplates(templates.filter((t) => t.id !== template.id));
+    } catch (err: any) {
+      console.error('❌ [TemplateGalleryPage] Error deleting template:', err);
+      setError(err.message || 'Failed to delete template');
+    }
+  };
+
+  if (isInitializing) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Navbar />
+      <div className="p-6 max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">Templates</h1>
+          <button
+            onClick={() => navigate('/workflows/new')}
+            className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200"
+          >
+            Start from scratch
+          </button>
+        </div>
+
+        {/* Category filter */}
+        {categories.length > 0 && (
+          <div className="mb-4 flex gap-4">
+            <button
+              onClick={() => setCategory(undefined)}
+              className={`px-4 py-2 rounded ${category === undefined ? 'bg-blue-100' : 'bg-gray-100'}`}
+            >
+              All
+            </button>
+            {categories.map((c) => (
+              <button
+                key={c}
+                onClick={() => setCategory(c)}
+                className={`px-4 py-2 rounded ${category === c ? 'bg-blue-100' : 'bg-gray-100'}`}
+              >
+                {c}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="text-center py-8">
+            <div className="text-lg">Loading templates...</div>
+          </div>
+        )}
+
+        {!isLoading && visibleTemplates.length === 0 && (
+          <div className="text-center py-8 text-gray-600">No templates found.</div>
+        )}
+
+        {!isLoading && visibleTemplates.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visibleTemplates.map((template) => (
+              <div key={template.id} className="bg-white border border-gray-200 rounded-lg p-4 flex flex-col">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h2 className="font-semibold text-lg">{template.name}</h2>
+                  <span
+                    className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${
+                      template.builtIn ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {template.builtIn ? 'Built-in' : 'Mine'}
+                  </span>
+                </div>
+                {template.description && <p className="text-sm text-gray-600 mb-2">{template.description}</p>}
+                <p className="text-xs text-gray-500 mb-4">
+                  {template.definition.workflow.trigger.type} trigger · {template.definition.workflow.actions.length}{' '}
+                  action{template.definition.workflow.actions.length === 1 ? '' : 's'}
+                  {template.category && ` · ${template.category}`}
+                </p>
+                <div className="mt-auto flex gap-2">
+                  <button
+                    onClick={() => openTemplate(template)}
+                    className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 transition"
+                  >
+                    Use template
+                  </button>
+                  {!template.builtIn && (
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700 transition"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Parameter prompt */}
+      {selected && (
+        <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-semibold mb-4">{selected.name}</h2>
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+                {error}
+              </div>
+            )}
+            <div className="space-y-3">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Workflow name</span>
+                <input
+                  type="text"
+                  value={workflowName}
+                  onChange={(e) => setWorkflowName(e.target.value)}
+                  className="mt-1 w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                />
+              </label>
+              {selected.parameters.map((parameter) => (
+                <label key={parameter.key} className="block">
+                  <span className="text-sm font-medium text-gray-700">
+                    {parameter.label}
+                    {parameter.required !== false && <span className="text-red-500"> *</span>}
+                  </span>
+                  <input
+                    type={INPUT_TYPES[parameter.type || 'string']}
+                    value={values[parameter.key] ?? ''}
+                    onChange={(e) => setValues({ ...values, [parameter.key]: e.target.value })}
+                    className="mt-1 w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  />
+                  {parameter.description && (
+                    <span className="text-xs text-gray-500">{parameter.description}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-4">The workflow is created disabled so you can review it first.</p>
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={() => {
+                  setSelected(null);
+                  setError(null);
+                }}
+                className="bg-gray-100 text-gray-800 px-4 py-2 rounded hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isCreating ? 'Creating...' : 'Create workflow'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateGalleryPage;
@@ -1,20 +1,22 @@
 /**
  * Main Workflow Builder Page with drag-and-drop interface
  */
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import { useAuth } from '../context/AuthContext';
 import { useWorkflowBuilderStore } from '../store/workflow-builder.store';
-import { getWorkflowById } from '../api/workflows';
+import { getWorkflowById, publishWorkflow, getActionTypes } from '../api/workflows';
 import { convertFromBackendFormat } from '../utils/workflow-converter';
 import ActionSidebar from '../components/workflow-builder/ActionSidebar';
 import WorkflowCanvas from '../components/workflow-builder/WorkflowCanvas';
 import PropertiesPanel from '../components/workflow-builder/PropertiesPanel';
 import WorkflowToolbar from '../components/workflow-builder/WorkflowToolbar';
-import { ACTION_TYPES, ActionType } from '../types/workflow-builder';
-import { TriggerType } from '../types/workflows';
-import type { WorkflowResponse } from '../types/workflows';
+import VersionHistoryPanel from '../components/workflow-builder/VersionHistoryPanel';
+import type { WorkflowNodeData } from '../types/workflow-builder';
+import { TriggerType, WorkflowStatus } from '../types/workflows';
+import type { WorkflowResponse, ExecutionResponse, ExecutionStreamMessage } from '../types/workflows';
+import { useExecutionStream } from '../hooks/useExecutionStream';
 
 const WorkflowBuilderPage = () => {
   const { id } = useParams<{ id: string }>();
@@ -24,6 +26,70 @@ const WorkflowBuilderPage = () => {
   const { setNodes, setEdges, loadWorkflow, reset, nodes, addNode } = useWorkflowBuilderStore();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [liveExecution, setLiveExecution] = useState<{ id: number; status: WorkflowStatus } | null>(null);
+  const [versionStatus, setVersionStatus] = useState<Pick<WorkflowResponse, 'publishedVersion' | 'hasUnpublishedChanges'> | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [versionsKey, setVersionsKey] = useState(0);
+
+  // Colour canvas nodes with the step statuses of the execution being followed
+  const setNodeStatus = (actionId: number, status: WorkflowNodeData['status'], error?: string) => {
+    useWorkflowBuilderStore.getState().updateNode(`action-${actionId}`, { status, error });
+  };
+
+  const handleExecute = (execution: ExecutionResponse) => {
+    console.log('🎨 [WorkflowBuilderPage] Following execution on canvas', { executionId: execution.id });
+    const { nodes: currentNodes, setNodes: replaceNodes } = useWorkflowBuilderStore.getState();
+    replaceNodes(
+      currentNodes.map((node) => ({
+        ...node,
+        data: { ...node.data, status: undefined, error: undefined },
+      })),
+    );
+    setLiveExecution({ id: execution.id, status: execution.status as WorkflowStatus });
+  };
+
+  const handleStreamMessage = useCallback((message: ExecutionStreamMessage) => {
+    if (message.type === 'ping') {
+      return;
+    }
+
+    if (message.type === 'snapshot') {
+      const execution = message.data;
+      setLiveExecution({ id: execution.id, status: execution.status as WorkflowStatus });
+      execution.executionSteps?.forEach((step) => {
+        setNodeStatus(step.actionId, step.status as WorkflowNodeData['status'], step.error || undefined);
+      });
+      return;
+    }
+
+    const event = message.data;
+    if (event.type === 'execution.status') {
+      setLiveExecution({ id: event.executionId, status: event.status as WorkflowStatus });
+    } else if (event.actionId !== undefined) {
+      setNodeStatus(event.actionId, event.status as WorkflowNodeData['status'], event.error);
+    }
+  }, []);
+
+  const handleStreamError = useCallback((err: Error) => {
+    console.error('❌ [WorkflowBuilderPage] Execution stream failed:', err);
+    setLiveExecution(null);
+  }, []);
+
+  useExecutionStream(liveExecution?.id ?? null, handleStreamMessage, handleStreamError);
+
+  // Load the action and trigger types the palette and property forms are generated from
+  useEffect(() => {
+    if (!isAuthenticated || useWorkflowBuilderStore.getState().actionTypes.length > 0) {
+      return;
+    }
+    getActionTypes()
+      .then((types) => useWorkflowBuilderStore.getState().setHandlerTypes(types))
+      .catch((err) => {
+        console.error('❌ [WorkflowBuilderPage] Failed to load action types:', err);
+        setError(err.message || 'Failed to load action types');
+      });
+  }, [isAuthenticated]);
 
   // Handle OAuth callback messages (googleConnected/googleError)
   useEffect(() => {
@@ -100,6 +166,10 @@ const WorkflowBuilderPage = () => {
       setError(null);
       const workflow = await getWorkflowById(workflowId);
       console.log('🎨 [WorkflowBuilderPage] Workflow fetched', { id: workflow.id, name: workflow.name });
+      setVersionStatus({
+        publishedVersion: workflow.publishedVersion,
+        hasUnpublishedChanges: workflow.hasUnpublishedChanges,
+      });
 
       // Convert backend format to React Flow format
       const { nodes: flowNodes, edges: flowEdges } = convertFromBackendFormat(workflow);
@@ -117,6 +187,7 @@ const WorkflowBuilderPage = () => {
         name: workflow.name,
         description: workflow.description || '',
         enabled: workflow.enabled,
+        errorWorkflowId: workflow.errorWorkflowId ?? null,
       });
       if (workflow.trigger) {
         setTrigger({
@@ -132,6 +203,38 @@ const WorkflowBuilderPage = () => {
     }
   };
 
+  // Refresh the published / unpublished badge without reloading the canvas
+  const refreshVersionStatus = async () => {
+    if (!id) return;
+    try {
+      const workflow = await getWorkflowById(parseInt(id));
+      setVersionStatus({
+        publishedVersion: workflow.publishedVersion,
+        hasUnpublishedChanges: workflow.hasUnpublishedChanges,
+      });
+    } catch (err: any) {
+      console.error('❌ [WorkflowBuilderPage] Error refreshing version status:', err);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!id) return;
+    const note = window.prompt('Describe this version (optional)');
+    if (note === null) return;
+    try {
+      setIsPublishing(true);
+      setError(null);
+      const version = await publishWorkflow(parseInt(id), note || undefined);
+      console.log('✅ [WorkflowBuilderPage] Published version', version.version);
+      setVersionsKey((key) => key + 1);
+      await refreshVersionStatus();
+    } catch (err: any) {
+      setError(err.message || 'Failed to publish workflow');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
 
   if (isInitializing || isLoading) {
     return (
@@ -144,7 +247,50 @@ const WorkflowBuilderPage = () => {
   return (
     <div className="flex flex-col h-screen">
       <Navbar />
-      <WorkflowToolbar workflowId={id ? parseInt(id) : undefined} />
+      <WorkflowToolbar
+        workflowId={id ? parseInt(id) : undefined}
+        onExecute={handleExecute}
+        onSaved={refreshVersionStatus}
+      />
+
+      {id && versionStatus && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-white border-b border-gray-200 text-sm">
+          {!versionStatus.publishedVersion ? (
+            <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded">Draft — not published</span>
+          ) : (
+            <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded">
+              Published v{versionStatus.publishedVersion.version}
+            </span>
+          )}
+          {versionStatus.publishedVersion && versionStatus.hasUnpublishedChanges && (
+            <span className="bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">Unpublished changes</span>
+          )}
+          <button
+            onClick={handlePublish}
+            disabled={isPublishing || (!!versionStatus.publishedVersion && !versionStatus.hasUnpublishedChanges)}
+            className="px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-gray-400"
+          >
+            {isPublishing ? 'Publishing...' : 'Publish'}
+          </button>
+          <button onClick={() => setShowHistory((open) => !open)} className="text-blue-600 hover:underline">
+            {showHistory ? 'Hide history' : 'Version history'}
+          </button>
+        </div>
+      )}
+
+      {liveExecution && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 text-blue-800 px-4 py-2 mx-4 mt-2 rounded text-sm">
+          <span>
+            Execution #{liveExecution.id}: <span className="font-semibold">{liveExecution.status}</span>
+          </span>
+          <button
+            onClick={() => setLiveExecution(null)}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
       
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 mx-4 mt-2 rounded">
@@ -160,6 +306,15 @@ const WorkflowBuilderPage = () => {
         </div>
 
         <PropertiesPanel />
+
+        {id && showHistory && (
+          <VersionHistoryPanel
+            workflowId={parseInt(id)}
+            refreshKey={versionsKey}
+            onRollback={() => fetchWorkflow(parseInt(id))}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
     </div>
   );
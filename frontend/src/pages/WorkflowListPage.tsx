@@ -1,9 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import { useAuth } from '../context/AuthContext';
-import { getWorkflows, deleteWorkflow, toggleWorkflow } from '../api/workflows';
-import type { WorkflowResponse } from '../types/workflows';
+import { getWorkflows, deleteWorkflow, toggleWorkflow, exportWorkflow, importWorkflow, saveAsTemplate } from '../api/workflows';
+import type { WorkflowResponse, WorkflowDefinitionFormat } from '../types/workflows';
 
 const WorkflowListPage = () => {
   const { isAuthenticated, isInitializing } = useAuth();
@@ -12,6 +12,7 @@ const WorkflowListPage = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filterEnabled, setFilterEnabled] = useState<boolean | undefined>(undefined);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     console.log('📋 [WorkflowListPage] Component mounted', { isInitializing, isAuthenticated, filterEnabled });
@@ -84,6 +85,57 @@ const WorkflowListPage = () => {
     }
   };
 
+  const handleExport = async (id: number, format: WorkflowDefinitionFormat) => {
+    console.log('📋 [WorkflowListPage] handleExport() called', { workflowId: id, format });
+    try {
+      const { filename, content } = await exportWorkflow(id, format);
+      const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('❌ [WorkflowListPage] Error exporting workflow:', err);
+      setError(err.message || 'Failed to export workflow');
+    }
+  };
+
+  const handleSaveAsTemplate = async (workflow: WorkflowResponse) => {
+    console.log('📋 [WorkflowListPage] handleSaveAsTemplate() called', { workflowId: workflow.id });
+    const name = window.prompt('Template name', workflow.name);
+    if (name === null) return;
+
+    try {
+      const template = await saveAsTemplate({ workflowId: workflow.id, name: name.trim() || undefined });
+      console.log('✅ [WorkflowListPage] Template saved', { templateId: template.id });
+      alert(`Saved "${template.name}" to your templates.`);
+    } catch (err: any) {
+      console.error('❌ [WorkflowListPage] Error saving template:', err);
+      setError(err.message || 'Failed to save template');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    console.log('📋 [WorkflowListPage] handleImport() called', { fileName: file.name });
+    try {
+      setError(null);
+      const { workflow, warnings } = await importWorkflow(await file.text());
+      console.log('✅ [WorkflowListPage] Workflow imported', { workflowId: workflow.id });
+      setWorkflows([workflow, ...workflows]);
+      alert(
+        [`Imported "${workflow.name}" (disabled).`, ...warnings].join('\n'),
+      );
+    } catch (err: any) {
+      console.error('❌ [WorkflowListPage] Error importing workflow:', err);
+      setError(err.message || 'Failed to import workflow');
+    } finally {
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
   if (isInitializing) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -98,12 +150,33 @@ const WorkflowListPage = () => {
       <div className="p-6 max-w-7xl mx-auto">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold">Workflows</h1>
-          <button
-            onClick={() => navigate('/workflows/new')}
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
-          >
-            Create Workflow
-          </button>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.yaml,.yml"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+            />
+            <button
+              onClick={() => navigate('/templates')}
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200"
+            >
+              From template
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => navigate('/workflows/new')}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+            >
+              Create Workflow
+            </button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -240,6 +313,27 @@ const WorkflowListPage = () => {
                         >
                           {workflow.enabled ? 'Disable' : 'Enable'}
                         </button>
+                        <button
+                          onClick={() => handleExport(workflow.id, 'json')}
+                          className="bg-gray-100 text-gray-800 px-3 py-1 rounded text-sm hover:bg-gray-200 transition"
+                          title="Download as JSON"
+                        >
+                          JSON
+                        </button>
+                        <button
+                          onClick={() => handleExport(workflow.id, 'yaml')}
+                          className="bg-gray-100 text-gray-800 px-3 py-1 rounded text-sm hover:bg-gray-200 transition"
+                          title="Download as YAML"
+                        >
+                          YAML
+                        </button>
+                        <button
+                          onClick={() => handleSaveAsTemplate(workflow)}
+                          className="bg-gray-100 text-gray-800 px-3 py-1 rounded text-sm hover:bg-gray-200 transition"
+                          title="Save as template"
+                        >
+                          Template
+                        </button>
                         <button
                           onClick={() => handleDelete(workflow.id)}
                           className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700 transition"
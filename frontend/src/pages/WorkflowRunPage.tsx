@@ -1,12 +1,32 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import Navbar from '../components/Navbar';
+import ExecutionTimeline from '../components/ExecutionTimeline';
 import { useAuth } from '../context/AuthContext';
-import { getWorkflowById, executeWorkflow, getExecutionById } from '../api/workflows';
-import type { WorkflowResponse, ExecutionResponse } from '../types/workflows';
+import { useExecutionStream } from '../hooks/useExecutionStream';
+import {
+  getWorkflowById,
+  executeWorkflow,
+  getExecutionById,
+  cancelExecution,
+  getWorkflowExecutions,
+  rerunExecution,
+  pinTriggerData,
+  unpinTriggerData,
+} from '../api/workflows';
+import type {
+  WorkflowResponse,
+  ExecutionResponse,
+  ExecutionStepStatus,
+  ExecutionStreamMessage,
+  WorkflowStatus,
+} from '../types/workflows';
 
 const WorkflowRunPage = () => {
   const { id } = useParams<{ id: string }>();
+  // ?execution=<id> opens an existing run, e.g. a sub-workflow run linked from a timeline
+  const [searchParams] = useSearchParams();
+  const executionParam = searchParams.get('execution');
   const { isAuthenticated, isInitializing } = useAuth();
   const navigate = useNavigate();
 
@@ -14,8 +34,61 @@ const WorkflowRunPage = () => {
   const [execution, setExecution] = useState<ExecutionResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [triggerData, setTriggerData] = useState<string>('{}');
+  const [dryRun, setDryRun] = useState(false);
+  const [mockOutputs, setMockOutputs] = useState<string>('{}');
+  const [streamingExecutionId, setStreamingExecutionId] = useState<number | null>(null);
+  const [recentExecutions, setRecentExecutions] = useState<ExecutionResponse[]>([]);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [isPinning, setIsPinning] = useState(false);
+
+  const refreshExecution = async (executionId: number) => {
+    try {
+      setExecution(await getExecutionById(executionId));
+    } catch (err) {
+      console.error('❌ [WorkflowRunPage] Error refreshing execution:', err);
+    }
+  };
+
+  const handleStreamMessage = (message: ExecutionStreamMessage) => {
+    if (message.type === 'ping') {
+      return;
+    }
+    if (message.type === 'snapshot') {
+      setExecution(message.data);
+      return;
+    }
+
+    const event = message.data;
+    console.log('▶️ [WorkflowRunPage] Execution event', { type: event.type, actionId: event.actionId, status: event.status });
+
+    // Show the new status right away, then fetch outputs, new steps and the timeline
+    setExecution((current) => {
+      if (!current) return current;
+      if (event.type === 'execution.status') {
+        return { ...current, status: event.status as WorkflowStatus, error: event.error ?? current.error };
+      }
+      return {
+        ...current,
+        executionSteps: current.executionSteps.map((step) =>
+          step.id === event.stepId
+            ? { ...step, status: event.status as ExecutionStepStatus, error: event.error ?? step.error }
+            : step,
+        ),
+      };
+    });
+    refreshExecution(event.executionId);
+  };
+
+  useExecutionStream(streamingExecutionId, handleStreamMessage, (streamError) => {
+    // Live updates unavailable (e.g. proxy or Redis issue): fall back to polling
+    console.warn('▶️ [WorkflowRunPage] Execution stream failed, falling back to polling', streamError.message);
+    if (streamingExecutionId !== null) {
+      pollExecutionStatus(streamingExecutionId);
+    }
+  });
 
   useEffect(() => {
     console.log('▶️ [WorkflowRunPage] Component mounted', { isInitializing, isAuthenticated, workflowId: id });
@@ -31,6 +104,26 @@ const WorkflowRunPage = () => {
     }
   }, [isAuthenticated, isInitializing, navigate, id]);
 
+  useEffect(() => {
+    if (isInitializing || !isAuthenticated || !executionParam) {
+      return;
+    }
+
+    const executionId = parseInt(executionParam, 10);
+    console.log('▶️ [WorkflowRunPage] Opening execution', { executionId });
+    getExecutionById(executionId)
+      .then((data) => {
+        setExecution(data);
+        if (data.status === 'pending' || data.status === 'running') {
+          setStreamingExecutionId(data.id);
+        }
+      })
+      .catch((err: any) => {
+        setError(err.message || 'Failed to load execution');
+        console.error('❌ [WorkflowRunPage] Error loading execution:', err);
+      });
+  }, [isAuthenticated, isInitializing, executionParam]);
+
   const fetchWorkflow = async (workflowId: number) => {
     console.log('▶️ [WorkflowRunPage] fetchWorkflow() called', { workflowId });
     try {
@@ -39,6 +132,11 @@ const WorkflowRunPage = () => {
       const data = await getWorkflowById(workflowId);
       console.log('▶️ [WorkflowRunPage] Workflow fetched', { id: data.id, name: data.name, enabled: data.enabled });
       setWorkflow(data);
+      // The pinned sample payload is the default test input
+      if (data.pinnedTriggerData) {
+        setTriggerData(JSON.stringify(data.pinnedTriggerData, null, 2));
+      }
+      fetchRecentExecutions(workflowId);
     } catch (err: any) {
       setError(err.message || 'Failed to load workflow');
       console.error('❌ [WorkflowRunPage] Error fetching workflow:', err);
@@ -47,6 +145,63 @@ const WorkflowRunPage = () => {
     }
   };
 
+  // Earlier trigger data to replay; not loading it doesn't block running the workflow
+  const fetchRecentExecutions = async (workflowId: number) => {
+    try {
+      setRecentExecutions(await getWorkflowExecutions(workflowId, 10));
+    } catch (err) {
+      console.error('❌ [WorkflowRunPage] Error fetching recent executions:', err);
+    }
+  };
+
+  const handleLoadTriggerData = (value: string) => {
+    if (value === 'pinned') {
+      setTriggerData(JSON.stringify(workflow?.pinnedTriggerData ?? {}, null, 2));
+      return;
+    }
+    const source = recentExecutions.find((e) => e.id === parseInt(value, 10));
+    if (source) {
+      console.log('▶️ [WorkflowRunPage] Loading trigger data from execution', { executionId: source.id });
+      setTriggerData(JSON.stringify(source.triggerData ?? {}, null, 2));
+    }
+  };
+
+  const handlePin = async () => {
+    if (!workflow) return;
+    console.log('▶️ [WorkflowRunPage] handlePin() called', { workflowId: workflow.id });
+    try {
+      setIsPinning(true);
+      setError(null);
+      let parsedTriggerData: Record<string, any>;
+      try {
+        parsedTriggerData = JSON.parse(triggerData || '{}');
+      } catch {
+        throw new Error('Invalid JSON in trigger data');
+      }
+      setWorkflow(await pinTriggerData(workflow.id, parsedTriggerData));
+    } catch (err: any) {
+      setError(err.message || 'Failed to pin trigger data');
+      console.error('❌ [WorkflowRunPage] Error pinning trigger data:', err);
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  const handleUnpin = async () => {
+    if (!workflow) return;
+    console.log('▶️ [WorkflowRunPage] handleUnpin() called', { workflowId: workflow.id });
+    try {
+      setIsPinning(true);
+      setError(null);
+      setWorkflow(await unpinTriggerData(workflow.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to unpin trigger data');
+      console.error('❌ [WorkflowRunPage] Error unpinning trigger data:', err);
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
   const handleExecute = async () => {
     console.log('▶️ [WorkflowRunPage] handleExecute() called', { workflowId: workflow?.id, hasTriggerData: !!triggerData.trim() });
     if (!workflow) {
@@ -68,15 +223,28 @@ const WorkflowRunPage = () => {
         }
       }
 
-      console.log('▶️ [WorkflowRunPage] Executing workflow...');
-      const executionResult = await executeWorkflow(workflow.id, parsedTriggerData);
+      let parsedMockOutputs: Record<string, any> | undefined;
+      if (dryRun && mockOutputs.trim()) {
+        try {
+          parsedMockOutputs = JSON.parse(mockOutputs);
+        } catch {
+          throw new Error('Invalid JSON in mock outputs');
+        }
+      }
+
+      console.log('▶️ [WorkflowRunPage] Executing workflow...', { dryRun });
+      const executionResult = await executeWorkflow(
+        workflow.id,
+        parsedTriggerData,
+        dryRun ? { dryRun: true, mockOutputs: parsedMockOutputs } : {},
+      );
       console.log('▶️ [WorkflowRunPage] Workflow execution started', { executionId: executionResult.id, status: executionResult.status });
       setExecution(executionResult);
 
-      // Poll for execution status if it's still running
+      // Follow the execution live if it's still running
       if (executionResult.status === 'pending' || executionResult.status === 'running') {
-        console.log('▶️ [WorkflowRunPage] Starting status polling', { executionId: executionResult.id });
-        pollExecutionStatus(executionResult.id);
+        console.log('▶️ [WorkflowRunPage] Following execution', { executionId: executionResult.id });
+        setStreamingExecutionId(executionResult.id);
       }
     } catch (err: any) {
       setError(err.message || 'Failed to execute workflow');
@@ -86,6 +254,52 @@ const WorkflowRunPage = () => {
     }
   };
 
+  const handleCancel = async () => {
+    console.log('▶️ [WorkflowRunPage] handleCancel() called', { executionId: execution?.id });
+    if (!execution) {
+      return;
+    }
+
+    try {
+      setIsCancelling(true);
+      setError(null);
+      // A running execution stops at its next step; polling picks up the final status
+      const cancelled = await cancelExecution(execution.id);
+      console.log('▶️ [WorkflowRunPage] Cancellation requested', { status: cancelled.status });
+      setExecution(cancelled);
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel execution');
+      console.error('❌ [WorkflowRunPage] Error cancelling execution:', err);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Re-runs the shown execution as a new one, from the beginning or from a failed step
+  const handleRerun = async (fromStepId?: number) => {
+    console.log('▶️ [WorkflowRunPage] handleRerun() called', { executionId: execution?.id, fromStepId });
+    if (!execution) {
+      return;
+    }
+
+    try {
+      setIsRerunning(true);
+      setError(null);
+      const rerun = await rerunExecution(execution.id, { fromStepId });
+      console.log('▶️ [WorkflowRunPage] Re-run started', { executionId: rerun.id });
+      setExecution(rerun);
+      setStreamingExecutionId(rerun.id);
+      if (workflow) {
+        fetchRecentExecutions(workflow.id);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to re-run execution');
+      console.error('❌ [WorkflowRunPage] Error re-running execution:', err);
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
   const pollExecutionStatus = async (executionId: number) => {
     console.log('▶️ [WorkflowRunPage] pollExecutionStatus() started', { executionId });
     const maxAttempts = 30;
@@ -102,9 +316,11 @@ const WorkflowRunPage = () => {
         if (
           updatedExecution.status === 'completed' ||
           updatedExecution.status === 'failed' ||
-          updatedExecution.status === 'cancelled'
+          updatedExecution.status === 'cancelled' ||
+          updatedExecution.status === 'waiting'
         ) {
-          console.log('▶️ [WorkflowRunPage] Execution finished', { status: updatedExecution.status });
+          // A waiting execution resumes much later (hours or days), so stop polling as well
+          console.log('▶️ [WorkflowRunPage] Execution finished or paused', { status: updatedExecution.status });
           clearInterval(poll);
         }
 
@@ -119,6 +335,23 @@ const WorkflowRunPage = () => {
     }, 2000); // Poll every 2 seconds
   };
 
+  // Marks steps of a test run that were previewed or mocked instead of run
+  const stepBadge = (stepId: number, output?: Record<string, any>) => {
+    if (!execution?.dryRun) return null;
+    const actionName = execution.timeline?.find((entry) => entry.stepId === stepId)?.actionName;
+    if (actionName && execution.mockOutputs && actionName in execution.mockOutputs) {
+      return <span className="ml-2 px-2 py-0.5 rounded text-xs bg-purple-100 text-purple-800">mocked</span>;
+    }
+    if (output?.dryRun) {
+      return (
+        <span className="ml-2 px-2 py-0.5 rounded text-xs bg-purple-100 text-purple-800" title={output.summary}>
+          preview
+        </span>
+      );
+    }
+    return null;
+  };
+
   if (isInitializing || isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -191,13 +424,35 @@ const WorkflowRunPage = () => {
         </div>
 
         {/* Execution Form */}
-        {workflow.enabled && (
+        {(workflow.enabled || dryRun) && (
           <div className="bg-white rounded-lg shadow p-6 mb-6">
             <h2 className="text-xl font-semibold mb-4">Execute Workflow</h2>
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Trigger Data (JSON, optional)
-              </label>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Trigger Data (JSON, optional)
+                  {workflow.pinnedTriggerData && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-800">pinned sample</span>
+                  )}
+                </label>
+                {(recentExecutions.length > 0 || workflow.pinnedTriggerData) && (
+                  <select
+                    value=""
+                    onChange={(e) => handleLoadTriggerData(e.target.value)}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  >
+                    <option value="" disabled>
+                      Load trigger data from...
+                    </option>
+                    {workflow.pinnedTriggerData && <option value="pinned">Pinned sample</option>}
+                    {recentExecutions.map((e) => (
+                      <option key={e.id} value={e.id}>
+                        Execution #{e.id} · {e.status} · {new Date(e.createdAt).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
               <textarea
                 value={triggerData}
                 onChange={(e) => setTriggerData(e.target.value)}
@@ -205,27 +460,110 @@ const WorkflowRunPage = () => {
                 rows={6}
                 placeholder='{"event": "user_signup", "userId": 123}'
               />
+              <div className="flex gap-3 mt-1 text-xs">
+                <button onClick={handlePin} disabled={isPinning} className="text-blue-600 hover:underline disabled:text-gray-400">
+                  Pin as sample
+                </button>
+                {workflow.pinnedTriggerData && (
+                  <button
+                    onClick={handleUnpin}
+                    disabled={isPinning}
+                    className="text-gray-600 hover:underline disabled:text-gray-400"
+                  >
+                    Unpin
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="mb-4">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+                Test run — preview emails and HTTP requests instead of sending them
+              </label>
+              {dryRun && (
+                <div className="mt-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Mock outputs (JSON, by action name, optional)
+                  </label>
+                  <textarea
+                    value={mockOutputs}
+                    onChange={(e) => setMockOutputs(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-4 py-2 font-mono text-sm"
+                    rows={4}
+                    placeholder={`{"${workflow.actions[0]?.name || 'Fetch order'}": {"status": 200, "data": {}}}`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Mocked actions return the given output instead of running. Conditions, loops and parallel branches
+                    always run.
+                  </p>
+                </div>
+              )}
             </div>
             <button
               onClick={handleExecute}
               disabled={isExecuting}
-              className="w-full bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              className={`w-full text-white px-6 py-3 rounded-lg disabled:bg-gray-400 disabled:cursor-not-allowed ${
+                dryRun ? 'bg-purple-600 hover:bg-purple-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
             >
-              {isExecuting ? 'Executing...' : 'Execute Workflow'}
+              {isExecuting ? 'Executing...' : dryRun ? 'Start Test Run' : 'Execute Workflow'}
             </button>
           </div>
         )}
 
-        {!workflow.enabled && (
+        {!workflow.enabled && !dryRun && (
           <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded mb-6">
-            This workflow is disabled. Enable it to execute.
+            This workflow is disabled. Enable it to execute, or{' '}
+            <button onClick={() => setDryRun(true)} className="underline font-medium">
+              do a test run
+            </button>
+            .
           </div>
         )}
 
         {/* Execution Result */}
         {execution && (
           <div className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-xl font-semibold mb-4">Execution Result</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold flex items-center gap-2">
+                Execution Result
+                {execution.dryRun && (
+                  <span
+                    className="px-2 py-1 rounded text-xs font-semibold bg-purple-100 text-purple-800"
+                    title="Emails, HTTP requests and other side effects were previewed, not performed"
+                  >
+                    Test run
+                  </span>
+                )}
+                {!!execution.duplicatesSuppressed && (
+                  <span
+                    className="px-2 py-1 rounded text-xs font-semibold bg-gray-100 text-gray-700"
+                    title="Repeats of the trigger event (redelivered notifications, webhook retries) were ignored"
+                  >
+                    {execution.duplicatesSuppressed} duplicate{execution.duplicatesSuppressed === 1 ? '' : 's'} suppressed
+                  </span>
+                )}
+              </h2>
+              {(execution.status === 'pending' || execution.status === 'running' || execution.status === 'waiting') && (
+                <button
+                  onClick={handleCancel}
+                  disabled={isCancelling}
+                  className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {isCancelling ? 'Cancelling...' : 'Cancel'}
+                </button>
+              )}
+              {(execution.status === 'completed' || execution.status === 'failed' || execution.status === 'cancelled') && (
+                <button
+                  onClick={() => handleRerun()}
+                  disabled={isRerunning}
+                  className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Run again with the same trigger data"
+                >
+                  {isRerunning ? 'Re-running...' : 'Re-run'}
+                </button>
+              )}
+            </div>
             <div className="space-y-3">
               <div>
                 <span className="font-medium">Status:</span>{' '}
@@ -235,6 +573,10 @@ const WorkflowRunPage = () => {
                       ? 'bg-green-100 text-green-800'
                       : execution.status === 'failed'
                       ? 'bg-red-100 text-red-800'
+                      : execution.status === 'cancelled'
+                      ? 'bg-gray-100 text-gray-800'
+                      : execution.status === 'waiting'
+                      ? 'bg-blue-100 text-blue-800'
                       : 'bg-yellow-100 text-yellow-800'
                   }`}
                 >
@@ -242,6 +584,19 @@ const WorkflowRunPage = () => {
                 </span>
               </div>
 
+              {execution.parentExecutionId && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Started by:</span> execution #{execution.parentExecutionId} (sub-workflow
+                  run)
+                </div>
+              )}
+
+              {execution.status === 'waiting' && execution.waitUntil && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Resumes at:</span> {new Date(execution.waitUntil).toLocaleString()}
+                </div>
+              )}
+
               {execution.error && (
                 <div className="bg-red-50 border border-red-200 rounded p-3">
                   <div className="font-medium text-red-800">Error:</div>
@@ -258,6 +613,13 @@ const WorkflowRunPage = () => {
                 </div>
               )}
 
+              {execution.timeline && execution.timeline.length > 0 && (
+                <div>
+                  <div className="font-medium mb-2">Timeline:</div>
+                  <ExecutionTimeline timeline={execution.timeline} />
+                </div>
+              )}
+
               {execution.executionSteps && execution.executionSteps.length > 0 && (
                 <div>
                   <div className="font-medium mb-2">Execution Steps:</div>
@@ -265,13 +627,20 @@ const WorkflowRunPage = () => {
                     {execution.executionSteps.map((step, index) => (
                       <div key={step.id} className="border border-gray-200 rounded p-3">
                         <div className="flex justify-between items-center mb-2">
-                          <span className="font-medium">Step {index + 1}</span>
+                          <span className="font-medium">
+                            Step {index + 1}
+                            {stepBadge(step.id, step.output)}
+                          </span>
                           <span
                             className={`px-2 py-1 rounded text-xs ${
                               step.status === 'completed'
                                 ? 'bg-green-100 text-green-800'
                                 : step.status === 'failed'
                                 ? 'bg-red-100 text-red-800'
+                                : step.status === 'skipped'
+                                ? 'bg-gray-100 text-gray-800'
+                                : step.status === 'waiting'
+                                ? 'bg-blue-100 text-blue-800'
                                 : 'bg-yellow-100 text-yellow-800'
                             }`}
                           >
@@ -281,6 +650,16 @@ const WorkflowRunPage = () => {
                         {step.error && (
                           <div className="text-red-700 text-sm mt-1">{step.error}</div>
                         )}
+                        {step.status === 'failed' && (execution.status === 'failed' || execution.status === 'cancelled') && (
+                          <button
+                            onClick={() => handleRerun(step.id)}
+                            disabled={isRerunning}
+                            className="mt-2 text-xs text-blue-600 hover:underline disabled:text-gray-400"
+                            title="Run again from this step, reusing the outputs of the steps before it"
+                          >
+                            Re-run from this step
+                          </button>
+                        )}
                         {step.output && (
                           <pre className="bg-gray-50 rounded p-2 text-xs mt-2 overflow-x-auto">
                             {JSON.stringify(step.output, null, 2)}
@@ -1,18 +1,32 @@
 import { create } from 'zustand';
 import { Node, Edge, Connection, addEdge, applyNodeChanges, applyEdgeChanges, NodeChange, EdgeChange } from 'reactflow';
 import { WorkflowNode, WorkflowNodeData, WorkflowEdge, WorkflowBuilderState } from '../types/workflow-builder';
-import { TriggerType, WorkflowResponse } from '../types/workflows';
-import { ActionType, ACTION_TYPES } from '../types/workflow-builder';
+import {
+  TriggerType,
+  WorkflowResponse,
+  WorkflowValidationIssue,
+  ActionTypeDescriptor,
+  TriggerTypeDescriptor,
+  ActionTypesResponse,
+} from '../types/workflows';
+import { ActionTypeConfig, DEFAULT_ACTION_APPEARANCE } from '../types/workflow-builder';
+import { toActionTypeConfig } from '../utils/json-schema';
 
 interface WorkflowBuilderStore extends WorkflowBuilderState {
+  // Action and trigger types available on the backend (palette and property forms)
+  actionTypes: ActionTypeDescriptor[];
+  triggerTypes: TriggerTypeDescriptor[];
+  setHandlerTypes: (types: ActionTypesResponse) => void;
+
   // Node management
   setNodes: (nodes: WorkflowNode[]) => void;
   onNodesChange: (changes: NodeChange[]) => void;
-  addNode: (type: ActionType, position: { x: number; y: number }) => void;
-  addNodeAtCenter: (type: ActionType) => WorkflowNode;
+  addNode: (type: string, position: { x: number; y: number }) => void;
+  addNodeAtCenter: (type: string) => WorkflowNode;
   updateNode: (id: string, data: Partial<WorkflowNodeData>) => void;
   deleteNode: (id: string) => void;
   selectNode: (node: WorkflowNode | null) => void;
+  setValidationIssues: (issues: WorkflowValidationIssue[]) => void;
 
   // Edge management
   setEdges: (edges: WorkflowEdge[]) => void;
@@ -22,29 +36,35 @@ interface WorkflowBuilderStore extends WorkflowBuilderState {
 
   // Workflow management
   setTrigger: (trigger: { type: TriggerType; config: Record<string, any> }) => void;
-  setWorkflowMeta: (meta: { name: string; description: string; enabled: boolean }) => void;
+  setWorkflowMeta: (meta: {
+    name: string;
+    description: string;
+    enabled: boolean;
+    errorWorkflowId?: number | null;
+  }) => void;
   loadWorkflow: (workflow: WorkflowResponse) => void;
   reset: () => void;
-
-  // Export/Import
-  exportToJson: () => string;
-  importFromJson: (json: string) => void;
 }
 
 const initialNodes: WorkflowNode[] = [];
 const initialEdges: WorkflowEdge[] = [];
 
-const getActionConfig = (type: ActionType) => {
-  return ACTION_TYPES.find((a) => a.type === type) || ACTION_TYPES[0];
+const getActionConfig = (actionTypes: ActionTypeDescriptor[], type: string): ActionTypeConfig => {
+  const descriptor = actionTypes.find((a) => a.type === type);
+  return descriptor
+    ? toActionTypeConfig(descriptor)
+    : { type, name: type, description: '', ...DEFAULT_ACTION_APPEARANCE, defaultConfig: {} };
 };
 
-const generateNodeId = (type: ActionType | 'trigger'): string => {
+const generateNodeId = (type: string): string => {
   const prefix = type === 'trigger' ? 'trigger' : type;
   return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
 export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) => ({
   // Initial state
+  actionTypes: [],
+  triggerTypes: [],
   nodes: initialNodes,
   edges: initialEdges,
   selectedNode: null,
@@ -58,6 +78,11 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
     enabled: true,
   },
 
+  setHandlerTypes: ({ actions, triggers }) => {
+    console.log('🎨 [WorkflowBuilder] Handler types loaded:', { actions: actions.length, triggers: triggers.length });
+    set({ actionTypes: actions, triggerTypes: triggers });
+  },
+
   // Node management
   setNodes: (nodes) => set({ nodes }),
 
@@ -85,7 +110,7 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
   },
 
   addNode: (type, position) => {
-    const actionConfig = getActionConfig(type);
+    const actionConfig = getActionConfig(get().actionTypes, type);
     const newNodeId = generateNodeId(type);
     
     const newNode: WorkflowNode = {
@@ -115,9 +140,9 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
     }));
   },
 
-  addNodeAtCenter: (type: ActionType) => {
+  addNodeAtCenter: (type: string) => {
     const state = get();
-    const actionConfig = getActionConfig(type);
+    const actionConfig = getActionConfig(state.actionTypes, type);
     const newNodeId = generateNodeId(type);
     
     // Calculate position: center of viewport or after last action node
@@ -219,6 +244,23 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
     set({ selectedNode: node });
   },
 
+  // Issues point at actions by order index: the position among the action nodes,
+  // as sent by convertToBackendFormat
+  setValidationIssues: (issues) => {
+    console.log('🎨 [WorkflowBuilder] Validation issues:', issues.length);
+    const actionNodeIds = get()
+      .nodes.filter((node) => node.data.type !== 'trigger')
+      .map((node) => node.id);
+    set((state) => ({
+      nodes: state.nodes.map((node) => {
+        const nodeIssues = issues.filter(
+          (issue) => issue.actionOrder !== undefined && actionNodeIds[issue.actionOrder] === node.id,
+        );
+        return { ...node, data: { ...node.data, validationIssues: nodeIssues.length > 0 ? nodeIssues : undefined } };
+      }),
+    }));
+  },
+
   // Edge management
   setEdges: (edges) => {
     console.log('🎨 [WorkflowBuilder] setEdges called with:', {
@@ -348,14 +390,14 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
 
     // Add action nodes
     workflow.actions.forEach((action, index) => {
-      const actionConfig = getActionConfig(action.type as ActionType);
+      const actionConfig = getActionConfig(get().actionTypes, action.type);
       nodes.push({
         id: `action-${action.id}`,
         type: 'default',
         position: { x: 250 + (index % 3) * 200, y: 250 + Math.floor(index / 3) * 150 },
         data: {
           id: `action-${action.id}`,
-          type: action.type as ActionType,
+          type: action.type,
           name: action.name,
           config: action.config,
           retryConfig: action.retryConfig
@@ -401,6 +443,7 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
         name: workflow.name,
         description: workflow.description || '',
         enabled: workflow.enabled,
+        errorWorkflowId: workflow.errorWorkflowId ?? null,
       },
     });
   },
@@ -446,35 +489,5 @@ export const useWorkflowBuilderStore = create<WorkflowBuilderStore>((set, get) =
       },
     });
   },
-
-  exportToJson: () => {
-    const state = get();
-    const exportData = {
-      workflowMeta: state.workflowMeta,
-      trigger: state.trigger,
-      nodes: state.nodes,
-      edges: state.edges,
-    };
-    return JSON.stringify(exportData, null, 2);
-  },
-
-  importFromJson: (json) => {
-    try {
-      const data = JSON.parse(json);
-      set({
-        nodes: data.nodes || [],
-        edges: data.edges || [],
-        trigger: data.trigger || { type: TriggerType.MANUAL, config: {} },
-        workflowMeta: data.workflowMeta || {
-          name: '',
-          description: '',
-          enabled: true,
-        },
-      });
-    } catch (error) {
-      console.error('Failed to import JSON:', error);
-      throw new Error('Invalid JSON format');
-    }
-  },
 }));
 
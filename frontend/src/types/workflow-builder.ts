@@ -2,18 +2,29 @@
  * Types for Workflow Builder using React Flow
  */
 import { Node, Edge } from 'reactflow';
-import { TriggerType, CreateWorkflow } from './workflows';
+import { TriggerType, CreateWorkflow, ActionErrorPolicy, WorkflowValidationIssue } from './workflows';
 
+/**
+ * Action types the builder has special handling for. The available types come from the
+ * backend (GET /workflows/action-types), so a node's type may be any registered type.
+ */
 export enum ActionType {
   HTTP_REQUEST = 'http_request',
   EMAIL = 'email',
   WAIT = 'wait',
   PARALLEL = 'parallel',
+  CONDITIONAL = 'conditional',
+  LOOP = 'loop',
+  EXECUTE_WORKFLOW = 'execute_workflow',
+  RESPOND_TO_WEBHOOK = 'respond_to_webhook',
   EXAMPLE = 'example_action',
 }
 
+/**
+ * A palette entry: a backend action type with its look and the config new nodes start with
+ */
 export interface ActionTypeConfig {
-  type: ActionType;
+  type: string;
   name: string;
   description: string;
   icon: string;
@@ -21,69 +32,43 @@ export interface ActionTypeConfig {
   defaultConfig: Record<string, any>;
 }
 
-export const ACTION_TYPES: ActionTypeConfig[] = [
-  {
-    type: ActionType.HTTP_REQUEST,
-    name: 'HTTP Request',
-    description: 'Make an HTTP call to an external API',
-    icon: '🌐',
-    color: 'bg-blue-500',
-    defaultConfig: {
-      method: 'GET',
-      url: '',
-      headers: {},
-      body: {},
-    },
-  },
-  {
-    type: ActionType.EMAIL,
-    name: 'Send Google Email',
-    description: 'Send an email via Google (requires OAuth2 authentication)',
-    icon: '📧',
-    color: 'bg-green-500',
-    defaultConfig: {
-      to: '',
-      subject: '',
-      body: '',
-    },
-  },
-  {
-    type: ActionType.WAIT,
-    name: 'Wait/Delay',
-    description: 'Wait for a duration or until a condition is met',
-    icon: '⏳',
-    color: 'bg-yellow-500',
-    defaultConfig: {
-      duration: '5s',
-    },
-  },
-  {
-    type: ActionType.PARALLEL,
-    name: 'Parallel',
-    description: 'Execute multiple actions simultaneously',
-    icon: '⚡',
-    color: 'bg-red-500',
-    defaultConfig: {
-      actionIds: [],
-      waitForAll: true,
-      stopOnFirstFailure: false,
-    },
-  },
-];
+export interface ActionAppearance {
+  icon: string;
+  color: string;
+}
+
+export const ACTION_APPEARANCE: Record<string, ActionAppearance> = {
+  [ActionType.HTTP_REQUEST]: { icon: '🌐', color: 'bg-blue-500' },
+  [ActionType.EMAIL]: { icon: '📧', color: 'bg-green-500' },
+  'gmail-oauth2-send': { icon: '✉️', color: 'bg-green-600' },
+  [ActionType.WAIT]: { icon: '⏳', color: 'bg-yellow-500' },
+  [ActionType.PARALLEL]: { icon: '⚡', color: 'bg-red-500' },
+  [ActionType.CONDITIONAL]: { icon: '🔀', color: 'bg-purple-500' },
+  [ActionType.LOOP]: { icon: '🔄', color: 'bg-orange-500' },
+  [ActionType.EXECUTE_WORKFLOW]: { icon: '🔁', color: 'bg-teal-500' },
+  [ActionType.RESPOND_TO_WEBHOOK]: { icon: '↩️', color: 'bg-indigo-500' },
+};
+
+// Types without an entry above (e.g. a newly added backend handler)
+export const DEFAULT_ACTION_APPEARANCE: ActionAppearance = { icon: '⚙️', color: 'bg-gray-500' };
 
 export interface WorkflowNodeData {
   id: string;
-  type: ActionType | 'trigger';
+  type: string; // Action type (see ActionType) or 'trigger'
   name: string;
   config: Record<string, any>;
   retryConfig?: {
     type: 'fixed' | 'exponential';
     delay: number;
   };
+  onError?: ActionErrorPolicy;
+  errorActionNodeId?: string; // Node that handles this action's errors (for onError 'branch')
+  nextNodeId?: string; // Parallel: node to continue with once the branches have joined
   // For React Flow visualization
   label?: string;
-  status?: 'pending' | 'running' | 'completed' | 'failed';
+  status?: 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'skipped';
   error?: string;
+  validationIssues?: WorkflowValidationIssue[]; // From the last save; highlighted on the canvas
 }
 
 export type WorkflowNode = Node<WorkflowNodeData>;
@@ -101,6 +86,7 @@ export interface WorkflowBuilderState {
     name: string;
     description: string;
     enabled: boolean;
+    errorWorkflowId?: number | null;
   };
 }
 
@@ -13,6 +13,7 @@ export enum TriggerType {
 export enum WorkflowStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
@@ -21,6 +22,7 @@ export enum WorkflowStatus {
 export enum ExecutionStepStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
   COMPLETED = 'completed',
   FAILED = 'failed',
   SKIPPED = 'skipped',
@@ -31,6 +33,9 @@ export interface RetryConfig {
   delay: number;
 }
 
+// What happens when an action fails: fail the execution, continue, or run the error handler
+export type ActionErrorPolicy = 'fail' | 'continue' | 'branch';
+
 export interface CreateAction {
   type: string;
   name: string;
@@ -41,6 +46,8 @@ export interface CreateAction {
   nextActionOrder?: number; // Order index of next action (for sequential flow)
   parentActionOrder?: number; // Order index of parent action (for parallel/loop children)
   retryConfig?: RetryConfig;
+  onError?: ActionErrorPolicy;
+  errorActionOrder?: number; // Order index of the error-handler action (for onError 'branch')
 }
 
 export interface CreateTrigger {
@@ -54,6 +61,7 @@ export interface CreateWorkflow {
   name: string;
   description?: string;
   enabled?: boolean;
+  errorWorkflowId?: number | null; // Workflow triggered when an execution fails
   trigger: CreateTrigger;
   actions: CreateAction[];
 }
@@ -79,6 +87,8 @@ export interface ActionResponse {
   nextActionId?: number;
   parentActionId?: number;
   retryConfig?: Record<string, any>;
+  onError?: ActionErrorPolicy;
+  errorActionId?: number | null;
 }
 
 export interface WorkflowResponse {
@@ -87,12 +97,117 @@ export interface WorkflowResponse {
   name: string;
   description?: string;
   enabled: boolean;
+  errorWorkflowId?: number | null;
+  publishedVersionId?: number | null; // Version that executions run
+  publishedVersion?: WorkflowVersionSummary | null;
+  hasUnpublishedChanges?: boolean;
+  pinnedTriggerData?: Record<string, any> | null; // Default test input
   trigger?: TriggerResponse;
   actions: ActionResponse[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WorkflowVersionSummary {
+  id: number;
+  version: number;
+  createdAt: string;
+}
+
+export interface WorkflowVersionResponse extends WorkflowVersionSummary {
+  workflowId: number;
+  name: string;
+  description?: string | null;
+  trigger?: { type: TriggerType; config: Record<string, any> } | null;
+  note?: string | null;
+  published: boolean;
+  actions?: ActionResponse[];
+  actionCount?: number;
+  executionCount?: number;
+}
+
+export interface VersionFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface VersionActionRef {
+  order: number;
+  name: string;
+}
+
+export interface WorkflowVersionDiff {
+  from: number;
+  to: number;
+  changes: VersionFieldChange[];
+  actions: {
+    added: VersionActionRef[];
+    removed: VersionActionRef[];
+    changed: (VersionActionRef & { changes: VersionFieldChange[] })[];
+  };
+}
+
+export interface StepAttempt {
+  attempt: number;
+  status: ExecutionStepStatus.COMPLETED | ExecutionStepStatus.FAILED;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface SubWorkflowRun {
+  id: number;
+  workflowId: number;
+  status: WorkflowStatus;
+}
+
+export interface ExecutionTimelineEntry {
+  stepId: number;
+  actionId: number;
+  actionName?: string;
+  actionType?: string;
+  status: ExecutionStepStatus;
+  order: number;
+  iteration?: number; // Innermost loop iteration, for steps inside loops
+  iterationPath?: string; // e.g. "2.0" in nested loops
+  childExecutions?: SubWorkflowRun[]; // Sub-workflow runs started by the step
+  startedAt?: string;
+  completedAt?: string;
+  durationMs: number | null;
+  offsetMs: number | null;
+  input?: Record<string, any>;
+  error?: string;
+  attempts: StepAttempt[];
+}
+
+export type ExecutionEventType =
+  | 'execution.status'
+  | 'step.started'
+  | 'step.completed'
+  | 'step.failed'
+  | 'step.waiting'
+  | 'step.skipped';
+
+export interface ExecutionEvent {
+  type: ExecutionEventType;
+  executionId: number;
+  status: WorkflowStatus | ExecutionStepStatus;
+  actionId?: number;
+  stepId?: number;
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Messages of the execution event stream: a snapshot first, then live events
+ */
+export type ExecutionStreamMessage =
+  | { type: 'snapshot'; data: ExecutionResponse }
+  | { type: 'ping'; data: Record<string, never> }
+  | { type: ExecutionEventType; data: ExecutionEvent };
+
 export interface ExecutionStepResponse {
   id: number;
   executionId: number;
@@ -103,6 +218,7 @@ export interface ExecutionStepResponse {
   output?: Record<string, any>;
   error?: string;
   retryCount: number;
+  attempts?: StepAttempt[];
   startedAt?: string;
   completedAt?: string;
 }
@@ -117,7 +233,16 @@ export interface ExecutionResponse {
   error?: string;
   startedAt?: string;
   completedAt?: string;
+  waitUntil?: string;
+  parentExecutionId?: number | null; // Set when started by an execute_workflow action
+  workflowVersionId?: number | null; // Null for draft runs
+  workflowVersion?: WorkflowVersionSummary | null;
+  dryRun?: boolean; // Test run: side effects were previewed, not performed
+  mockOutputs?: Record<string, any> | null; // Action name -> mock output used in the test run
+  duplicatesSuppressed?: number; // Repeats of the trigger event that were ignored
+  lastDuplicateAt?: string | null;
   executionSteps: ExecutionStepResponse[];
+  timeline?: ExecutionTimelineEntry[];
   createdAt: string;
   updatedAt: string;
   workflow?: {
@@ -126,14 +251,149 @@ export interface ExecutionResponse {
   };
 }
 
+export interface RerunExecutionRequest {
+  fromStepId?: number; // Failed step to re-run from; omit to start from the beginning
+}
+
+export interface StepTestRequest {
+  type: string;
+  config: Record<string, any>;
+  triggerData?: Record<string, any>; // Sample trigger data
+  stepOutputs?: Record<string, any>; // Action name -> output
+  useLastExecution?: boolean; // Use the last execution's trigger data and step outputs
+  dryRun?: boolean;
+}
+
+export interface StepTestResult {
+  status: 'completed' | 'failed';
+  input: Record<string, any>; // Config with templates resolved
+  output?: any;
+  error?: string;
+  durationMs: number;
+  sourceExecutionId?: number;
+}
+
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  code: string; // e.g. 'cycle', 'dangling_reference', 'unreachable_action'
+  message: string;
+  actionOrder?: number; // Order index of the offending action; absent for workflow-level issues
+  field?: string;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings don't block saving)
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
+}
+
+/**
+ * JSON Schema of an action / trigger config or output, as declared by its backend handler.
+ * `x-widget` asks for a specific input; `readOnly` fields are set by the builder itself.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  default?: any;
+  examples?: any[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  oneOf?: JsonSchema[];
+  readOnly?: boolean;
+  deprecated?: boolean;
+  'x-widget'?: 'textarea' | 'workflow' | 'action';
+}
+
+export interface ActionTypeDescriptor {
+  type: string;
+  name: string;
+  description: string;
+  sideEffects: boolean;
+  configSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
+
+export interface TriggerTypeDescriptor {
+  type: TriggerType;
+  name: string;
+  description: string;
+  configSchema: JsonSchema;
+  outputSchema: JsonSchema; // Shape of {{trigger}}
+}
+
+export interface ActionTypesResponse {
+  actions: ActionTypeDescriptor[];
+  triggers: TriggerTypeDescriptor[];
+}
+
+export type WorkflowDefinitionFormat = 'json' | 'yaml';
+
+export interface ImportWorkflowResponse {
+  workflow: WorkflowResponse;
+  warnings: string[]; // Secrets and workflow references removed that need to be set again
+}
+
+export interface TemplateParameter {
+  key: string; // Replaces [[key]] placeholders in the template definition
+  label: string;
+  description?: string;
+  type?: 'string' | 'number' | 'email' | 'url';
+  default?: string | number;
+  required?: boolean; // Defaults to true
+}
+
+export interface WorkflowTemplate {
+  id: number;
+  key: string | null;
+  builtIn: boolean;
+  name: string;
+  description: string | null;
+  category: string | null;
+  parameters: TemplateParameter[];
+  definition: {
+    formatVersion: number;
+    workflow: {
+      name: string;
+      description?: string;
+      trigger: { type: TriggerType; config: Record<string, any> };
+      actions: Record<string, any>[];
+    };
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveAsTemplateRequest {
+  workflowId: number;
+  name?: string;
+  description?: string;
+  category?: string;
+}
+
+export interface InstantiateTemplateRequest {
+  name?: string;
+  parameters?: Record<string, string | number>;
+}
+
 export interface TriggerWorkflowRequest {
   triggerData?: Record<string, any>;
+  draft?: boolean; // Run the draft instead of the published version
+  dryRun?: boolean; // Preview emails, HTTP requests etc. instead of performing them
+  mockOutputs?: Record<string, any>; // Dry runs: action name -> output to use instead of running it
 }
 
 export interface UpdateWorkflowRequest {
   name?: string;
   description?: string;
   enabled?: boolean;
+  errorWorkflowId?: number | null;
   trigger?: CreateTrigger;
   actions?: CreateAction[];
 }
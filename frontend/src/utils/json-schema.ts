@@ -0,0 +1,34 @@
+/**
+ * Helpers for the JSON Schemas the backend declares for action and trigger configs
+ */
+import type { ActionTypeDescriptor, JsonSchema } from '../types/workflows';
+import { ACTION_APPEARANCE, DEFAULT_ACTION_APPEARANCE, ActionTypeConfig } from '../types/workflow-builder';
+
+/**
+ * The config a new node starts with: the schema's property defaults
+ */
+export function schemaDefaults(schema: JsonSchema): Record<string, any> {
+  const config: Record<string, any> = {};
+  for (const [key, property] of Object.entries(schema.properties || {})) {
+    if (property.default !== undefined) {
+      // Copy objects and arrays so nodes don't share them
+      config[key] = structuredClone(property.default);
+    }
+  }
+  return config;
+}
+
+/**
+ * Palette entry for a backend action type
+ */
+export function toActionTypeConfig(descriptor: ActionTypeDescriptor): ActionTypeConfig {
+  const appearance = ACTION_APPEARANCE[descriptor.type] || DEFAULT_ACTION_APPEARANCE;
+  return {
+    type: descriptor.type,
+    name: descriptor.name,
+    description: descriptor.description,
+    icon: appearance.icon,
+    color: appearance.color,
+    defaultConfig: schemaDefaults(descriptor.configSchema),
+  };
+}
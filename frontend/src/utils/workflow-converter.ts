@@ -6,6 +6,12 @@ import { CreateWorkflow, CreateAction } from '../types/workflows';
 import { useWorkflowBuilderStore } from '../store/workflow-builder.store';
 import { ActionType } from '../types/workflow-builder';
 
+/**
+ * Config fields that point at another action (fields with the 'action' widget). In the
+ * builder they hold node IDs; the backend expects order indices and returns action IDs.
+ */
+const ACTION_REFERENCE_FIELDS = ['trueActionId', 'falseActionId', 'loopActionId'];
+
 /**
  * Convert React Flow nodes and edges to backend workflow format
  */
@@ -43,12 +49,22 @@ export function convertToBackendFormat(): CreateWorkflow {
     const targets = edgeMap.get(node.id) || [];
 
     // Handle parallel action - set actionIds for all outgoing edges
+    // (except the node it continues with once the branches have joined)
     if (node.data.type === ActionType.PARALLEL) {
       config.actionIds = targets
+        .filter((targetId) => targetId !== node.data.nextNodeId)
         .map((targetId) => nodeIdToOrder.get(targetId))
         .filter((id) => id !== undefined) as number[];
     }
 
+    for (const field of ACTION_REFERENCE_FIELDS) {
+      if (typeof config[field] === 'string') {
+        config[field] = nodeIdToOrder.get(config[field]);
+      }
+      if (config[field] === undefined) {
+        delete config[field];
+      }
+    }
 
     // For sequential actions, nextActionId will be set below based on edges
 
@@ -60,6 +76,11 @@ export function convertToBackendFormat(): CreateWorkflow {
       positionX: node.position.x,
       positionY: node.position.y,
       retryConfig: node.data.retryConfig,
+      onError: node.data.onError,
+      errorActionOrder:
+        node.data.onError === 'branch' && node.data.errorActionNodeId
+          ? nodeIdToOrder.get(node.data.errorActionNodeId)
+          : undefined,
       // Store nodeId temporarily for relationship building
       _nodeId: node.id,
     } as CreateAction & { _nodeId: string };
@@ -92,6 +113,16 @@ export function convertToBackendFormat(): CreateWorkflow {
         console.log(`🎨 [WorkflowConverter] Sequential: action at order ${index} -> nextActionOrder ${nextOrder}`);
       }
     }
+
+    // Parallel actions continue with their join node once all branches are done
+    const node = actionNodes[index];
+    if (action.type === ActionType.PARALLEL && node.data.nextNodeId) {
+      const nextOrder = nodeIdToOrder.get(node.data.nextNodeId);
+      if (nextOrder !== undefined) {
+        action.nextActionOrder = nextOrder;
+        console.log(`🎨 [WorkflowConverter] Parallel join: action at order ${index} -> nextActionOrder ${nextOrder}`);
+      }
+    }
   });
 
   // Build parent-child relationships (parentActionOrder)
@@ -106,7 +137,11 @@ export function convertToBackendFormat(): CreateWorkflow {
     edges.forEach((edge) => {
       if (edge.target === nodeId) {
         const sourceNode = nodes.find((n) => n.id === edge.source);
-        if (sourceNode && sourceNode.data.type === ActionType.PARALLEL) {
+        if (
+          sourceNode &&
+          sourceNode.data.type === ActionType.PARALLEL &&
+          sourceNode.data.nextNodeId !== nodeId
+        ) {
           const parentOrder = nodeIdToOrder.get(sourceNode.id);
           if (parentOrder !== undefined && action.type !== ActionType.PARALLEL) {
             action.parentActionOrder = parentOrder;
@@ -131,6 +166,7 @@ export function convertToBackendFormat(): CreateWorkflow {
     name: workflowMeta.name,
     description: workflowMeta.description,
     enabled: workflowMeta.enabled,
+    errorWorkflowId: workflowMeta.errorWorkflowId ?? null,
     trigger: triggerWithPosition,
     actions,
   };
@@ -231,10 +267,26 @@ export function convertFromBackendFormat(workflow: any): {
         name: action.name,
         config: action.config,
         retryConfig: action.retryConfig,
+        onError: action.onError,
+        errorActionNodeId: action.errorActionId ? `action-${action.errorActionId}` : undefined,
+        nextNodeId:
+          action.type === ActionType.PARALLEL && action.nextActionId
+            ? `action-${action.nextActionId}`
+            : undefined,
       },
     });
   });
 
+  // Point action references at the nodes of the referenced actions
+  nodes.forEach((node) => {
+    for (const field of ACTION_REFERENCE_FIELDS) {
+      const actionId = node.data.config?.[field];
+      if (typeof actionId === 'number' && actionIdToNodeId.has(actionId)) {
+        node.data.config = { ...node.data.config, [field]: actionIdToNodeId.get(actionId) };
+      }
+    }
+  });
+
   // Find root actions (actions without parentActionId or with order 0)
   const rootActions = workflow.actions.filter(
     (action: any) => !action.parentActionId && action.order === 0